@@ -94,12 +94,14 @@ function AppRoutes() {
 function ReaderRouterWrapper() {
   const params = window.location.pathname.match(/^\/read\/(.+)$/);
   const token = params ? params[1] : '';
+  // Lien profond vers un article (résultat de recherche)
+  const initialArticleId = new URLSearchParams(window.location.search).get('article');
 
   if (!token) {
     return <Navigate to="/" replace />;
   }
 
-  return <ReaderRouter token={token} />;
+  return <ReaderRouter token={token} initialArticleId={initialArticleId} />;
 }
 
 function App() {
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { LogOut, Upload, FileText, Eye, Users, DollarSign, Shield, Send, Newspaper, LayoutDashboard } from 'lucide-react';
+import { LogOut, Upload, FileText, Eye, Users, DollarSign, Shield, Send, Newspaper, LayoutDashboard, MessageSquare, Tag, Fingerprint, Gauge } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import type { PDF } from '../lib/supabase';
@@ -13,8 +13,12 @@ import { SecurityAlerts } from './SecurityAlerts';
 import { ArticlesManager } from './ArticlesManager';
 import { Dashboard } from './Dashboard';
 import { SecurityMonitor } from './SecurityMonitor';
+import { NotificationQueue } from './NotificationQueue';
+import { PromoCodeManagement } from './PromoCodeManagement';
+import { LeakTracer } from './LeakTracer';
+import { RiskRulesManager } from './RiskRulesManager';
 
-type TabType = 'dashboard' | 'subscribers' | 'publish' | 'articles' | 'upload' | 'list' | 'payments' | 'security' | 'monitor' | 'logs';
+type TabType = 'dashboard' | 'subscribers' | 'publish' | 'notifications' | 'articles' | 'upload' | 'list' | 'payments' | 'promos' | 'security' | 'monitor' | 'risk' | 'leaks' | 'logs';
 
 export function AdminDashboard() {
   const { user, signOut } = useAuth();
@@ -113,6 +117,17 @@ export function AdminDashboard() {
               <Send className="w-5 h-5" />
               <span>Publication</span>
             </button>
+            <button
+              onClick={() => setActiveTab('notifications')}
+              className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors whitespace-nowrap ${
+                activeTab === 'notifications'
+                  ? 'text-amber-500 border-b-2 border-amber-500'
+                  : 'text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <MessageSquare className="w-5 h-5" />
+              <span>Notifications</span>
+            </button>
             <button
               onClick={() => setActiveTab('upload')}
               className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors whitespace-nowrap ${
@@ -146,6 +161,17 @@ export function AdminDashboard() {
               <DollarSign className="w-5 h-5" />
               <span>Paiements</span>
             </button>
+            <button
+              onClick={() => setActiveTab('promos')}
+              className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors whitespace-nowrap ${
+                activeTab === 'promos'
+                  ? 'text-amber-500 border-b-2 border-amber-500'
+                  : 'text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <Tag className="w-5 h-5" />
+              <span>Codes promo</span>
+            </button>
             <button
               onClick={() => setActiveTab('monitor')}
               className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors whitespace-nowrap ${
@@ -168,6 +194,28 @@ export function AdminDashboard() {
               <Shield className="w-5 h-5" />
               <span>Alertes</span>
             </button>
+            <button
+              onClick={() => setActiveTab('risk')}
+              className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors whitespace-nowrap ${
+                activeTab === 'risk'
+                  ? 'text-amber-500 border-b-2 border-amber-500'
+                  : 'text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <Gauge className="w-5 h-5" />
+              <span>Risque</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('leaks')}
+              className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors whitespace-nowrap ${
+                activeTab === 'leaks'
+                  ? 'text-amber-500 border-b-2 border-amber-500'
+                  : 'text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <Fingerprint className="w-5 h-5" />
+              <span>Traçage</span>
+            </button>
             <button
               onClick={() => setActiveTab('logs')}
               className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors whitespace-nowrap ${
@@ -187,11 +235,15 @@ export function AdminDashboard() {
           {activeTab === 'subscribers' && <SubscriberManagement />}
           {activeTab === 'articles' && <ArticlesManager />}
           {activeTab === 'publish' && <EditionPublisher />}
+          {activeTab === 'notifications' && <NotificationQueue />}
           {activeTab === 'upload' && <PDFUpload onUploadComplete={loadPDFs} />}
           {activeTab === 'list' && <PDFList pdfs={pdfs} loading={loading} onRefresh={loadPDFs} />}
           {activeTab === 'payments' && <PaymentManagement />}
+          {activeTab === 'promos' && <PromoCodeManagement />}
           {activeTab === 'monitor' && <SecurityMonitor />}
           {activeTab === 'security' && <SecurityAlerts />}
+          {activeTab === 'risk' && <RiskRulesManager />}
+          {activeTab === 'leaks' && <LeakTracer />}
           {activeTab === 'logs' && <AccessLogs />}
         </div>
       </div>
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Search, Loader2, FileText } from 'lucide-react';
+import { searchArticles, splitHighlight } from '../lib/articleSearch';
+import type { ArticleSearchResult } from '../lib/articleSearch';
+
+interface ArticleSearchProps {
+  variant: 'reader' | 'admin';
+  onSelect: (result: ArticleSearchResult) => void;
+  selectingId?: string | null;
+}
+
+const variantStyles = {
+  reader: {
+    input: 'bg-slate-800 border-slate-700 rounded-xl',
+    button: 'bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-xl',
+    result: 'bg-slate-800/50 border-slate-700 rounded-xl',
+  },
+  admin: {
+    input: 'bg-gray-700 border-gray-600 rounded-lg',
+    button: 'bg-amber-600 text-black rounded-lg hover:bg-amber-700',
+    result: 'bg-gray-700 border-gray-600 rounded-lg',
+  },
+};
+
+export function ArticleSearch({ variant, onSelect, selectingId }: ArticleSearchProps) {
+  const [query, setQuery] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const [results, setResults] = useState<ArticleSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const styles = variantStyles[variant];
+
+  const runSearch = async (searchQuery: string, offset: number) => {
+    setSearching(true);
+    setError('');
+    const data = await searchArticles(searchQuery, offset);
+    setSearching(false);
+
+    if (!data) {
+      setError('La recherche a échoué. Veuillez réessayer.');
+      return;
+    }
+
+    setResults(prev => (offset === 0 ? data.results : [...prev, ...data.results]));
+    setTotal(data.total);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim().length < 2) return;
+    setSubmittedQuery(query.trim());
+    runSearch(query, 0);
+  };
+
+  return (
+    <div>
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Rechercher un article (mots-clés, auteur, « expression exacte »)"
+            className={`w-full pl-9 pr-4 py-2.5 border text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 ${styles.input}`}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={searching || query.trim().length < 2}
+          className={`flex items-center gap-2 px-4 py-2.5 font-semibold text-sm transition-colors disabled:opacity-50 ${styles.button}`}
+        >
+          {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          Rechercher
+        </button>
+      </form>
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      {submittedQuery && !searching && results.length === 0 && !error && (
+        <p className="text-gray-400 text-sm">Aucun article ne correspond à « {submittedQuery} »</p>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <p className="text-gray-400 text-xs mb-3">
+            {total} résultat{total > 1 ? 's' : ''} pour « {submittedQuery} »
+          </p>
+          <div className="space-y-3">
+            {results.map((result) => (
+              <button
+                key={result.article_id}
+                onClick={() => onSelect(result)}
+                disabled={!!selectingId}
+                className={`w-full text-left border p-4 hover:border-amber-500 transition-colors disabled:opacity-60 ${styles.result}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <h4 className="text-white font-semibold">{result.titre}</h4>
+                    {result.sous_titre && (
+                      <p className="text-amber-400 text-sm italic">{result.sous_titre}</p>
+                    )}
+                    <p className="text-gray-300 text-sm mt-2">
+                      {splitHighlight(result.extrait).map((part, index) =>
+                        part.highlighted ? (
+                          <mark key={index} className="bg-amber-500/30 text-amber-200 rounded px-0.5">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-400">
+                      <span className="flex items-center gap-1">
+                        <FileText className="w-3 h-3" />
+                        {result.edition_titre}
+                      </span>
+                      {result.date_edition && (
+                        <span>{new Date(result.date_edition).toLocaleDateString('fr-FR')}</span>
+                      )}
+                      {result.auteur && <span>Par {result.auteur}</span>}
+                      {result.categorie && <span>{result.categorie}</span>}
+                    </div>
+                  </div>
+                  {selectingId === result.article_id && (
+                    <Loader2 className="w-5 h-5 animate-spin text-amber-500 flex-shrink-0" />
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {results.length < total && (
+            <button
+              onClick={() => runSearch(submittedQuery, results.length)}
+              disabled={searching}
+              className="w-full mt-4 py-2 text-sm text-amber-400 hover:text-amber-300 disabled:opacity-50"
+            >
+              {searching ? 'Chargement...' : `Afficher plus de résultats (${total - results.length} restants)`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,14 @@ import {
   ArrowRight,
   CheckCircle,
   Loader2,
+  Magnet,
   PenSquare,
+  Plus,
+  Redo2,
+  RefreshCw,
   Save,
   Trash2,
+  Undo2,
   X,
 } from 'lucide-react';
 import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist/build/pdf';
@@ -15,6 +20,31 @@ import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import { supabase } from '../lib/supabase';
 import type { Article, Edition, Page } from '../lib/supabase';
+import { useHistory } from '../hooks/useHistory';
+import { detectColumnGuides, extractZoneText, loadPageTextLayer } from '../lib/pageTextLayer';
+import type { TextLayerItem } from '../lib/pageTextLayer';
+import {
+  MIN_RECT_SIZE,
+  boundingRect,
+  buildSnapGuides,
+  clamp01,
+  clampOffset,
+  createZone,
+  diffPageZones,
+  intersects,
+  isZoneComplete,
+  isZoneModified,
+  offsetRect,
+  readingSeconds,
+  rectFromPoints,
+  resizeRect,
+  savePageArticles,
+  snapMove,
+  snapResize,
+  wordsCount,
+  zoneFromArticle,
+} from '../lib/zoneEditing';
+import type { NormalizedRect, ResizeHandle, SnapGuides, ZoneDraft } from '../lib/zoneEditing';
 
 GlobalWorkerOptions.workerSrc = pdfjsWorker;
 
@@ -23,19 +53,8 @@ interface ArticleZoneEditorProps {
   onClose: (refresh?: boolean) => void;
 }
 
-interface NormalizedRect {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-type FormMode = 'create' | 'edit';
-
 interface FormState {
-  mode: FormMode;
-  article: Article | null;
-  rect: NormalizedRect;
+  key: string;
   titre: string;
   sousTitre: string;
   auteur: string;
@@ -44,23 +63,67 @@ interface FormState {
   ordreLecture: number;
 }
 
-const MIN_RECT_SIZE = 0.01;
+interface Point {
+  x: number;
+  y: number;
+}
+
+type Interaction =
+  | { type: 'draw'; origin: Point }
+  | { type: 'marquee'; origin: Point }
+  | { type: 'move'; origin: Point; from: ZoneDraft[]; keys: string[] }
+  | { type: 'resize'; handle: ResizeHandle; key: string; index: number; from: ZoneDraft[] };
+
+const RESIZE_HANDLES: { handle: ResizeHandle; className: string }[] = [
+  { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { handle: 'n', className: 'left-1/2 -top-1.5 -translate-x-1/2 cursor-ns-resize' },
+  { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { handle: 'e', className: '-right-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+  { handle: 'se', className: '-bottom-1.5 -right-1.5 cursor-nwse-resize' },
+  { handle: 's', className: '-bottom-1.5 left-1/2 -translate-x-1/2 cursor-ns-resize' },
+  { handle: 'sw', className: '-bottom-1.5 -left-1.5 cursor-nesw-resize' },
+  { handle: 'w', className: '-left-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+];
+
+// Pas du déplacement au clavier (Maj : x10)
+const NUDGE_STEP = 0.001;
+
+const NO_GUIDES: SnapGuides = { vertical: [], horizontal: [] };
+
+const formFromZone = (zone: ZoneDraft): FormState => ({
+  key: zone.key,
+  titre: zone.titre,
+  sousTitre: zone.sousTitre,
+  auteur: zone.auteur,
+  categorie: zone.categorie,
+  contenu: zone.contenu,
+  ordreLecture: zone.ordreLecture,
+});
 
-const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+// Report du formulaire sur la zone ; même tableau si rien n'a changé (pas d'étape d'historique)
+const applyForm = (zones: ZoneDraft[], form: FormState): ZoneDraft[] => {
+  const zone = zones.find((item) => item.key === form.key);
+  if (!zone) return zones;
+
+  const fields = {
+    titre: form.titre,
+    sousTitre: form.sousTitre,
+    auteur: form.auteur,
+    categorie: form.categorie,
+    contenu: form.contenu,
+    ordreLecture: form.ordreLecture,
+  };
+  const unchanged = (Object.keys(fields) as (keyof typeof fields)[]).every(
+    (field) => zone[field] === fields[field]
+  );
+  if (unchanged) return zones;
 
-const wordsCount = (text: string) => {
-  if (!text) return 0;
-  const trimmed = text.trim();
-  if (!trimmed) return 0;
-  return trimmed.split(/\s+/).length;
+  return zones.map((item) => (item.key === form.key ? { ...item, ...fields } : item));
 };
 
-const toRect = (article: Article): NormalizedRect => ({
-  x: article.position_x,
-  y: article.position_y,
-  width: article.width,
-  height: article.height,
-});
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
 
 export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps) {
   const [loading, setLoading] = useState(true);
@@ -71,8 +134,13 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
   const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [formState, setFormState] = useState<FormState | null>(null);
-  const [drawOrigin, setDrawOrigin] = useState<NormalizedRect | null>(null);
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
   const [draftRect, setDraftRect] = useState<NormalizedRect | null>(null);
+  const [activeGuides, setActiveGuides] = useState<SnapGuides>(NO_GUIDES);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [textItems, setTextItems] = useState<TextLayerItem[]>([]);
+  const [appendingKey, setAppendingKey] = useState<string | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
   const [pdfSignedUrl, setPdfSignedUrl] = useState<string | null>(null);
@@ -80,6 +148,19 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
   const [canvasDimensions, setCanvasDimensions] = useState<{ width: number; height: number } | null>(null);
   const [confirming, setConfirming] = useState(false);
 
+  // Zones de la page courante, modifiées localement jusqu'à l'enregistrement
+  const {
+    present: zones,
+    update: updateZones,
+    preview: previewZones,
+    commit: commitZones,
+    undo,
+    redo,
+    reset: resetZones,
+    canUndo,
+    canRedo,
+  } = useHistory<ZoneDraft[]>([]);
+
   const canvasRef = useRef<HTMLDivElement>(null);
   const pdfCanvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -178,9 +259,6 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
         }
 
         setPages(resolvedPages);
-        if (!selectedPageId && resolvedPages.length > 0) {
-          setSelectedPageId(resolvedPages[0].id);
-        }
 
         const { data: articlesData, error: articlesError } = await supabase
           .from('articles')
@@ -189,7 +267,12 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
           .order('ordre_lecture', { ascending: true });
 
         if (articlesError) throw articlesError;
-        setArticles(articlesData || []);
+
+        const loadedArticles: Article[] = articlesData || [];
+        const firstPageId = resolvedPages[0]?.id ?? null;
+        setArticles(loadedArticles);
+        setSelectedPageId(firstPageId);
+        resetZones(loadedArticles.filter((article) => article.page_id === firstPageId).map(zoneFromArticle));
       } catch (error) {
         console.error('Failed to load edition data', error);
         setErrorMessage(
@@ -201,7 +284,8 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
     };
 
     loadData();
-  }, [editionId]);
+  }, [editionId, resetZones]);
+
 
   const selectedPage = useMemo(
     () => pages.find((page) => page.id === selectedPageId) || null,
@@ -213,6 +297,17 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
     [articles, selectedPageId]
   );
 
+  const pageChanges = useMemo(() => diffPageZones(zones, pageArticles), [zones, pageArticles]);
+  const pendingCount = pageChanges.changed.length + pageChanges.deletedIds.length;
+
+  // Les clés d'une zone supprimée (ou annulée) disparaissent de la sélection
+  const selection = useMemo(
+    () => selectedKeys.filter((key) => zones.some((zone) => zone.key === key)),
+    [selectedKeys, zones]
+  );
+
+  const formZone = formState ? zones.find((zone) => zone.key === formState.key) || null : null;
+
   useEffect(() => {
     if (!pdfDoc || !selectedPage || !pdfCanvasRef.current) return;
 
@@ -254,194 +349,362 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
     };
   }, [pdfDoc, selectedPage]);
 
+  useEffect(() => {
+    if (!selectedPage) return;
+
+    let cancelled = false;
+    setTextItems([]);
+
+    loadPageTextLayer(pdfDoc, selectedPage)
+      .then((items) => {
+        if (!cancelled) setTextItems(items);
+      })
+      .catch((error) => console.error('Failed to read page text layer', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDoc, selectedPage]);
+
+  const columnGuides = useMemo(() => detectColumnGuides(textItems), [textItems]);
+
   const maxOrdreLecture = useMemo(
     () =>
-      articles.reduce((acc, article) => Math.max(acc, article.ordre_lecture || 0), 0),
-    [articles]
+      [
+        ...articles.filter((article) => article.page_id !== selectedPageId).map((article) => article.ordre_lecture || 0),
+        ...zones.map((zone) => zone.ordreLecture),
+      ].reduce((acc, value) => Math.max(acc, value), 0),
+    [articles, zones, selectedPageId]
   );
 
+  const pointFromEvent = (event: React.PointerEvent<HTMLDivElement>): Point | null => {
+    const bounds = canvasRef.current?.getBoundingClientRect();
+    if (!bounds) return null;
+    return {
+      x: clamp01((event.clientX - bounds.left) / bounds.width),
+      y: clamp01((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const guidesExcluding = (source: ZoneDraft[], keys: string[]) =>
+    buildSnapGuides(
+      selectedPage,
+      columnGuides,
+      source.filter((zone) => !keys.includes(zone.key))
+    );
+
+  const openForm = (zone: ZoneDraft) => {
+    setFormState(formFromZone(zone));
+  };
+
   const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
-    const allowRedraw = formState?.mode === 'edit';
-    if (!selectedPage || saving || !pdfDoc) return;
-    if (formState && !allowRedraw) return;
+    if (!selectedPage || saving || !pdfDoc || event.button !== 0) return;
 
-    const bounds = canvasRef.current?.getBoundingClientRect();
-    if (!bounds) return;
+    const point = pointFromEvent(event);
+    if (!point) return;
+
+    const target = event.target as HTMLElement;
+    const handle = target.closest<HTMLElement>('[data-handle]')?.dataset.handle as ResizeHandle | undefined;
+    const zoneElement = target.closest<HTMLElement>('[data-zone-key]');
+    const zoneKey = zoneElement?.dataset.zoneKey;
 
-    const pointerX = clamp01((event.clientX - bounds.left) / bounds.width);
-    const pointerY = clamp01((event.clientY - bounds.top) / bounds.height);
+    if (zoneKey && event.shiftKey) {
+      setSelectedKeys((prev) =>
+        prev.includes(zoneKey) ? prev.filter((key) => key !== zoneKey) : [...prev, zoneKey]
+      );
+      return;
+    }
 
-    const originRect: NormalizedRect = { x: pointerX, y: pointerY, width: 0, height: 0 };
-    setDrawOrigin(originRect);
-    setDraftRect(originRect);
+    event.currentTarget.setPointerCapture(event.pointerId);
 
-    (event.target as HTMLElement).setPointerCapture(event.pointerId);
-  };
+    if (zoneKey && handle) {
+      const index = Number(zoneElement?.dataset.rectIndex) || 0;
+      setInteraction({ type: 'resize', handle, key: zoneKey, index, from: zones });
+      return;
+    }
 
-  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
-    if (!drawOrigin || !canvasRef.current) return;
-    const bounds = canvasRef.current.getBoundingClientRect();
-    const currentX = clamp01((event.clientX - bounds.left) / bounds.width);
-    const currentY = clamp01((event.clientY - bounds.top) / bounds.height);
-
-    const rectX = Math.min(drawOrigin.x, currentX);
-    const rectY = Math.min(drawOrigin.y, currentY);
-    const rectWidth = Math.abs(currentX - drawOrigin.x);
-    const rectHeight = Math.abs(currentY - drawOrigin.y);
-
-    setDraftRect({
-      x: rectX,
-      y: rectY,
-      width: rectWidth,
-      height: rectHeight,
-    });
+    // En ajout de bloc, on dessine aussi par-dessus les zones existantes
+    if (zoneKey && !appendingKey) {
+      const keys = selection.includes(zoneKey) ? selection : [zoneKey];
+      setSelectedKeys(keys);
+      setInteraction({ type: 'move', origin: point, from: zones, keys });
+      return;
+    }
+
+    setInteraction({ type: event.shiftKey ? 'marquee' : 'draw', origin: point });
+    setDraftRect({ x: point.x, y: point.y, width: 0, height: 0 });
   };
 
-  const finalizeDraftRect = () => {
-    if (!draftRect || draftRect.width < MIN_RECT_SIZE || draftRect.height < MIN_RECT_SIZE) {
-      setDraftRect(null);
-      setDrawOrigin(null);
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!interaction) return;
+    const point = pointFromEvent(event);
+    if (!point) return;
+
+    // Alt maintenu : pas d'aimantation pour ce geste
+    const snapping = snapEnabled && !event.altKey;
+
+    if (interaction.type === 'draw' || interaction.type === 'marquee') {
+      const rect = rectFromPoints(interaction.origin, point);
+      if (interaction.type === 'draw' && snapping) {
+        const handle = `${point.y < interaction.origin.y ? 'n' : 's'}${point.x < interaction.origin.x ? 'w' : 'e'}` as ResizeHandle;
+        const snapped = snapResize(rect, handle, guidesExcluding(zones, []));
+        setDraftRect(snapped.rect);
+        setActiveGuides(snapped.active);
+      } else {
+        setDraftRect(rect);
+      }
       return;
     }
 
-    if (formState?.mode === 'edit') {
-      setFormState((prev) => (prev ? { ...prev, rect: draftRect } : prev));
-      setDraftRect(null);
-      setDrawOrigin(null);
+    if (interaction.type === 'move') {
+      const { from, keys, origin } = interaction;
+      const bounds = boundingRect(from.filter((zone) => keys.includes(zone.key)).flatMap((zone) => zone.rects));
+      let { dx, dy } = clampOffset(bounds, point.x - origin.x, point.y - origin.y);
+
+      if (snapping) {
+        const snapped = snapMove(offsetRect(bounds, dx, dy), guidesExcluding(from, keys));
+        ({ dx, dy } = clampOffset(bounds, dx + snapped.dx, dy + snapped.dy));
+        setActiveGuides(snapped.active);
+      } else {
+        setActiveGuides(NO_GUIDES);
+      }
+
+      previewZones(() =>
+        from.map((zone) =>
+          keys.includes(zone.key)
+            ? { ...zone, rects: zone.rects.map((rect) => offsetRect(rect, dx, dy)) }
+            : zone
+        )
+      );
       return;
     }
 
-    openForm('create', draftRect, null);
+    const { from, key, index, handle } = interaction;
+    const zone = from.find((item) => item.key === key);
+    if (!zone || !zone.rects[index]) return;
+
+    let rect = resizeRect(zone.rects[index], handle, point);
+    if (snapping) {
+      // Les autres blocs du même article servent aussi de repères
+      const guides = buildSnapGuides(selectedPage, columnGuides, [
+        ...from.filter((item) => item.key !== key),
+        { ...zone, rects: zone.rects.filter((_, rectIndex) => rectIndex !== index) },
+      ]);
+      const snapped = snapResize(rect, handle, guides);
+      rect = snapped.rect;
+      setActiveGuides(snapped.active);
+    } else {
+      setActiveGuides(NO_GUIDES);
+    }
+
+    previewZones(() =>
+      from.map((item) =>
+        item.key === key
+          ? { ...item, rects: item.rects.map((current, rectIndex) => (rectIndex === index ? rect : current)) }
+          : item
+      )
+    );
+  };
+
+  const finishInteraction = (cancelled: boolean) => {
+    if (!interaction) return;
+
+    if (interaction.type === 'draw' && !cancelled) {
+      if (draftRect && draftRect.width >= MIN_RECT_SIZE && draftRect.height >= MIN_RECT_SIZE) {
+        if (appendingKey) {
+          appendBlock(appendingKey, draftRect);
+        } else {
+          // Titre, chapô, auteur et texte lus dans la couche texte de la page
+          const zone = createZone(draftRect, maxOrdreLecture + 1, extractZoneText(textItems, [draftRect]));
+          updateZones((current) => [...current, zone]);
+          setSelectedKeys([zone.key]);
+          openForm(zone);
+        }
+      } else {
+        // Simple clic dans le vide
+        setSelectedKeys([]);
+      }
+    } else if (interaction.type === 'marquee' && !cancelled && draftRect) {
+      const inside = zones
+        .filter((zone) => zone.rects.some((rect) => intersects(rect, draftRect)))
+        .map((zone) => zone.key);
+      setSelectedKeys((prev) => Array.from(new Set([...prev, ...inside])));
+    } else if (interaction.type === 'move' || interaction.type === 'resize') {
+      if (cancelled) {
+        previewZones(() => interaction.from);
+      } else {
+        // Un seul pas d'historique pour tout le geste
+        commitZones(interaction.from);
+      }
+    }
+
+    setInteraction(null);
     setDraftRect(null);
-    setDrawOrigin(null);
+    setActiveGuides(NO_GUIDES);
   };
 
   const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
-    if (!drawOrigin) return;
-    finalizeDraftRect();
-    (event.target as HTMLElement).releasePointerCapture(event.pointerId);
+    if (!interaction) return;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    finishInteraction(false);
   };
 
-  const handlePointerLeave = () => {
-    if (!drawOrigin) return;
-    finalizeDraftRect();
+  const selectZone = (zone: ZoneDraft, additive: boolean) => {
+    if (additive) {
+      setSelectedKeys((prev) =>
+        prev.includes(zone.key) ? prev.filter((key) => key !== zone.key) : [...prev, zone.key]
+      );
+      return;
+    }
+    setSelectedKeys([zone.key]);
+    openForm(zone);
+  };
+
+  const deleteSelection = () => {
+    if (selection.length === 0) return;
+    updateZones((current) => current.filter((zone) => !selection.includes(zone.key)));
+    if (formState && selection.includes(formState.key)) {
+      setFormState(null);
+    }
+    setSelectedKeys([]);
   };
 
-  const getNextOrder = () => maxOrdreLecture + 1;
-
-  const openForm = (mode: FormMode, rect: NormalizedRect, article: Article | null) => {
-    setFormState({
-      mode,
-      article,
-      rect,
-      titre: article?.titre || '',
-      sousTitre: article?.sous_titre || '',
-      auteur: article?.auteur || '',
-      categorie: article?.categorie || '',
-      contenu: article?.contenu_texte || '',
-      ordreLecture: article?.ordre_lecture || getNextOrder(),
+  const nudgeSelection = (dx: number, dy: number) => {
+    if (selection.length === 0) return;
+    updateZones((current) => {
+      const bounds = boundingRect(current.filter((zone) => selection.includes(zone.key)).flatMap((zone) => zone.rects));
+      const offset = clampOffset(bounds, dx, dy);
+      if (offset.dx === 0 && offset.dy === 0) return current;
+      return current.map((zone) =>
+        selection.includes(zone.key)
+          ? { ...zone, rects: zone.rects.map((rect) => offsetRect(rect, offset.dx, offset.dy)) }
+          : zone
+      );
     });
   };
 
-  const handleEditArticle = (article: Article) => {
-    setSelectedPageId(article.page_id);
-    openForm('edit', toRect(article), article);
+  // Le texte est relu sur tous les blocs ; ce que l'admin a déjà saisi est gardé si la page n'a pas de texte
+  const withBlocks = (zone: ZoneDraft, rects: NormalizedRect[]): ZoneDraft => {
+    const text = extractZoneText(textItems, rects);
+    return {
+      ...zone,
+      rects,
+      titre: zone.titre || text.titre,
+      sousTitre: zone.sousTitre || text.sousTitre,
+      auteur: zone.auteur || text.auteur,
+      contenu: text.contenu || zone.contenu,
+    };
   };
 
-  const handleDeleteArticle = async () => {
-    if (!formState?.article) return;
-    if (!window.confirm('Supprimer definitivement cet article ?')) return;
+  const replaceBlocks = (key: string, getRects: (zone: ZoneDraft) => NormalizedRect[]) => {
+    const base = formState?.key === key ? applyForm(zones, formState) : zones;
+    const zone = base.find((item) => item.key === key);
+    if (!zone) return;
 
-    setSaving(true);
-    try {
-      const { error } = await supabase.from('articles').delete().eq('id', formState.article.id);
-      if (error) throw error;
+    const next = withBlocks(zone, getRects(zone));
+    updateZones(() => base.map((item) => (item.key === key ? next : item)));
+    setSelectedKeys([key]);
+    openForm(next);
+  };
 
-      setArticles((prev) => prev.filter((item) => item.id !== formState.article?.id));
-      setFormState(null);
-      setHasChanges(true);
-    } catch (error) {
-      console.error('Failed to delete article', error);
-      setErrorMessage("Impossible de supprimer l'article pour le moment.");
-    } finally {
-      setSaving(false);
-    }
+  // Suite d'un article dans une autre colonne
+  const appendBlock = (key: string, rect: NormalizedRect) => {
+    replaceBlocks(key, (zone) => [...zone.rects, rect]);
+    setAppendingKey(null);
   };
 
-  const handleSaveForm = async () => {
-    if (!formState || !selectedPageId) return;
+  const removeBlock = (key: string, index: number) => {
+    replaceBlocks(key, (zone) => zone.rects.filter((_, rectIndex) => rectIndex !== index));
+  };
 
-    const { rect, article, mode, titre, sousTitre, auteur, categorie, contenu, ordreLecture } =
-      formState;
+  const handleRereadText = () => {
+    if (!formState || !formZone) return;
 
-    if (!titre.trim() || !contenu.trim()) {
-      setErrorMessage('Le titre et le contenu sont obligatoires.');
+    const text = extractZoneText(textItems, formZone.rects);
+    if (!text.titre && !text.contenu) {
+      setErrorMessage('Aucun texte lisible dans cette zone.');
       return;
     }
 
-    setSaving(true);
     setErrorMessage(null);
+    setFormState({ ...formState, ...text });
+  };
 
-    const motCount = wordsCount(contenu);
-    const readingSeconds = Math.max(60, Math.round((motCount / 200) * 60));
-
-    const payload = {
-      titre: titre.trim(),
-      sous_titre: sousTitre.trim() || null,
-      auteur: auteur.trim() || null,
-      categorie: categorie.trim() || null,
-      contenu_texte: contenu.trim(),
-      position_x: rect.x,
-      position_y: rect.y,
-      width: rect.width,
-      height: rect.height,
-      ordre_lecture: ordreLecture,
-      mots_count: motCount,
-      temps_lecture_estime: readingSeconds,
-      confidence_score: 1,
-      extraction_method: 'manual' as const,
-      ajuste_manuellement: true,
-      valide: true,
-    };
+  const handleApplyForm = () => {
+    if (!formState) return;
+    updateZones((current) => applyForm(current, formState));
+    setFormState(null);
+  };
 
-    try {
-      if (mode === 'create') {
-        const { data, error } = await supabase
-          .from('articles')
-          .insert({
-            ...payload,
-            edition_id: editionId,
-            page_id: selectedPageId,
-          })
-          .select()
-          .single();
+  const handleUndo = () => {
+    setFormState(null);
+    undo();
+  };
 
-        if (error) throw error;
-        setArticles((prev) => [...prev, data]);
-      } else if (article) {
-        const { data, error } = await supabase
-          .from('articles')
-          .update({
-            ...payload,
-            page_id: article.page_id,
-          })
-          .eq('id', article.id)
-          .select()
-          .single();
+  const handleRedo = () => {
+    setFormState(null);
+    redo();
+  };
 
-        if (error) throw error;
+  /*
+    Enregistre la page courante en une transaction (`save_page_articles`).
+    Le formulaire ouvert est repris tel quel. Renvoie les articles de
+    l'édition à jour, ou null si l'enregistrement a échoué.
+  */
+  const saveCurrentPage = async (): Promise<Article[] | null> => {
+    if (!selectedPageId) return articles;
 
-        setArticles((prev) => prev.map((item) => (item.id === data.id ? data : item)));
-      }
+    const pendingZones = formState ? applyForm(zones, formState) : zones;
+    const { changed, deletedIds } = diffPageZones(pendingZones, pageArticles);
+    if (changed.length === 0 && deletedIds.length === 0) return articles;
 
-      setFormState(null);
-      setHasChanges(true);
-    } catch (error) {
-      console.error('Failed to save article', error);
-      setErrorMessage("Impossible d'enregistrer l'article pour le moment.");
-    } finally {
-      setSaving(false);
+    if (pendingZones !== zones) {
+      updateZones(() => pendingZones);
+    }
+
+    const incomplete = changed.filter((zone) => !isZoneComplete(zone));
+    if (incomplete.length > 0) {
+      setSelectedKeys(incomplete.map((zone) => zone.key));
+      setErrorMessage(
+        `${incomplete.length} zone(s) sans titre ou contenu : complétez-les ou supprimez-les avant d'enregistrer.`
+      );
+      return null;
     }
+
+    setSaving(true);
+    setErrorMessage(null);
+    const result = await savePageArticles(selectedPageId, changed, deletedIds);
+    setSaving(false);
+
+    if (!result.success) {
+      setErrorMessage(`Impossible d'enregistrer la page : ${result.error}`);
+      return null;
+    }
+
+    const savedArticles = result.articles || [];
+    const nextArticles = [...articles.filter((article) => article.page_id !== selectedPageId), ...savedArticles];
+    setArticles(nextArticles);
+    resetZones(savedArticles.map(zoneFromArticle));
+    setSelectedKeys([]);
+    setFormState(null);
+    setHasChanges(true);
+    return nextArticles;
+  };
+
+  // Changer de page enregistre d'abord la page courante
+  const goToPage = async (pageId: string) => {
+    if (pageId === selectedPageId || saving) return;
+
+    const currentArticles = await saveCurrentPage();
+    if (!currentArticles) return;
+
+    setSelectedPageId(pageId);
+    resetZones(currentArticles.filter((article) => article.page_id === pageId).map(zoneFromArticle));
+    setSelectedKeys([]);
+    setFormState(null);
+    setAppendingKey(null);
   };
 
   const movePage = (direction: 'prev' | 'next') => {
@@ -449,17 +712,84 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
     const currentIndex = pages.findIndex((page) => page.id === selectedPage.id);
     const nextIndex = direction === 'prev' ? currentIndex - 1 : currentIndex + 1;
     if (nextIndex < 0 || nextIndex >= pages.length) return;
-    setSelectedPageId(pages[nextIndex].id);
+    goToPage(pages[nextIndex].id);
   };
 
-  const closeEditor = () => {
+  const closeEditor = async () => {
+    if (pendingCount > 0 || formState) {
+      const saved = await saveCurrentPage();
+      if (!saved && !confirm('Les modifications de cette page ne sont pas enregistrées. Fermer quand même ?')) {
+        return;
+      }
+    }
     onClose(hasChanges);
   };
 
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const modifier = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+
+      if (modifier && key === 's') {
+        event.preventDefault();
+        saveCurrentPage();
+        return;
+      }
+
+      if (isTypingTarget(event.target) || saving) return;
+
+      if (modifier && key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      } else if (modifier && key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      } else if (modifier && key === 'a') {
+        event.preventDefault();
+        setSelectedKeys(zones.map((zone) => zone.key));
+      } else if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        deleteSelection();
+      } else if (event.key.startsWith('Arrow') && selection.length > 0) {
+        event.preventDefault();
+        const step = event.shiftKey ? NUDGE_STEP * 10 : NUDGE_STEP;
+        const offsets: Record<string, [number, number]> = {
+          ArrowLeft: [-step, 0],
+          ArrowRight: [step, 0],
+          ArrowUp: [0, -step],
+          ArrowDown: [0, step],
+        };
+        nudgeSelection(...(offsets[event.key] || [0, 0]));
+      } else if (event.key === 'PageUp' || event.key === 'PageDown') {
+        event.preventDefault();
+        movePage(event.key === 'PageUp' ? 'prev' : 'next');
+      } else if (event.key === 'Escape') {
+        if (interaction) {
+          finishInteraction(true);
+        } else if (appendingKey) {
+          setAppendingKey(null);
+        } else if (formState) {
+          setFormState(null);
+        } else {
+          setSelectedKeys([]);
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleConfirmAnnotations = async () => {
     if (confirming) return;
     if (!confirm("Confirmer l'annotation de cette edition ?")) return;
 
+    if (!(await saveCurrentPage())) return;
+
     setConfirming(true);
     try {
       const { error } = await supabase
@@ -479,6 +809,8 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
     }
   };
 
+  const sortedZones = zones.slice().sort((a, b) => a.ordreLecture - b.ordreLecture);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
       <div className="flex h-full w-full max-w-7xl flex-col rounded-2xl border border-slate-700 bg-slate-900 shadow-2xl">
@@ -494,7 +826,7 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
           <div className="flex items-center gap-2">
             <button
               onClick={handleConfirmAnnotations}
-              disabled={confirming}
+              disabled={confirming || saving}
               className="flex items-center gap-2 rounded-lg border border-emerald-600 px-3 py-2 text-sm font-medium text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-60"
             >
               {confirming ? (
@@ -511,7 +843,8 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
             </button>
             <button
               onClick={closeEditor}
-              className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-slate-300 transition hover:bg-slate-700 hover:text-white"
+              disabled={saving}
+              className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-slate-300 transition hover:bg-slate-700 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
             >
               <X className="h-5 w-5" />
             </button>
@@ -529,14 +862,14 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
 
         <div className="flex flex-1 flex-col gap-6 overflow-hidden p-6 lg:flex-row">
           <div className="flex flex-1 flex-col gap-4 overflow-hidden">
-            <div className="flex items-center justify-between">
+            <div className="flex flex-wrap items-center justify-between gap-3">
               <div className="flex items-center gap-3">
                 <span className="rounded-lg bg-slate-800 px-3 py-1 text-sm text-slate-300">
                   Page {selectedPage ? selectedPage.page_number : '--'} / {pages.length}
                 </span>
                 <button
                   onClick={() => movePage('prev')}
-                  disabled={!selectedPage || pages.length === 0 || pages[0].id === selectedPageId}
+                  disabled={!selectedPage || pages.length === 0 || pages[0].id === selectedPageId || saving}
                   className="flex items-center gap-2 rounded-lg border border-slate-700 px-3 py-1.5 text-sm text-slate-300 transition hover:border-amber-500 hover:text-amber-300 disabled:cursor-not-allowed disabled:border-slate-800 disabled:text-slate-600"
                 >
                   <ArrowLeft className="h-4 w-4" />
@@ -547,7 +880,8 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                   disabled={
                     !selectedPage ||
                     pages.length === 0 ||
-                    pages[pages.length - 1].id === selectedPageId
+                    pages[pages.length - 1].id === selectedPageId ||
+                    saving
                   }
                   className="flex items-center gap-2 rounded-lg border border-slate-700 px-3 py-1.5 text-sm text-slate-300 transition hover:border-amber-500 hover:text-amber-300 disabled:cursor-not-allowed disabled:border-slate-800 disabled:text-slate-600"
                 >
@@ -555,11 +889,52 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                   <ArrowRight className="h-4 w-4" />
                 </button>
               </div>
-              <div className="flex items-center gap-3">
-                <PenSquare className="h-5 w-5 text-amber-400" />
-                <span className="text-sm text-slate-400">
-                  Astuce : cliquez-glissez pour creer une zone.
-                </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleUndo}
+                  disabled={!canUndo || saving}
+                  title="Annuler (Ctrl+Z)"
+                  className="rounded-lg border border-slate-700 p-2 text-slate-300 transition hover:border-amber-500 hover:text-amber-300 disabled:cursor-not-allowed disabled:border-slate-800 disabled:text-slate-600"
+                >
+                  <Undo2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={!canRedo || saving}
+                  title="Rétablir (Ctrl+Maj+Z)"
+                  className="rounded-lg border border-slate-700 p-2 text-slate-300 transition hover:border-amber-500 hover:text-amber-300 disabled:cursor-not-allowed disabled:border-slate-800 disabled:text-slate-600"
+                >
+                  <Redo2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setSnapEnabled((prev) => !prev)}
+                  title="Aimanter aux blocs de texte et aux colonnes (Alt pour ignorer)"
+                  className={`rounded-lg border p-2 transition ${
+                    snapEnabled
+                      ? 'border-amber-500 bg-amber-500/10 text-amber-300'
+                      : 'border-slate-700 text-slate-400 hover:border-amber-500 hover:text-amber-300'
+                  }`}
+                >
+                  <Magnet className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={deleteSelection}
+                  disabled={selection.length === 0 || saving}
+                  title="Supprimer la sélection (Suppr)"
+                  className="flex items-center gap-2 rounded-lg border border-slate-700 px-3 py-1.5 text-sm text-slate-300 transition hover:border-red-500 hover:text-red-300 disabled:cursor-not-allowed disabled:border-slate-800 disabled:text-slate-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  {selection.length > 0 ? selection.length : ''}
+                </button>
+                <button
+                  onClick={() => saveCurrentPage()}
+                  disabled={saving || (pendingCount === 0 && !formState)}
+                  title="Enregistrer la page (Ctrl+S)"
+                  className="flex items-center gap-2 rounded-lg bg-gradient-to-r from-amber-500 to-orange-500 px-3 py-1.5 text-sm font-semibold text-black transition hover:from-amber-600 hover:to-orange-600 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  {pendingCount > 0 ? `Enregistrer (${pendingCount})` : 'Enregistré'}
+                </button>
               </div>
             </div>
 
@@ -580,7 +955,7 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                   onPointerDown={handlePointerDown}
                   onPointerMove={handlePointerMove}
                   onPointerUp={handlePointerUp}
-                  onPointerLeave={handlePointerLeave}
+                  onPointerCancel={() => finishInteraction(true)}
                   style={{
                     touchAction: 'none',
                     aspectRatio: canvasDimensions
@@ -609,30 +984,59 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                     </div>
                   )}
 
-                  {pageArticles.map((article) => (
-                    <button
-                      key={article.id}
-                      type="button"
-                      onPointerDown={(event) => {
-                        event.stopPropagation();
-                        handleEditArticle(article);
-                      }}
-                      style={{
-                        left: `${article.position_x * 100}%`,
-                        top: `${article.position_y * 100}%`,
-                        width: `${article.width * 100}%`,
-                        height: `${article.height * 100}%`,
-                      }}
-                      className="absolute rounded border-2 border-transparent bg-transparent transition hover:border-amber-400 hover:bg-amber-500/20"
-                      title={article.titre}
-                    >
-                      <span className="sr-only">{article.titre}</span>
-                    </button>
-                  ))}
+                  {zones.flatMap((zone) => {
+                    const selected = selection.includes(zone.key);
+                    const incomplete = !isZoneComplete(zone);
+
+                    return zone.rects.map((rect, index) => (
+                      <div
+                        key={`${zone.key}-${index}`}
+                        data-zone-key={zone.key}
+                        data-rect-index={index}
+                        onDoubleClick={() => openForm(zone)}
+                        style={{
+                          left: `${rect.x * 100}%`,
+                          top: `${rect.y * 100}%`,
+                          width: `${rect.width * 100}%`,
+                          height: `${rect.height * 100}%`,
+                        }}
+                        className={`absolute rounded border-2 transition-colors ${
+                          appendingKey ? 'cursor-crosshair' : 'cursor-move'
+                        } ${
+                          selected
+                            ? 'border-amber-400 bg-amber-500/20'
+                            : incomplete
+                              ? 'border-dashed border-red-400 bg-red-500/10'
+                              : isZoneModified(zone)
+                                ? 'border-sky-400/80 bg-sky-400/10 hover:border-amber-400'
+                                : 'border-slate-400/40 hover:border-amber-400 hover:bg-amber-500/10'
+                        }`}
+                        title={zone.titre || 'Zone sans titre'}
+                      >
+                        <span className="pointer-events-none absolute left-0 top-0 rounded-br bg-slate-900/80 px-1 text-[10px] text-slate-200">
+                          {zone.rects.length > 1 ? `${zone.ordreLecture}.${index + 1}` : zone.ordreLecture}
+                        </span>
+                        {selected &&
+                          selection.length === 1 &&
+                          !appendingKey &&
+                          RESIZE_HANDLES.map(({ handle, className }) => (
+                            <span
+                              key={handle}
+                              data-handle={handle}
+                              className={`absolute h-3 w-3 rounded-sm border border-slate-900 bg-amber-400 ${className}`}
+                            />
+                          ))}
+                      </div>
+                    ));
+                  })}
 
                   {draftRect && (
                     <div
-                      className="absolute border-2 border-dashed border-amber-400 bg-amber-500/20"
+                      className={`pointer-events-none absolute border-2 border-dashed ${
+                        interaction?.type === 'marquee'
+                          ? 'border-sky-400 bg-sky-400/10'
+                          : 'border-amber-400 bg-amber-500/20'
+                      }`}
                       style={{
                         left: `${draftRect.x * 100}%`,
                         top: `${draftRect.y * 100}%`,
@@ -642,17 +1046,20 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                     />
                   )}
 
-                  {formState && (
+                  {activeGuides.vertical.map((x) => (
                     <div
-                      className="pointer-events-none absolute border-2 border-emerald-400 bg-emerald-400/10"
-                      style={{
-                        left: `${formState.rect.x * 100}%`,
-                        top: `${formState.rect.y * 100}%`,
-                        width: `${formState.rect.width * 100}%`,
-                        height: `${formState.rect.height * 100}%`,
-                      }}
+                      key={`v-${x}`}
+                      className="pointer-events-none absolute bottom-0 top-0 w-px bg-fuchsia-400"
+                      style={{ left: `${x * 100}%` }}
                     />
-                  )}
+                  ))}
+                  {activeGuides.horizontal.map((y) => (
+                    <div
+                      key={`h-${y}`}
+                      className="pointer-events-none absolute left-0 right-0 h-px bg-fuchsia-400"
+                      style={{ top: `${y * 100}%` }}
+                    />
+                  ))}
                 </div>
               )}
             </div>
@@ -664,13 +1071,16 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                 <div className="flex items-center justify-between">
                   <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
                     <PenSquare className="h-5 w-5 text-amber-400" />
-                    {formState.mode === 'create' ? 'Nouvel article' : "Modifier l'article"}
+                    {formZone?.article ? "Modifier l'article" : 'Nouvel article'}
                   </h3>
                   <button
-                    onClick={() => setFormState(null)}
+                    onClick={() => {
+                      setFormState(null);
+                      setAppendingKey(null);
+                    }}
                     className="rounded-lg border border-slate-700 px-2 py-1 text-xs text-slate-400 transition hover:border-slate-500 hover:text-white"
                   >
-                    Annuler
+                    Fermer
                   </button>
                 </div>
 
@@ -780,60 +1190,92 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                     />
                   </div>
 
-                  <div className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-xs text-slate-400">
-                    <p>
-                      Zone :{' '}
-                      <span className="font-medium text-slate-300">
-                        {(formState.rect.x * 100).toFixed(1)}% /{' '}
-                        {(formState.rect.y * 100).toFixed(1)}% - taille{' '}
-                        {(formState.rect.width * 100).toFixed(1)}% x{' '}
-                        {(formState.rect.height * 100).toFixed(1)}%
-                      </span>
-                    </p>
-                    <p className="mt-1">
-                      Mots estimes :{' '}
-                      <span className="font-medium text-slate-300">
-                        {wordsCount(formState.contenu)}
-                      </span>
-                    </p>
-                    {formState.mode === 'edit' && (
+                  {formZone && (
+                    <div className="rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2 text-xs text-slate-400">
+                      <div className="flex items-center justify-between">
+                        <span>Blocs ({formZone.rects.length})</span>
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={handleRereadText}
+                            disabled={textItems.length === 0}
+                            title="Relire titre, chapô, auteur et contenu dans les blocs"
+                            className="flex items-center gap-1 rounded border border-slate-700 px-2 py-0.5 text-[11px] text-slate-300 transition hover:border-amber-500 hover:text-amber-300 disabled:cursor-not-allowed disabled:opacity-50"
+                          >
+                            <RefreshCw className="h-3 w-3" />
+                            Relire
+                          </button>
+                          <button
+                            onClick={() => setAppendingKey(appendingKey === formZone.key ? null : formZone.key)}
+                            className={`flex items-center gap-1 rounded border px-2 py-0.5 text-[11px] transition ${
+                              appendingKey === formZone.key
+                                ? 'border-amber-500 bg-amber-500/10 text-amber-300'
+                                : 'border-slate-700 text-slate-300 hover:border-amber-500 hover:text-amber-300'
+                            }`}
+                          >
+                            <Plus className="h-3 w-3" />
+                            Ajouter un bloc
+                          </button>
+                        </div>
+                      </div>
+                      <ul className="mt-2 space-y-1">
+                        {formZone.rects.map((rect, index) => (
+                          <li key={index} className="flex items-center justify-between">
+                            <span className="font-medium text-slate-300">
+                              {index + 1}. {(rect.x * 100).toFixed(1)}% / {(rect.y * 100).toFixed(1)}% - taille{' '}
+                              {(rect.width * 100).toFixed(1)}% x {(rect.height * 100).toFixed(1)}%
+                            </span>
+                            {formZone.rects.length > 1 && (
+                              <button
+                                onClick={() => removeBlock(formZone.key, index)}
+                                title="Retirer ce bloc"
+                                className="text-slate-500 transition hover:text-red-300"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="mt-2">
+                        Mots estimes :{' '}
+                        <span className="font-medium text-slate-300">
+                          {wordsCount(formState.contenu)}
+                        </span>
+                        {' '}- lecture{' '}
+                        <span className="font-medium text-slate-300">
+                          {Math.round(readingSeconds(formState.contenu) / 60)} min
+                        </span>
+                      </p>
                       <p className="mt-1 text-[11px] text-slate-500">
-                        Tracez une nouvelle zone sur la page pour ajuster la position.
+                        {appendingKey === formZone.key
+                          ? "Dessinez la suite de l'article sur la page (Échap pour annuler)."
+                          : 'Déplacez la zone ou tirez ses poignées sur la page pour ajuster la position.'}
                       </p>
-                    )}
-                  </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center justify-between pt-2">
-                  {formState.mode === 'edit' ? (
-                    <button
-                      onClick={handleDeleteArticle}
-                      disabled={saving}
-                      className="flex items-center gap-2 rounded-lg border border-red-900 px-3 py-2 text-sm font-medium text-red-300 transition hover:bg-red-900/30 disabled:cursor-not-allowed disabled:opacity-60"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                      Supprimer
-                    </button>
-                  ) : (
-                    <span />
-                  )}
+                  <button
+                    onClick={() => {
+                      updateZones((current) => current.filter((zone) => zone.key !== formState.key));
+                      setFormState(null);
+                      setAppendingKey(null);
+                    }}
+                    disabled={saving}
+                    className="flex items-center gap-2 rounded-lg border border-red-900 px-3 py-2 text-sm font-medium text-red-300 transition hover:bg-red-900/30 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Supprimer
+                  </button>
 
                   <button
-                    onClick={handleSaveForm}
+                    onClick={handleApplyForm}
                     disabled={saving}
-                    className="flex items-center gap-2 rounded-lg bg-gradient-to-r from-amber-500 to-orange-500 px-4 py-2 text-sm font-semibold text-black transition hover:from-amber-600 hover:to-orange-600 disabled:cursor-not-allowed disabled:opacity-60"
+                    className="flex items-center gap-2 rounded-lg border border-amber-500 px-4 py-2 text-sm font-semibold text-amber-300 transition hover:bg-amber-500/10 disabled:cursor-not-allowed disabled:opacity-60"
                   >
-                    {saving ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                        Enregistrement...
-                      </>
-                    ) : (
-                      <>
-                        <Save className="h-4 w-4" />
-                        Enregistrer
-                      </>
-                    )}
+                    <CheckCircle className="h-4 w-4" />
+                    Appliquer
                   </button>
                 </div>
               </div>
@@ -846,8 +1288,12 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                       Dessinez une zone sur la page pour creer un nouvel article.
                     </p>
                     <ul className="space-y-1 text-slate-400">
-                      <li>- Cliquez-glissez pour definir la zone de l'article.</li>
-                      <li>- Cliquez sur une zone existante pour modifier texte et position.</li>
+                      <li>- Cliquez-glissez dans le vide pour définir une zone, Maj+glisser pour sélectionner.</li>
+                      <li>- Maj+clic ajoute une zone à la sélection ; glissez pour déplacer toute la sélection.</li>
+                      <li>- Le texte de la zone pré-remplit titre, chapô, auteur et contenu.</li>
+                      <li>- Double-cliquez une zone pour modifier son texte ou lui ajouter un bloc.</li>
+                      <li>- Ctrl+Z / Ctrl+Maj+Z : annuler / rétablir. Suppr : supprimer. Flèches : déplacer.</li>
+                      <li>- Ctrl+S enregistre la page ; changer de page l'enregistre aussi.</li>
                       <li>- L'ordre de lecture impacte l'affichage dans la liseuse.</li>
                     </ul>
                   </div>
@@ -857,41 +1303,55 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
 
             <div className="rounded-xl border border-slate-800 bg-slate-950 p-5">
               <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-slate-400">
-                Articles sur cette page ({pageArticles.length})
+                Articles sur cette page ({zones.length})
               </h3>
 
-              {pageArticles.length === 0 ? (
+              {zones.length === 0 ? (
                 <p className="text-sm text-slate-500">
                   Aucun article n'est associe a cette page pour le moment.
                 </p>
               ) : (
                 <div className="space-y-2">
-                  {pageArticles
-                    .slice()
-                    .sort((a, b) => (a.ordre_lecture || 0) - (b.ordre_lecture || 0))
-                    .map((article) => (
-                      <button
-                        key={article.id}
-                        type="button"
-                        onClick={() => handleEditArticle(article)}
-                        className="flex w-full flex-col rounded-lg border border-slate-800 bg-slate-900 px-3 py-2 text-left transition hover:border-amber-500/80 hover:bg-amber-500/10"
-                      >
-                        <div className="flex items-center justify-between text-xs text-slate-400">
-                          <span>Ordre {article.ordre_lecture}</span>
-                          <span>
-                            {(article.width * 100).toFixed(1)}% x {(article.height * 100).toFixed(1)}%
-                          </span>
-                        </div>
-                        <span className="mt-1 text-sm font-semibold text-white">
-                          {article.titre}
+                  {sortedZones.map((zone) => (
+                    <button
+                      key={zone.key}
+                      type="button"
+                      onClick={(event) => selectZone(zone, event.shiftKey)}
+                      className={`flex w-full flex-col rounded-lg border px-3 py-2 text-left transition ${
+                        selection.includes(zone.key)
+                          ? 'border-amber-500 bg-amber-500/10'
+                          : 'border-slate-800 bg-slate-900 hover:border-amber-500/80 hover:bg-amber-500/10'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between text-xs text-slate-400">
+                        <span>
+                          Ordre {zone.ordreLecture}
+                          {!zone.article ? (
+                            <span className="ml-2 text-sky-300">nouvelle</span>
+                          ) : (
+                            isZoneModified(zone) && <span className="ml-2 text-sky-300">modifiée</span>
+                          )}
+                        </span>
+                        <span>
+                          {zone.rects.length > 1
+                            ? `${zone.rects.length} blocs`
+                            : `${(zone.rects[0].width * 100).toFixed(1)}% x ${(zone.rects[0].height * 100).toFixed(1)}%`}
                         </span>
-                        {article.auteur && (
-                          <span className="text-xs text-slate-400">{article.auteur}</span>
-                        )}
-                      </button>
-                    ))}
+                      </div>
+                      <span className="mt-1 text-sm font-semibold text-white">
+                        {zone.titre || 'Sans titre'}
+                      </span>
+                      {zone.auteur && <span className="text-xs text-slate-400">{zone.auteur}</span>}
+                    </button>
+                  ))}
                 </div>
               )}
+
+              {pageChanges.deletedIds.length > 0 && (
+                <p className="mt-3 text-xs text-red-300">
+                  {pageChanges.deletedIds.length} article(s) seront supprimés à l'enregistrement.
+                </p>
+              )}
             </div>
 
             <div className="rounded-xl border border-slate-800 bg-slate-950 p-5">
@@ -903,7 +1363,8 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                   <button
                     key={page.id}
                     type="button"
-                    onClick={() => setSelectedPageId(page.id)}
+                    onClick={() => goToPage(page.id)}
+                    disabled={saving}
                     className={`rounded-lg border px-2 py-2 transition ${
                       page.id === selectedPageId
                         ? 'border-amber-500 bg-amber-500/10 text-amber-300'
@@ -912,7 +1373,10 @@ export function ArticleZoneEditor({ editionId, onClose }: ArticleZoneEditorProps
                   >
                     Page {page.page_number}
                     <div className="mt-1 text-[10px] text-slate-500">
-                      {articles.filter((article) => article.page_id === page.id).length} article(s)
+                      {page.id === selectedPageId
+                        ? zones.length
+                        : articles.filter((article) => article.page_id === page.id).length}{' '}
+                      article(s)
                     </div>
                   </button>
                 ))}
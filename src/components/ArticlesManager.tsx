@@ -12,13 +12,28 @@ import {
   X,
   PenSquare,
   Trash2,
+  ImageIcon,
+  RotateCcw,
+  ScanText,
+  GitCompare,
 } from 'lucide-react';
 import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist/build/pdf';
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import type { Edition, Article } from '../lib/supabase';
+import type { Edition, Article, ExtractionJob } from '../lib/supabase';
 import { ArticleZoneEditor } from './ArticleZoneEditor';
+import { ArticleSearch } from './ArticleSearch';
+import { ExtractionComparison } from './ExtractionComparison';
+import { generateEditionPreviews } from '../lib/pageImages';
+import {
+  startExtraction,
+  resumeExtraction,
+  getLatestExtractionJobs,
+  isExtractionJobActive,
+  isExtractionJobResumable,
+  subscribeToExtractionJobs,
+} from '../lib/extraction';
 
 GlobalWorkerOptions.workerSrc = pdfjsWorker;
 
@@ -71,11 +86,30 @@ export function ArticlesManager() {
   const [editingEditionId, setEditingEditionId] = useState<string | null>(null);
   const [deletingArticleId, setDeletingArticleId] = useState<string | null>(null);
   const [clearingEditionId, setClearingEditionId] = useState<string | null>(null);
+  const [highlightedArticleId, setHighlightedArticleId] = useState<string | null>(null);
+  const [generatingPreviewsId, setGeneratingPreviewsId] = useState<string | null>(null);
+  const [extractionJobs, setExtractionJobs] = useState<Record<string, ExtractionJob>>({});
+  const [startingExtractionId, setStartingExtractionId] = useState<string | null>(null);
+  const [comparingEditionId, setComparingEditionId] = useState<string | null>(null);
 
   useEffect(() => {
     loadEditions();
   }, []);
 
+  useEffect(() => {
+    return subscribeToExtractionJobs((job) => {
+      setExtractionJobs((prev) => ({ ...prev, [job.edition_id]: job }));
+      if (job.statut === 'termine' || job.statut === 'echoue') {
+        refreshEdition(job.edition_id);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!highlightedArticleId || loadingArticles) return;
+    document.getElementById(`article-${highlightedArticleId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedArticleId, loadingArticles, articles]);
+
   const loadEditions = async () => {
     setLoading(true);
     try {
@@ -86,6 +120,7 @@ export function ArticlesManager() {
 
       if (error) throw error;
       setEditions(data || []);
+      setExtractionJobs(await getLatestExtractionJobs((data || []).map((edition) => edition.id)));
     } catch (error) {
       console.error('Error loading editions:', error);
     } finally {
@@ -93,6 +128,51 @@ export function ArticlesManager() {
     }
   };
 
+  // Rafraîchit une seule ligne, sans l'écran de chargement global (l'éditeur peut être ouvert)
+  const refreshEdition = async (editionId: string) => {
+    const { data } = await supabase.from('editions').select('*').eq('id', editionId).maybeSingle();
+    if (data) {
+      setEditions((prev) => prev.map((edition) => (edition.id === editionId ? data : edition)));
+    }
+  };
+
+  const generatePreviews = async (editionId: string) => {
+    setGeneratingPreviewsId(editionId);
+    const result = await generateEditionPreviews(editionId);
+    setGeneratingPreviewsId(null);
+
+    if (!result.success) {
+      alert('Erreur lors de la génération des aperçus: ' + result.error);
+    }
+    refreshEdition(editionId);
+  };
+
+  const runExtraction = async (editionId: string) => {
+    const job = extractionJobs[editionId];
+    const resumable = job && isExtractionJobResumable(job);
+
+    if (
+      !resumable &&
+      !confirm("Relancer l'extraction automatique ? Les extraits automatiques seront remplacés, les articles ajustés manuellement sont conservés.")
+    ) {
+      return;
+    }
+
+    setStartingExtractionId(editionId);
+    const result = resumable ? await resumeExtraction(job.id) : await startExtraction(editionId);
+    setStartingExtractionId(null);
+
+    if (!result.success) {
+      alert("Erreur lors de l'extraction: " + result.error);
+      return;
+    }
+
+    if (result.job) {
+      setExtractionJobs((prev) => ({ ...prev, [editionId]: result.job! }));
+    }
+    refreshEdition(editionId);
+  };
+
   const loadArticles = async (editionId: string) => {
     setLoadingArticles(true);
     try {
@@ -116,6 +196,7 @@ export function ArticlesManager() {
   const closeArticlesView = () => {
     setViewingEditionId(null);
     setArticles([]);
+    setHighlightedArticleId(null);
   };
 
   const openEditor = (editionId: string) => {
@@ -245,6 +326,14 @@ export function ArticlesManager() {
       alert('PDF televerse avec succes. Lancez l annotation manuelle.');
       setEditingEditionId(editionData.id);
 
+      // Rendu des pages en arrière-plan : l'annotation peut commencer sans attendre
+      generateEditionPreviews(editionData.id).then((result) => {
+        if (!result.success) {
+          console.warn('Génération des aperçus incomplète', result.error);
+        }
+        refreshEdition(editionData.id);
+      });
+
       setSelectedFile(null);
       setEditionTitle('');
       setEditionNumber('');
@@ -299,6 +388,42 @@ export function ArticlesManager() {
     }
   };
 
+  const renderExtractionStatus = (job: ExtractionJob) => {
+    const progress = job.total_pages > 0 ? `page ${job.page_courante}/${job.total_pages}` : 'préparation';
+
+    if (isExtractionJobResumable(job)) {
+      return (
+        <div className="flex items-start gap-2 mb-3 text-sm text-red-300">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            Extraction interrompue ({progress}){job.erreur ? ` : ${job.erreur}` : ''}
+          </span>
+        </div>
+      );
+    }
+
+    if (isExtractionJobActive(job)) {
+      return (
+        <div className="flex items-center gap-2 mb-3 text-sm text-amber-300">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Extraction en cours : {progress}
+        </div>
+      );
+    }
+
+    if (job.statut === 'termine') {
+      return (
+        <div className="flex items-center gap-2 mb-3 text-sm text-gray-400">
+          <Clock className="w-4 h-4" />
+          Dernière extraction : {job.nb_articles} articles le{' '}
+          {new Date(job.finished_at || job.updated_at).toLocaleDateString('fr-FR')}
+        </div>
+      );
+    }
+
+    return null;
+  };
+
   if (loading) {
     return (
       <div className="text-center py-12">
@@ -424,6 +549,17 @@ export function ArticlesManager() {
         </div>
       </div>
 
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6">
+        <h3 className="text-white font-semibold mb-4">Rechercher dans les articles</h3>
+        <ArticleSearch
+          variant="admin"
+          onSelect={(result) => {
+            setHighlightedArticleId(result.article_id);
+            loadArticles(result.edition_id);
+          }}
+        />
+      </div>
+
       <div className="bg-gray-800 border border-gray-700 rounded-lg p-6">
         <h3 className="text-white font-semibold mb-4">Editions existantes</h3>
 
@@ -440,7 +576,14 @@ export function ArticlesManager() {
                 key={edition.id}
                 className="bg-gray-700 border border-gray-600 rounded-lg p-4 hover:border-amber-500 transition-colors"
               >
-                <div className="flex items-start justify-between">
+                <div className="flex items-start gap-4">
+                  <div className="flex-shrink-0 w-16 aspect-[3/4] bg-gray-800 border border-gray-600 rounded overflow-hidden flex items-center justify-center">
+                    {edition.cover_image_url ? (
+                      <img src={edition.cover_image_url} alt={edition.titre} loading="lazy" className="w-full h-full object-cover" />
+                    ) : (
+                      <ImageIcon className="w-6 h-6 text-gray-600" />
+                    )}
+                  </div>
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-2">
                       <h4 className="text-white font-semibold">{edition.titre}</h4>
@@ -466,6 +609,8 @@ export function ArticlesManager() {
                       )}
                     </div>
 
+                    {extractionJobs[edition.id] && renderExtractionStatus(extractionJobs[edition.id])}
+
                     <div className="mt-3 flex flex-wrap gap-2">
                       {(edition.statut === 'ready' || edition.statut === 'published') && (
                         <button
@@ -485,6 +630,50 @@ export function ArticlesManager() {
                         Annoter les pages
                       </button>
 
+                      {!edition.cover_image_url && (
+                        <button
+                          onClick={() => generatePreviews(edition.id)}
+                          disabled={generatingPreviewsId === edition.id}
+                          className="flex items-center gap-2 rounded-lg border border-gray-500 px-4 py-2 text-sm font-medium text-gray-200 transition-colors hover:bg-gray-600 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                          {generatingPreviewsId === edition.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <ImageIcon className="w-4 h-4" />
+                          )}
+                          {generatingPreviewsId === edition.id ? 'Génération des aperçus...' : 'Générer les aperçus'}
+                        </button>
+                      )}
+
+                      {(!extractionJobs[edition.id] ||
+                        !isExtractionJobActive(extractionJobs[edition.id]) ||
+                        isExtractionJobResumable(extractionJobs[edition.id])) && (
+                        <button
+                          onClick={() => runExtraction(edition.id)}
+                          disabled={startingExtractionId === edition.id}
+                          className="flex items-center gap-2 rounded-lg border border-gray-500 px-4 py-2 text-sm font-medium text-gray-200 transition-colors hover:bg-gray-600 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                          {startingExtractionId === edition.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : extractionJobs[edition.id] && isExtractionJobResumable(extractionJobs[edition.id]) ? (
+                            <RotateCcw className="w-4 h-4" />
+                          ) : (
+                            <ScanText className="w-4 h-4" />
+                          )}
+                          {extractionJobs[edition.id] && isExtractionJobResumable(extractionJobs[edition.id])
+                            ? "Relancer l'extraction"
+                            : 'Extraction automatique'}
+                        </button>
+                      )}
+
+                      <button
+                        onClick={() => setComparingEditionId(edition.id)}
+                        className="flex items-center gap-2 rounded-lg border border-gray-500 px-4 py-2 text-sm font-medium text-gray-200 transition-colors hover:bg-gray-600"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                        Comparer les méthodes
+                      </button>
+
                       <button
                         onClick={() => deleteEditionArticles(edition.id)}
                         disabled={clearingEditionId === edition.id}
@@ -506,6 +695,14 @@ export function ArticlesManager() {
         )}
       </div>
 
+      {comparingEditionId && (
+        <ExtractionComparison
+          editionId={comparingEditionId}
+          editionTitle={editions.find((edition) => edition.id === comparingEditionId)?.titre || ''}
+          onClose={() => setComparingEditionId(null)}
+        />
+      )}
+
       {viewingEditionId && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
           <div className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-6xl max-h-[90vh] flex flex-col">
@@ -538,7 +735,10 @@ export function ArticlesManager() {
                   {articles.map((article, index) => (
                     <div
                       key={article.id}
-                      className="bg-gray-700 border border-gray-600 rounded-lg p-4 hover:border-amber-500 transition-colors"
+                      id={`article-${article.id}`}
+                      className={`bg-gray-700 border rounded-lg p-4 hover:border-amber-500 transition-colors ${
+                        article.id === highlightedArticleId ? 'border-amber-500 ring-2 ring-amber-500/40' : 'border-gray-600'
+                      }`}
                     >
                       <div className="flex items-start gap-4">
                         <div className="flex-shrink-0 w-12 h-12 bg-amber-600 text-black rounded-lg flex items-center justify-center font-bold text-lg">
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Loader2, ShieldCheck, MessageCircle } from 'lucide-react';
+import { OTPInput } from './OTPInput';
+import { confirmDeviceEnrollment, sendDeviceEnrollmentCode } from '../lib/deviceEnrollment';
+
+interface DeviceEnrollmentProps {
+  token: string;
+  deviceId: string;
+  // Vérification demandée par le score de confiance sur un appareil déjà connu
+  stepUp?: boolean;
+  onEnrolled: () => void;
+}
+
+export function DeviceEnrollment({ token, deviceId, stepUp = false, onEnrolled }: DeviceEnrollmentProps) {
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [maskedPhone, setMaskedPhone] = useState<string | null>(null);
+  const [expiryMinutes, setExpiryMinutes] = useState(10);
+  // Remonte le champ de saisie à chaque nouveau code
+  const [codeRound, setCodeRound] = useState(0);
+  const [error, setError] = useState('');
+
+  const sendCode = async () => {
+    setSending(true);
+    setError('');
+
+    const result = await sendDeviceEnrollmentCode(token, deviceId);
+    setSending(false);
+
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+
+    setMaskedPhone(result.masked_phone ?? null);
+    setExpiryMinutes(Math.round((result.expires_in_seconds ?? 600) / 60));
+    setCodeRound((round) => round + 1);
+  };
+
+  const verifyCode = async (code: string) => {
+    setVerifying(true);
+    setError('');
+
+    const result = await confirmDeviceEnrollment(token, deviceId, code);
+    setVerifying(false);
+
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+
+    onEnrolled();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+      <div className="bg-gray-800 border border-amber-700 rounded-lg p-8 max-w-md w-full text-center">
+        <div className="w-16 h-16 bg-amber-900/40 rounded-full flex items-center justify-center mx-auto mb-4">
+          <ShieldCheck className="w-8 h-8 text-amber-400" />
+        </div>
+        <h2 className="text-xl font-bold text-white mb-2">
+          {stepUp ? 'Vérification de sécurité' : 'Nouvel appareil'}
+        </h2>
+
+        {codeRound === 0 ? (
+          <>
+            <p className="text-gray-400 mb-6">
+              {stepUp
+                ? 'Une activité inhabituelle a été détectée sur votre compte. Pour continuer, confirmez votre identité avec un code envoyé sur le WhatsApp de votre compte.'
+                : 'Vous ouvrez votre édition sur un appareil que nous ne connaissons pas encore. Pour le confirmer, nous allons envoyer un code sur le WhatsApp de votre compte.'}
+            </p>
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+            <button
+              onClick={sendCode}
+              disabled={sending}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+            >
+              {sending ? <Loader2 className="w-5 h-5 animate-spin" /> : <MessageCircle className="w-5 h-5" />}
+              Recevoir le code sur WhatsApp
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-gray-400 mb-6">
+              Saisissez le code envoyé au {maskedPhone ?? 'numéro WhatsApp de votre compte'}.
+            </p>
+            <OTPInput
+              key={codeRound}
+              length={6}
+              onComplete={verifyCode}
+              loading={verifying}
+              error={error}
+              expiryMinutes={expiryMinutes}
+              onExpiry={() => setError('Code expiré. Demandez un nouveau code.')}
+            />
+            <button
+              onClick={sendCode}
+              disabled={sending || verifying}
+              className="mt-6 text-sm text-amber-400 hover:text-amber-300 disabled:opacity-50"
+            >
+              {sending ? 'Envoi...' : 'Renvoyer un code'}
+            </button>
+          </>
+        )}
+
+        <p className="text-xs text-gray-500 mt-6">
+          Si vous n'avez pas demandé ce code, quelqu'un essaie d'utiliser votre lien : ne le communiquez pas.
+        </p>
+      </div>
+    </div>
+  );
+}
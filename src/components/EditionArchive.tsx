@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Book, BookOpen, Calendar, ChevronLeft, ChevronRight, Lock, RefreshCw, Search } from 'lucide-react';
+import { getEditionArchive, ARCHIVE_PAGE_SIZE, MONTH_LABELS } from '../lib/archive';
+import type { ArchivePage } from '../lib/archive';
+import { requestEditionAccess } from '../lib/editionAccess';
+
+export function EditionArchive() {
+  const navigate = useNavigate();
+  const [archive, setArchive] = useState<ArchivePage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [year, setYear] = useState<number | null>(null);
+  const [month, setMonth] = useState<number | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [openingEditionId, setOpeningEditionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadArchive();
+  }, [year, month, search, page]);
+
+  const loadArchive = async () => {
+    setLoading(true);
+    const data = await getEditionArchive({ year, month, search, page, pageSize: ARCHIVE_PAGE_SIZE });
+    if (data) setArchive(data);
+    setLoading(false);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput);
+  };
+
+  const selectYear = (value: string) => {
+    setYear(value ? parseInt(value) : null);
+    setMonth(null);
+    setPage(1);
+  };
+
+  const selectMonth = (value: number | null) => {
+    setMonth(value);
+    setPage(1);
+  };
+
+  // L'abonnement est revérifié côté serveur avant l'émission d'un token lié à cet appareil
+  const openEdition = async (pdfId: string) => {
+    setOpeningEditionId(pdfId);
+    const result = await requestEditionAccess(pdfId);
+    setOpeningEditionId(null);
+
+    if (!result.success || !result.token) {
+      alert(result.error || 'Impossible d’ouvrir cette édition');
+      return;
+    }
+
+    navigate(`/read/${result.token}`);
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return 'Date inconnue';
+    return new Date(date).toLocaleDateString('fr-FR', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+  };
+
+  const months = archive?.mois_disponibles || [];
+  const years = [...new Set(months.map(m => m.annee))];
+  const monthsOfYear = months.filter(m => m.annee === year);
+  const totalPages = archive ? Math.max(1, Math.ceil(archive.total / archive.page_size)) : 1;
+
+  return (
+    <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-2xl p-6 sm:p-8 shadow-2xl">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl sm:text-3xl font-bold text-white flex items-center gap-3">
+          <div className="p-2.5 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl shadow-lg">
+            <Book className="w-7 h-7 text-white" />
+          </div>
+          Éditions
+        </h3>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <form onSubmit={handleSearch} className="relative">
+            <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Titre ou numéro"
+              className="w-full sm:w-56 pl-9 pr-4 py-2.5 bg-slate-800 border border-slate-700 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </form>
+          <select
+            value={year ?? ''}
+            onChange={(e) => selectYear(e.target.value)}
+            className="px-4 py-2.5 bg-slate-800 border border-slate-700 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            <option value="">Toutes les années</option>
+            {years.map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {year !== null && monthsOfYear.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button
+            onClick={() => selectMonth(null)}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              month === null ? 'bg-amber-500 text-black font-semibold' : 'bg-slate-800 text-gray-300 hover:bg-slate-700'
+            }`}
+          >
+            Toute l'année
+          </button>
+          {[...monthsOfYear].reverse().map((m) => (
+            <button
+              key={m.mois}
+              onClick={() => selectMonth(m.mois)}
+              className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                month === m.mois ? 'bg-amber-500 text-black font-semibold' : 'bg-slate-800 text-gray-300 hover:bg-slate-700'
+              }`}
+            >
+              {MONTH_LABELS[m.mois - 1]} <span className="opacity-60">({m.nb})</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading && !archive ? (
+        <div className="text-center py-16">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+        </div>
+      ) : !archive || archive.editions.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="inline-flex p-6 bg-slate-800 rounded-2xl mb-6">
+            <Calendar className="w-16 h-16 text-gray-500" />
+          </div>
+          <p className="text-gray-300 text-xl">
+            {search || year ? 'Aucune édition ne correspond à votre recherche' : 'Aucune édition disponible pour le moment'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className={`grid sm:grid-cols-2 lg:grid-cols-3 gap-6 ${loading ? 'opacity-60' : ''}`}>
+            {archive.editions.map((edition) => (
+              <div
+                key={edition.id}
+                onClick={() => edition.accessible && openingEditionId === null && openEdition(edition.id)}
+                className={`group bg-slate-800/50 border border-slate-700 rounded-2xl p-6 transition-all duration-300 ${
+                  edition.accessible
+                    ? 'hover:border-amber-500/50 hover:shadow-2xl hover:shadow-amber-500/10 hover:-translate-y-1 cursor-pointer'
+                    : 'opacity-70'
+                }`}
+              >
+                <div className="mb-4">
+                  <div className="relative w-full aspect-[3/4] bg-gradient-to-br from-slate-700 to-slate-800 rounded-xl mb-4 flex items-center justify-center border border-slate-600 group-hover:border-amber-500/50 transition-colors overflow-hidden">
+                    {edition.cover_image_url ? (
+                      <img
+                        src={edition.cover_image_url}
+                        alt={edition.titre}
+                        loading="lazy"
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <BookOpen className="w-16 h-16 text-slate-600 group-hover:text-amber-500 transition-colors" />
+                    )}
+                    {edition.numero_edition !== null && (
+                      <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/70 text-amber-400 text-xs font-bold rounded">
+                        N° {edition.numero_edition}
+                      </span>
+                    )}
+                    {!edition.accessible && (
+                      <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                        <Lock className="w-10 h-10 text-gray-300" />
+                      </div>
+                    )}
+                  </div>
+                  <h4 className="text-white font-bold text-lg mb-3 line-clamp-2 group-hover:text-amber-400 transition-colors">{edition.titre}</h4>
+                  <div className="flex items-center gap-2 text-gray-400 text-sm mb-4">
+                    <Calendar className="w-4 h-4" />
+                    <span>{formatDate(edition.date_reference)}</span>
+                  </div>
+                </div>
+                {edition.accessible ? (
+                  <button
+                    disabled={openingEditionId !== null}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white font-bold rounded-xl transition-all duration-200 hover:scale-105 shadow-lg shadow-amber-500/20 disabled:opacity-50"
+                  >
+                    {openingEditionId === edition.id && <RefreshCw className="w-4 h-4 animate-spin" />}
+                    {openingEditionId === edition.id ? 'Ouverture...' : "Lire l'édition"}
+                  </button>
+                ) : (
+                  <p className="text-center text-gray-400 text-sm py-3">
+                    Non incluse dans votre formule
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page <= 1 || loading}
+                className="flex items-center gap-1 px-4 py-2 bg-slate-800 text-gray-300 rounded-lg hover:bg-slate-700 disabled:opacity-40"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Précédent
+              </button>
+              <span className="text-gray-400 text-sm">
+                Page {page} / {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages || loading}
+                className="flex items-center gap-1 px-4 py-2 bg-slate-800 text-gray-300 rounded-lg hover:bg-slate-700 disabled:opacity-40"
+              >
+                Suivant
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
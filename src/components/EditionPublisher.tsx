@@ -1,8 +1,19 @@
 import { useState, useEffect } from 'react';
-import { Newspaper, Calendar, Send, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { Newspaper, Calendar, Send, Clock, CheckCircle, AlertCircle, List, CalendarDays, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import type { PDF, User } from '../lib/supabase';
+import type { PDF, User, PublicationJob } from '../lib/supabase';
+import {
+  startPublication,
+  resumePublication,
+  getLatestPublicationJob,
+  isPublicationJobActive,
+  isPublicationJobResumable,
+  subscribeToPublicationJob,
+  schedulePublication,
+  cancelScheduledPublication,
+} from '../lib/publication';
+import { PublicationCalendar } from './PublicationCalendar';
 
 export function EditionPublisher() {
   const { user } = useAuth();
@@ -10,7 +21,10 @@ export function EditionPublisher() {
   const [loading, setLoading] = useState(true);
   const [selectedPdf, setSelectedPdf] = useState<PDF | null>(null);
   const [showPublishModal, setShowPublishModal] = useState(false);
+  const [schedulingPdf, setSchedulingPdf] = useState<PDF | null>(null);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
   const [activeSubscribers, setActiveSubscribers] = useState<User[]>([]);
+  const [covers, setCovers] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadPdfs();
@@ -28,6 +42,7 @@ export function EditionPublisher() {
 
       if (error) throw error;
       setPdfs(data || []);
+      loadCovers(data || []);
     } catch (error) {
       console.error('Error loading PDFs:', error);
     } finally {
@@ -35,6 +50,20 @@ export function EditionPublisher() {
     }
   };
 
+  // Couvertures générées à l'extraction, reliées au PDF par editions.pdf_url
+  const loadCovers = async (pdfList: PDF[]) => {
+    const paths = pdfList.map(pdf => pdf.url_fichier).filter(Boolean);
+    if (paths.length === 0) return;
+
+    const { data } = await supabase
+      .from('editions')
+      .select('pdf_url, cover_image_url')
+      .in('pdf_url', paths)
+      .not('cover_image_url', 'is', null);
+
+    setCovers(Object.fromEntries((data || []).map(edition => [edition.pdf_url, edition.cover_image_url])));
+  };
+
   const loadActiveSubscribers = async () => {
     try {
       const { data, error } = await supabase
@@ -63,6 +92,18 @@ export function EditionPublisher() {
     setShowPublishModal(true);
   };
 
+  const cancelSchedule = async (pdf: PDF) => {
+    if (!confirm(`Annuler la publication planifiée de "${pdf.titre}" ?`)) return;
+
+    const result = await cancelScheduledPublication(pdf.id);
+    if (!result.success) {
+      alert(`Erreur lors de l'annulation:\n${result.error}`);
+      return;
+    }
+    setSchedulingPdf(null);
+    loadPdfs();
+  };
+
   const getStatusColor = (statut?: string) => {
     switch (statut) {
       case 'publie':
@@ -110,6 +151,28 @@ export function EditionPublisher() {
           </span>
           <span>•</span>
           <span>{pdfs.filter(p => p.statut_publication === 'publie').length} éditions publiées</span>
+          <span>•</span>
+          <span>{pdfs.filter(p => p.statut_publication === 'planifie').length} planifiées</span>
+          <div className="ml-auto flex gap-1">
+            <button
+              onClick={() => setView('list')}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg transition-colors ${
+                view === 'list' ? 'bg-amber-600 text-black' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              <List className="w-4 h-4" />
+              Liste
+            </button>
+            <button
+              onClick={() => setView('calendar')}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg transition-colors ${
+                view === 'calendar' ? 'bg-amber-600 text-black' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              <CalendarDays className="w-4 h-4" />
+              Calendrier
+            </button>
+          </div>
         </div>
       </div>
 
@@ -120,13 +183,15 @@ export function EditionPublisher() {
             <p className="font-medium mb-1">Publication d'édition</p>
             <p className="text-blue-300">
               Lorsque vous publiez une édition, des liens de lecture personnalisés et sécurisés seront générés pour chaque abonné actif.
-              Les messages WhatsApp contenant ces liens seront envoyés automatiquement et instantanément.
+              Les messages WhatsApp contenant ces liens sont envoyés par lots depuis le serveur, même si vous fermez cette page.
             </p>
           </div>
         </div>
       </div>
 
-      {pdfs.length === 0 ? (
+      {view === 'calendar' ? (
+        <PublicationCalendar pdfs={pdfs} onSelect={setSchedulingPdf} />
+      ) : pdfs.length === 0 ? (
         <div className="text-center py-12">
           <Newspaper className="w-16 h-16 text-gray-600 mx-auto mb-4" />
           <p className="text-gray-400">Aucune édition disponible</p>
@@ -139,7 +204,15 @@ export function EditionPublisher() {
               key={pdf.id}
               className="bg-gray-700 border border-gray-600 rounded-lg p-4 hover:border-amber-500 transition-colors"
             >
-              <div className="flex items-start justify-between">
+              <div className="flex items-start justify-between gap-4">
+                {covers[pdf.url_fichier] && (
+                  <img
+                    src={covers[pdf.url_fichier]}
+                    alt={pdf.titre}
+                    loading="lazy"
+                    className="flex-shrink-0 w-16 aspect-[3/4] object-cover rounded border border-gray-600"
+                  />
+                )}
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
                     <h3 className="text-white font-semibold text-lg">{pdf.titre}</h3>
@@ -170,6 +243,11 @@ export function EditionPublisher() {
                     )}
                   </div>
 
+                  {pdf.statut_publication === 'planifie' && pdf.date_publication_prevue && (
+                    <div className="text-xs text-blue-300">
+                      Publication prévue le {new Date(pdf.date_publication_prevue).toLocaleString('fr-FR')}
+                    </div>
+                  )}
                   {pdf.date_publication_reelle && (
                     <div className="text-xs text-gray-400">
                       Publié le {new Date(pdf.date_publication_reelle).toLocaleString('fr-FR')}
@@ -187,6 +265,15 @@ export function EditionPublisher() {
                       Publier
                     </button>
                   )}
+                  {pdf.statut_publication !== 'publie' && (
+                    <button
+                      onClick={() => setSchedulingPdf(pdf)}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-900/50 text-blue-200 border border-blue-700 rounded-lg hover:bg-blue-900 transition-colors"
+                    >
+                      <Clock className="w-4 h-4" />
+                      {pdf.statut_publication === 'planifie' ? 'Replanifier' : 'Planifier'}
+                    </button>
+                  )}
                   {pdf.statut_publication === 'publie' && (
                     <button
                       onClick={() => publishEdition(pdf)}
@@ -219,6 +306,115 @@ export function EditionPublisher() {
           userId={user?.id || ''}
         />
       )}
+
+      {schedulingPdf && (
+        <ScheduleModal
+          pdf={schedulingPdf}
+          onClose={() => setSchedulingPdf(null)}
+          onCancelSchedule={() => cancelSchedule(schedulingPdf)}
+          onSuccess={() => {
+            setSchedulingPdf(null);
+            loadPdfs();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ScheduleModalProps {
+  pdf: PDF;
+  onClose: () => void;
+  onCancelSchedule: () => void;
+  onSuccess: () => void;
+}
+
+function toLocalInputValue(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function ScheduleModal({ pdf, onClose, onCancelSchedule, onSuccess }: ScheduleModalProps) {
+  const [dateValue, setDateValue] = useState(() => {
+    if (pdf.date_publication_prevue) return toLocalInputValue(new Date(pdf.date_publication_prevue));
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(6, 0, 0, 0);
+    return toLocalInputValue(tomorrow);
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSchedule = async () => {
+    const date = new Date(dateValue);
+    if (isNaN(date.getTime()) || date <= new Date()) {
+      alert('Veuillez choisir une date future');
+      return;
+    }
+
+    setSaving(true);
+    const result = await schedulePublication(pdf.id, date);
+    setSaving(false);
+
+    if (!result.success) {
+      alert(`Erreur lors de la planification:\n${result.error}`);
+      return;
+    }
+    onSuccess();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-md w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white font-bold text-xl">Planifier la publication</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="bg-gray-900 border border-gray-700 rounded-lg p-4 mb-4">
+          <p className="text-white font-medium mb-3">{pdf.titre}</p>
+          <label className="block text-sm text-gray-400 mb-2">Date et heure de publication</label>
+          <input
+            type="datetime-local"
+            value={dateValue}
+            onChange={(e) => setDateValue(e.target.value)}
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            À l'heure prévue, les liens sont générés et envoyés automatiquement aux abonnés actifs à ce moment-là.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {pdf.statut_publication === 'planifie' && (
+            <button
+              type="button"
+              onClick={onCancelSchedule}
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-red-900/50 text-red-300 rounded-lg hover:bg-red-900 transition-colors disabled:opacity-50"
+            >
+              Déplanifier
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+          >
+            Annuler
+          </button>
+          <button
+            onClick={handleSchedule}
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Clock className="w-4 h-4" />
+            Planifier
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
@@ -233,161 +429,53 @@ interface PublishModalProps {
 
 function PublishModal({ pdf, activeSubscribers, onClose, onSuccess }: PublishModalProps) {
   const [loading, setLoading] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [generatedLinks, setGeneratedLinks] = useState(0);
+  const [job, setJob] = useState<PublicationJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getLatestPublicationJob(pdf.id).then((latest) => {
+      if (latest && (isPublicationJobActive(latest) || latest.statut === 'echoue')) {
+        setJob(latest);
+      }
+    });
+  }, [pdf.id]);
+
+  const jobId = job?.id;
+
+  useEffect(() => {
+    if (!jobId) return;
+    return subscribeToPublicationJob(jobId, setJob);
+  }, [jobId]);
+
+  const running = loading || (job !== null && isPublicationJobActive(job) && !isPublicationJobResumable(job));
+  const finished = job?.statut === 'termine' || job?.statut === 'partiel';
+  const total = job?.total_destinataires ?? activeSubscribers.length;
+  const progress = job && job.total_destinataires > 0
+    ? Math.round((job.nb_traites / job.total_destinataires) * 100)
+    : 0;
 
   const handlePublish = async () => {
     setLoading(true);
-    setProgress(0);
-    setGeneratedLinks(0);
+    setError(null);
 
     try {
-      const totalSubscribers = activeSubscribers.length;
-
-      if (totalSubscribers === 0) {
+      if (activeSubscribers.length === 0) {
         alert('Aucun abonné actif à qui envoyer cette édition');
         return;
       }
 
-      const promises = activeSubscribers.map(async (subscriber, index) => {
-        const token = crypto.randomUUID();
-        const expiresAt = new Date();
-        expiresAt.setHours(expiresAt.getHours() + 24);
-
-        const { error: tokenError } = await supabase
-          .from('tokens')
-          .insert({
-            pdf_id: pdf.id,
-            user_id: subscriber.id,
-            token,
-            expires_at: expiresAt.toISOString(),
-            used: false,
-            max_access_count: 999,
-            revoked: false,
-          });
-
-        if (tokenError) {
-          console.error('Token insertion error:', tokenError);
-          throw new Error(`Erreur lors de la création du token: ${tokenError.message}`);
-        }
-
-        const link = `${window.location.origin}/read/${token}`;
-
-        const { error: notifError } = await supabase
-          .from('notifications')
-          .insert({
-            user_id: subscriber.id,
-            pdf_id: pdf.id,
-            type_notification: 'nouvelle_edition',
-            numero_destinataire: subscriber.numero_whatsapp || '',
-            message: `Bonjour ${subscriber.nom}! La nouvelle édition de L'Enquêteur est disponible. Cliquez sur le lien pour lire: ${link}`,
-            lien_lecture: link,
-            statut: 'en_attente',
-            date_envoi_prevue: new Date().toISOString(),
-          });
-
-        if (notifError) {
-          console.error('Notification insertion error:', notifError);
-          throw new Error(`Erreur lors de la création de la notification: ${notifError.message}`);
-        }
+      const result = job && isPublicationJobResumable(job)
+        ? await resumePublication(job.id)
+        : await startPublication(pdf.id);
 
-        const message = `Bonjour ${subscriber.nom}! La nouvelle édition de L'Enquêteur est disponible. Cliquez sur le lien pour lire: ${link}`;
-
-        try {
-          const whatsappResponse = await fetch(
-            `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-whatsapp`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                to: subscriber.numero_whatsapp,
-                text: message,
-              }),
-            }
-          );
-
-          const whatsappResult = await whatsappResponse.json();
-
-          if (whatsappResult.success) {
-            await supabase
-              .from('notifications')
-              .update({
-                statut: 'envoye',
-                date_envoi_reelle: new Date().toISOString(),
-              })
-              .eq('user_id', subscriber.id)
-              .eq('pdf_id', pdf.id)
-              .eq('lien_lecture', link);
-          } else {
-            console.error('WhatsApp sending failed:', whatsappResult.error);
-            await supabase
-              .from('notifications')
-              .update({
-                statut: 'echec',
-                erreur: whatsappResult.error || 'Erreur inconnue',
-                tentatives: 1,
-              })
-              .eq('user_id', subscriber.id)
-              .eq('pdf_id', pdf.id)
-              .eq('lien_lecture', link);
-          }
-        } catch (whatsappError) {
-          console.error('WhatsApp API error:', whatsappError);
-          await supabase
-            .from('notifications')
-            .update({
-              statut: 'echec',
-              erreur: whatsappError instanceof Error ? whatsappError.message : 'Erreur réseau',
-              tentatives: 1,
-            })
-            .eq('user_id', subscriber.id)
-            .eq('pdf_id', pdf.id)
-            .eq('lien_lecture', link);
-        }
-
-        setGeneratedLinks(prev => prev + 1);
-        setProgress(Math.round(((index + 1) / totalSubscribers) * 100));
-
-        await new Promise(resolve => setTimeout(resolve, 200));
-      });
-
-      await Promise.all(promises);
-
-      const { error: updateError } = await supabase
-        .from('pdfs')
-        .update({
-          statut_publication: 'publie',
-          date_publication_reelle: new Date().toISOString(),
-          nb_envois: (pdf.nb_envois || 0) + totalSubscribers,
-        })
-        .eq('id', pdf.id);
-
-      if (updateError) throw updateError;
-
-      const { data: notificationStats } = await supabase
-        .from('notifications')
-        .select('statut')
-        .eq('pdf_id', pdf.id);
-
-      const sentCount = notificationStats?.filter(n => n.statut === 'envoye').length || 0;
-      const failedCount = notificationStats?.filter(n => n.statut === 'echec').length || 0;
-
-      let message = `Édition publiée avec succès!\n\n`;
-      message += `${totalSubscribers} liens générés\n`;
-      message += `${sentCount} messages WhatsApp envoyés\n`;
-      if (failedCount > 0) {
-        message += `${failedCount} échecs d'envoi (vérifiez les logs)`;
+      if (!result.success || !result.job) {
+        throw new Error(result.error || 'Erreur inconnue');
       }
 
-      alert(message);
-      onSuccess();
-    } catch (error) {
-      console.error('Error publishing edition:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
-      alert(`Erreur lors de la publication:\n${errorMessage}`);
+      setJob(result.job);
+    } catch (err) {
+      console.error('Error publishing edition:', err);
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
     } finally {
       setLoading(false);
     }
@@ -408,11 +496,13 @@ function PublishModal({ pdf, activeSubscribers, onClose, onSuccess }: PublishMod
           </div>
         </div>
 
-        {loading && (
+        {job && (
           <div className="mb-4">
             <div className="flex justify-between text-sm text-gray-400 mb-2">
-              <span>Envoi en cours...</span>
-              <span>{generatedLinks} / {activeSubscribers.length}</span>
+              <span>
+                {job.statut === 'partiel' ? 'Publication terminée avec des échecs' : finished ? 'Publication terminée' : isPublicationJobResumable(job) ? 'Publication interrompue' : 'Envoi en cours...'}
+              </span>
+              <span>{job.nb_traites} / {job.total_destinataires}</span>
             </div>
             <div className="w-full bg-gray-700 rounded-full h-2">
               <div
@@ -420,13 +510,29 @@ function PublishModal({ pdf, activeSubscribers, onClose, onSuccess }: PublishMod
                 style={{ width: `${progress}%` }}
               />
             </div>
+            <div className="flex gap-4 text-xs text-gray-400 mt-2">
+              <span className="text-green-400">{job.nb_envoyes} envoyés</span>
+              {job.nb_echecs > 0 && <span className="text-red-400">{job.nb_echecs} échecs</span>}
+            </div>
+            {running && (
+              <p className="text-xs text-gray-500 mt-2">
+                L'envoi se poursuit sur le serveur, vous pouvez fermer cette fenêtre.
+              </p>
+            )}
+            {job.erreur && <p className="text-xs text-red-400 mt-2">{job.erreur}</p>}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-700 rounded-lg p-3 mb-4 text-sm text-red-300">
+            {error}
           </div>
         )}
 
         <div className="bg-amber-900/20 border border-amber-700 rounded-lg p-3 mb-4 text-sm text-amber-200">
           <p className="font-medium mb-1">Important:</p>
           <p>
-            Cette action va créer {activeSubscribers.length} liens personnalisés et envoyer {activeSubscribers.length} messages
+            Cette action va créer {total} liens personnalisés et envoyer {total} messages
             WhatsApp automatiquement aux abonnés actifs.
           </p>
         </div>
@@ -434,29 +540,31 @@ function PublishModal({ pdf, activeSubscribers, onClose, onSuccess }: PublishMod
         <div className="flex gap-2">
           <button
             type="button"
-            onClick={onClose}
+            onClick={finished ? onSuccess : onClose}
             disabled={loading}
             className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
           >
-            Annuler
-          </button>
-          <button
-            onClick={handlePublish}
-            disabled={loading}
-            className="flex-1 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
-          >
-            {loading ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-black"></div>
-                {progress}%
-              </>
-            ) : (
-              <>
-                <Send className="w-4 h-4" />
-                Publier
-              </>
-            )}
+            {finished || running ? 'Fermer' : 'Annuler'}
           </button>
+          {(!finished || job?.statut === 'partiel') && (
+            <button
+              onClick={handlePublish}
+              disabled={running}
+              className="flex-1 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {running ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-black"></div>
+                  {progress}%
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4" />
+                  {job?.statut === 'partiel' ? 'Relancer les échecs' : job && isPublicationJobResumable(job) ? 'Reprendre' : 'Publier'}
+                </>
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
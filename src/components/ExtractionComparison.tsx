@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { GitCompare, Loader2, X, CheckCircle, AlertCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { ExtractionJob, ExtractionPageResult, ExtractionStrategyName } from '../lib/supabase';
+import {
+  STRATEGY_LABELS,
+  startExtraction,
+  getLatestExtractionJobs,
+  getExtractionPageResults,
+  isExtractionJobActive,
+  subscribeToExtractionJobs,
+} from '../lib/extraction';
+
+interface ExtractionComparisonProps {
+  editionId: string;
+  editionTitle: string;
+  onClose: () => void;
+}
+
+const STRATEGY_ORDER: ExtractionStrategyName[] = ['pdfjs', 'tesseract', 'textract'];
+
+export function ExtractionComparison({ editionId, editionTitle, onClose }: ExtractionComparisonProps) {
+  const [job, setJob] = useState<ExtractionJob | null>(null);
+  const [results, setResults] = useState<ExtractionPageResult[]>([]);
+  const [manualCounts, setManualCounts] = useState<Record<number, number>>({});
+  const [scannedPages, setScannedPages] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+
+  const loadResults = useCallback(async (jobId: string) => {
+    setResults(await getExtractionPageResults(jobId));
+  }, []);
+
+  // Zones manuelles (référence pour juger les stratégies) et pages scannées
+  const loadPageReferences = useCallback(async () => {
+    const { data } = await supabase
+      .from('articles')
+      .select('page_id, pages(page_number)')
+      .eq('edition_id', editionId)
+      .eq('ajuste_manuellement', true);
+
+    const counts: Record<number, number> = {};
+    for (const row of (data || []) as unknown as { pages: { page_number: number } | null }[]) {
+      if (row.pages) {
+        counts[row.pages.page_number] = (counts[row.pages.page_number] || 0) + 1;
+      }
+    }
+    setManualCounts(counts);
+
+    const { data: pagesData } = await supabase
+      .from('pages')
+      .select('page_number')
+      .eq('edition_id', editionId)
+      .eq('image_only', true);
+    setScannedPages(new Set((pagesData || []).map((page) => page.page_number)));
+  }, [editionId]);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const latest = (await getLatestExtractionJobs([editionId]))[editionId] || null;
+      setJob(latest);
+      if (latest) {
+        await loadResults(latest.id);
+      }
+      await loadPageReferences();
+      setLoading(false);
+    };
+
+    load();
+  }, [editionId, loadResults, loadPageReferences]);
+
+  useEffect(() => {
+    return subscribeToExtractionJobs((updated) => {
+      if (updated.edition_id !== editionId) return;
+      setJob(updated);
+      loadResults(updated.id);
+      if (updated.statut === 'termine' || updated.statut === 'echoue') {
+        loadPageReferences();
+      }
+    });
+  }, [editionId, loadResults, loadPageReferences]);
+
+  const strategies = useMemo(
+    () => STRATEGY_ORDER.filter((strategy) => results.some((result) => result.strategie === strategy)),
+    [results]
+  );
+
+  const pages = useMemo(() => {
+    const byPage = new Map<number, Partial<Record<ExtractionStrategyName, ExtractionPageResult>>>();
+    for (const result of results) {
+      byPage.set(result.page_number, { ...byPage.get(result.page_number), [result.strategie]: result });
+    }
+    return Array.from(byPage.entries()).sort((a, b) => a[0] - b[0]);
+  }, [results]);
+
+  const totals = useMemo(
+    () =>
+      strategies.map((strategy) => {
+        const rows = results.filter((result) => result.strategie === strategy && !result.erreur);
+        return {
+          strategy,
+          confidence: rows.length > 0 ? rows.reduce((sum, row) => sum + row.confidence, 0) / rows.length : 0,
+          articles: rows.reduce((sum, row) => sum + row.nb_articles, 0),
+          seconds: rows.reduce((sum, row) => sum + row.duree_ms, 0) / 1000,
+          retained: results.filter((result) => result.strategie === strategy && result.retenu).length,
+        };
+      }),
+    [results, strategies]
+  );
+
+  const runComparison = async () => {
+    if (!confirm('Exécuter toutes les stratégies sur chaque page ? La meilleure par page remplacera les extraits automatiques, les articles ajustés manuellement sont conservés.')) {
+      return;
+    }
+
+    setStarting(true);
+    const result = await startExtraction(editionId, { mode: 'compare' });
+    setStarting(false);
+
+    if (!result.success) {
+      alert('Erreur lors du lancement de la comparaison: ' + result.error);
+      return;
+    }
+
+    if (result.job) {
+      setJob(result.job);
+      setResults([]);
+    }
+  };
+
+  const running = job !== null && isExtractionJobActive(job);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-2">
+              <GitCompare className="w-6 h-6 text-amber-500" />
+              Comparaison des méthodes d'extraction
+            </h3>
+            <p className="text-gray-400 text-sm mt-1">{editionTitle}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-400">
+              {job
+                ? `Dernier job : ${job.mode === 'compare' ? 'comparaison' : 'repli automatique'}, ${job.page_courante}/${job.total_pages} pages`
+                : 'Aucune extraction pour cette édition.'}
+            </p>
+            <button
+              onClick={runComparison}
+              disabled={starting || running}
+              className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {starting || running ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+              {running ? 'Comparaison en cours...' : 'Lancer une comparaison'}
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-amber-500 mx-auto mb-4" />
+              <p className="text-gray-400">Chargement des résultats...</p>
+            </div>
+          ) : pages.length === 0 ? (
+            <div className="text-center py-12 text-gray-400">Aucun résultat de stratégie pour le moment.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Page</th>
+                    {strategies.map((strategy) => (
+                      <th key={strategy} className="py-2 pr-4 font-medium">
+                        {STRATEGY_LABELS[strategy]}
+                      </th>
+                    ))}
+                    <th className="py-2 font-medium">Manuel</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pages.map(([pageNumber, byStrategy]) => (
+                    <tr key={pageNumber} className="border-b border-gray-700/60">
+                      <td className="py-2 pr-4 text-white font-medium">
+                        {pageNumber}
+                        {scannedPages.has(pageNumber) && (
+                          <span className="ml-2 rounded bg-gray-700 px-1.5 py-0.5 text-xs text-gray-300">scan</span>
+                        )}
+                      </td>
+                      {strategies.map((strategy) => {
+                        const result = byStrategy[strategy];
+                        if (!result) {
+                          return (
+                            <td key={strategy} className="py-2 pr-4 text-gray-600">
+                              —
+                            </td>
+                          );
+                        }
+
+                        return (
+                          <td key={strategy} className="py-2 pr-4">
+                            <div
+                              className={`rounded border px-2 py-1 ${
+                                result.retenu ? 'border-amber-500 bg-amber-500/10' : 'border-gray-700'
+                              }`}
+                            >
+                              {result.erreur ? (
+                                <span className="flex items-center gap-1 text-red-300" title={result.erreur}>
+                                  <AlertCircle className="w-3 h-3" />
+                                  Échec
+                                </span>
+                              ) : (
+                                <>
+                                  <div className="flex items-center gap-1 text-white">
+                                    {result.retenu && <CheckCircle className="w-3 h-3 text-amber-400" />}
+                                    {Math.round(result.confidence * 100)}%
+                                  </div>
+                                  <div className="text-xs text-gray-400">
+                                    {result.nb_articles} art. · {result.nb_mots} mots · {(result.duree_ms / 1000).toFixed(1)} s
+                                  </div>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 text-gray-300">{manualCounts[pageNumber] || 0}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="text-gray-300">
+                    <td className="py-3 pr-4 font-medium">Total</td>
+                    {totals.map((total) => (
+                      <td key={total.strategy} className="py-3 pr-4 text-xs">
+                        <div>Confiance moyenne {Math.round(total.confidence * 100)}%</div>
+                        <div className="text-gray-400">
+                          {total.articles} art. · {total.seconds.toFixed(1)} s · retenue sur {total.retained} page(s)
+                        </div>
+                      </td>
+                    ))}
+                    <td className="py-3 text-xs">
+                      {Object.values(manualCounts).reduce((sum, count) => sum + count, 0)} art.
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,32 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { IPAY_BASE_URL } from '../lib/ipay';
 import { Loader, X } from 'lucide-react';
 
 const IPAY_PUBLIC_KEY = 'pk_0ac56b86849d4fdca1e44df11a7328e0';
 
 interface IPayCheckoutProps {
   amount: number;
-  userId: string;
   abonnementId: string;
   formuleId: string;
+  promoCode?: string;
   onSuccess?: (paymentId: string) => void;
   onError?: (error: string) => void;
 }
 
 export function IPayCheckout({
   amount,
-  userId,
   abonnementId,
   formuleId,
+  promoCode,
   onSuccess,
   onError,
 }: IPayCheckoutProps) {
   const [loading, setLoading] = useState(true);
   const [paymentId, setPaymentId] = useState<string | null>(null);
   const [transactionId, setTransactionId] = useState<string>('');
+  // Montant recalculé côté serveur (code promo éventuel)
+  const [payableAmount, setPayableAmount] = useState(amount);
   const [showModal, setShowModal] = useState(false);
   const [iframeUrl, setIframeUrl] = useState<string>('');
   const [iframeLoading, setIframeLoading] = useState(true);
@@ -107,27 +110,30 @@ export function IPayCheckout({
       setTransactionId(txnId);
 
       const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/create-payment`;
+      // L'abonné est identifié par sa session, le montant est calculé par le serveur
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error('Session expirée, veuillez vous reconnecter');
+      }
 
       console.log('💳 Creating payment with:', {
-        user_id: userId,
         abonnement_id: abonnementId,
         formule_id: formuleId,
-        amount: amount,
         transaction_id: txnId,
       });
 
       const response = await fetch(apiUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          user_id: userId,
           abonnement_id: abonnementId,
           formule_id: formuleId,
-          amount: amount,
           transaction_id: txnId,
+          promo_code: promoCode || undefined,
         }),
       });
 
@@ -139,6 +145,13 @@ export function IPayCheckout({
       }
 
       setPaymentId(result.payment_id);
+      setPayableAmount(result.amount ?? amount);
+
+      // Code promo couvrant tout le prix : l'abonnement est déjà activé
+      if (result.confirmed) {
+        onSuccess?.(result.payment_id);
+        return;
+      }
 
       console.log('✅ Payment initialized:', {
         paymentId: result.payment_id,
@@ -164,14 +177,14 @@ export function IPayCheckout({
       console.log('💳 Création du token de paiement iPay...');
 
       // Appel direct à l'API iPay pour créer le token
-      const response = await fetch('https://i-pay.money/api/sdk/payment_pages/create_payment_token', {
+      const response = await fetch(`${IPAY_BASE_URL}/api/sdk/payment_pages/create_payment_token`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           key: IPAY_PUBLIC_KEY,
-          amount: amount.toString(),
+          amount: payableAmount.toString(),
           environement: 'live',
           transaction_id: transactionId,
           parent_domaine: window.location.origin,
@@ -186,7 +199,7 @@ export function IPayCheckout({
       console.log('✅ Token iPay créé:', data.token);
 
       // Construire l'URL de la page de paiement
-      const paymentUrl = `https://i-pay.money/api/sdk/payment_pages?token=${data.token}`;
+      const paymentUrl = `${IPAY_BASE_URL}/api/sdk/payment_pages?token=${data.token}`;
       setIframeUrl(paymentUrl);
       setShowModal(true);
       setIframeLoading(true);
@@ -232,7 +245,7 @@ export function IPayCheckout({
             Chargement...
           </span>
         ) : (
-          `Payer ${amount.toLocaleString()} FCFA`
+          `Payer ${payableAmount.toLocaleString()} FCFA`
         )}
       </button>
 
@@ -2,11 +2,14 @@ import { useState, useEffect } from 'react';
 import { Newspaper, CheckCircle, Clock, Shield, Smartphone, Users, ArrowRight } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Formule } from '../lib/supabase';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 
 export function LandingPage() {
   const [formules, setFormules] = useState<Formule[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchParams] = useSearchParams();
+  // Lien de parrainage partagé par un abonné : transmis au formulaire d'inscription
+  const referralCode = searchParams.get('ref');
 
   useEffect(() => {
     loadFormules();
@@ -85,7 +88,7 @@ export function LandingPage() {
             Recevez vos éditions directement sur WhatsApp.
           </p>
           <Link
-            to="/subscribe"
+            to={referralCode ? `/subscribe?ref=${encodeURIComponent(referralCode)}` : '/subscribe'}
             className="inline-flex items-center gap-2 px-8 py-4 bg-gradient-to-r from-amber-500 to-yellow-600 text-black font-bold text-lg rounded-lg hover:from-amber-600 hover:to-yellow-700 transition-all duration-200 shadow-lg hover:shadow-amber-500/50"
           >
             S'abonner maintenant
@@ -202,7 +205,7 @@ export function LandingPage() {
                 </div>
 
                 <Link
-                  to={`/subscribe?formule=${formule.id}`}
+                  to={`/subscribe?formule=${formule.id}${referralCode ? `&ref=${encodeURIComponent(referralCode)}` : ''}`}
                   className={`block w-full py-3 rounded-lg font-semibold text-center transition-all duration-200 ${
                     formule.essai_gratuit
                       ? 'bg-green-500 text-black hover:bg-green-600'
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { Fingerprint, Upload, Loader2, AlertCircle, User as UserIcon, FileText } from 'lucide-react';
+import { decodeForensicWatermark, traceWatermarkCode } from '../lib/forensicWatermark';
+import type { TracedSession, WatermarkDetection } from '../lib/forensicWatermark';
+
+const formatCode = (code: number) => code.toString(16).toUpperCase().padStart(8, '0');
+
+export function LeakTracer() {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState('');
+  const [analyzing, setAnalyzing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [detection, setDetection] = useState<WatermarkDetection | null>(null);
+  const [session, setSession] = useState<TracedSession | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl('');
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setDetection(null);
+    setSession(null);
+    setError('');
+    setProgress(0);
+  };
+
+  const analyze = async () => {
+    if (!file) return;
+
+    setAnalyzing(true);
+    setDetection(null);
+    setSession(null);
+    setError('');
+
+    try {
+      const found = await decodeForensicWatermark(file, setProgress);
+      if (!found) {
+        setError('Aucun filigrane lisible dans cette image. Essayez une capture moins réduite ou moins recadrée.');
+        return;
+      }
+
+      setDetection(found);
+      const traced = await traceWatermarkCode(found.code);
+      if (!traced) {
+        setError(`Code ${formatCode(found.code)} lu, mais aucune session de lecture ne correspond.`);
+        return;
+      }
+      setSession(traced);
+    } catch (err) {
+      console.error('Error tracing leak:', err);
+      setError("Analyse impossible : le fichier n'est pas une image lisible");
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2 mb-2">
+          <Fingerprint className="w-7 h-7 text-amber-500" />
+          Traçage des fuites
+        </h2>
+        <p className="text-gray-400 text-sm">
+          Retrouvez l'abonné et la session à l'origine d'une capture ou d'une photo de page qui circule
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <label className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-600 bg-gray-900/40 p-6 text-gray-400 cursor-pointer hover:border-amber-500 hover:text-gray-300 transition-colors">
+            <Upload className="w-8 h-8" />
+            <span className="text-sm">{file ? file.name : "Choisir une image (JPEG, PNG, capture d'écran)"}</span>
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(event) => handleFileChange(event.target.files?.[0] ?? null)}
+            />
+          </label>
+
+          {previewUrl && (
+            <img
+              src={previewUrl}
+              alt="Image analysee"
+              className="max-h-96 w-full rounded-lg border border-gray-700 object-contain bg-gray-900"
+            />
+          )}
+
+          <button
+            onClick={analyze}
+            disabled={!file || analyzing}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-amber-500 text-gray-900 font-semibold rounded-lg hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {analyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Fingerprint className="w-4 h-4" />}
+            {analyzing ? `Analyse en cours... ${Math.round(progress * 100)}%` : "Analyser l'image"}
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="flex items-start gap-2 rounded-lg border border-red-700 bg-red-900/30 p-4 text-sm text-red-200">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {detection && (
+            <div className="rounded-lg border border-gray-700 bg-gray-900/40 p-4 text-sm text-gray-300 space-y-1">
+              <div className="text-white font-medium">Filigrane détecté</div>
+              <div>
+                Code <span className="font-mono text-amber-400">{formatCode(detection.code)}</span>
+              </div>
+              <div>Fiabilité : {Math.round(detection.confidence * 100)}%</div>
+              <div className="text-xs text-gray-500">
+                Cellule de {detection.cellSize.toFixed(1)} px
+                {detection.rotation > 0 && ` · image tournée de ${detection.rotation}°`}
+              </div>
+            </div>
+          )}
+
+          {session && (
+            <div className="rounded-lg border border-amber-700 bg-amber-900/20 p-4 text-sm text-gray-300 space-y-3">
+              <div className="flex items-start gap-3">
+                <UserIcon className="w-5 h-5 text-amber-400 mt-0.5" />
+                <div>
+                  <div className="text-white font-semibold">{session.users?.nom || 'Abonné supprimé'}</div>
+                  <div>Abonné {session.users?.numero_abonne || 'N/A'}</div>
+                  {session.users?.email && <div className="text-gray-400">{session.users.email}</div>}
+                  {session.users?.statut_abonnement && (
+                    <div className="text-xs text-gray-500">Statut : {session.users.statut_abonnement}</div>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-start gap-3">
+                <FileText className="w-5 h-5 text-amber-400 mt-0.5" />
+                <div>
+                  <div className="text-white">{session.pdfs?.titre || 'Document supprimé'}</div>
+                  <div>Ouvert le {new Date(session.created_at).toLocaleString('fr-FR')}</div>
+                  <div className="font-mono text-xs text-gray-400">
+                    Session {session.session_id.substring(0, 8).toUpperCase()} ({session.session_id})
+                  </div>
+                  {session.user_agent && <div className="text-xs text-gray-500 break-all">{session.user_agent}</div>}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
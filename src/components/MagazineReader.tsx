@@ -2,13 +2,22 @@ import { useState, useEffect } from 'react';
 import { X, ChevronLeft, ChevronRight, BookOpen, Clock, Bookmark, BookmarkCheck, List, Grid, Maximize, Type, Settings, Eye } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Edition, Page, Article } from '../lib/supabase';
+import { pickTileWidth, requestPageTile } from '../lib/pageImages';
+import type { PageTile } from '../lib/pageImages';
+import { getArticleZones } from '../lib/zoneEditing';
 
 interface MagazineReaderProps {
   editionId: string;
   userId: string;
+  initialArticleId?: string | null;
+  token: string;
+  sessionId: string;
 }
 
-export function MagazineReader({ editionId, userId }: MagazineReaderProps) {
+// Largeur maximale de la page à l'écran (conteneur max-w-7xl)
+const PAGE_DISPLAY_WIDTH = 1216;
+
+export function MagazineReader({ editionId, userId, initialArticleId, token, sessionId }: MagazineReaderProps) {
   const [edition, setEdition] = useState<Edition | null>(null);
   const [pages, setPages] = useState<Page[]>([]);
   const [articles, setArticles] = useState<Article[]>([]);
@@ -21,6 +30,8 @@ export function MagazineReader({ editionId, userId }: MagazineReaderProps) {
   const [fontSize, setFontSize] = useState(18);
   const [lineHeight, setLineHeight] = useState(1.8);
   const [showSettings, setShowSettings] = useState(false);
+  const [pageTile, setPageTile] = useState<PageTile | null>(null);
+  const [pageTileError, setPageTileError] = useState('');
 
   useEffect(() => {
     loadEditionData();
@@ -55,6 +66,16 @@ export function MagazineReader({ editionId, userId }: MagazineReaderProps) {
 
       if (articlesError) throw articlesError;
       setArticles(articlesData || []);
+
+      const initialArticle = initialArticleId
+        ? articlesData?.find((article) => article.id === initialArticleId)
+        : null;
+
+      if (initialArticle) {
+        const pageIndex = (pagesData || []).findIndex((page) => page.id === initialArticle.page_id);
+        if (pageIndex >= 0) setCurrentPageIndex(pageIndex);
+        openArticle(initialArticle);
+      }
     } catch (error) {
       console.error('Error loading edition:', error);
     } finally {
@@ -90,6 +111,39 @@ export function MagazineReader({ editionId, userId }: MagazineReaderProps) {
 
   const currentPage = pages[currentPageIndex];
   const pageArticles = articles.filter((a) => a.page_id === currentPage?.id);
+  const currentPageNumber = currentPage?.page_number;
+
+  const loadPageTile = async (pageNumber: number) => {
+    setPageTileError('');
+    const { tile, error } = await requestPageTile(
+      token,
+      sessionId,
+      pageNumber,
+      pickTileWidth(Math.min(window.innerWidth, PAGE_DISPLAY_WIDTH))
+    );
+
+    if (tile) {
+      setPageTile(tile);
+    } else {
+      setPageTileError(error || 'Image de page non disponible');
+    }
+  };
+
+  // URL signée de courte durée : on n'en redemande une que si elle a expiré avant le chargement
+  const handlePageTileError = (pageNumber: number) => {
+    if (pageTile && new Date(pageTile.expiresAt) <= new Date()) {
+      loadPageTile(pageNumber);
+      return;
+    }
+    setPageTile(null);
+    setPageTileError('Image de page non disponible');
+  };
+
+  useEffect(() => {
+    if (!currentPageNumber) return;
+    setPageTile(null);
+    loadPageTile(currentPageNumber);
+  }, [currentPageNumber, token]);
 
   const openArticle = async (article: Article) => {
     setSelectedArticle(article);
@@ -290,28 +344,35 @@ export function MagazineReader({ editionId, userId }: MagazineReaderProps) {
           <div className="relative">
             <div className="bg-slate-900 rounded-2xl overflow-hidden border border-slate-800 shadow-2xl">
               <div className="relative group">
-                {currentPage.image_url ? (
+                {pageTile ? (
                   <img
-                    src={currentPage.image_url}
+                    src={pageTile.url}
+                    width={pageTile.width}
+                    height={pageTile.height}
                     alt={`Page ${currentPage.page_number}`}
                     className="w-full h-auto"
+                    draggable={false}
+                    onContextMenu={(e) => e.preventDefault()}
+                    onError={() => handlePageTileError(currentPage.page_number)}
                   />
                 ) : (
                   <div className="w-full aspect-[8.5/11] bg-slate-800 flex items-center justify-center">
-                    <p className="text-gray-500 text-lg">Image de page non disponible</p>
+                    <p className="text-gray-500 text-lg">
+                      {pageTileError || 'Chargement de la page...'}
+                    </p>
                   </div>
                 )}
 
-                {pageArticles.map((article) => (
+                {pageArticles.flatMap((article) => getArticleZones(article).map((zone, index) => (
                   <button
-                    key={article.id}
+                    key={`${article.id}-${index}`}
                     onClick={() => openArticle(article)}
                     className="absolute border-2 border-transparent hover:border-amber-400 hover:bg-amber-500/20 transition-all duration-300 cursor-pointer group/article rounded-sm"
                     style={{
-                      left: `${article.position_x * 100}%`,
-                      top: `${article.position_y * 100}%`,
-                      width: `${article.width * 100}%`,
-                      height: `${article.height * 100}%`,
+                      left: `${zone.x * 100}%`,
+                      top: `${zone.y * 100}%`,
+                      width: `${zone.width * 100}%`,
+                      height: `${zone.height * 100}%`,
                     }}
                     title={article.titre}
                   >
@@ -320,18 +381,18 @@ export function MagazineReader({ editionId, userId }: MagazineReaderProps) {
                         {article.titre}
                       </div>
                     </div>
-                    {readArticles.has(article.id) && (
+                    {index === 0 && readArticles.has(article.id) && (
                       <div className="absolute top-2 right-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white p-1.5 rounded-full shadow-lg">
                         <BookOpen className="w-3.5 h-3.5" />
                       </div>
                     )}
-                    {bookmarkedArticles.has(article.id) && (
+                    {index === 0 && bookmarkedArticles.has(article.id) && (
                       <div className="absolute top-2 left-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white p-1.5 rounded-full shadow-lg">
                         <Bookmark className="w-3.5 h-3.5" />
                       </div>
                     )}
                   </button>
-                ))}
+                )))}
               </div>
             </div>
 
@@ -362,6 +423,29 @@ export function MagazineReader({ editionId, userId }: MagazineReaderProps) {
                 <ChevronRight className="w-5 h-5" />
               </button>
             </div>
+
+            {pages.some((page) => page.thumbnail_url) && (
+              <div className="flex gap-3 overflow-x-auto mt-6 pb-2">
+                {pages.map((page, index) => (
+                  <button
+                    key={page.id}
+                    onClick={() => setCurrentPageIndex(index)}
+                    className={`flex-shrink-0 w-20 rounded-lg overflow-hidden border-2 transition-colors ${
+                      index === currentPageIndex ? 'border-amber-500' : 'border-slate-800 hover:border-slate-600'
+                    }`}
+                    title={`Page ${page.page_number}`}
+                  >
+                    {page.thumbnail_url ? (
+                      <img src={page.thumbnail_url} alt={`Page ${page.page_number}`} loading="lazy" className="w-full h-auto" />
+                    ) : (
+                      <div className="w-full aspect-[3/4] bg-slate-800 flex items-center justify-center text-gray-500 text-xs">
+                        {page.page_number}
+                      </div>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
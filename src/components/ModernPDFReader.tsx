@@ -13,13 +13,18 @@ import {
  LayoutGrid,
 } from 'lucide-react';
 import { supabase, Edition } from '../lib/supabase';
+import type { ArticleZone } from '../lib/supabase';
 import { ArticleReader } from './ArticleReader';
+import { pickTileWidth, requestPageTile } from '../lib/pageImages';
+import { getDeviceFingerprint } from '../lib/deviceFingerprint';
 
 interface ReaderAccessData {
  tokenId?: string;
  pdfId?: string;
- pdfUrl: string;
+ // Chemin du PDF, seulement pour retrouver l'édition : les pages arrivent en tuiles filigranées
+ pdfPath?: string;
  pdfTitle?: string;
+ totalPages?: number | null;
  userId: string;
  userName?: string;
  userNumber?: string;
@@ -31,7 +36,11 @@ interface ReaderAccessData {
 
 interface ModernPDFReaderProps {
  token: string;
+ // Session admise par validate-edition-access (limite d'appareils), fournie par ReaderRouter :
+ // generate-secure-page refuse toute autre session
+ sessionId: string;
  initialData?: ReaderAccessData;
+ initialArticleId?: string | null;
 }
 
 interface TokenData {
@@ -57,6 +66,7 @@ interface ArticleHotspot {
  width: number;
  height: number;
  ordre: number;
+ bloc: number;
 }
 
 type EditionSummary = Pick<Edition, 'id' | 'titre' | 'date_publication' | 'date_edition'>;
@@ -133,45 +143,9 @@ const buildPdfPathCandidates = (rawPath: string | null | undefined) => {
  return { paths: Array.from(result), fileName };
 };
 
-let pdfJsLibPromise: Promise<void> | null = null;
 const ACCESS_CACHE_KEY_PREFIX = 'modern-pdf-token:';
 const ACCESS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-const ensurePdfJsLib = (): Promise<void> => {
- if (typeof window === 'undefined') return Promise.resolve();
- if ((window as any).pdfjsLib) return Promise.resolve();
-
- if (!pdfJsLibPromise) {
-  pdfJsLibPromise = new Promise((resolve, reject) => {
-   const existing = document.querySelector<HTMLScriptElement>('script[data-pdfjs]');
-   if (existing) {
-    existing.addEventListener('load', () => resolve());
-    existing.addEventListener('error', reject);
-    return;
-   }
-
-   const script = document.createElement('script');
-   script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-   script.async = true;
-   script.dataset.pdfjs = 'true';
-   script.onload = () => {
-    const pdfjsLib = (window as any).pdfjsLib;
-    if (pdfjsLib) {
-     pdfjsLib.GlobalWorkerOptions.workerSrc =
-      'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-     resolve();
-    } else {
-     reject(new Error('pdfjsLib unavailable apres chargement du script'));
-    }
-   };
-   script.onerror = reject;
-   document.head.appendChild(script);
- });
-}
-
-return pdfJsLibPromise;
-};
-
 const readCachedAccessData = (token: string): ReaderAccessData | null => {
  if (typeof window === 'undefined') return null;
  try {
@@ -202,14 +176,19 @@ const writeCachedAccessData = (token: string, payload: ReaderAccessData) => {
  }
 };
 
-export function ModernPDFReader({ token, initialData }: ModernPDFReaderProps) {
+export function ModernPDFReader({
+ token,
+ sessionId: readingSessionId,
+ initialData,
+ initialArticleId: deepLinkArticleId,
+}: ModernPDFReaderProps) {
  const [loading, setLoading] = useState(true);
  const [error, setError] = useState('');
  const [tokenData, setTokenData] = useState<TokenData | null>(null);
- const [pdfUrl, setPdfUrl] = useState('');
+ const [readerReady, setReaderReady] = useState(false);
  const [editionId, setEditionId] = useState<string | null>(null);
  const [hasArticles, setHasArticles] = useState(false);
- const [viewMode, setViewMode] = useState<'pdf' | 'article'>('pdf');
+ const [viewMode, setViewMode] = useState<'pdf' | 'article'>(deepLinkArticleId ? 'article' : 'pdf');
  const [currentPageState, setCurrentPageState] = useState(1);
  const [totalPages, setTotalPages] = useState(0);
  const [scale, setScale] = useState(1);
@@ -222,7 +201,7 @@ export function ModernPDFReader({ token, initialData }: ModernPDFReaderProps) {
  const [checkingArticles, setCheckingArticles] = useState(false);
  const [articleHotspots, setArticleHotspots] = useState<Record<number, ArticleHotspot[]>>({});
  const [initialArticleId, setInitialArticleId] = useState<string | null>(null);
- const [pendingArticleId, setPendingArticleId] = useState<string | null>(null);
+ const [pendingArticleId, setPendingArticleId] = useState<string | null>(deepLinkArticleId ?? null);
  const [editionInfo, setEditionInfo] = useState<EditionSummary | null>(null);
  const lastHotspotEditionRef = useRef<string | null>(null);
 
@@ -339,43 +318,6 @@ useEffect(() => {
   };
  }, []);
 
-const resolvePdfUrl = useCallback(async (storagePath: string) => {
-  const trimmedPath = storagePath?.trim?.() ?? '';
-  if (!trimmedPath) {
-   throw new Error('Chemin du PDF invalide');
-  }
-
-  try {
-   const { data, error } = await supabase.storage
-    .from('secure-pdfs')
-    .createSignedUrl(trimmedPath, 60 * 60);
-
-   if (!error && data?.signedUrl) {
-    return data.signedUrl;
-   }
-
-   if (error) {
-    console.warn('Echec de generation de l URL signee, tentative de fallback', error);
-   }
-  } catch (err) {
-   console.warn('Echec de generation de l URL signee, tentative de fallback', err);
-  }
-
-  const { data: publicData } = supabase.storage
-   .from('secure-pdfs')
-   .getPublicUrl(trimmedPath);
-
-  if (publicData?.publicUrl) {
-   return publicData.publicUrl;
-  }
-
-  if (/^https?:\/\//i.test(trimmedPath)) {
-   return trimmedPath;
-  }
-
- throw new Error('Impossible de generer une URL pour le PDF demande');
-}, []);
-
 const fetchIpAddress = useCallback(async () => {
  if (typeof fetch === 'undefined') return '';
 
@@ -551,6 +493,7 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
       position_y,
       width,
       height,
+      zones,
       page_id
      `)
     .eq('edition_id', targetEditionId)
@@ -568,6 +511,7 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
     position_y: number | null;
     width: number | null;
     height: number | null;
+    zones: ArticleZone[] | null;
     page_id: string | null;
    }> = Array.isArray(data) ? data : [];
 
@@ -603,37 +547,41 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
    articlesData.forEach((article) => {
     if (!article) return;
 
-    const normalizedWidth = clamp01(article.width);
-    const normalizedHeight = clamp01(article.height);
+    // Un article peut occuper plusieurs blocs (suite dans une autre colonne)
+    const blocks =
+     article.zones && article.zones.length > 0
+      ? article.zones
+      : [{ x: article.position_x, y: article.position_y, width: article.width, height: article.height }];
+
+    const validBlocks = blocks.filter((block) => clamp01(block.width) > 0 && clamp01(block.height) > 0);
 
-    if (normalizedWidth <= 0 || normalizedHeight <= 0) {
+    if (validBlocks.length === 0) {
      ignoredHotspots.push(article.id);
      return;
     }
 
-    const normalizedX = clamp01(article.position_x);
-    const normalizedY = clamp01(article.position_y);
-
     const resolvedPageNumber = article.page_id ? pageNumberMap.get(article.page_id) : undefined;
     const safePageNumber =
      typeof resolvedPageNumber === 'number' && resolvedPageNumber > 0
       ? resolvedPageNumber
       : Math.max(1, Number(article?.ordre_lecture) || 1);
 
-    const hotspot: ArticleHotspot = {
-     id: article.id,
-     titre: article.titre,
-     x: normalizedX,
-     y: normalizedY,
-     width: normalizedWidth,
-     height: normalizedHeight,
-     ordre: article.ordre_lecture ?? 0,
-    };
-
     if (!hotspotsMap[safePageNumber]) {
      hotspotsMap[safePageNumber] = [];
     }
-    hotspotsMap[safePageNumber].push(hotspot);
+
+    validBlocks.forEach((block, index) => {
+     hotspotsMap[safePageNumber].push({
+      id: article.id,
+      titre: article.titre,
+      x: clamp01(block.x),
+      y: clamp01(block.y),
+      width: clamp01(block.width),
+      height: clamp01(block.height),
+      ordre: article.ordre_lecture ?? 0,
+      bloc: index,
+     });
+    });
    });
 
    Object.values(hotspotsMap).forEach((list) => list.sort((a, b) => a.ordre - b.ordre));
@@ -660,8 +608,7 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
 
  const applyAccessData = useCallback(
   async (payload: ReaderAccessData) => {
-   const resolvedUrlPromise = resolvePdfUrl(payload.pdfUrl);
-   const metadataPromise = fetchEditionMetadata(payload.editionId ?? null, payload.pdfUrl);
+   const metadataPromise = fetchEditionMetadata(payload.editionId ?? null, payload.pdfPath ?? '');
 
    const tokenRecord: TokenData = {
     id: payload.tokenId ?? '',
@@ -670,7 +617,7 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
     expires_at: payload.expiresAt ?? '',
     pdfs: {
      titre: payload.pdfTitle ?? '',
-     url_fichier: payload.pdfUrl,
+     url_fichier: payload.pdfPath ?? '',
     },
     users: {
      nom: payload.userName ?? '',
@@ -678,13 +625,11 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
     },
    };
 
-   // Apply immediately so UI can use available metadata while URL resolves
    setTokenData(tokenRecord);
    setHasArticles(payload.hasArticles ?? false);
    setInitialArticleId(null);
-
-   const resolvedUrl = await resolvedUrlPromise;
-   setPdfUrl(resolvedUrl);
+   setTotalPages(payload.totalPages ?? 0);
+   setReaderReady(true);
 
    metadataPromise
     .then(async (editionIdResolved) => {
@@ -722,7 +667,7 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
      }
     });
   },
-  [fetchEditionMetadata, loadArticleHotspots, resolvePdfUrl]
+  [fetchEditionMetadata, loadArticleHotspots]
  );
 
  const validateToken = useCallback(async () => {
@@ -739,38 +684,25 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
   setHasArticles(false);
   setEditionInfo(null);
   setEditionId(null);
+  setReaderReady(false);
   lastHotspotEditionRef.current = null;
 
   try {
-   if (initialData?.pdfUrl) {
+   if (initialData) {
     setHasArticles(initialData.hasArticles ?? false);
     await applyAccessData(initialData);
     return;
    }
 
-   ensurePdfJsLib().catch((err) => console.error('Erreur de prechargement pdf.js (validation)', err));
-
    const cached = readCachedAccessData(token);
-   if (cached?.pdfUrl) {
+   if (cached?.userId) {
     setHasArticles(cached.hasArticles ?? false);
     await applyAccessData(cached);
     setLoading(false);
     return;
    }
 
-   const screenInfo =
-    typeof window !== 'undefined' && window.screen
-     ? `${window.screen.width}x${window.screen.height}`
-     : '';
-   const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
-   const language = typeof navigator !== 'undefined' ? navigator.language : 'fr-FR';
-
-   const deviceFingerprint = {
-    userAgent,
-    screenResolution: screenInfo,
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    language,
-   };
+   const deviceFingerprint = getDeviceFingerprint();
 
    const ipFetchPromise = fetchIpAddress();
    const ipAddress = await Promise.race<string | undefined>([
@@ -791,6 +723,7 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
       token,
       deviceFingerprint,
       ipAddress,
+      sessionId: readingSessionId,
      }),
     }
    );
@@ -807,8 +740,8 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
    const accessPayload: ReaderAccessData = {
     tokenId: data?.tokenId,
     pdfId: data?.pdfId,
-    pdfUrl: data?.pdfUrl,
     pdfTitle: data?.pdfTitle,
+    totalPages: data?.totalPages,
     userId: data?.userId,
     userName: data?.userName,
     userNumber: data?.userNumber,
@@ -832,21 +765,17 @@ async (editionIdCandidate: string | null | undefined, pdfPath: string) => {
   } finally {
    setLoading(false);
   }
-}, [applyAccessData, fetchIpAddress, initialData, token]);
+}, [applyAccessData, fetchIpAddress, initialData, readingSessionId, token]);
 
  useEffect(() => {
   validateToken().catch((err) => console.error('Validation error', err));
-  setSessionId(crypto.randomUUID());
+  setSessionId(readingSessionId);
   const teardownSecurity = setupSecurityMeasures();
 
   return () => {
    teardownSecurity?.();
   };
- }, [setupSecurityMeasures, token, validateToken]);
-
-useEffect(() => {
- ensurePdfJsLib().catch(err => console.error('Erreur de prechargement de pdf.js', err));
-}, []);
+ }, [readingSessionId, setupSecurityMeasures, token, validateToken]);
 
  useEffect(() => {
   setCurrentPageState(prev => clampPage(prev));
@@ -873,48 +802,43 @@ const nextPageLabel = `P ${totalPages ? Math.min(totalPages, currentPage + 1) :
 const hotspotsForCurrentPage = articleHotspots[currentPage] || [];
 
 
-const applyWatermark = useCallback(
- (context: CanvasRenderingContext2D, canvas: HTMLCanvasElement, pageNumber: number) => {
-  if (!tokenData?.users?.nom) return;
-
-  context.save();
-  context.globalAlpha = 0.08;
+useEffect(() => {
+ scaleRef.current = scale;
+}, [scale]);
 
-  const fontSize = Math.max(14, Math.min(canvas.width * 0.02, 24));
-  context.font = `600 ${fontSize}px system-ui, -apple-system, sans-serif`;
-  context.fillStyle = '#64748B';
-  context.textAlign = 'center';
+useEffect(() => {
+ rotationRef.current = rotation;
+}, [rotation]);
 
-  const centerX = canvas.width / 2;
-  const centerY = canvas.height / 2;
+// Images des tuiles déjà chargées : l'URL signée expire vite, l'image décodée reste utilisable
+const tileImagesRef = useRef(new Map<string, HTMLImageElement>());
 
-  context.translate(centerX, centerY);
-  context.rotate(-Math.PI / 8);
+const loadTileImage = useCallback(
+ async (pageNumber: number, displayWidth: number) => {
+  const width = pickTileWidth(displayWidth);
+  const key = `${pageNumber}:${width}`;
+  const cachedImage = tileImagesRef.current.get(key);
+  if (cachedImage) return cachedImage;
 
-  const sessionShort = sessionId.substring(0, 8).toUpperCase();
-  const timestamp = new Date().toLocaleString('fr-FR');
+  const { tile, error: tileError } = await requestPageTile(token, sessionId, pageNumber, width);
+  if (!tile) {
+   throw new Error(tileError || 'Page indisponible');
+  }
 
-  context.fillText(tokenData.users.nom.toUpperCase(), 0, -fontSize * 1.5);
-  context.fillText(`${tokenData.users.numero_abonne || 'N/A'}`, 0, 0);
-  context.fillText(`${timestamp}`, 0, fontSize * 1.5);
-  context.fillText(`ID: ${sessionShort} - P${pageNumber}`, 0, fontSize * 3);
+  setTotalPages(tile.totalPages);
 
-  context.restore();
+  const image = new Image();
+  image.src = tile.url;
+  await image.decode();
+  tileImagesRef.current.set(key, image);
+  return image;
  },
- [sessionId, tokenData]
+ [sessionId, token]
 );
-useEffect(() => {
- scaleRef.current = scale;
-}, [scale]);
-
-useEffect(() => {
- rotationRef.current = rotation;
-}, [rotation]);
 
 const renderPage = useCallback(
  async (pageNumber: number, renderRotation: number, renderScale: number) => {
- const pdf = (window as any).pdfDocument;
- if (!pdf) return;
+ if (!sessionId) return;
 
  const canvas = canvasRef.current;
  if (!canvas) {
@@ -945,39 +869,39 @@ const renderPage = useCallback(
  isRenderingRef.current = true;
 
  try {
-  const page = await pdf.getPage(pageNumber);
+  const image = await loadTileImage(pageNumber, containerWidth * renderScale);
   const context = canvas.getContext('2d');
   if (!context) {
     isRenderingRef.current = false;
     return;
   }
 
-  const baseViewport = page.getViewport({ scale: 1, rotation: renderRotation });
+  const quarterTurn = renderRotation % 180 !== 0;
+  const pageWidth = quarterTurn ? image.naturalHeight : image.naturalWidth;
+  const pageHeight = quarterTurn ? image.naturalWidth : image.naturalHeight;
 
-  const baseScaleRaw = Math.min(
-   containerWidth / baseViewport.width,
-   containerHeight / baseViewport.height
+  const baseScale = Math.max(
+   Math.min(containerWidth / pageWidth, containerHeight / pageHeight) * 0.98,
+   0.1
   );
+  const viewportWidth = pageWidth * baseScale * renderScale;
+  const viewportHeight = pageHeight * baseScale * renderScale;
 
-   const baseScale = Math.max(Math.min(baseScaleRaw, 1) * 0.98, 0.1);
-   const effectiveScale = baseScale * renderScale;
-   const viewport = page.getViewport({ scale: effectiveScale, rotation: renderRotation });
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.max(1, Math.round(viewportWidth * dpr));
+  canvas.height = Math.max(1, Math.round(viewportHeight * dpr));
+  canvas.style.width = `${viewportWidth}px`;
+  canvas.style.height = `${viewportHeight}px`;
 
-   const dpr = window.devicePixelRatio || 1;
-   canvas.width = Math.max(1, Math.round(viewport.width * dpr));
-   canvas.height = Math.max(1, Math.round(viewport.height * dpr));
-   canvas.style.width = `${viewport.width}px`;
-   canvas.style.height = `${viewport.height}px`;
+  context.setTransform(dpr, 0, 0, dpr, 0, 0);
+  context.clearRect(0, 0, viewportWidth, viewportHeight);
+  context.translate(viewportWidth / 2, viewportHeight / 2);
+  context.rotate((renderRotation * Math.PI) / 180);
 
-   context.setTransform(dpr, 0, 0, dpr, 0, 0);
-   context.clearRect(0, 0, viewport.width, viewport.height);
+  const drawWidth = quarterTurn ? viewportHeight : viewportWidth;
+  const drawHeight = quarterTurn ? viewportWidth : viewportHeight;
+  context.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
 
-  await page.render({
-   canvasContext: context,
-   viewport,
-  }).promise;
-
-  applyWatermark(context, canvas, pageNumber);
   lastRenderRef.current = {
    page: pageNumber,
    rotation: renderRotation,
@@ -988,6 +912,7 @@ const renderPage = useCallback(
   setPdfReady(true);
  } catch (err) {
   console.error('Error rendering page:', err);
+  setError(err instanceof Error ? err.message : 'Erreur lors du chargement de la page');
  } finally {
   isRenderingRef.current = false;
 
@@ -998,7 +923,7 @@ const renderPage = useCallback(
    }
  }
  },
- [applyWatermark, isMobile]
+ [isMobile, loadTileImage, sessionId]
 );
 const latestRenderPageRef = useRef(renderPage);
 useEffect(() => {
@@ -1006,64 +931,22 @@ useEffect(() => {
 }, [renderPage]);
 
 useEffect(() => {
- if (!pdfUrl) return;
-
- let cancelled = false;
-
- const initializePDF = async () => {
-  try {
-   await ensurePdfJsLib();
-
-   if ((window as any).pdfDocument?.destroy) {
-    try {
-     await (window as any).pdfDocument.destroy();
-    } catch (destroyErr) {
-     console.warn('Error while destroying previous PDF instance', destroyErr);
-    }
-   }
-
-   const loadingTask = window.pdfjsLib.getDocument({
-    url: pdfUrl,
-    cMapUrl: 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/cmaps/',
-    cMapPacked: true,
-   });
-
-   const pdf = await loadingTask.promise;
-   if (cancelled) {
-    await pdf.destroy?.();
-    return;
-   }
-
-  (window as any).pdfDocument = pdf;
-  setTotalPages(pdf.numPages);
-  setCurrentPageState(1);
-  currentPageRef.current = 1;
-  lastRenderRef.current = null;
-  setPdfReady(false);
-  await latestRenderPageRef.current(1, rotationRef.current, scaleRef.current);
- } catch (err) {
-   if (!cancelled) {
-    console.error('Error loading PDF:', err);
-    setError('Erreur lors du chargement du PDF');
-   }
-  }
- };
-
- initializePDF().catch((err) => {
-  if (!cancelled) {
-   console.error('Initialisation du PDF echouee', err);
-  }
+ if (!readerReady) return;
+
+ tileImagesRef.current.clear();
+ setCurrentPageState(1);
+ currentPageRef.current = 1;
+ lastRenderRef.current = null;
+ setPdfReady(false);
+ latestRenderPageRef.current(1, rotationRef.current, scaleRef.current).catch((err) => {
+  console.error('Initialisation du lecteur echouee', err);
  });
-
- return () => {
-  cancelled = true;
- };
-}, [pdfUrl]);
+}, [readerReady, token]);
 
 useEffect(() => {
- if (!pdfUrl || viewMode !== 'pdf' || loading) return;
+ if (!readerReady || viewMode !== 'pdf' || loading) return;
  renderPage(currentPage, rotation, scale);
-}, [currentPage, loading, pdfUrl, renderPage, rotation, scale, viewMode]);
+}, [currentPage, loading, readerReady, renderPage, rotation, scale, viewMode]);
 
 useEffect(() => {
  if (loading || viewMode !== 'pdf') return;
@@ -1362,7 +1245,7 @@ const articleView = (() => {
       <div className="absolute inset-0 flex items-center justify-center bg-white/85 backdrop-blur-[1px]">
        <div className="flex flex-col items-center gap-3">
         <div className="h-12 w-12 rounded-full border-4 border-[#d7deec] border-t-[#1f3b63] animate-spin" />
-        <p className="text-xs font-medium text-[#1f3b63]">Preparation du PDF...</p>
+        <p className="text-xs font-medium text-[#1f3b63]">Preparation de la page...</p>
        </div>
       </div>
      )}
@@ -1370,7 +1253,7 @@ const articleView = (() => {
      {viewMode === 'pdf' &&
       hotspotsForCurrentPage.map((hotspot) => (
         <button
-         key={`${hotspot.id}-${hotspot.ordre}`}
+         key={`${hotspot.id}-${hotspot.ordre}-${hotspot.bloc}`}
          type="button"
          onClick={(event) => {
           event.stopPropagation();
@@ -1446,10 +1329,3 @@ const articleView = (() => {
   </>
  );
 }
-
-declare global {
- interface Window {
-  pdfjsLib: any;
-  pdfDocument: any;
- }
-}
@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react';
+import { MessageSquare, RefreshCw, AlertTriangle, Clock, XCircle, Send } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Notification, User } from '../lib/supabase';
+
+interface NotificationWithUser extends Notification {
+  users?: Pick<User, 'nom' | 'numero_abonne'>;
+}
+
+type StatusFilter = 'echoue' | 'abandonne' | 'tous';
+
+export function NotificationQueue() {
+  const [notifications, setNotifications] = useState<NotificationWithUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('abandonne');
+  const [typeFilter, setTypeFilter] = useState<string>('tous');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [requeuing, setRequeuing] = useState(false);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, 30000);
+    return () => clearInterval(interval);
+  }, [statusFilter, typeFilter]);
+
+  const loadNotifications = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('notifications')
+        .select(`
+          *,
+          users (nom, numero_abonne)
+        `)
+        .order('derniere_tentative', { ascending: false, nullsFirst: false })
+        .limit(200);
+
+      query = statusFilter === 'tous'
+        ? query.in('statut', ['echoue', 'abandonne'])
+        : query.eq('statut', statusFilter);
+
+      if (typeFilter !== 'tous') {
+        query = query.eq('type_notification', typeFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setNotifications(data || []);
+      setSelected(prev => new Set([...prev].filter(id => data?.some(n => n.id === id))));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(prev =>
+      prev.size === notifications.length ? new Set() : new Set(notifications.map(n => n.id))
+    );
+  };
+
+  const requeueSelected = async () => {
+    if (selected.size === 0) return;
+    if (!confirm(`Renvoyer ${selected.size} notification(s) ?`)) return;
+
+    setRequeuing(true);
+    try {
+      const { data: count, error } = await supabase.rpc('requeue_notifications', {
+        p_notification_ids: [...selected],
+      });
+
+      if (error) throw error;
+
+      // Déclenche le dispatcher sans attendre son prochain passage planifié
+      await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/dispatch-notifications`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+      }).catch(err => console.error('Error triggering dispatcher:', err));
+
+      setSelected(new Set());
+      await loadNotifications();
+      alert(`${count ?? 0} notification(s) remise(s) en file d'envoi`);
+    } catch (error) {
+      console.error('Error requeuing notifications:', error);
+      alert('Erreur lors de la remise en file');
+    } finally {
+      setRequeuing(false);
+    }
+  };
+
+  const getTypeLabel = (type: string) => {
+    switch (type) {
+      case 'nouvelle_edition':
+        return 'Nouvelle édition';
+      case 'rappel_paiement':
+        return 'Rappel de paiement';
+      case 'expiration_proche':
+        return 'Expiration proche';
+      case 'suspension':
+        return 'Suspension';
+      case 'bienvenue':
+        return 'Bienvenue';
+      default:
+        return 'Autre';
+    }
+  };
+
+  const stats = {
+    retrying: notifications.filter(n => n.statut === 'echoue').length,
+    deadLetter: notifications.filter(n => n.statut === 'abandonne').length,
+  };
+
+  if (loading && notifications.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+        <p className="text-gray-400 mt-4">Chargement des notifications...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2 mb-2">
+          <MessageSquare className="w-7 h-7 text-amber-500" />
+          Notifications en échec
+        </h2>
+        <p className="text-gray-400 text-sm">
+          Les envois échoués sont retentés automatiquement avec un délai croissant, puis abandonnés après le nombre maximal de tentatives
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        <div className="bg-gradient-to-br from-amber-900/30 to-amber-800/20 border border-amber-700 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-amber-400 text-sm mb-1">En attente de réessai</div>
+              <div className="text-3xl font-bold text-white">{stats.retrying}</div>
+            </div>
+            <Clock className="w-8 h-8 text-amber-400" />
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-red-900/30 to-red-800/20 border border-red-700 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-red-400 text-sm mb-1">Abandonnées</div>
+              <div className="text-3xl font-bold text-white">{stats.deadLetter}</div>
+            </div>
+            <XCircle className="w-8 h-8 text-red-400" />
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-6 flex flex-col sm:flex-row gap-3">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+        >
+          <option value="abandonne">Abandonnées</option>
+          <option value="echoue">En attente de réessai</option>
+          <option value="tous">Toutes</option>
+        </select>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+        >
+          <option value="tous">Tous les types</option>
+          <option value="nouvelle_edition">Nouvelle édition</option>
+          <option value="rappel_paiement">Rappel de paiement</option>
+          <option value="expiration_proche">Expiration proche</option>
+          <option value="suspension">Suspension</option>
+          <option value="bienvenue">Bienvenue</option>
+          <option value="autre">Autre</option>
+        </select>
+        <button
+          onClick={requeueSelected}
+          disabled={selected.size === 0 || requeuing}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+        >
+          {requeuing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Renvoyer ({selected.size})
+        </button>
+      </div>
+
+      {notifications.length === 0 ? (
+        <div className="text-center py-12">
+          <MessageSquare className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <p className="text-gray-400">Aucune notification en échec</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-3 px-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.size === notifications.length}
+                    onChange={toggleAll}
+                    className="w-4 h-4 text-amber-500 bg-gray-600 border-gray-500 rounded focus:ring-amber-500"
+                  />
+                </th>
+                <th className="py-3 px-2">Destinataire</th>
+                <th className="py-3 px-2">Type</th>
+                <th className="py-3 px-2">Tentatives</th>
+                <th className="py-3 px-2">Dernière erreur</th>
+                <th className="py-3 px-2">Prochain essai</th>
+              </tr>
+            </thead>
+            <tbody>
+              {notifications.map((notification) => (
+                <tr key={notification.id} className="border-b border-gray-700 hover:bg-gray-700/50">
+                  <td className="py-3 px-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(notification.id)}
+                      onChange={() => toggleSelected(notification.id)}
+                      className="w-4 h-4 text-amber-500 bg-gray-600 border-gray-500 rounded focus:ring-amber-500"
+                    />
+                  </td>
+                  <td className="py-3 px-2">
+                    <div className="text-white">{notification.users?.nom || 'Utilisateur inconnu'}</div>
+                    <div className="text-xs text-gray-400 font-mono">{notification.numero_destinataire || '—'}</div>
+                  </td>
+                  <td className="py-3 px-2 text-gray-300">{getTypeLabel(notification.type_notification)}</td>
+                  <td className="py-3 px-2">
+                    <span className={`px-2 py-0.5 rounded text-xs ${
+                      notification.statut === 'abandonne'
+                        ? 'bg-red-900/50 text-red-300'
+                        : 'bg-amber-900/50 text-amber-300'
+                    }`}>
+                      {notification.tentatives}
+                    </span>
+                  </td>
+                  <td className="py-3 px-2 text-gray-400 max-w-xs">
+                    <div className="flex items-start gap-1">
+                      <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                      <span className="truncate" title={notification.erreur || ''}>
+                        {notification.erreur || 'Erreur inconnue'}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="py-3 px-2 text-gray-400 whitespace-nowrap">
+                    {notification.statut === 'abandonne'
+                      ? 'Abandonnée'
+                      : notification.prochaine_tentative
+                        ? new Date(notification.prochaine_tentative).toLocaleString('fr-FR')
+                        : 'Dès que possible'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,21 @@
 import { useState, useEffect } from 'react';
-import { DollarSign, CheckCircle, Clock, XCircle, Plus, Search } from 'lucide-react';
+import { DollarSign, CheckCircle, Clock, XCircle, Plus, Search, RotateCcw, History } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
-import type { Paiement, User, Formule } from '../lib/supabase';
+import type { Paiement, PaymentEvent, User, Formule } from '../lib/supabase';
 
 interface PaiementWithDetails extends Paiement {
   users?: User;
 }
 
 export function PaymentManagement() {
-  const { user } = useAuth();
   const [paiements, setPaiements] = useState<PaiementWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('tous');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<PaiementWithDetails | null>(null);
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
+  const [history, setHistory] = useState<Record<string, PaymentEvent[]>>({});
   const [stats, setStats] = useState({
     total: 0,
     confirme: 0,
@@ -41,14 +42,14 @@ export function PaymentManagement() {
       if (error) throw error;
       setPaiements(data || []);
 
-      const total = data?.reduce((sum, p) => p.statut === 'confirme' ? sum + p.montant_fcfa : sum, 0) || 0;
+      const total = data?.reduce((sum, p) => p.statut === 'confirme' ? sum + p.montant_fcfa - (p.montant_rembourse || 0) : sum, 0) || 0;
       const confirme = data?.filter(p => p.statut === 'confirme').length || 0;
       const en_attente = data?.filter(p => p.statut === 'en_attente').length || 0;
 
       const currentMonth = new Date().getMonth();
       const ce_mois = data?.reduce((sum, p) => {
         const pDate = new Date(p.date_paiement);
-        return p.statut === 'confirme' && pDate.getMonth() === currentMonth ? sum + p.montant_fcfa : sum;
+        return p.statut === 'confirme' && pDate.getMonth() === currentMonth ? sum + p.montant_fcfa - (p.montant_rembourse || 0) : sum;
       }, 0) || 0;
 
       setStats({ total, confirme, en_attente, ce_mois });
@@ -63,9 +64,8 @@ export function PaymentManagement() {
     if (!confirm('Confirmer ce paiement?')) return;
 
     try {
-      const { data, error } = await supabase.rpc('confirm_payment_secure', {
+      const { data, error } = await supabase.rpc('confirm_payment_manual', {
         p_payment_id: paiementId,
-        p_confirmed_by: user?.id,
         p_notes: 'Confirmation manuelle par administrateur',
       });
 
@@ -101,6 +101,57 @@ export function PaymentManagement() {
     }
   };
 
+  const loadHistory = async (paiementId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_events')
+        .select('*')
+        .eq('payment_id', paiementId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setHistory(prev => ({ ...prev, [paiementId]: data || [] }));
+    } catch (error) {
+      console.error('Error loading payment history:', error);
+    }
+  };
+
+  const toggleHistory = (paiementId: string) => {
+    if (expandedHistory === paiementId) {
+      setExpandedHistory(null);
+      return;
+    }
+    setExpandedHistory(paiementId);
+    loadHistory(paiementId);
+  };
+
+  const getEventLabel = (event: PaymentEvent) => {
+    switch (event.event_type) {
+      case 'created':
+        return 'Créé';
+      case 'pending':
+        return 'Vérification iPay';
+      case 'paid':
+        return 'Payé';
+      case 'failed':
+        return 'Échec';
+      case 'refunded':
+        return `Remboursé (${event.metadata.amount} FCFA)`;
+      case 'partially_refunded':
+        return `Remboursement partiel (${event.metadata.amount} FCFA)`;
+      case 'confirmed_manual':
+        return 'Confirmé manuellement';
+      case 'confirmed_auto':
+        return 'Confirmé automatiquement';
+      case 'expired':
+        return 'Expiré';
+      case 'cancelled':
+        return 'Annulé';
+      default:
+        return event.event_type;
+    }
+  };
+
   const filteredPaiements = paiements.filter(p => {
     const matchesSearch =
       p.users?.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -262,11 +313,40 @@ export function PaymentManagement() {
                     </div>
                   </div>
 
+                  {!!paiement.montant_rembourse && (
+                    <div className="text-sm text-blue-300 mb-2">
+                      Remboursé : {paiement.montant_rembourse.toLocaleString()} FCFA
+                      {paiement.motif_remboursement && ` — ${paiement.motif_remboursement}`}
+                    </div>
+                  )}
+
                   {paiement.notes && (
                     <div className="text-xs text-gray-400 bg-gray-800 p-2 rounded mt-2">
                       {paiement.notes}
                     </div>
                   )}
+
+                  {expandedHistory === paiement.id && (
+                    <div className="mt-3 bg-gray-800 rounded p-3">
+                      {!history[paiement.id] ? (
+                        <p className="text-xs text-gray-400">Chargement de l'historique...</p>
+                      ) : history[paiement.id].length === 0 ? (
+                        <p className="text-xs text-gray-400">Aucun événement enregistré</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {history[paiement.id].map((event) => (
+                            <li key={event.id} className="text-xs text-gray-300 flex flex-col sm:flex-row sm:gap-3">
+                              <span className="text-gray-500 whitespace-nowrap">
+                                {new Date(event.created_at).toLocaleString('fr-FR')}
+                              </span>
+                              <span className="font-medium text-white">{getEventLabel(event)}</span>
+                              {event.notes && <span className="text-gray-400">{event.notes}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 {paiement.statut === 'en_attente' && (
@@ -287,6 +367,25 @@ export function PaymentManagement() {
                     </button>
                   </div>
                 )}
+
+                <div className="flex flex-col gap-2 ml-4">
+                  {paiement.statut === 'confirme' && (
+                    <button
+                      onClick={() => setRefundTarget(paiement)}
+                      className="px-3 py-1 bg-blue-900/50 text-blue-300 rounded hover:bg-blue-900 transition-colors text-sm flex items-center gap-1"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Rembourser
+                    </button>
+                  )}
+                  <button
+                    onClick={() => toggleHistory(paiement.id)}
+                    className="px-3 py-1 bg-gray-800 text-gray-300 rounded hover:bg-gray-600 transition-colors text-sm flex items-center gap-1"
+                  >
+                    <History className="w-4 h-4" />
+                    Historique
+                  </button>
+                </div>
               </div>
             </div>
           ))}
@@ -300,9 +399,154 @@ export function PaymentManagement() {
             setShowAddModal(false);
             loadPaiements();
           }}
-          adminId={user?.id || ''}
         />
       )}
+
+      {refundTarget && (
+        <RefundModal
+          paiement={refundTarget}
+          onClose={() => setRefundTarget(null)}
+          onSuccess={() => {
+            const refundedId = refundTarget.id;
+            setRefundTarget(null);
+            loadPaiements();
+            if (expandedHistory === refundedId) {
+              loadHistory(refundedId);
+            }
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface RefundModalProps {
+  paiement: PaiementWithDetails;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function RefundModal({ paiement, onClose, onSuccess }: RefundModalProps) {
+  const remaining = paiement.montant_fcfa - (paiement.montant_rembourse || 0);
+  const [montant, setMontant] = useState(remaining.toString());
+  const [motif, setMotif] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const amount = parseInt(montant) || 0;
+  const isFull = amount >= remaining;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm(`Rembourser ${amount.toLocaleString()} FCFA à ${paiement.users?.nom || 'cet abonné'} ?`)) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('refund_payment', {
+        p_payment_id: paiement.id,
+        p_amount: amount,
+        p_reason: motif.trim(),
+      });
+
+      if (error) throw error;
+      if (!data?.success) {
+        alert(data?.error || 'Erreur lors du remboursement');
+        return;
+      }
+
+      // Envoie la notification WhatsApp sans attendre le prochain passage du dispatcher
+      if (data.notification_id) {
+        await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/dispatch-notifications`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+            'Content-Type': 'application/json',
+          },
+        }).catch(err => console.error('Error triggering dispatcher:', err));
+      }
+
+      alert(
+        data.subscription_cancelled
+          ? 'Remboursement enregistré. L\'abonnement a été annulé.'
+          : data.new_end_date
+            ? `Remboursement enregistré. Abonnement raccourci de ${data.days_removed} jour(s), valable jusqu'au ${new Date(data.new_end_date).toLocaleDateString('fr-FR')}.`
+            : 'Remboursement enregistré.'
+      );
+      onSuccess();
+    } catch (error) {
+      console.error('Error refunding payment:', error);
+      alert('Erreur lors du remboursement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="text-white font-bold text-xl mb-1">Rembourser un Paiement</h3>
+        <p className="text-gray-400 text-sm mb-4">
+          {paiement.users?.nom || 'Utilisateur inconnu'} — {paiement.montant_fcfa.toLocaleString()} FCFA
+          {!!paiement.montant_rembourse && ` (déjà remboursé : ${paiement.montant_rembourse.toLocaleString()} FCFA)`}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Montant à rembourser (FCFA)
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={remaining}
+              value={montant}
+              onChange={(e) => setMontant(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+              required
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Maximum : {remaining.toLocaleString()} FCFA
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Motif
+            </label>
+            <textarea
+              value={motif}
+              onChange={(e) => setMotif(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+              rows={3}
+              required
+            />
+          </div>
+
+          <div className="bg-blue-900/20 border border-blue-700 rounded-lg p-3 text-sm text-blue-200">
+            {isFull
+              ? 'Remboursement total : le paiement passera en « remboursé ».'
+              : 'Remboursement partiel : le paiement reste confirmé.'}
+            {' '}L'abonnement lié est raccourci au prorata du montant remboursé, et annulé si sa nouvelle date de fin est dépassée.
+            L'abonné est prévenu par WhatsApp.
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Annuler
+            </button>
+            <button
+              type="submit"
+              disabled={loading || amount <= 0 || amount > remaining || !motif.trim()}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Remboursement...' : 'Rembourser'}
+            </button>
+          </div>
+        </form>
+      </div>
     </div>
   );
 }
@@ -310,10 +554,9 @@ export function PaymentManagement() {
 interface AddPaymentModalProps {
   onClose: () => void;
   onSuccess: () => void;
-  adminId: string;
 }
 
-function AddPaymentModal({ onClose, onSuccess, adminId }: AddPaymentModalProps) {
+function AddPaymentModal({ onClose, onSuccess }: AddPaymentModalProps) {
   const [subscribers, setSubscribers] = useState<User[]>([]);
   const [formules, setFormules] = useState<Formule[]>([]);
   const [selectedUser, setSelectedUser] = useState('');
@@ -413,9 +656,8 @@ function AddPaymentModal({ onClose, onSuccess, adminId }: AddPaymentModalProps)
 
       if (paiementError) throw paiementError;
 
-      const { data: confirmResult, error: confirmError } = await supabase.rpc('confirm_payment_secure', {
+      const { data: confirmResult, error: confirmError } = await supabase.rpc('confirm_payment_manual', {
         p_payment_id: newPayment.id,
-        p_confirmed_by: adminId,
         p_notes: `Manual payment - ${methode}${reference ? ` - Ref: ${reference}` : ''}${notes ? ` - ${notes}` : ''}`,
       });
 
@@ -0,0 +1,471 @@
+import { useState, useEffect } from 'react';
+import { Tag, Plus, CheckCircle, XCircle, Percent } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { CodePromo, Formule } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDiscount } from '../lib/promo';
+
+interface PromoUsageStats {
+  uses: number;
+  totalDiscount: number;
+}
+
+export function PromoCodeManagement() {
+  const { user } = useAuth();
+  const [codes, setCodes] = useState<CodePromo[]>([]);
+  const [formules, setFormules] = useState<Formule[]>([]);
+  const [usage, setUsage] = useState<Record<string, PromoUsageStats>>({});
+  const [loading, setLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  useEffect(() => {
+    loadCodes();
+  }, []);
+
+  const loadCodes = async () => {
+    setLoading(true);
+    try {
+      const [codesRes, formulesRes, usageRes] = await Promise.all([
+        supabase.from('codes_promo').select('*').order('created_at', { ascending: false }),
+        supabase.from('formules').select('*').order('priorite'),
+        supabase.from('utilisations_code_promo').select('code_promo_id, remise_fcfa, paiements (statut)'),
+      ]);
+
+      if (codesRes.error) throw codesRes.error;
+      setCodes(codesRes.data || []);
+      setFormules(formulesRes.data || []);
+
+      // Même règle que validate_promo_code : seules les utilisations en attente ou confirmées comptent
+      const stats: Record<string, PromoUsageStats> = {};
+      for (const row of (usageRes.data || []) as unknown as {
+        code_promo_id: string;
+        remise_fcfa: number;
+        paiements: { statut: string } | null;
+      }[]) {
+        if (!row.paiements || !['en_attente', 'confirme'].includes(row.paiements.statut)) continue;
+        stats[row.code_promo_id] ??= { uses: 0, totalDiscount: 0 };
+        stats[row.code_promo_id].uses += 1;
+        if (row.paiements.statut === 'confirme') {
+          stats[row.code_promo_id].totalDiscount += row.remise_fcfa;
+        }
+      }
+      setUsage(stats);
+    } catch (error) {
+      console.error('Error loading promo codes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleActive = async (code: CodePromo) => {
+    try {
+      const { error } = await supabase
+        .from('codes_promo')
+        .update({ actif: !code.actif, updated_at: new Date().toISOString() })
+        .eq('id', code.id);
+
+      if (error) throw error;
+      await loadCodes();
+    } catch (error) {
+      console.error('Error toggling promo code:', error);
+      alert('Erreur lors de la mise à jour du code');
+    }
+  };
+
+  const getValidityLabel = (code: CodePromo) => {
+    const now = new Date();
+    if (!code.actif) return { label: 'Désactivé', className: 'bg-gray-700 text-gray-300' };
+    if (code.date_debut && new Date(code.date_debut) > now) {
+      return { label: 'Programmé', className: 'bg-blue-900/50 text-blue-300' };
+    }
+    if (code.date_fin && new Date(code.date_fin) <= now) {
+      return { label: 'Expiré', className: 'bg-red-900/50 text-red-300' };
+    }
+    if (code.max_utilisations && (usage[code.id]?.uses || 0) >= code.max_utilisations) {
+      return { label: 'Épuisé', className: 'bg-amber-900/50 text-amber-300' };
+    }
+    return { label: 'Actif', className: 'bg-green-900/50 text-green-300' };
+  };
+
+  const getFormulesLabel = (code: CodePromo) => {
+    if (!code.formule_ids || code.formule_ids.length === 0) return 'Toutes';
+    return code.formule_ids
+      .map(id => formules.find(f => f.id === id)?.nom || 'Formule supprimée')
+      .join(', ');
+  };
+
+  const stats = {
+    active: codes.filter(c => getValidityLabel(c).label === 'Actif').length,
+    uses: Object.values(usage).reduce((sum, u) => sum + u.uses, 0),
+    discount: Object.values(usage).reduce((sum, u) => sum + u.totalDiscount, 0),
+  };
+
+  if (loading && codes.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+        <p className="text-gray-400 mt-4">Chargement des codes promo...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2 mb-2">
+            <Tag className="w-7 h-7 text-amber-500" />
+            Codes promo
+          </h2>
+          <p className="text-gray-400 text-sm">
+            La remise est recalculée côté serveur à chaque paiement à partir du prix de la formule
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Nouveau code
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="bg-gradient-to-br from-green-900/30 to-green-800/20 border border-green-700 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-green-400 text-sm mb-1">Codes actifs</div>
+              <div className="text-3xl font-bold text-white">{stats.active}</div>
+            </div>
+            <CheckCircle className="w-8 h-8 text-green-400" />
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-blue-900/30 to-blue-800/20 border border-blue-700 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-blue-400 text-sm mb-1">Utilisations</div>
+              <div className="text-3xl font-bold text-white">{stats.uses}</div>
+            </div>
+            <Tag className="w-8 h-8 text-blue-400" />
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-amber-900/30 to-amber-800/20 border border-amber-700 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-amber-400 text-sm mb-1">Remises accordées</div>
+              <div className="text-3xl font-bold text-white">{stats.discount.toLocaleString()} <span className="text-base">FCFA</span></div>
+            </div>
+            <Percent className="w-8 h-8 text-amber-400" />
+          </div>
+        </div>
+      </div>
+
+      {codes.length === 0 ? (
+        <div className="text-center py-12">
+          <Tag className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <p className="text-gray-400">Aucun code promo</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-3 px-2">Code</th>
+                <th className="py-3 px-2">Remise</th>
+                <th className="py-3 px-2">Formules</th>
+                <th className="py-3 px-2">Validité</th>
+                <th className="py-3 px-2">Utilisations</th>
+                <th className="py-3 px-2">Statut</th>
+                <th className="py-3 px-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {codes.map((code) => {
+                const validity = getValidityLabel(code);
+                return (
+                  <tr key={code.id} className="border-b border-gray-700 hover:bg-gray-700/50">
+                    <td className="py-3 px-2">
+                      <div className="text-white font-mono font-semibold">{code.code}</div>
+                      {code.description && <div className="text-xs text-gray-400">{code.description}</div>}
+                    </td>
+                    <td className="py-3 px-2 text-amber-400 font-medium">
+                      {formatDiscount(code.type_remise, code.valeur)}
+                    </td>
+                    <td className="py-3 px-2 text-gray-300">{getFormulesLabel(code)}</td>
+                    <td className="py-3 px-2 text-gray-400 whitespace-nowrap">
+                      {code.date_debut ? new Date(code.date_debut).toLocaleDateString('fr-FR') : '—'}
+                      {' → '}
+                      {code.date_fin ? new Date(code.date_fin).toLocaleDateString('fr-FR') : '—'}
+                    </td>
+                    <td className="py-3 px-2 text-gray-300">
+                      {usage[code.id]?.uses || 0}
+                      {code.max_utilisations ? ` / ${code.max_utilisations}` : ''}
+                      {code.max_par_utilisateur && (
+                        <div className="text-xs text-gray-500">{code.max_par_utilisateur} par abonné</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-2">
+                      <span className={`px-2 py-0.5 rounded text-xs ${validity.className}`}>
+                        {validity.label}
+                      </span>
+                    </td>
+                    <td className="py-3 px-2 text-right">
+                      <button
+                        onClick={() => toggleActive(code)}
+                        className={`flex items-center gap-1 px-3 py-1 rounded text-xs transition-colors ${
+                          code.actif
+                            ? 'bg-red-600 text-white hover:bg-red-700'
+                            : 'bg-green-600 text-white hover:bg-green-700'
+                        }`}
+                      >
+                        {code.actif ? <XCircle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+                        {code.actif ? 'Désactiver' : 'Activer'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showCreateModal && (
+        <CreatePromoCodeModal
+          formules={formules}
+          adminId={user?.id || null}
+          onClose={() => setShowCreateModal(false)}
+          onSuccess={() => {
+            setShowCreateModal(false);
+            loadCodes();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CreatePromoCodeModalProps {
+  formules: Formule[];
+  adminId: string | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function CreatePromoCodeModal({ formules, adminId, onClose, onSuccess }: CreatePromoCodeModalProps) {
+  const [code, setCode] = useState('');
+  const [description, setDescription] = useState('');
+  const [typeRemise, setTypeRemise] = useState<'pourcentage' | 'montant_fixe'>('pourcentage');
+  const [valeur, setValeur] = useState('');
+  const [dateDebut, setDateDebut] = useState('');
+  const [dateFin, setDateFin] = useState('');
+  const [maxUtilisations, setMaxUtilisations] = useState('');
+  const [maxParUtilisateur, setMaxParUtilisateur] = useState('1');
+  const [formuleIds, setFormuleIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggleFormule = (id: string) => {
+    setFormuleIds(prev => prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const normalizedCode = code.trim().toUpperCase();
+    const value = parseInt(valeur);
+
+    if (!/^[A-Z0-9_-]{3,32}$/.test(normalizedCode)) {
+      setError('Le code doit contenir 3 à 32 lettres, chiffres, tirets ou underscores');
+      return;
+    }
+    if (!value || value <= 0 || (typeRemise === 'pourcentage' && value > 100)) {
+      setError(typeRemise === 'pourcentage' ? 'Le pourcentage doit être entre 1 et 100' : 'Montant invalide');
+      return;
+    }
+    if (dateDebut && dateFin && new Date(dateFin) <= new Date(dateDebut)) {
+      setError('La date de fin doit être postérieure à la date de début');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error: insertError } = await supabase.from('codes_promo').insert({
+        code: normalizedCode,
+        description: description.trim() || null,
+        type_remise: typeRemise,
+        valeur: value,
+        date_debut: dateDebut ? new Date(dateDebut).toISOString() : null,
+        date_fin: dateFin ? new Date(dateFin).toISOString() : null,
+        max_utilisations: maxUtilisations ? parseInt(maxUtilisations) : null,
+        max_par_utilisateur: maxParUtilisateur ? parseInt(maxParUtilisateur) : null,
+        formule_ids: formuleIds.length > 0 ? formuleIds : null,
+        actif: true,
+        created_by: adminId,
+      });
+
+      if (insertError) {
+        setError(insertError.code === '23505' ? 'Ce code existe déjà' : insertError.message);
+        return;
+      }
+
+      onSuccess();
+    } catch (err) {
+      console.error('Error creating promo code:', err);
+      setError('Erreur lors de la création du code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="text-white font-bold text-xl mb-4">Nouveau Code Promo</h3>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Code</label>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:outline-none focus:ring-2 focus:ring-amber-500"
+              placeholder="LANCEMENT2025"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Description (optionnel)</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Type de remise</label>
+              <select
+                value={typeRemise}
+                onChange={(e) => setTypeRemise(e.target.value as 'pourcentage' | 'montant_fixe')}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                <option value="pourcentage">Pourcentage</option>
+                <option value="montant_fixe">Montant fixe</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                {typeRemise === 'pourcentage' ? 'Valeur (%)' : 'Valeur (FCFA)'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={typeRemise === 'pourcentage' ? 100 : undefined}
+                value={valeur}
+                onChange={(e) => setValeur(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Début (optionnel)</label>
+              <input
+                type="datetime-local"
+                value={dateDebut}
+                onChange={(e) => setDateDebut(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Fin (optionnel)</label>
+              <input
+                type="datetime-local"
+                value={dateFin}
+                onChange={(e) => setDateFin(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Utilisations max</label>
+              <input
+                type="number"
+                min={1}
+                value={maxUtilisations}
+                onChange={(e) => setMaxUtilisations(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                placeholder="Illimité"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Par abonné</label>
+              <input
+                type="number"
+                min={1}
+                value={maxParUtilisateur}
+                onChange={(e) => setMaxParUtilisateur(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                placeholder="Illimité"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Formules concernées <span className="text-gray-500">(aucune cochée = toutes)</span>
+            </label>
+            <div className="space-y-2">
+              {formules.filter(f => f.prix_fcfa > 0).map((formule) => (
+                <label key={formule.id} className="flex items-center gap-2 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formuleIds.includes(formule.id)}
+                    onChange={() => toggleFormule(formule.id)}
+                    className="w-4 h-4 text-amber-500 bg-gray-600 border-gray-500 rounded focus:ring-amber-500"
+                  />
+                  {formule.nom} — {formule.prix_fcfa.toLocaleString()} FCFA
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-900/20 border border-red-700 rounded-lg p-3 text-sm text-red-300">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Annuler
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Création...' : 'Créer le code'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
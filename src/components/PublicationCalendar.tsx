@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+import type { PDF } from '../lib/supabase';
+
+interface PublicationCalendarProps {
+  pdfs: PDF[];
+  onSelect: (pdf: PDF) => void;
+}
+
+const WEEK_DAYS = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'];
+
+function toDayKey(date: Date) {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+export function PublicationCalendar({ pdfs, onSelect }: PublicationCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const scheduled = pdfs.filter(p => p.statut_publication === 'planifie' && p.date_publication_prevue);
+
+  const byDay = new Map<string, PDF[]>();
+  for (const pdf of scheduled) {
+    const key = toDayKey(new Date(pdf.date_publication_prevue!));
+    byDay.set(key, [...(byDay.get(key) || []), pdf]);
+  }
+
+  // La grille commence le lundi de la semaine contenant le 1er du mois
+  const offset = (month.getDay() + 6) % 7;
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: offset }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const todayKey = toDayKey(new Date());
+
+  const changeMonth = (delta: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  };
+
+  return (
+    <div className="bg-gray-700 border border-gray-600 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => changeMonth(-1)}
+          className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-lg transition-colors"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <h3 className="text-white font-semibold capitalize">
+          {month.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' })}
+        </h3>
+        <button
+          onClick={() => changeMonth(1)}
+          className="p-2 text-gray-300 hover:text-white hover:bg-gray-600 rounded-lg transition-colors"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-xs text-gray-400 mb-1">
+        {WEEK_DAYS.map(day => (
+          <div key={day} className="text-center py-1">{day}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {cells.map((day, index) => {
+          if (!day) {
+            return <div key={index} className="min-h-20" />;
+          }
+
+          const key = toDayKey(day);
+          const editions = byDay.get(key) || [];
+
+          return (
+            <div
+              key={index}
+              className={`min-h-20 rounded p-1 border ${
+                key === todayKey ? 'border-amber-500 bg-gray-800' : 'border-gray-600 bg-gray-800/50'
+              }`}
+            >
+              <div className="text-xs text-gray-400 mb-1">{day.getDate()}</div>
+              <div className="space-y-1">
+                {editions.map(pdf => (
+                  <button
+                    key={pdf.id}
+                    onClick={() => onSelect(pdf)}
+                    title={pdf.titre}
+                    className="w-full flex items-center gap-1 px-1 py-0.5 bg-blue-900/50 text-blue-200 border border-blue-700 rounded text-xs text-left hover:bg-blue-900 transition-colors"
+                  >
+                    <Clock className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">
+                      {new Date(pdf.date_publication_prevue!).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })} {pdf.titre}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {scheduled.length === 0 && (
+        <p className="text-center text-sm text-gray-400 mt-4">Aucune édition planifiée</p>
+      )}
+    </div>
+  );
+}
@@ -14,25 +14,31 @@ import {
   Book,
   Award,
   Zap,
-  BookOpen,
+  Search,
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import type { User as UserType, Abonnement, PDF } from '../lib/supabase';
+import { ReferralPanel } from './ReferralPanel';
+import { ReadingDevicesPanel } from './ReadingDevicesPanel';
+import { EditionArchive } from './EditionArchive';
+import { ArticleSearch } from './ArticleSearch';
+import { requestEditionAccess } from '../lib/editionAccess';
+import type { ArticleSearchResult } from '../lib/articleSearch';
+import type { User as UserType, Abonnement } from '../lib/supabase';
 
 export function ReaderDashboard() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
   const [userData, setUserData] = useState<UserType | null>(null);
   const [abonnement, setAbonnement] = useState<Abonnement | null>(null);
-  const [editions, setEditions] = useState<PDF[]>([]);
   const [loading, setLoading] = useState(true);
+  const [updatingAutoRenew, setUpdatingAutoRenew] = useState(false);
+  const [openingArticleId, setOpeningArticleId] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
       loadUserData();
       loadAbonnement();
-      loadEditions();
     }
   }, [user]);
 
@@ -73,22 +79,48 @@ export function ReaderDashboard() {
     }
   };
 
-  const loadEditions = async () => {
+  const toggleAutoRenewal = async () => {
+    if (!abonnement) return;
+
+    setUpdatingAutoRenew(true);
     try {
-      const { data, error } = await supabase
-        .from('pdfs')
-        .select('*')
-        .eq('statut_publication', 'publie')
-        .order('date_publication_reelle', { ascending: false })
-        .limit(10);
+      const enabled = !abonnement.renouvellement_auto;
+      const { data: updated, error } = await supabase.rpc('set_auto_renewal', {
+        p_abonnement_id: abonnement.id,
+        p_enabled: enabled,
+      });
 
       if (error) throw error;
-      setEditions(data || []);
+      if (updated) {
+        setAbonnement({ ...abonnement, renouvellement_auto: enabled });
+      }
     } catch (error) {
-      console.error('Error loading editions:', error);
+      console.error('Error updating auto renewal:', error);
+      alert('Impossible de modifier le renouvellement automatique');
+    } finally {
+      setUpdatingAutoRenew(false);
     }
   };
 
+  // Même contrôle d'accès que l'archive : le token est émis pour l'édition, l'article est ouvert via ?article=
+  const openArticleResult = async (result: ArticleSearchResult) => {
+    if (!result.pdf_id) {
+      alert('Cette édition n’est pas encore disponible en lecture');
+      return;
+    }
+
+    setOpeningArticleId(result.article_id);
+    const access = await requestEditionAccess(result.pdf_id);
+    setOpeningArticleId(null);
+
+    if (!access.success || !access.token) {
+      alert(access.error || 'Impossible d’ouvrir cet article');
+      return;
+    }
+
+    navigate(`/read/${access.token}?article=${result.article_id}`);
+  };
+
   const handleLogout = async () => {
     await signOut();
     navigate('/login');
@@ -256,6 +288,35 @@ export function ReaderDashboard() {
               </div>
             )}
 
+            {abonnement && abonnement.statut === 'actif' && (
+              <div className="flex items-center justify-between gap-4 bg-slate-800/50 rounded-xl p-5 border border-slate-700/50 mb-6">
+                <div>
+                  <p className="text-white font-medium flex items-center gap-2">
+                    <RefreshCw className="w-4 h-4 text-amber-500" />
+                    Renouvellement automatique
+                  </p>
+                  <p className="text-gray-400 text-sm mt-1">
+                    {abonnement.renouvellement_auto
+                      ? 'Vous recevrez un lien de paiement sur WhatsApp avant la fin de votre abonnement.'
+                      : 'Vous recevrez uniquement un rappel avant la fin de votre abonnement.'}
+                  </p>
+                </div>
+                <button
+                  onClick={toggleAutoRenewal}
+                  disabled={updatingAutoRenew}
+                  role="switch"
+                  aria-checked={abonnement.renouvellement_auto}
+                  className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors disabled:opacity-50 ${
+                    abonnement.renouvellement_auto ? 'bg-amber-500' : 'bg-slate-600'
+                  }`}
+                >
+                  <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    abonnement.renouvellement_auto ? 'translate-x-6' : 'translate-x-1'
+                  }`} />
+                </button>
+              </div>
+            )}
+
             {daysRemaining !== null && daysRemaining < 7 && daysRemaining > 0 && (
               <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-4 mb-4">
                 <p className="text-amber-300 text-sm">
@@ -267,7 +328,9 @@ export function ReaderDashboard() {
             )}
 
             {(userData?.statut_abonnement === 'expire' || (daysRemaining !== null && daysRemaining <= 0)) && (
-              <button className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-amber-500 text-black font-semibold rounded-lg hover:bg-amber-600 transition-colors">
+              <button
+                onClick={() => navigate('/subscribe')}
+                className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-amber-500 text-black font-semibold rounded-lg hover:bg-amber-600 transition-colors">
                 <RefreshCw className="w-5 h-5" />
                 Renouveler mon abonnement
               </button>
@@ -294,25 +357,35 @@ export function ReaderDashboard() {
                 <p className="text-gray-400 text-sm mb-2 font-medium">WhatsApp</p>
                 <p className="text-white text-base">{userData?.numero_whatsapp || 'Non renseigné'}</p>
               </div>
-              <div className="bg-gradient-to-r from-amber-500/10 to-orange-500/10 rounded-xl p-4 border border-amber-500/30">
-                <p className="text-gray-400 text-sm mb-2 font-medium">Code de parrainage</p>
-                <p className="text-amber-400 font-mono text-lg font-bold">
-                  {userData?.code_parrainage || 'N/A'}
-                </p>
-              </div>
             </div>
           </div>
+
+          <ReadingDevicesPanel />
+
+          <ReferralPanel />
         </div>
 
-        <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-2xl p-6 sm:p-8 shadow-2xl">
-          <h3 className="text-2xl sm:text-3xl font-bold text-white mb-8 flex items-center gap-3">
-            <div className="p-2.5 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl shadow-lg">
-              <Book className="w-7 h-7 text-white" />
+        {isActive ? (
+          <>
+            <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-2xl p-6 sm:p-8 shadow-2xl mb-8">
+              <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl">
+                  <Search className="w-6 h-6 text-white" />
+                </div>
+                Rechercher dans les articles
+              </h3>
+              <ArticleSearch variant="reader" selectingId={openingArticleId} onSelect={openArticleResult} />
             </div>
-            Dernières Éditions
-          </h3>
-
-          {!isActive ? (
+            <EditionArchive />
+          </>
+        ) : (
+          <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-2xl p-6 sm:p-8 shadow-2xl">
+            <h3 className="text-2xl sm:text-3xl font-bold text-white mb-8 flex items-center gap-3">
+              <div className="p-2.5 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl shadow-lg">
+                <Book className="w-7 h-7 text-white" />
+              </div>
+              Éditions
+            </h3>
             <div className="text-center py-16">
               <div className="inline-flex p-6 bg-yellow-500/10 rounded-2xl mb-6">
                 <AlertTriangle className="w-16 h-16 text-yellow-500" />
@@ -322,38 +395,8 @@ export function ReaderDashboard() {
                 Votre abonnement doit être actif pour accéder aux éditions
               </p>
             </div>
-          ) : editions.length === 0 ? (
-            <div className="text-center py-16">
-              <div className="inline-flex p-6 bg-slate-800 rounded-2xl mb-6">
-                <Calendar className="w-16 h-16 text-gray-500" />
-              </div>
-              <p className="text-gray-300 text-xl">Aucune édition disponible pour le moment</p>
-            </div>
-          ) : (
-            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {editions.map((edition) => (
-                <div
-                  key={edition.id}
-                  className="group bg-slate-800/50 border border-slate-700 rounded-2xl p-6 hover:border-amber-500/50 transition-all duration-300 hover:shadow-2xl hover:shadow-amber-500/10 hover:-translate-y-1 cursor-pointer"
-                >
-                  <div className="mb-4">
-                    <div className="w-full aspect-[3/4] bg-gradient-to-br from-slate-700 to-slate-800 rounded-xl mb-4 flex items-center justify-center border border-slate-600 group-hover:border-amber-500/50 transition-colors">
-                      <BookOpen className="w-16 h-16 text-slate-600 group-hover:text-amber-500 transition-colors" />
-                    </div>
-                    <h4 className="text-white font-bold text-lg mb-3 line-clamp-2 group-hover:text-amber-400 transition-colors">{edition.titre}</h4>
-                    <div className="flex items-center gap-2 text-gray-400 text-sm mb-4">
-                      <Calendar className="w-4 h-4" />
-                      <span>{formatDate(edition.date_publication_reelle)}</span>
-                    </div>
-                  </div>
-                  <button className="w-full px-4 py-3 bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white font-bold rounded-xl transition-all duration-200 hover:scale-105 shadow-lg shadow-amber-500/20">
-                    Lire l'édition
-                  </button>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Loader2 } from 'lucide-react';
+import { Loader2, MonitorSmartphone, ShieldAlert, X } from 'lucide-react';
 import { ModernPDFReader } from './ModernPDFReader';
 import { MagazineReader } from './MagazineReader';
+import { DeviceEnrollment } from './DeviceEnrollment';
+import { getDeviceFingerprint } from '../lib/deviceFingerprint';
+import { SESSION_END_MESSAGES, watchReadingSession } from '../lib/readingSessions';
+import type { SessionEndReason } from '../lib/readingSessions';
 
 interface ReaderRouterProps {
   token: string;
+  initialArticleId?: string | null;
 }
 
 interface ValidationResult {
@@ -12,31 +17,38 @@ interface ValidationResult {
   hasArticles: boolean;
   editionId?: string;
   editionTitle?: string;
-  pdfUrl?: string;
   pdfTitle?: string;
+  totalPages?: number | null;
   userId: string;
   userName: string;
   userNumber?: string;
+  suspicious?: boolean;
   error?: string;
 }
 
-export function ReaderRouter({ token }: ReaderRouterProps) {
+export function ReaderRouter({ token, initialArticleId }: ReaderRouterProps) {
   const [validating, setValidating] = useState(true);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [sessionEnded, setSessionEnded] = useState<SessionEndReason | null>(null);
+  // Appareil inconnu ou score de confiance bas : en attente du code WhatsApp avant d'ouvrir le lecteur
+  const [pendingDevice, setPendingDevice] = useState<{ deviceId: string; stepUp: boolean } | null>(null);
+  const [showRiskWarning, setShowRiskWarning] = useState(false);
+  // Session de lecture : compte dans la limite d'appareils et signe les pages filigranées
+  const [sessionId] = useState(() => crypto.randomUUID());
 
   useEffect(() => {
     validateToken();
   }, [token]);
 
+  useEffect(() => {
+    if (!validationResult || sessionEnded) return;
+    return watchReadingSession(sessionId, setSessionEnded);
+  }, [sessionEnded, sessionId, validationResult]);
+
   const validateToken = async () => {
     try {
-      const deviceFingerprint = {
-        userAgent: navigator.userAgent,
-        screenResolution: `${screen.width}x${screen.height}`,
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        language: navigator.language,
-      };
+      const deviceFingerprint = getDeviceFingerprint();
 
       let ipAddress = '';
       try {
@@ -57,19 +69,26 @@ export function ReaderRouter({ token }: ReaderRouterProps) {
           body: JSON.stringify({
             token,
             deviceFingerprint,
-            ipAddress
+            ipAddress,
+            sessionId,
           }),
         }
       );
 
       const data = await response.json();
 
+      if (data.enrollmentRequired && data.deviceId) {
+        setPendingDevice({ deviceId: data.deviceId, stepUp: Boolean(data.stepUp) });
+        return;
+      }
+
       if (!response.ok || data.error) {
-        setError(data.error || 'Token invalide');
+        setError(data.reason || data.error || 'Token invalide');
         return;
       }
 
       setValidationResult(data);
+      setShowRiskWarning(Boolean(data.suspicious));
     } catch (err) {
       console.error('Error validating token:', err);
       setError('Erreur lors de la validation du token');
@@ -89,6 +108,21 @@ export function ReaderRouter({ token }: ReaderRouterProps) {
     );
   }
 
+  if (pendingDevice) {
+    return (
+      <DeviceEnrollment
+        token={token}
+        deviceId={pendingDevice.deviceId}
+        stepUp={pendingDevice.stepUp}
+        onEnrolled={() => {
+          setPendingDevice(null);
+          setValidating(true);
+          validateToken();
+        }}
+      />
+    );
+  }
+
   if (error) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
@@ -106,6 +140,23 @@ export function ReaderRouter({ token }: ReaderRouterProps) {
     );
   }
 
+  if (sessionEnded) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+        <div className="bg-gray-800 border border-amber-700 rounded-lg p-8 max-w-md text-center">
+          <div className="w-16 h-16 bg-amber-900/40 rounded-full flex items-center justify-center mx-auto mb-4">
+            <MonitorSmartphone className="w-8 h-8 text-amber-400" />
+          </div>
+          <h2 className="text-xl font-bold text-white mb-2">Lecture fermée</h2>
+          <p className="text-gray-400 mb-4">{SESSION_END_MESSAGES[sessionEnded]}</p>
+          <a href="/my-account" className="text-sm text-amber-400 hover:text-amber-300">
+            Gérer mes appareils
+          </a>
+        </div>
+      </div>
+    );
+  }
+
   if (!validationResult) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -114,28 +165,52 @@ export function ReaderRouter({ token }: ReaderRouterProps) {
     );
   }
 
+  const riskWarning = showRiskWarning && (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] max-w-md w-[calc(100%-2rem)] flex items-start gap-3 bg-amber-900/95 border border-amber-600 text-amber-100 text-sm rounded-lg px-4 py-3 shadow-xl">
+      <ShieldAlert className="w-5 h-5 flex-shrink-0 text-amber-300" />
+      <p className="flex-1">
+        Activité inhabituelle détectée sur votre compte. Ne partagez pas vos liens de lecture : au-delà,
+        une vérification WhatsApp vous sera demandée.
+      </p>
+      <button onClick={() => setShowRiskWarning(false)} className="text-amber-300 hover:text-white" title="Fermer">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
   if (validationResult.hasArticles && validationResult.editionId) {
     return (
-      <MagazineReader
-        editionId={validationResult.editionId}
-        userId={validationResult.userId}
-      />
+      <>
+        <MagazineReader
+          editionId={validationResult.editionId}
+          userId={validationResult.userId}
+          initialArticleId={initialArticleId}
+          token={token}
+          sessionId={sessionId}
+        />
+        {riskWarning}
+      </>
     );
   }
 
   return (
-    <ModernPDFReader
-      token={token}
-      initialData={{
-        pdfUrl: validationResult.pdfUrl ?? '',
-        pdfTitle: validationResult.pdfTitle,
-        userId: validationResult.userId,
-        userName: validationResult.userName,
-        userNumber: validationResult.userNumber,
-        editionId: validationResult.editionId ?? null,
-        editionTitle: validationResult.editionTitle,
-        hasArticles: validationResult.hasArticles,
-      }}
-    />
+    <>
+      <ModernPDFReader
+        token={token}
+        sessionId={sessionId}
+        initialArticleId={initialArticleId}
+        initialData={{
+          totalPages: validationResult.totalPages ?? null,
+          pdfTitle: validationResult.pdfTitle,
+          userId: validationResult.userId,
+          userName: validationResult.userName,
+          userNumber: validationResult.userNumber,
+          editionId: validationResult.editionId ?? null,
+          editionTitle: validationResult.editionTitle,
+          hasArticles: validationResult.hasArticles,
+        }}
+      />
+      {riskWarning}
+    </>
   );
 }
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { MonitorSmartphone, Loader2, LogOut, RefreshCw } from 'lucide-react';
+import { describeDevice, getMyReadingDevices, revokeMyReadingDevice } from '../lib/readingSessions';
+import type { ReadingDevicesSummary } from '../lib/readingSessions';
+
+export function ReadingDevicesPanel() {
+  const [summary, setSummary] = useState<ReadingDevicesSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [revokingKey, setRevokingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDevices();
+  }, []);
+
+  const loadDevices = async () => {
+    setLoading(true);
+    setSummary(await getMyReadingDevices());
+    setLoading(false);
+  };
+
+  const revokeDevice = async (deviceKey: string) => {
+    if (!confirm('Retirer cet appareil ? Les liens ouverts dessus ne fonctionneront plus et il faudra un code WhatsApp pour y relire.')) return;
+
+    setRevokingKey(deviceKey);
+    const result = await revokeMyReadingDevice(deviceKey);
+    setRevokingKey(null);
+
+    if (!result.success) {
+      alert(result.error || 'Impossible de retirer cet appareil');
+      return;
+    }
+
+    await loadDevices();
+  };
+
+  if (!summary && !loading) return null;
+
+  return (
+    <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-2xl p-6 sm:p-8 shadow-2xl">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <h3 className="text-2xl font-bold text-white flex items-center gap-3">
+          <div className="p-2 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl">
+            <MonitorSmartphone className="w-6 h-6 text-white" />
+          </div>
+          Mes appareils
+        </h3>
+        <button
+          onClick={loadDevices}
+          disabled={loading}
+          className="p-2 text-gray-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50"
+          title="Actualiser"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+      <p className="text-gray-400 text-sm mb-6">
+        Votre abonnement permet de lire sur {summary?.limit ?? 1} appareil{(summary?.limit ?? 1) > 1 ? 's' : ''} en
+        même temps. Au-delà, la lecture la plus ancienne est fermée automatiquement. Un nouvel appareil
+        se confirme avec un code WhatsApp.
+      </p>
+
+      {loading && !summary ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-amber-500" />
+        </div>
+      ) : summary && summary.devices.length === 0 ? (
+        <p className="text-gray-500 text-sm">Aucun appareil enregistré.</p>
+      ) : (
+        <div className="space-y-2">
+          {summary?.devices.map((device) => (
+            <div
+              key={device.device_key}
+              className="flex items-center justify-between gap-4 bg-slate-800/30 rounded-lg px-4 py-3 border border-slate-700/50"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="text-white text-sm font-medium">
+                    {device.label || describeDevice(device.user_agent)}
+                  </p>
+                  {device.trusted && (
+                    <span className="px-2 py-0.5 rounded text-xs bg-emerald-900/40 text-emerald-300">
+                      De confiance
+                    </span>
+                  )}
+                  {device.sessions > 0 && (
+                    <span className="px-2 py-0.5 rounded text-xs bg-amber-900/40 text-amber-300">
+                      En lecture
+                    </span>
+                  )}
+                </div>
+                {device.sessions > 0 && (
+                  <p className="text-gray-400 text-xs truncate">
+                    {device.document || 'Édition'}
+                    {device.sessions > 1 && ` · ${device.sessions} onglets`}
+                  </p>
+                )}
+                <p className="text-gray-500 text-xs">
+                  {device.started_at
+                    ? `Depuis ${new Date(device.started_at).toLocaleString('fr-FR')}`
+                    : device.last_seen_at && `Vu le ${new Date(device.last_seen_at).toLocaleString('fr-FR')}`}
+                  {device.ip_address && ` · IP ${device.ip_address}`}
+                </p>
+              </div>
+              <button
+                onClick={() => revokeDevice(device.device_key)}
+                disabled={revokingKey === device.device_key}
+                className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 text-red-300 text-sm rounded-lg hover:bg-red-900/40 transition-colors disabled:opacity-50 flex-shrink-0"
+              >
+                {revokingKey === device.device_key ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <LogOut className="w-4 h-4" />
+                )}
+                Retirer
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
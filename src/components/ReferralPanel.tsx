@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { Gift, Copy, Check, Users, Clock } from 'lucide-react';
+import { getMyReferralSummary, getReferralShareLink } from '../lib/referral';
+import type { ReferralSummary } from '../lib/referral';
+
+export function ReferralPanel() {
+  const [summary, setSummary] = useState<ReferralSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    loadSummary();
+  }, []);
+
+  const loadSummary = async () => {
+    setSummary(await getMyReferralSummary());
+    setLoading(false);
+  };
+
+  const shareLink = summary?.code_parrainage ? getReferralShareLink(summary.code_parrainage) : null;
+
+  const copyShareLink = async () => {
+    if (!shareLink) return;
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  if (loading || !summary?.code_parrainage) return null;
+
+  return (
+    <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-2xl p-6 sm:p-8 shadow-2xl">
+      <h3 className="text-2xl font-bold text-white mb-2 flex items-center gap-3">
+        <div className="p-2 bg-gradient-to-br from-amber-500 to-orange-500 rounded-xl">
+          <Gift className="w-6 h-6 text-white" />
+        </div>
+        Parrainage
+      </h3>
+      <p className="text-gray-400 text-sm mb-6">
+        Partagez votre lien : chaque filleul qui s'abonne vous offre des jours d'abonnement gratuits.
+      </p>
+
+      <div className="grid sm:grid-cols-2 gap-4 mb-6">
+        <div className="bg-gradient-to-r from-amber-500/10 to-orange-500/10 rounded-xl p-4 border border-amber-500/30">
+          <p className="text-gray-400 text-sm mb-2 font-medium">Code de parrainage</p>
+          <p className="text-amber-400 font-mono text-lg font-bold">{summary.code_parrainage}</p>
+        </div>
+        <div className="bg-slate-800/30 rounded-xl p-4 border border-slate-700/50">
+          <p className="text-gray-400 text-sm mb-2 font-medium">Lien à partager</p>
+          <div className="flex items-center gap-2">
+            <p className="text-white text-sm truncate flex-1" title={shareLink || ''}>{shareLink}</p>
+            <button
+              onClick={copyShareLink}
+              className="flex items-center gap-1 px-3 py-1.5 bg-amber-500 text-black text-sm font-semibold rounded-lg hover:bg-amber-600 transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copié' : 'Copier'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50">
+          <p className="text-gray-400 text-xs mb-1 flex items-center gap-1">
+            <Users className="w-3 h-3" /> Filleuls
+          </p>
+          <p className="text-white font-bold text-lg">{summary.nb_filleuls}</p>
+        </div>
+        <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50">
+          <p className="text-gray-400 text-xs mb-1 flex items-center gap-1">
+            <Gift className="w-3 h-3" /> Jours gagnés
+          </p>
+          <p className="text-green-400 font-bold text-lg">{summary.jours_gagnes}</p>
+        </div>
+        <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50">
+          <p className="text-gray-400 text-xs mb-1 flex items-center gap-1">
+            <Clock className="w-3 h-3" /> En attente
+          </p>
+          <p className="text-amber-400 font-bold text-lg">{summary.jours_en_attente}</p>
+        </div>
+      </div>
+
+      {summary.jours_en_attente > 0 && (
+        <p className="text-amber-300 text-sm mb-4">
+          Les jours en attente seront ajoutés à votre prochain abonnement actif.
+        </p>
+      )}
+
+      {summary.recompenses.length > 0 && (
+        <div className="space-y-2">
+          {summary.recompenses.map((recompense) => (
+            <div
+              key={recompense.id}
+              className="flex items-center justify-between bg-slate-800/30 rounded-lg px-4 py-3 border border-slate-700/50"
+            >
+              <div>
+                <p className="text-white text-sm font-medium">{recompense.filleul_nom}</p>
+                <p className="text-gray-500 text-xs">
+                  {new Date(recompense.created_at).toLocaleDateString('fr-FR')}
+                </p>
+              </div>
+              <span className={`px-2 py-0.5 rounded text-xs ${
+                recompense.statut === 'attribuee'
+                  ? 'bg-green-900/50 text-green-300'
+                  : 'bg-amber-900/50 text-amber-300'
+              }`}>
+                +{recompense.jours_bonus} j {recompense.statut === 'attribuee' ? 'ajoutés' : 'en attente'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useEffect, useState } from 'react';
+import { Gauge, Loader2, RefreshCw, Save, AlertCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { RiskDecision, RiskRule, RiskSettings, RiskSignal } from '../lib/supabase';
+
+interface RiskDecisionWithUser extends RiskDecision {
+  users: { nom: string; numero_abonne: string | null } | null;
+}
+
+type RuleDraft = Pick<RiskRule, 'seuil' | 'points' | 'plafond' | 'fenetre_jours' | 'actif'>;
+
+const SIGNAL_LABELS: Record<RiskSignal, string> = {
+  acces_suspects: 'Alertes',
+  screenshot_attempts: 'Captures',
+  device_limit: 'Appareils simultanés',
+  ip_changes: 'Adresses IP',
+  geo_changes: 'Réseaux',
+  reading_speed: 'Vitesse de lecture',
+};
+
+const SEUIL_LABELS: Partial<Record<RiskSignal, string>> = {
+  reading_speed: 'pages / min',
+};
+
+const ACTION_LABELS: Record<RiskDecision['action'], { label: string; className: string }> = {
+  warn: { label: 'Avertissement', className: 'bg-yellow-900/50 text-yellow-300' },
+  step_up: { label: 'Code WhatsApp', className: 'bg-blue-900/50 text-blue-300' },
+  lock: { label: 'Verrouillage', className: 'bg-orange-900/50 text-orange-300' },
+  revoke: { label: 'Révocation', className: 'bg-red-900/50 text-red-300' },
+};
+
+const SETTINGS_FIELDS: { key: keyof Omit<RiskSettings, 'id' | 'updated_at'>; label: string }[] = [
+  { key: 'seuil_avertissement', label: 'Avertissement sous' },
+  { key: 'seuil_otp', label: 'Code WhatsApp sous' },
+  { key: 'seuil_verrouillage', label: 'Verrouillage sous' },
+  { key: 'seuil_revocation', label: 'Révocation sous' },
+  { key: 'duree_verrouillage_minutes', label: 'Durée du verrouillage (min)' },
+  { key: 'validite_otp_heures', label: 'Validité du code (h)' },
+  { key: 'demi_vie_heures', label: 'Demi-vie des pénalités (h)' },
+];
+
+const inputClass =
+  'w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500';
+
+export function RiskRulesManager() {
+  const [rules, setRules] = useState<RiskRule[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [settings, setSettings] = useState<RiskSettings | null>(null);
+  const [decisions, setDecisions] = useState<RiskDecisionWithUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadAll = async () => {
+    setLoading(true);
+    try {
+      const [rulesResult, settingsResult, decisionsResult] = await Promise.all([
+        supabase.from('risk_rules').select('*').order('signal').order('code'),
+        supabase.from('risk_settings').select('*').maybeSingle(),
+        supabase
+          .from('risk_decisions')
+          .select('*, users(nom, numero_abonne)')
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+      if (decisionsResult.error) throw decisionsResult.error;
+
+      setRules(rulesResult.data || []);
+      setDrafts({});
+      setSettings(settingsResult.data);
+      setDecisions((decisionsResult.data as RiskDecisionWithUser[]) || []);
+    } catch (err) {
+      console.error('Error loading risk rules:', err);
+      setError('Impossible de charger les règles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (rule: RiskRule, changes: Partial<RuleDraft>) => {
+    setDrafts((current) => ({
+      ...current,
+      [rule.id]: {
+        ...(current[rule.id] ?? {
+          seuil: rule.seuil,
+          points: rule.points,
+          plafond: rule.plafond,
+          fenetre_jours: rule.fenetre_jours,
+          actif: rule.actif,
+        }),
+        ...changes,
+      },
+    }));
+  };
+
+  const saveRule = async (rule: RiskRule) => {
+    const draft = drafts[rule.id];
+    if (!draft) return;
+
+    setSaving(rule.id);
+    setError('');
+    const { error: saveError } = await supabase
+      .from('risk_rules')
+      .update({ ...draft, updated_at: new Date().toISOString() })
+      .eq('id', rule.id);
+    setSaving(null);
+
+    if (saveError) {
+      console.error('Error saving risk rule:', saveError);
+      setError(`Règle "${rule.libelle}" non enregistrée : valeurs invalides`);
+      return;
+    }
+
+    setRules((current) => current.map((item) => (item.id === rule.id ? { ...item, ...draft } : item)));
+    setDrafts((current) => {
+      const next = { ...current };
+      delete next[rule.id];
+      return next;
+    });
+  };
+
+  const saveSettings = async () => {
+    if (!settings) return;
+
+    setSaving('settings');
+    setError('');
+    const values = Object.fromEntries(SETTINGS_FIELDS.map(({ key }) => [key, settings[key]]));
+    const { error: saveError } = await supabase
+      .from('risk_settings')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', settings.id);
+    setSaving(null);
+
+    if (saveError) {
+      console.error('Error saving risk settings:', saveError);
+      setError('Paliers non enregistrés : ils doivent être décroissants, entre 100 et 0');
+    }
+  };
+
+  const refreshScores = async () => {
+    setRefreshing(true);
+    const { data, error: refreshError } = await supabase.rpc('refresh_trust_scores');
+    setRefreshing(false);
+
+    if (refreshError || !data?.success) {
+      console.error('Error refreshing trust scores:', refreshError || data?.error);
+      alert('Erreur lors du recalcul des scores');
+      return;
+    }
+
+    alert(`${data.updated} score(s) recalculé(s)`);
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-amber-500 mx-auto" />
+        <p className="text-gray-400 mt-4">Chargement des règles...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2 mb-2">
+            <Gauge className="w-7 h-7 text-amber-500" />
+            Score de confiance
+          </h2>
+          <p className="text-gray-400 text-sm">
+            Chaque règle retire des points au score (100) de l'abonné ; les pénalités s'effacent avec le temps.
+            Les changements s'appliquent à la prochaine ouverture d'un lien.
+          </p>
+        </div>
+        <button
+          onClick={refreshScores}
+          disabled={refreshing}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 whitespace-nowrap"
+        >
+          <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+          Recalculer les scores
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-700 bg-red-900/30 p-4 text-sm text-red-200">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {settings && (
+        <div className="rounded-lg border border-gray-700 bg-gray-900/40 p-4">
+          <h3 className="text-white font-semibold mb-4">Paliers d'action</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {SETTINGS_FIELDS.map(({ key, label }) => (
+              <label key={key} className="text-xs text-gray-400 space-y-1">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings[key]}
+                  onChange={(event) => setSettings({ ...settings, [key]: Number(event.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={saveSettings}
+            disabled={saving === 'settings'}
+            className="mt-4 flex items-center gap-2 px-4 py-2 bg-amber-600 text-black font-medium rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+          >
+            {saving === 'settings' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Enregistrer les paliers
+          </button>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-white font-semibold mb-3">Règles</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400 border-b border-gray-700">
+                <th className="py-2 pr-4">Règle</th>
+                <th className="py-2 pr-2">Seuil</th>
+                <th className="py-2 pr-2">Points</th>
+                <th className="py-2 pr-2">Plafond</th>
+                <th className="py-2 pr-2">Fenêtre (j)</th>
+                <th className="py-2 pr-2">Active</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => {
+                const values = drafts[rule.id] ?? rule;
+                return (
+                  <tr key={rule.id} className="border-b border-gray-700/50">
+                    <td className="py-2 pr-4">
+                      <div className="text-white">{rule.libelle}</div>
+                      <div className="text-xs text-gray-500">
+                        {SIGNAL_LABELS[rule.signal]}
+                        {Object.values(rule.filtre).length > 0 && ` · ${Object.values(rule.filtre).join(', ')}`}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-2 w-28">
+                      <input
+                        type="number"
+                        min={0}
+                        value={values.seuil}
+                        onChange={(event) => updateDraft(rule, { seuil: Number(event.target.value) })}
+                        className={inputClass}
+                        title={SEUIL_LABELS[rule.signal] ?? 'événements tolérés'}
+                      />
+                    </td>
+                    <td className="py-2 pr-2 w-24">
+                      <input
+                        type="number"
+                        min={0}
+                        value={values.points}
+                        onChange={(event) => updateDraft(rule, { points: Number(event.target.value) })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-2 w-24">
+                      <input
+                        type="number"
+                        min={0}
+                        value={values.plafond}
+                        onChange={(event) => updateDraft(rule, { plafond: Number(event.target.value) })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-2 w-24">
+                      <input
+                        type="number"
+                        min={1}
+                        value={values.fenetre_jours}
+                        onChange={(event) => updateDraft(rule, { fenetre_jours: Number(event.target.value) })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={values.actif}
+                        onChange={(event) => updateDraft(rule, { actif: event.target.checked })}
+                        className="w-4 h-4 accent-amber-500"
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      {drafts[rule.id] && (
+                        <button
+                          onClick={() => saveRule(rule)}
+                          disabled={saving === rule.id}
+                          className="p-2 text-amber-400 hover:text-amber-300 disabled:opacity-50"
+                          title="Enregistrer"
+                        >
+                          {saving === rule.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-white font-semibold mb-3">Dernières décisions</h3>
+        {decisions.length === 0 ? (
+          <p className="text-gray-500 text-sm">Aucune décision pour le moment.</p>
+        ) : (
+          <div className="space-y-2">
+            {decisions.map((decision) => (
+              <div key={decision.id} className="rounded-lg border border-gray-700 bg-gray-900/40 px-4 py-3 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-white">
+                    {decision.users?.nom || 'Abonné supprimé'}
+                    <span className="text-gray-500 font-mono text-xs ml-2">{decision.users?.numero_abonne}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-gray-300">{decision.score}/100</span>
+                    <span className={`px-2 py-0.5 rounded text-xs ${ACTION_LABELS[decision.action].className}`}>
+                      {ACTION_LABELS[decision.action].label}
+                    </span>
+                  </div>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {new Date(decision.created_at).toLocaleString('fr-FR')}
+                  {decision.contributions.length > 0 &&
+                    ` · ${decision.contributions.map((item) => `${item.libelle} -${item.points}`).join(', ')}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
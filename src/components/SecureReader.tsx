@@ -11,6 +11,7 @@ import {
   BookOpen,
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { pickTileWidth, requestPageTile } from '../lib/pageImages';
 import { ArticleView } from './ArticleView';
 
 interface SecureReaderProps {
@@ -46,7 +47,6 @@ export function SecureReader({ token }: SecureReaderProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [tokenData, setTokenData] = useState<TokenData | null>(null);
-  const [pdfUrl, setPdfUrl] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -55,21 +55,17 @@ export function SecureReader({ token }: SecureReaderProps) {
   const [showControls, setShowControls] = useState(true);
   const [warningType, setWarningType] = useState('');
   const [articles, setArticles] = useState<ReaderArticle[]>([]);
-  const [articlesSource, setArticlesSource] = useState<'structured' | 'extracted' | null>(null);
+  const [articlesSource, setArticlesSource] = useState<'structured' | null>(null);
   const [currentArticleIndex, setCurrentArticleIndex] = useState(0);
   const [isArticleViewOpen, setIsArticleViewOpen] = useState(false);
-  const [extractingArticles, setExtractingArticles] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const touchStartXRef = useRef(0);
   const touchStartYRef = useRef(0);
   const pinchDistanceRef = useRef(0);
-  const pdfjsLibRef = useRef<any>(null);
-  const pdfDocumentRef = useRef<any>(null);
-  const pdfScriptRef = useRef<HTMLScriptElement | null>(null);
-  const loadingTaskRef = useRef<any>(null);
-  const renderTaskRef = useRef<any>(null);
+  // Images des tuiles déjà chargées : l'URL signée expire vite, l'image décodée reste utilisable
+  const tileImagesRef = useRef(new Map<string, HTMLImageElement>());
   const warningTimeoutRef = useRef<number | null>(null);
   const controlsTimeoutRef = useRef<number | null>(null);
   const resizeTimeoutRef = useRef<number | null>(null);
@@ -90,23 +86,6 @@ export function SecureReader({ token }: SecureReaderProps) {
       if (warningTimeoutRef.current) window.clearTimeout(warningTimeoutRef.current);
       if (controlsTimeoutRef.current) window.clearTimeout(controlsTimeoutRef.current);
       if (resizeTimeoutRef.current) window.clearTimeout(resizeTimeoutRef.current);
-      if (renderTaskRef.current) {
-        try {
-          renderTaskRef.current.cancel();
-        } catch (err) {
-          console.warn('Failed to cancel render task', err);
-        }
-      }
-      if (loadingTaskRef.current?.destroy) {
-        try {
-          loadingTaskRef.current.destroy();
-        } catch (err) {
-          console.warn('Failed to destroy loading task', err);
-        }
-      }
-      if (pdfScriptRef.current?.parentNode) {
-        pdfScriptRef.current.parentNode.removeChild(pdfScriptRef.current);
-      }
     };
   }, []);
 
@@ -128,6 +107,7 @@ export function SecureReader({ token }: SecureReaderProps) {
 
   useEffect(() => {
     sessionIdRef.current = crypto.randomUUID();
+    tileImagesRef.current.clear();
   }, [token]);
 
   const shouldLogSecurityEvent = useCallback((type: string) => {
@@ -318,137 +298,56 @@ export function SecureReader({ token }: SecureReaderProps) {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
-  const loadPdfJs = useCallback(async () => {
-    if (pdfjsLibRef.current) {
-      return pdfjsLibRef.current;
-    }
-
-    if (typeof window !== 'undefined' && window.pdfjsLib) {
-      pdfjsLibRef.current = window.pdfjsLib;
-    } else {
-      const existingScript = document.querySelector<HTMLScriptElement>(
-        'script[data-secure-reader-pdfjs="true"], script[data-secure-reader="pdfjs"]',
-      );
-
-      await new Promise<void>((resolve, reject) => {
-        if (existingScript) {
-          pdfScriptRef.current = existingScript;
-
-          if (existingScript.dataset.secureReaderLoaded === 'true') {
-            resolve();
-            return;
-          }
-
-          existingScript.addEventListener('load', () => resolve(), { once: true });
-          existingScript.addEventListener('error', () => reject(new Error('Impossible de charger PDF.js')), {
-            once: true,
-          });
-          return;
-        }
-
-        const script = document.createElement('script');
-        script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-        script.async = true;
-        script.dataset.secureReaderPdfjs = 'true';
-        script.addEventListener(
-          'load',
-          () => {
-            script.dataset.secureReaderLoaded = 'true';
-            resolve();
-          },
-          { once: true },
-        );
-        script.addEventListener(
-          'error',
-          () => reject(new Error('Impossible de charger PDF.js')),
-          { once: true },
-        );
-        document.head.appendChild(script);
-        pdfScriptRef.current = script;
-      });
+  const loadTileImage = useCallback(async (pageNum: number, displayWidth: number) => {
+    const width = pickTileWidth(displayWidth);
+    const key = `${pageNum}:${width}`;
+    const cachedImage = tileImagesRef.current.get(key);
+    if (cachedImage) return cachedImage;
 
-      pdfjsLibRef.current = window.pdfjsLib;
+    // Filigranes visible et invisible incrustés par le serveur, propres à cette session
+    const { tile, error: tileError } = await requestPageTile(token, sessionIdRef.current, pageNum, width);
+    if (!tile) {
+      throw new Error(tileError || 'Page indisponible');
     }
 
-    if (!pdfjsLibRef.current) {
-      throw new Error('PDF.js indisponible');
+    if (isMountedRef.current) {
+      setTotalPages(tile.totalPages);
     }
 
-    pdfjsLibRef.current.GlobalWorkerOptions.workerSrc =
-      'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-
-    return pdfjsLibRef.current;
-  }, []);
-
-    const drawWatermark = useCallback(
-    (context: CanvasRenderingContext2D, pageNum: number, viewport: { width: number; height: number }) => {
-      const activeToken = tokenDataRef.current;
-      if (!activeToken) return;
-
-      context.save();
-      const userName = activeToken.users?.nom?.toUpperCase() || 'LECTEUR';
-      const abonNumber = activeToken.users?.numero_abonne || 'N/A';
-      const sessionPrefix = sessionIdRef.current.substring(0, 8).toUpperCase();
-      const timestamp = new Date().toLocaleString('fr-FR', {
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-      });
-
-      const fontSize = Math.max(14, Math.min(viewport.width * 0.03, 28));
-      context.globalAlpha = 0.12;
-      context.fillStyle = '#1f2937';
-      context.textAlign = 'center';
-      context.font = `600 ${fontSize}px system-ui, -apple-system, sans-serif`;
-
-      context.translate(viewport.width / 2, viewport.height / 2);
-      context.rotate(-Math.PI / 8);
-
-      context.fillText(userName, 0, -fontSize * 1.5);
-      context.fillText(`Abonne ${abonNumber}`, 0, 0);
-      context.fillText(timestamp, 0, fontSize * 1.5);
-      context.fillText(`Session ${sessionPrefix} - P${pageNum}`, 0, fontSize * 3);
-      context.restore();
-    },
-    [],
-  );
-;
+    const image = new Image();
+    image.src = tile.url;
+    await image.decode();
+    tileImagesRef.current.set(key, image);
+    return image;
+  }, [token]);
 
 const renderPageInternal = useCallback(
   async (pageNum: number) => {
-    const pdf = pdfDocumentRef.current;
     const canvas = canvasRef.current;
     const container = containerRef.current;
     const activeToken = tokenDataRef.current;
-    if (!pdf || !canvas || !activeToken) return;
+    if (!canvas || !activeToken) return;
 
-    if (renderTaskRef.current) {
-      try {
-        renderTaskRef.current.cancel();
-      } catch (err) {
-        console.warn('Unable to cancel previous render task', err);
-      }
-      renderTaskRef.current = null;
-    }
+    const bounds = container?.getBoundingClientRect();
+    const availableWidth = Math.max(320, (bounds?.width ?? window.innerWidth) - 48);
+    const availableHeight = Math.max(360, window.innerHeight - 240);
+    const zoom = zoomLevelRef.current;
 
-    const page = await pdf.getPage(pageNum);
+    const image = await loadTileImage(pageNum, availableWidth * zoom);
     const context = canvas.getContext('2d');
     if (!context) {
       return;
     }
 
-    const bounds = container?.getBoundingClientRect();
-    const availableWidth = Math.max(320, (bounds?.width ?? window.innerWidth) - 48);
-    const availableHeight = Math.max(360, window.innerHeight - 240);
-
-    const baseViewport = page.getViewport({ scale: 1 });
-    const scaleX = availableWidth / baseViewport.width;
-    const scaleY = availableHeight / baseViewport.height;
+    const scaleX = availableWidth / image.naturalWidth;
+    const scaleY = availableHeight / image.naturalHeight;
     const fitScale = Math.min(scaleX, scaleY);
-    const zoom = zoomLevelRef.current;
-    const effectiveScale = Math.max(fitScale * zoom, 0.5);
+    const effectiveScale = Math.max(fitScale * zoom, 0.2);
 
-    const viewport = page.getViewport({ scale: effectiveScale });
+    const viewport = {
+      width: image.naturalWidth * effectiveScale,
+      height: image.naturalHeight * effectiveScale,
+    };
     const dpr = window.devicePixelRatio || 1;
 
     canvas.width = Math.max(1, Math.floor(viewport.width * dpr));
@@ -462,21 +361,12 @@ const renderPageInternal = useCallback(
     try {
       context.setTransform(dpr, 0, 0, dpr, 0, 0);
       context.clearRect(0, 0, viewport.width, viewport.height);
-
-      const renderTask = page.render({
-        canvasContext: context,
-        viewport,
-      });
-      renderTaskRef.current = renderTask;
-      await renderTask.promise;
-
-      drawWatermark(context, pageNum, viewport);
+      context.drawImage(image, 0, 0, viewport.width, viewport.height);
     } finally {
       context.restore();
-      renderTaskRef.current = null;
     }
   },
-  [drawWatermark],
+  [loadTileImage],
 );
 
 const processRenderQueue = useCallback(async () => {
@@ -496,6 +386,10 @@ const processRenderQueue = useCallback(async () => {
     await renderPageInternal(nextPage);
   } catch (err) {
     console.error('Error processing render queue:', err);
+    // Jeton révoqué ou expiré : le serveur refuse les tuiles suivantes
+    if (isMountedRef.current) {
+      setError(err instanceof Error ? err.message : 'Erreur lors du chargement de la page');
+    }
   } finally {
     isRenderingRef.current = false;
   }
@@ -513,148 +407,21 @@ const renderPage = useCallback(
   [processRenderQueue],
 );
 
-const renderPDF = useCallback(async () => {
-  if (!pdfUrl) return;
-
-  try {
-    if (renderTaskRef.current) {
-        try {
-          renderTaskRef.current.cancel();
-        } catch (err) {
-          console.warn('Failed to cancel previous render task', err);
-        }
-        renderTaskRef.current = null;
-      }
-
-      if (loadingTaskRef.current?.destroy) {
-        try {
-          await loadingTaskRef.current.destroy();
-        } catch (err) {
-          console.warn('Failed to destroy previous loading task', err);
-        }
-        loadingTaskRef.current = null;
-      }
-
-      if (pdfDocumentRef.current?.destroy) {
-        try {
-          await pdfDocumentRef.current.destroy();
-        } catch (err) {
-          console.warn('Failed to destroy previous PDF document', err);
-        }
-      }
-      pdfDocumentRef.current = null;
-      isRenderingRef.current = false;
-      pendingPageRef.current = null;
-
-      const pdfjsLib = await loadPdfJs();
-      const loadingTask = pdfjsLib.getDocument({
-        url: pdfUrl,
-        cMapUrl: 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/cmaps/',
-        cMapPacked: true,
-        disableAutoFetch: true,
-        disableStream: false,
-        isEvalSupported: false,
-      });
-
-      loadingTaskRef.current = loadingTask;
-
-      const pdf = await loadingTask.promise;
-      pdfDocumentRef.current = pdf;
-
-      if (!isMountedRef.current) {
-        return;
-      }
-
-      pendingPageRef.current = 1;
-      currentPageRef.current = 1;
-      setTotalPages(pdf.numPages);
-      setCurrentPage(1);
-      await processRenderQueue();
-    } catch (err) {
-      console.error('Error loading PDF:', err);
-      if (isMountedRef.current) {
-        setError('Erreur lors du chargement du PDF');
-      }
-    }
-  }, [loadPdfJs, pdfUrl, processRenderQueue]);
-
-  const extractTextFromPage = useCallback(async (pageNum: number) => {
-    const pdf = pdfDocumentRef.current;
-    if (!pdf) return [];
-
-    try {
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent();
-
-      const extractedArticles: ReaderArticle[] = [];
-      let buffer = '';
-      let articleCount = 0;
-
-      for (const item of textContent.items) {
-        if ('str' in item) {
-          const str = item.str.trim();
-          if (!str) continue;
-          buffer += str + ' ';
-
-          const isParagraphBreak = /[.!?]$/.test(str) && buffer.length > 220;
-          if (isParagraphBreak) {
-            articleCount += 1;
-            const title = buffer.substring(0, 80).trim();
-            extractedArticles.push({
-              id: 'article-' + pageNum + '-' + articleCount,
-              title: title + (title.length >= 80 ? '...' : ''),
-              content: buffer.trim(),
-              pageNumber: pageNum,
-              subtitle: undefined,
-              author: undefined,
-            });
-            buffer = '';
-          }
-        }
-      }
-
-      if (buffer.length > 60) {
-        articleCount += 1;
-        const title = buffer.substring(0, 80).trim();
-        extractedArticles.push({
-          id: 'article-' + pageNum + '-' + articleCount,
-          title: title + (title.length >= 80 ? '...' : ''),
-          content: buffer.trim(),
-          pageNumber: pageNum,
-          subtitle: undefined,
-          author: undefined,
-        });
-      }
-
-      return extractedArticles;
-    } catch (err) {
-      console.error('Error extracting text:', err);
-      return [];
-    }
-  }, []);
-
-  const handleExtractArticles = useCallback(async () => {
-    if (extractingArticles) return;
-
-    if (articles.length > 0) {
-      setCurrentArticleIndex(0);
-      setIsArticleViewOpen(true);
-      return;
-    }
-
-    setExtractingArticles(true);
-    try {
-      const extracted = await extractTextFromPage(currentPageRef.current);
-      setArticles(extracted);
-      if (extracted.length > 0) {
-        setArticlesSource('extracted');
-      }
-      setCurrentArticleIndex(0);
-      setIsArticleViewOpen(extracted.length > 0);
-    } finally {
-      setExtractingArticles(false);
-    }
-  }, [articles.length, extractingArticles, extractTextFromPage]);
+const initializeReader = useCallback(async () => {
+  isRenderingRef.current = false;
+  pendingPageRef.current = 1;
+  currentPageRef.current = 1;
+  tileImagesRef.current.clear();
+  setCurrentPage(1);
+  await processRenderQueue();
+}, [processRenderQueue]);
+
+  // Sans PDF côté navigateur, seuls les articles structurés de la rédaction sont disponibles
+  const handleOpenArticles = useCallback(() => {
+    if (articles.length === 0) return;
+    setCurrentArticleIndex(0);
+    setIsArticleViewOpen(true);
+  }, [articles.length]);
 
   const openStructuredArticle = useCallback(
     (articleId: string) => {
@@ -714,18 +481,9 @@ const renderPDF = useCallback(async () => {
         throw new Error('Document inaccessible');
       }
 
-      const { data: signedData, error: signedError } = await supabase.storage
-        .from('secure-pdfs')
-        .createSignedUrl(data.pdfs.url_fichier, 60);
-
-      if (signedError || !signedData?.signedUrl) {
-        throw new Error('Impossible de générer un accès sécurisé au PDF');
-      }
-
       if (!isMountedRef.current) return;
 
       setTokenData(data as TokenData);
-      setPdfUrl(signedData.signedUrl);
       loadStructuredArticles(data.pdfs?.url_fichier ?? '', data.pdf_id);
 
       await supabase.from('logs').insert({
@@ -750,17 +508,17 @@ const renderPDF = useCallback(async () => {
   }, [validateToken]);
 
   useEffect(() => {
-    if (!pdfUrl || !tokenData) return;
-    renderPDF();
-  }, [pdfUrl, tokenData, renderPDF]);
+    if (!tokenData) return;
+    initializeReader();
+  }, [tokenData, initializeReader]);
 
   useEffect(() => {
-    if (!pdfDocumentRef.current) return;
+    if (!tokenDataRef.current) return;
     renderPage(currentPage);
   }, [currentPage, renderPage]);
 
   useEffect(() => {
-    if (!pdfDocumentRef.current) return;
+    if (!tokenDataRef.current) return;
     renderPage(currentPageRef.current);
   }, [zoomLevel, renderPage]);
 
@@ -1057,11 +815,11 @@ const renderPDF = useCallback(async () => {
               </button>
 
               <button
-                onClick={handleExtractArticles}
-                disabled={extractingArticles}
+                onClick={handleOpenArticles}
+                disabled={articles.length === 0}
                 className="p-1.5 sm:p-2 bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white rounded-lg transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
-                title={articlesSource === 'structured' ? 'Ouvrir les articles' : 'Extraire les articles'}
-                aria-label={articlesSource === 'structured' ? 'Ouvrir les articles' : 'Extraire les articles'}
+                title={articles.length > 0 ? 'Ouvrir les articles' : 'Aucun article pour cette édition'}
+                aria-label={articles.length > 0 ? 'Ouvrir les articles' : 'Aucun article pour cette édition'}
               >
                 <BookOpen className="w-4 h-4" />
               </button>
@@ -1194,9 +952,3 @@ const renderPDF = useCallback(async () => {
   );
 }
 
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
-}
-
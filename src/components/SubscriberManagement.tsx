@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Users, Search, UserPlus, Ban, CheckCircle, AlertTriangle, Calendar, Phone } from 'lucide-react';
+import { Users, Search, UserPlus, Ban, CheckCircle, AlertTriangle, Calendar, Phone, MonitorSmartphone } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import type { User, Abonnement } from '../lib/supabase';
+import type { User, Abonnement, Device } from '../lib/supabase';
 
 interface SubscriberWithDetails extends User {
   abonnements?: Abonnement[];
+  devices?: Pick<Device, 'id' | 'status'>[];
 }
 
 export function SubscriberManagement() {
@@ -28,7 +29,8 @@ export function SubscriberManagement() {
           abonnements (
             *,
             formules (*)
-          )
+          ),
+          devices (id, status)
         `)
         .eq('role', 'lecteur')
         .order('created_at', { ascending: false });
@@ -78,6 +80,23 @@ export function SubscriberManagement() {
     }
   };
 
+  const resetDevices = async (userId: string) => {
+    if (!confirm('Réinitialiser les appareils de cet abonné ? Ses lectures en cours seront fermées et le prochain appareil utilisé sera enregistré d\'office.')) return;
+
+    try {
+      const { data, error } = await supabase.rpc('reset_user_devices', { p_user_id: userId });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error);
+
+      await loadSubscribers();
+      alert(`${data.devices_reset} appareil(s) réinitialisé(s)`);
+    } catch (error) {
+      console.error('Error resetting devices:', error);
+      alert('Erreur lors de la réinitialisation des appareils');
+    }
+  };
+
   const filteredSubscribers = subscribers.filter(sub => {
     const matchesSearch =
       sub.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -225,10 +244,19 @@ export function SubscriberManagement() {
                   </div>
 
                   <div className="flex items-center gap-3 text-xs text-gray-400">
-                    <span>Score de confiance: {subscriber.score_confiance || 100}/100</span>
+                    <span>Score de confiance: {subscriber.score_confiance ?? 100}/100</span>
+                    {subscriber.acces_verrouille_jusqu_a && new Date(subscriber.acces_verrouille_jusqu_a) > new Date() && (
+                      <span className="text-orange-300">
+                        (verrouillé jusqu'à {new Date(subscriber.acces_verrouille_jusqu_a).toLocaleTimeString('fr-FR')})
+                      </span>
+                    )}
                     <span>•</span>
                     <span>Devices autorisés: {subscriber.devices_autorises || 1}</span>
                     <span>•</span>
+                    <span>
+                      Appareils de confiance: {subscriber.devices?.filter(device => device.status === 'trusted').length || 0}
+                    </span>
+                    <span>•</span>
                     <span>Inscrit le {new Date(subscriber.created_at).toLocaleDateString('fr-FR')}</span>
                   </div>
                 </div>
@@ -249,6 +277,14 @@ export function SubscriberManagement() {
                       Suspendre
                     </button>
                   )}
+                  <button
+                    onClick={() => resetDevices(subscriber.id)}
+                    className="flex items-center gap-1 px-3 py-1 bg-gray-800 text-gray-300 rounded hover:bg-gray-600 transition-colors text-sm"
+                    title="Retirer tous les appareils enregistrés"
+                  >
+                    <MonitorSmartphone className="w-4 h-4" />
+                    Réinitialiser appareils
+                  </button>
                 </div>
               </div>
             </div>
@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams, Link } from 'react-router-dom';
-import { Newspaper, ArrowLeft, CheckCircle, Loader, Phone, User } from 'lucide-react';
+import { Newspaper, ArrowLeft, CheckCircle, Loader, Phone, User, Tag, Gift } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { Formule } from '../lib/supabase';
 import { OTPInput } from './OTPInput';
 import { IPayCheckout } from './IPayCheckout';
 import { validatePhoneNumber, normalizePhoneNumber, detectCountryCode } from '../lib/otp';
+import { validatePromoCode, formatDiscount } from '../lib/promo';
+import type { PromoQuote } from '../lib/promo';
+import { checkReferralCode } from '../lib/referral';
 import {
   handleSignupFlow,
   verifyOTP,
@@ -32,6 +35,11 @@ export function SubscriptionForm() {
   });
   const [abonnementId, setAbonnementId] = useState<string | null>(null);
   const [tempUserId, setTempUserId] = useState<string | null>(null);
+  const [referralCode, setReferralCode] = useState(searchParams.get('ref')?.toUpperCase() || '');
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoQuote | null>(null);
+  const [promoError, setPromoError] = useState('');
+  const [checkingPromo, setCheckingPromo] = useState(false);
 
   // Charger la formule à partir de l'ID
   useEffect(() => {
@@ -92,6 +100,11 @@ export function SubscriptionForm() {
 
       console.log('📱 Numéro normalisé:', formattedPhone);
 
+      if (referralCode.trim() && !(await checkReferralCode(referralCode))) {
+        setError('Code de parrainage invalide');
+        return;
+      }
+
       // Nettoyer tout ancien utilisateur non vérifié
       await cleanupUnverifiedUserByPhone(formattedPhone);
 
@@ -127,6 +140,28 @@ export function SubscriptionForm() {
     }
   };
 
+  const handleApplyPromo = async () => {
+    if (!formule || !promoInput.trim()) return;
+
+    setPromoError('');
+    setCheckingPromo(true);
+    const quote = await validatePromoCode(promoInput, formule.id);
+    setCheckingPromo(false);
+
+    if (!quote.valid) {
+      setAppliedPromo(null);
+      setPromoError(quote.error || 'Code promo invalide');
+      return;
+    }
+    setAppliedPromo(quote);
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoInput('');
+    setPromoError('');
+  };
+
   // Nettoyage après échec ou annulation
   const handleCleanup = async () => {
     if (tempUserId) await cleanupUnverifiedUser(tempUserId);
@@ -148,7 +183,7 @@ export function SubscriptionForm() {
     const formattedPhone = normalizePhoneNumber(formData.numero_whatsapp);
 
     try {
-      const verifyResult = await verifyOTP(formattedPhone, otpCode);
+      const verifyResult = await verifyOTP(formattedPhone, otpCode, referralCode);
       console.log('📲 verifyOTP result:', verifyResult);
 
       if (!verifyResult.success) {
@@ -177,6 +212,11 @@ export function SubscriptionForm() {
         })
         .eq('id', tempUserId);
 
+      // Le parrainage est rattaché par verify-otp et ne bloque pas l'inscription
+      if (verifyResult.referral && !verifyResult.referral.success) {
+        console.warn('⚠️ Parrainage non enregistré:', verifyResult.referral.error);
+      }
+
       const dateDebut = new Date();
       const dateFin = new Date();
       dateFin.setDate(dateFin.getDate() + formule!.duree_jours);
@@ -240,12 +280,11 @@ export function SubscriptionForm() {
 
       const paymentResult = await initiatePayment(
         formData.nom,
-        formule.prix_fcfa,
+        formule.id,
         paymentType,
         tempUserId,
         abonnementId,
-        msisdn,
-        formule.id
+        msisdn
       );
 
       if (!paymentResult.success) {
@@ -368,8 +407,15 @@ export function SubscriptionForm() {
                 <p className="text-gray-400 text-sm">{formule.description}</p>
               </div>
               <div className="text-right">
+                {appliedPromo?.valid && (
+                  <div className="text-gray-500 line-through text-sm">
+                    {formule.prix_fcfa.toLocaleString()} FCFA
+                  </div>
+                )}
                 <div className="text-3xl font-bold text-amber-500">
-                  {formule.prix_fcfa === 0 ? 'Gratuit' : `${formule.prix_fcfa.toLocaleString()} FCFA`}
+                  {appliedPromo?.valid
+                    ? `${appliedPromo.montant_final!.toLocaleString()} FCFA`
+                    : formule.prix_fcfa === 0 ? 'Gratuit' : `${formule.prix_fcfa.toLocaleString()} FCFA`}
                 </div>
                 <p className="text-gray-400 text-sm">{formule.duree_jours} jours</p>
               </div>
@@ -413,6 +459,19 @@ export function SubscriptionForm() {
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  <Gift className="inline w-4 h-4 mr-2" /> Code de parrainage (optionnel)
+                </label>
+                <input
+                  type="text"
+                  value={referralCode}
+                  onChange={(e) => setReferralCode(e.target.value.toUpperCase())}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:ring-2 focus:ring-amber-500"
+                  placeholder="A1B2C3D4"
+                />
+              </div>
+
               {error && (
                 <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg text-sm">
                   {error}
@@ -444,11 +503,53 @@ export function SubscriptionForm() {
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  <Tag className="inline w-4 h-4 mr-2" /> Code promo
+                </label>
+                {appliedPromo?.valid ? (
+                  <div className="flex items-center justify-between bg-green-900/30 border border-green-700 rounded-lg px-4 py-3">
+                    <span className="text-green-300 text-sm">
+                      <span className="font-mono font-semibold">{appliedPromo.code}</span>{' '}
+                      ({formatDiscount(appliedPromo.type_remise!, appliedPromo.valeur!)}) appliqué
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleRemovePromo}
+                      className="text-gray-400 hover:text-white text-sm"
+                    >
+                      Retirer
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                      className="flex-1 px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:ring-2 focus:ring-amber-500"
+                      placeholder="BIENVENUE"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyPromo}
+                      disabled={checkingPromo || !promoInput.trim()}
+                      className="px-4 py-3 bg-gray-700 border border-gray-600 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                    >
+                      {checkingPromo ? <Loader className="w-5 h-5 animate-spin" /> : 'Appliquer'}
+                    </button>
+                  </div>
+                )}
+                {promoError && <p className="text-red-400 text-xs mt-1">{promoError}</p>}
+              </div>
+
+              {/* Remonté à chaque changement de code : un nouveau paiement est créé au bon montant */}
               <IPayCheckout
-                amount={formule.prix_fcfa}
-                userId={tempUserId}
+                key={appliedPromo?.code || 'sans-code'}
+                amount={appliedPromo?.montant_final ?? formule.prix_fcfa}
                 abonnementId={abonnementId}
                 formuleId={formule.id}
+                promoCode={appliedPromo?.code}
                 onSuccess={(paymentId) => {
                   setSuccess(true);
                   setTimeout(() => {
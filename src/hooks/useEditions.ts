@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import type { Edition } from '../lib/supabase';
+import { startExtraction } from '../lib/extraction';
 
 export function useEditions() {
   const [editions, setEditions] = useState<Edition[]>([]);
@@ -63,33 +64,17 @@ export function useEditions() {
     }
   }, [loadEditions]);
 
-  const extractArticles = useCallback(async (editionId: string, pdfUrl: string) => {
-    try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/extract-articles`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ editionId, pdfUrl }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Erreur lors de l\'extraction');
-      }
+  const extractArticles = useCallback(async (editionId: string) => {
+    const result = await startExtraction(editionId);
 
-      const result = await response.json();
-      await loadEditions();
-      return { success: true, data: result };
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Erreur lors de l\'extraction';
-      console.error('Error extracting articles:', err);
-      return { success: false, error: message };
+    if (!result.success) {
+      console.error('Error extracting articles:', result.error);
+      return { success: false, error: result.error || 'Erreur lors de l\'extraction' };
     }
+
+    // L'extraction continue côté serveur : l'édition passe en `processing`
+    await loadEditions();
+    return { success: true, data: result.job };
   }, [loadEditions]);
 
   return {
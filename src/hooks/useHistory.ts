@@ -0,0 +1,77 @@
+import { useCallback, useState } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const MAX_HISTORY = 100;
+
+/*
+  Historique annuler / rétablir.
+  - `update` crée une étape
+  - `preview` modifie l'état sans étape (glisser en cours) ; `commit` crée
+    ensuite une seule étape depuis l'état de départ
+  - `reset` repart d'un état sans historique (changement de page, enregistrement)
+*/
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const update = useCallback((updater: (current: T) => T) => {
+    setHistory((prev) => {
+      const next = updater(prev.present);
+      if (next === prev.present) return prev;
+      return { past: [...prev.past, prev.present].slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  }, []);
+
+  const preview = useCallback((updater: (current: T) => T) => {
+    setHistory((prev) => ({ ...prev, present: updater(prev.present) }));
+  }, []);
+
+  const commit = useCallback((from: T) => {
+    setHistory((prev) => {
+      if (from === prev.present) return prev;
+      return { past: [...prev.past, from].slice(-MAX_HISTORY), present: prev.present, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    present: history.present,
+    update,
+    preview,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
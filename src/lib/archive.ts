@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+
+export interface ArchiveEdition {
+  id: string;
+  titre: string;
+  numero_edition: number | null;
+  date_edition: string | null;
+  date_reference: string | null;
+  cover_image_url: string | null;
+  accessible: boolean;
+}
+
+export interface ArchiveMonth {
+  annee: number;
+  mois: number;
+  nb: number;
+}
+
+export interface ArchivePage {
+  total: number;
+  page: number;
+  page_size: number;
+  editions: ArchiveEdition[];
+  mois_disponibles: ArchiveMonth[];
+}
+
+export interface ArchiveFilters {
+  year?: number | null;
+  month?: number | null;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export const ARCHIVE_PAGE_SIZE = 12;
+
+export const MONTH_LABELS = [
+  'Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin',
+  'Juillet', 'Août', 'Septembre', 'Octobre', 'Novembre', 'Décembre',
+];
+
+export async function getEditionArchive(filters: ArchiveFilters): Promise<ArchivePage | null> {
+  const { data, error } = await supabase.rpc('get_edition_archive', {
+    p_year: filters.year ?? null,
+    p_month: filters.month ?? null,
+    p_search: filters.search?.trim() || null,
+    p_page: filters.page ?? 1,
+    p_page_size: filters.pageSize ?? ARCHIVE_PAGE_SIZE,
+  });
+
+  if (error) {
+    console.error('Error loading edition archive:', error);
+    return null;
+  }
+
+  return data as ArchivePage;
+}
@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+
+export interface ArticleSearchResult {
+  article_id: string;
+  edition_id: string;
+  pdf_id: string | null;
+  titre: string;
+  sous_titre: string | null;
+  auteur: string | null;
+  categorie: string | null;
+  edition_titre: string;
+  edition_statut: string;
+  date_edition: string | null;
+  extrait: string;
+  rang: number;
+  total: number;
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export const ARTICLE_SEARCH_PAGE_SIZE = 20;
+
+export async function searchArticles(
+  query: string,
+  offset = 0,
+  limit = ARTICLE_SEARCH_PAGE_SIZE
+): Promise<{ results: ArticleSearchResult[]; total: number } | null> {
+  const { data, error } = await supabase.rpc('search_articles', {
+    p_query: query.trim(),
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error('Error searching articles:', error);
+    return null;
+  }
+
+  const results = (data || []) as ArticleSearchResult[];
+  return { results, total: results[0]?.total ?? 0 };
+}
+
+// Les passages trouvés sont encadrés par [[ ]] côté serveur : découpés ici pour un rendu sans HTML
+export function splitHighlight(extrait: string): HighlightPart[] {
+  return extrait
+    .split(/(\[\[.*?\]\])/)
+    .filter(Boolean)
+    .map(part =>
+      part.startsWith('[[') && part.endsWith(']]')
+        ? { text: part.slice(2, -2), highlighted: true }
+        : { text: part, highlighted: false }
+    );
+}
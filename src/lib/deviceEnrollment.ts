@@ -0,0 +1,47 @@
+export interface DeviceEnrollmentResult {
+  success: boolean;
+  error?: string;
+  message: string;
+  masked_phone?: string;
+  expires_in_seconds?: number;
+  retry_after?: number;
+  attempts_remaining?: number;
+}
+
+// Le lecteur n'a pas de session Supabase : le jeton de lecture authentifie la demande
+async function callEnrollDevice(body: Record<string, string>): Promise<DeviceEnrollmentResult> {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/enroll-device`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }
+    );
+
+    return (await response.json()) as DeviceEnrollmentResult;
+  } catch (error) {
+    console.error('Error enrolling device:', error);
+    return {
+      success: false,
+      error: 'network_error',
+      message: 'Erreur de connexion. Veuillez réessayer.',
+    };
+  }
+}
+
+export function sendDeviceEnrollmentCode(token: string, deviceId: string): Promise<DeviceEnrollmentResult> {
+  return callEnrollDevice({ action: 'send', token, deviceId });
+}
+
+export function confirmDeviceEnrollment(
+  token: string,
+  deviceId: string,
+  code: string
+): Promise<DeviceEnrollmentResult> {
+  return callEnrollDevice({ action: 'verify', token, deviceId, code });
+}
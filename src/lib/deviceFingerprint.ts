@@ -1,65 +1,63 @@
-export function generateDeviceFingerprint(): string {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-
-  let fingerprint = '';
+// Composants comparés un à un côté serveur (supabase/functions/_shared/devices.ts) :
+// l'empreinte n'a pas à être stable à l'octet près
+export interface DeviceFingerprint {
+  userAgent: string;
+  screenResolution: string;
+  timezone: string;
+  language: string;
+  platform?: string;
+  hardwareConcurrency?: number;
+  deviceMemory?: number;
+  colorDepth?: number;
+  touchPoints?: number;
+  canvasHash?: string;
+}
 
-  fingerprint += navigator.userAgent;
-  fingerprint += navigator.language;
-  fingerprint += screen.colorDepth;
-  fingerprint += screen.width + 'x' + screen.height;
-  fingerprint += new Date().getTimezoneOffset();
-  fingerprint += navigator.hardwareConcurrency || '';
-  fingerprint += (navigator as any).deviceMemory || '';
+export function getDeviceFingerprint(): DeviceFingerprint {
+  return {
+    userAgent: navigator.userAgent,
+    screenResolution: `${screen.width}x${screen.height}`,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    language: navigator.language,
+    platform: navigator.platform || undefined,
+    hardwareConcurrency: navigator.hardwareConcurrency || undefined,
+    deviceMemory: (navigator as Navigator & { deviceMemory?: number }).deviceMemory,
+    colorDepth: screen.colorDepth,
+    touchPoints: navigator.maxTouchPoints,
+    canvasHash: getCanvasHash(),
+  };
+}
 
-  if (ctx) {
-    ctx.textBaseline = 'top';
-    ctx.font = '14px Arial';
-    ctx.fillStyle = '#f60';
-    ctx.fillRect(0, 0, 100, 30);
-    ctx.fillStyle = '#069';
-    ctx.fillText('Browser Fingerprint', 2, 2);
-    fingerprint += canvas.toDataURL();
+// Rendu du texte propre à la carte graphique et aux polices de l'appareil
+function getCanvasHash(): string | undefined {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  ctx.textBaseline = 'top';
+  ctx.font = '14px Arial';
+  ctx.fillStyle = '#f60';
+  ctx.fillRect(0, 0, 100, 30);
+  ctx.fillStyle = '#069';
+  ctx.fillText('Browser Fingerprint', 2, 2);
+
+  try {
+    return hashString(canvas.toDataURL());
+  } catch {
+    return undefined;
   }
-
-  return hashString(fingerprint);
 }
 
+// Hash 53 bits (cyrb53) : un composant parmi d'autres, pas un identifiant à lui seul
 function hashString(str: string): string {
-  let hash = 0;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(36);
-}
-
-export function generateSessionId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-}
-
-export async function detectSuspiciousActivity(
-  tokenData: any,
-  currentDeviceFingerprint: string
-): Promise<{ suspicious: boolean; reason: string } | null> {
-  if (!tokenData.device_fingerprint) {
-    return null;
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
   }
-
-  if (tokenData.device_fingerprint !== currentDeviceFingerprint) {
-    return {
-      suspicious: true,
-      reason: 'Device fingerprint mismatch - different device detected'
-    };
-  }
-
-  if (tokenData.access_count >= tokenData.max_access_count) {
-    return {
-      suspicious: true,
-      reason: 'Maximum access count exceeded'
-    };
-  }
-
-  return null;
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
 }
@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import { getDeviceFingerprint } from './deviceFingerprint';
+
+export interface EditionAccessResponse {
+  success: boolean;
+  token?: string;
+  expiresAt?: string;
+  error?: string;
+}
+
+export async function requestEditionAccess(pdfId: string): Promise<EditionAccessResponse> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { success: false, error: 'Veuillez vous reconnecter' };
+    }
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/request-edition-access`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ pdfId, deviceFingerprint: getDeviceFingerprint() }),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      return { success: false, error: data.error || 'Impossible d’ouvrir cette édition' };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error requesting edition access:', error);
+    return { success: false, error: 'Erreur de connexion. Veuillez réessayer.' };
+  }
+}
@@ -0,0 +1,138 @@
+import { supabase } from './supabase';
+import type { ExtractionJob, ExtractionPageResult, ExtractionStrategyName } from './supabase';
+
+export interface ExtractionResponse {
+  success: boolean;
+  claimed?: boolean;
+  job?: ExtractionJob;
+  error?: string;
+}
+
+export const STRATEGY_LABELS: Record<ExtractionStrategyName, string> = {
+  pdfjs: 'Couche texte (pdf.js)',
+  tesseract: 'Tesseract (local)',
+  textract: 'Textract (AWS)',
+};
+
+// Au-delà, le worker serveur est considéré comme arrêté et le job peut être repris
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000;
+
+async function callExtractArticles(body: Record<string, unknown>): Promise<ExtractionResponse> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/extract-articles`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Erreur lors de l\'extraction',
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling extract-articles:', error);
+    return {
+      success: false,
+      error: 'Erreur de connexion. Veuillez réessayer.',
+    };
+  }
+}
+
+// Sans stratégies, le serveur applique son ordre par défaut (couche texte puis OCR) parmi celles configurées
+export function startExtraction(
+  editionId: string,
+  options: { strategies?: ExtractionStrategyName[]; mode?: ExtractionJob['mode'] } = {}
+): Promise<ExtractionResponse> {
+  return callExtractArticles({ action: 'start', editionId, ...options });
+}
+
+// Reprend au dernier checkpoint : seules les pages non extraites ou en échec sont retraitées
+export function resumeExtraction(jobId: string): Promise<ExtractionResponse> {
+  return callExtractArticles({ action: 'resume', jobId });
+}
+
+export async function getLatestExtractionJobs(editionIds: string[]): Promise<Record<string, ExtractionJob>> {
+  if (editionIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('extraction_jobs')
+    .select('*')
+    .in('edition_id', editionIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading extraction jobs:', error);
+    return {};
+  }
+
+  const latest: Record<string, ExtractionJob> = {};
+  for (const job of data || []) {
+    if (!latest[job.edition_id]) {
+      latest[job.edition_id] = job;
+    }
+  }
+  return latest;
+}
+
+export async function getExtractionPageResults(jobId: string): Promise<ExtractionPageResult[]> {
+  const { data, error } = await supabase
+    .from('extraction_page_results')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('page_number', { ascending: true });
+
+  if (error) {
+    console.error('Error loading extraction results:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export function isExtractionJobActive(job: ExtractionJob): boolean {
+  return job.statut === 'en_attente' || job.statut === 'en_cours';
+}
+
+export function isExtractionJobResumable(job: ExtractionJob): boolean {
+  if (job.statut === 'echoue') return true;
+  if (!isExtractionJobActive(job)) return false;
+  if (!job.heartbeat_at) return job.statut === 'en_attente';
+  return Date.now() - new Date(job.heartbeat_at).getTime() > STALE_HEARTBEAT_MS;
+}
+
+export function subscribeToExtractionJobs(callback: (job: ExtractionJob) => void): () => void {
+  const channel = supabase
+    .channel('extraction_jobs')
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'extraction_jobs',
+      },
+      (payload) => {
+        if (payload.new && 'id' in payload.new) {
+          callback(payload.new as ExtractionJob);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,292 @@
+import { supabase } from './supabase';
+import type { PDF, User, WatermarkSession } from './supabase';
+import { GRID, SYNC_BITS, codeBytes, crc16, isSyncCell } from './watermarkCode';
+
+/*
+  Filigrane invisible : le code de la session (32 bits, `watermark_sessions`)
+  et son CRC-16 sont inscrits dans une tuile de 8 x 8 cellules répétée sur
+  toute la page. Chaque cellule porte un bit par la moitié assombrie (gauche
+  pour 1, droite pour 0), d'environ 4 niveaux de gris : invisible à l'œil,
+  mais assez large pour survivre à la recompression JPEG.
+
+  La lecture compare chaque pixel à celui situé une demi-cellule plus loin :
+  l'éclairage d'une photo d'écran s'annule, les bords de texte sont écartés,
+  et la somme sur toutes les tuiles fait ressortir le motif. Une capture
+  recadrée garde des tuiles entières ; l'échelle et le décalage de la tuile
+  sont recherchés, ainsi que les quarts de tour.
+
+  Le filigrane est incrusté par le serveur dans les tuiles de page
+  (`supabase/functions/_shared/watermark.ts`) ; ce module ne fait que le lire,
+  avec le même codage (`_shared/watermarkCode.ts`).
+*/
+
+const BINS_PER_CELL = 4;
+const TILE_BINS = GRID * BINS_PER_CELL;
+const MAX_DECODE_SIZE = 1400;
+const MIN_CELL = 6;
+const MAX_CELL = 64;
+// Écart au-delà duquel deux pixels comparés tombent sur un bord de texte ou d'image
+const DIFF_LIMIT = 8;
+const MIN_CONFIDENCE = 0.5;
+const SCALE_CANDIDATES = 5;
+
+export interface WatermarkDetection {
+  code: number;
+  // Accord des cellules de synchronisation, de 0 à 1
+  confidence: number;
+  cellSize: number;
+  rotation: number;
+}
+
+export interface TracedSession extends WatermarkSession {
+  users: Pick<User, 'nom' | 'email' | 'numero_abonne' | 'statut_abonnement'> | null;
+  pdfs: Pick<PDF, 'titre'> | null;
+}
+
+function readPayload(bits: number[]): number | null {
+  const payload = bits.filter((_, index) => !isSyncCell(index));
+  const code = payload.slice(0, 32).reduce((value, bit) => value * 2 + bit, 0);
+  const crc = payload.slice(32).reduce((value, bit) => value * 2 + bit, 0);
+  return crc16(codeBytes(code)) === crc ? code : null;
+}
+
+interface Luminance {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+async function loadLuminance(image: Blob): Promise<Luminance> {
+  const bitmap = await createImageBitmap(image);
+  const ratio = Math.min(1, MAX_DECODE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * ratio));
+  const height = Math.max(1, Math.round(bitmap.height * ratio));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas indisponible');
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const data = new Float32Array(width * height);
+  for (let index = 0; index < data.length; index += 1) {
+    data[index] = 0.299 * pixels[index * 4] + 0.587 * pixels[index * 4 + 1] + 0.114 * pixels[index * 4 + 2];
+  }
+
+  return { data, width, height };
+}
+
+// Quart de tour dans le sens horaire
+function rotate(image: Luminance): Luminance {
+  const { data, width, height } = image;
+  const rotated = new Float32Array(data.length);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      rotated[x * height + (height - 1 - y)] = data[y * width + x];
+    }
+  }
+  return { data: rotated, width: height, height: width };
+}
+
+interface Fold {
+  sums: Float64Array;
+  counts: Uint32Array;
+  // Écart moyen : la pente d'éclairage d'une photo, retirée de chaque cellule
+  bias: number;
+}
+
+/*
+  Replie l'image sur une tuile de `cellSize` pixels par cellule : chaque
+  case (quart de cellule) cumule l'écart entre un pixel et celui situé une
+  demi-cellule à sa droite.
+*/
+function foldImage(image: Luminance, cellSize: number, rowStep: number): Fold {
+  const { data, width, height } = image;
+  const period = cellSize * GRID;
+  const half = Math.max(1, Math.round(cellSize / 2));
+  const binOf = (position: number) => {
+    const phase = position / period;
+    return Math.min(TILE_BINS - 1, Math.floor((phase - Math.floor(phase)) * TILE_BINS));
+  };
+
+  const columnBins = new Int32Array(width);
+  for (let x = 0; x < width; x += 1) columnBins[x] = binOf(x);
+
+  const sums = new Float64Array(TILE_BINS * TILE_BINS);
+  const counts = new Uint32Array(TILE_BINS * TILE_BINS);
+  let total = 0;
+  let samples = 0;
+
+  for (let y = 0; y < height; y += rowStep) {
+    const rowOffset = binOf(y) * TILE_BINS;
+    const base = y * width;
+    for (let x = 0; x < width - half; x += 1) {
+      const diff = data[base + x] - data[base + x + half];
+      if (diff > DIFF_LIMIT || diff < -DIFF_LIMIT) continue;
+      const bin = rowOffset + columnBins[x];
+      sums[bin] += diff;
+      counts[bin] += 1;
+      total += diff;
+      samples += 1;
+    }
+  }
+
+  return { sums, counts, bias: samples > 0 ? total / samples : 0 };
+}
+
+// Valeur de chaque cellule pour un alignement : positive si la moitié gauche est plus sombre
+function cellValues(fold: Fold, offsetX: number, offsetY: number): number[] {
+  return Array.from({ length: GRID * GRID }, (_, index) => {
+    const row = Math.floor(index / GRID);
+    const column = index % GRID;
+    let sum = 0;
+    let count = 0;
+
+    for (let dy = 0; dy < BINS_PER_CELL; dy += 1) {
+      const binY = (offsetY + row * BINS_PER_CELL + dy) % TILE_BINS;
+      for (let dx = 0; dx < BINS_PER_CELL / 2; dx += 1) {
+        const bin = binY * TILE_BINS + ((offsetX + column * BINS_PER_CELL + dx) % TILE_BINS);
+        sum += fold.sums[bin];
+        count += fold.counts[bin];
+      }
+    }
+
+    return count > 0 ? fold.bias - sum / count : 0;
+  });
+}
+
+// Meilleur alignement des cellules dans la tuile repliée : là où le motif est le plus marqué
+function alignCells(fold: Fold) {
+  let best = { values: [] as number[], energy: -1 };
+
+  for (let offsetY = 0; offsetY < BINS_PER_CELL; offsetY += 1) {
+    for (let offsetX = 0; offsetX < BINS_PER_CELL; offsetX += 1) {
+      const values = cellValues(fold, offsetX, offsetY);
+      const energy = values.reduce((sum, value) => sum + Math.abs(value), 0) / values.length;
+      if (energy > best.energy) best = { values, energy };
+    }
+  }
+
+  return best;
+}
+
+// Première cellule de la tuile : essaie les 64 décalages, les cellules de synchronisation départagent
+function readTile(values: number[]): { code: number; confidence: number } | null {
+  let best: { code: number; confidence: number } | null = null;
+
+  for (let shiftRow = 0; shiftRow < GRID; shiftRow += 1) {
+    for (let shiftColumn = 0; shiftColumn < GRID; shiftColumn += 1) {
+      const soft = Array.from({ length: GRID * GRID }, (_, index) => {
+        const row = (Math.floor(index / GRID) + shiftRow) % GRID;
+        const column = ((index % GRID) + shiftColumn) % GRID;
+        return values[row * GRID + column];
+      });
+
+      let agreement = 0;
+      let total = 0;
+      let sync = 0;
+      soft.forEach((value, index) => {
+        if (!isSyncCell(index)) return;
+        agreement += SYNC_BITS[sync++] ? value : -value;
+        total += Math.abs(value);
+      });
+
+      const confidence = total > 0 ? agreement / total : 0;
+      if (confidence < MIN_CONFIDENCE || (best && confidence <= best.confidence)) continue;
+
+      const code = readPayload(soft.map((value) => (value > 0 ? 1 : 0)));
+      if (code !== null) best = { code, confidence };
+    }
+  }
+
+  return best;
+}
+
+const nextFrame = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+async function detectInImage(
+  image: Luminance,
+  onProgress: (fraction: number) => void
+): Promise<Omit<WatermarkDetection, 'rotation'> | null> {
+  const size = Math.max(image.width, image.height);
+  // Pas d'échelle : l'erreur de période cumulée sur l'image reste sous un quart de cellule
+  const stepFor = (cellSize: number) => 1 + cellSize / (2 * size);
+
+  const scan: { cellSize: number; energy: number }[] = [];
+  for (let cellSize = MIN_CELL; cellSize <= MAX_CELL; cellSize *= stepFor(cellSize)) {
+    scan.push({ cellSize, energy: alignCells(foldImage(image, cellSize, 2)).energy });
+    if (scan.length % 20 === 0) {
+      onProgress(Math.log(cellSize / MIN_CELL) / Math.log(MAX_CELL / MIN_CELL));
+      await nextFrame();
+    }
+  }
+
+  const peaks = scan
+    .filter((entry, index) =>
+      entry.energy >= (scan[index - 1]?.energy ?? 0) && entry.energy >= (scan[index + 1]?.energy ?? 0)
+    )
+    .sort((a, b) => b.energy - a.energy)
+    .slice(0, SCALE_CANDIDATES);
+
+  for (const peak of peaks) {
+    // Affinage autour du pic : l'énergie la plus forte n'est pas toujours l'échelle qui se lit
+    const step = stepFor(peak.cellSize) - 1;
+    const candidates = [-2, -1, 0, 1, 2]
+      .map((offset) => {
+        const cellSize = peak.cellSize * (1 + (offset * step) / 4);
+        return { cellSize, ...alignCells(foldImage(image, cellSize, 1)) };
+      })
+      .sort((a, b) => b.energy - a.energy);
+
+    for (const candidate of candidates) {
+      const tile = readTile(candidate.values);
+      if (tile) return { ...tile, cellSize: candidate.cellSize };
+    }
+    await nextFrame();
+  }
+
+  return null;
+}
+
+/*
+  Recherche le filigrane dans une image (capture, photo d'écran, scan).
+  Renvoie `null` si aucun code valide n'est trouvé : une image trop réduite
+  (cellules de moins d'une dizaine de pixels) ou trop inclinée ne se lit plus.
+*/
+export async function decodeForensicWatermark(
+  image: Blob,
+  onProgress: (fraction: number) => void = () => {}
+): Promise<WatermarkDetection | null> {
+  let luminance = await loadLuminance(image);
+
+  for (let rotation = 0; rotation < 360; rotation += 90) {
+    const detection = await detectInImage(luminance, (fraction) => onProgress((rotation / 90 + fraction) / 4));
+    if (detection) {
+      onProgress(1);
+      return { ...detection, rotation };
+    }
+    luminance = rotate(luminance);
+  }
+
+  onProgress(1);
+  return null;
+}
+
+export async function traceWatermarkCode(code: number): Promise<TracedSession | null> {
+  const { data, error } = await supabase
+    .from('watermark_sessions')
+    .select(`
+      *,
+      users (nom, email, numero_abonne, statut_abonnement),
+      pdfs (titre)
+    `)
+    .eq('code', code)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as TracedSession | null;
+}
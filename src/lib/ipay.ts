@@ -2,6 +2,9 @@ import { supabase } from './supabase';
 
 export type PaymentType = 'mobile' | 'card' | 'sta';
 
+// Pointe vers l'edge function `ipay-simulator` pour tester le paiement hors ligne
+export const IPAY_BASE_URL = (import.meta.env.VITE_IPAY_BASE_URL || 'https://i-pay.money').replace(/\/$/, '');
+
 export interface PaymentRequest {
   customer_name: string;
   currency: string;
@@ -46,12 +49,11 @@ export function detectCountryFromPhone(msisdn: string): string {
 
 export async function initiatePayment(
   customerName: string,
-  amount: number,
+  formuleId: string,
   paymentType: PaymentType,
   userId: string,
   abonnementId: string,
-  msisdn?: string,
-  formuleId?: string
+  msisdn?: string
 ): Promise<PaymentResponse> {
   try {
     if ((paymentType === 'mobile' || paymentType === 'sta') && !msisdn) {
@@ -77,7 +79,6 @@ export async function initiatePayment(
         customer_name: customerName,
         currency: 'XOF',
         country,
-        amount,
         transaction_id: transactionId,
         msisdn,
         payment_type: paymentType,
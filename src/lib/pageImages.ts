@@ -0,0 +1,107 @@
+import { supabase } from './supabase';
+
+// Tuile filigranée servie par generate-secure-page, à URL signée de courte durée
+export interface PageTile {
+  url: string;
+  width: number;
+  height: number;
+  totalPages: number;
+  expiresAt: string;
+}
+
+export interface PageTileResponse {
+  tile?: PageTile;
+  error?: string;
+}
+
+export interface RenderPagesResponse {
+  success: boolean;
+  totalPages?: number;
+  rendered?: number;
+  remaining?: number;
+  error?: string;
+}
+
+// Chaque appel s'arrête avant la limite d'exécution du serveur ; on relance tant qu'il reste des pages
+const MAX_RENDER_ROUNDS = 10;
+
+// Largeurs rendues côté serveur (`PAGE_WIDTHS`) ; au-delà, le navigateur agrandit la plus grande
+const TILE_WIDTHS = [800, 1600];
+
+export function pickTileWidth(displayWidth: number): number {
+  const needed = displayWidth * (window.devicePixelRatio || 1);
+  return TILE_WIDTHS.find((width) => width >= needed) ?? TILE_WIDTHS[TILE_WIDTHS.length - 1];
+}
+
+// La tuile porte le filigrane de la session : une session par ouverture du lecteur
+export async function requestPageTile(
+  token: string,
+  sessionId: string,
+  pageNumber: number,
+  width: number
+): Promise<PageTileResponse> {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-secure-page`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, sessionId, pageNumber, width }),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      return { error: data.reason || data.error || 'Page indisponible' };
+    }
+
+    return { tile: data };
+  } catch (error) {
+    console.error('Error calling generate-secure-page:', error);
+    return { error: 'Erreur de connexion. Veuillez réessayer.' };
+  }
+}
+
+async function callRenderEditionPages(editionId: string): Promise<RenderPagesResponse> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/render-edition-pages`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ editionId }),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      return { success: false, error: data.error || 'Erreur lors de la génération des aperçus' };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling render-edition-pages:', error);
+    return { success: false, error: 'Erreur de connexion. Veuillez réessayer.' };
+  }
+}
+
+// Seules les pages sans image sont rendues : relancer après un échec complète l'édition
+export async function generateEditionPreviews(editionId: string): Promise<RenderPagesResponse> {
+  let result = await callRenderEditionPages(editionId);
+
+  for (let round = 1; round < MAX_RENDER_ROUNDS && result.success && (result.remaining ?? 0) > 0; round++) {
+    result = await callRenderEditionPages(editionId);
+  }
+
+  return result;
+}
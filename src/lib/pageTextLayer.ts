@@ -0,0 +1,297 @@
+import type { PDFDocumentProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { Page } from './supabase';
+import type { NormalizedRect } from './zoneEditing';
+
+// Un morceau de texte de la page, en coordonnées normalisées (0-1, origine en haut à gauche)
+export interface TextLayerItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontName: string | null;
+}
+
+// Pas de regroupement des bords de texte (0,5 % de la largeur de page)
+const COLUMN_BIN = 0.005;
+const MIN_COLUMN_LINES = 4;
+
+/*
+  Couche texte d'une page : celle du PDF via pdf.js, ou les mots OCR stockés
+  par `extract-articles` pour les pages scannées (`pages.ocr_words`).
+*/
+export async function loadPageTextLayer(
+  pdfDoc: PDFDocumentProxy | null,
+  page: Page
+): Promise<TextLayerItem[]> {
+  if (page.image_only && page.ocr_words && page.ocr_words.length > 0) {
+    return page.ocr_words.map((word) => ({
+      text: word.t,
+      x: word.x,
+      y: word.y,
+      width: word.w,
+      height: word.h,
+      fontName: null,
+    }));
+  }
+
+  if (!pdfDoc) return [];
+
+  const pdfPage = await pdfDoc.getPage(page.page_number);
+  const viewport = pdfPage.getViewport({ scale: 1 });
+  const content = await pdfPage.getTextContent();
+
+  return content.items
+    .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+    .map((item) => {
+      // Même calcul que la couche texte de pdf.js : matrice de l'item dans le repère de la vue
+      const [a, b, c, d, e, f] = viewport.transform;
+      const [ia, ib, ic, id, ie, iff] = item.transform;
+      const tx = [
+        a * ia + c * ib,
+        b * ia + d * ib,
+        a * ic + c * id,
+        b * ic + d * id,
+        a * ie + c * iff + e,
+        b * ie + d * iff + f,
+      ];
+      const fontHeight = Math.hypot(tx[2], tx[3]);
+
+      return {
+        text: item.str,
+        x: tx[4] / viewport.width,
+        y: (tx[5] - fontHeight) / viewport.height,
+        width: item.width / viewport.width,
+        height: fontHeight / viewport.height,
+        fontName: item.fontName || null,
+      };
+    });
+}
+
+/*
+  Repères de colonnes : abscisses où beaucoup de lignes commencent (ou se
+  terminent, pour le texte justifié). Un pic de l'histogramme des bords
+  gauches ou droits donne un repère.
+*/
+export function detectColumnGuides(items: TextLayerItem[]): number[] {
+  const lines = items.filter((item) => item.width > COLUMN_BIN * 2);
+  const minCount = Math.max(MIN_COLUMN_LINES, Math.round(lines.length * 0.03));
+
+  const peaks = (edges: number[]) => {
+    const bins = new Map<number, number[]>();
+    for (const edge of edges) {
+      const bin = Math.round(edge / COLUMN_BIN);
+      bins.set(bin, [...(bins.get(bin) || []), edge]);
+    }
+
+    const count = (bin: number) => bins.get(bin)?.length || 0;
+
+    return Array.from(bins.entries())
+      .filter(([bin, values]) => {
+        if (values.length < minCount) return false;
+        // Maximum local : les bins voisins d'un même bord ne donnent qu'un repère
+        for (let offset = -2; offset <= 2; offset += 1) {
+          if (offset === 0) continue;
+          const neighbour = count(bin + offset);
+          if (neighbour > values.length || (neighbour === values.length && offset < 0)) return false;
+        }
+        return true;
+      })
+      .map(([, values]) => values.reduce((sum, value) => sum + value, 0) / values.length);
+  };
+
+  const guides = [
+    ...peaks(lines.map((item) => item.x)),
+    ...peaks(lines.map((item) => item.x + item.width)),
+  ];
+
+  return guides.sort((a, b) => a - b);
+}
+
+export interface ZoneText {
+  titre: string;
+  sousTitre: string;
+  auteur: string;
+  contenu: string;
+}
+
+interface TextLine {
+  text: string;
+  size: number;
+  block: number;
+}
+
+// Mêmes motifs que l'extraction automatique (`extract-articles/layout.ts`)
+const BYLINE_PATTERN = /^(?:par|propos recueillis par|de notre (?:correspondant|envoyée?) (?:spécial(?:e)? )?(?:à|au|en)?)\s+\S/i;
+// Gouttière minimale entre deux colonnes d'une même zone
+const COLUMN_GAP = 0.008;
+
+/*
+  Texte d'un article à partir des rectangles de sa zone, dans l'ordre de
+  lecture : rectangle par rectangle, puis colonne par colonne (découpe XY).
+  Le plus grand corps donne le titre, un corps intermédiaire juste après
+  le chapô, une ligne « Par ... » l'auteur ; le reste forme le contenu.
+*/
+export function extractZoneText(items: TextLayerItem[], regions: NormalizedRect[]): ZoneText {
+  const lines: TextLine[] = [];
+  let block = 0;
+
+  for (const region of regions) {
+    const inside = items.filter((item) => {
+      const cx = item.x + item.width / 2;
+      const cy = item.y + item.height / 2;
+      return cx >= region.x && cx <= region.x + region.width && cy >= region.y && cy <= region.y + region.height;
+    });
+
+    for (const group of xyCut(inside)) {
+      lines.push(...buildLines(group).map((line) => ({ ...line, block })));
+      block += 1;
+    }
+  }
+
+  if (lines.length === 0) {
+    return { titre: '', sousTitre: '', auteur: '', contenu: '' };
+  }
+
+  const bodySize = weightedMedian(lines.map((line) => ({ value: line.size, weight: line.text.length })));
+  const maxSize = Math.max(...lines.map((line) => line.size));
+  let titleLines: TextLine[] = [];
+  let leadLines: TextLine[] = [];
+  let bodyLines = lines;
+
+  // Titre : première suite de lignes au plus grand corps, s'il se distingue du texte courant
+  if (maxSize >= bodySize * 1.15) {
+    const start = lines.findIndex((line) => line.size >= maxSize * 0.9);
+    let end = start;
+    while (end < lines.length && lines[end].size >= maxSize * 0.9) end += 1;
+
+    // Chapô : lignes suivantes, plus grandes que le texte courant mais plus petites que le titre
+    let leadEnd = end;
+    while (leadEnd < lines.length && lines[leadEnd].size >= bodySize * 1.08) leadEnd += 1;
+
+    titleLines = lines.slice(start, end);
+    leadLines = lines.slice(end, leadEnd);
+    bodyLines = [...lines.slice(0, start), ...lines.slice(leadEnd)];
+  }
+
+  const bylineIndex = bodyLines.findIndex((line) => BYLINE_PATTERN.test(line.text) && line.text.length < 80);
+  const auteur =
+    bylineIndex >= 0
+      ? bodyLines.splice(bylineIndex, 1)[0].text.replace(/^(?:par|propos recueillis par)\s+/i, '').trim()
+      : '';
+
+  // Un bloc de la découpe = un paragraphe
+  const paragraphs: string[] = [];
+  let current: TextLine[] = [];
+  for (const line of bodyLines) {
+    if (current.length > 0 && line.block !== current[0].block) {
+      paragraphs.push(joinLines(current.map((item) => item.text)));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length > 0) paragraphs.push(joinLines(current.map((item) => item.text)));
+
+  return {
+    titre: joinLines(titleLines.map((line) => line.text)),
+    sousTitre: joinLines(leadLines.map((line) => line.text)),
+    auteur,
+    contenu: paragraphs.join('\n\n'),
+  };
+}
+
+// Découpe XY : colonnes séparées par une gouttière, puis bandes séparées par un interligne marqué
+function xyCut(items: TextLayerItem[]): TextLayerItem[][] {
+  if (items.length <= 1) return items.length > 0 ? [items] : [];
+
+  const lineHeight = median(items.map((item) => item.height));
+  const top = Math.min(...items.map((item) => item.y));
+  const bottom = Math.max(...items.map((item) => item.y + item.height));
+
+  // Une seule ligne : les espaces entre mots ne sont pas des gouttières
+  if (bottom - top > lineHeight * 2) {
+    const columns = splitOnGaps(items, 'x', Math.max(COLUMN_GAP, lineHeight));
+    if (columns.length > 1) return columns.flatMap(xyCut);
+  }
+
+  const bands = splitOnGaps(items, 'y', lineHeight * 0.6);
+  if (bands.length > 1) return bands.flatMap(xyCut);
+
+  return [items];
+}
+
+function splitOnGaps(items: TextLayerItem[], axis: 'x' | 'y', minGap: number): TextLayerItem[][] {
+  const size = axis === 'x' ? 'width' : 'height';
+  const sorted = [...items].sort((a, b) => a[axis] - b[axis]);
+  const groups: TextLayerItem[][] = [];
+  let end = -Infinity;
+
+  for (const item of sorted) {
+    if (groups.length === 0 || item[axis] - end > minGap) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(item);
+    end = Math.max(end, item[axis] + item[size]);
+  }
+
+  return groups;
+}
+
+function buildLines(items: TextLayerItem[]): Omit<TextLine, 'block'>[] {
+  const sorted = [...items].sort((a, b) => a.y + a.height / 2 - (b.y + b.height / 2));
+  const rows: TextLayerItem[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const center = item.y + item.height / 2;
+    if (row) {
+      const rowCenter = row.reduce((sum, entry) => sum + entry.y + entry.height / 2, 0) / row.length;
+      const rowHeight = Math.min(...row.map((entry) => entry.height));
+      if (Math.abs(center - rowCenter) <= Math.min(item.height, rowHeight) / 2) {
+        row.push(item);
+        continue;
+      }
+    }
+    rows.push([item]);
+  }
+
+  return rows.map((row) => {
+    const ordered = row.sort((a, b) => a.x - b.x);
+    const text = ordered.reduce((line, item, index) => {
+      if (index === 0) return item.text;
+      const previous = ordered[index - 1];
+      const gap = item.x - (previous.x + previous.width);
+      const needsSpace = !/\s$/.test(line) && !/^\s/.test(item.text) && gap > item.height * 0.15;
+      return needsSpace ? `${line} ${item.text}` : line + item.text;
+    }, '');
+
+    return { text: text.replace(/\s+/g, ' ').trim(), size: median(row.map((item) => item.height)) };
+  }).filter((line) => line.text.length > 0);
+}
+
+function joinLines(lines: string[]): string {
+  return lines.reduce((text, line) => {
+    if (!text) return line;
+    // Césure en fin de ligne : « gouver- / nement » devient « gouvernement »
+    if (/[a-zà-ÿ]-$/i.test(text) && /^[a-zà-ÿ]/.test(line)) {
+      return text.slice(0, -1) + line;
+    }
+    return `${text} ${line}`;
+  }, '');
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+}
+
+function weightedMedian(entries: { value: number; weight: number }[]): number {
+  const sorted = [...entries].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, entry) => sum + entry.weight, 0);
+  let cumulative = 0;
+  for (const entry of sorted) {
+    cumulative += entry.weight;
+    if (cumulative >= total / 2) return entry.value;
+  }
+  return sorted[sorted.length - 1]?.value ?? 0;
+}
@@ -10,7 +10,6 @@ export interface PaymentLinkResponse {
 
 export async function generatePaymentLink(
   customerName: string,
-  amount: number,
   userId: string,
   abonnementId: string,
   country: string = 'BJ'
@@ -26,7 +25,6 @@ export async function generatePaymentLink(
       },
       body: JSON.stringify({
         customer_name: customerName,
-        amount,
         currency: 'XOF',
         country,
         user_id: userId,
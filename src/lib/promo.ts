@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+
+export interface PromoQuote {
+  valid: boolean;
+  error?: string;
+  code_promo_id?: string;
+  code?: string;
+  type_remise?: 'pourcentage' | 'montant_fixe';
+  valeur?: number;
+  prix_initial?: number;
+  remise_fcfa?: number;
+  montant_final?: number;
+}
+
+// Aperçu uniquement : le montant définitif est recalculé par l'edge function de paiement.
+// Le plafond par abonné est vérifié pour l'utilisateur connecté.
+export async function validatePromoCode(
+  code: string,
+  formuleId: string
+): Promise<PromoQuote> {
+  const { data, error } = await supabase.rpc('validate_promo_code', {
+    p_code: code.trim(),
+    p_formule_id: formuleId,
+  });
+
+  if (error) {
+    console.error('Error validating promo code:', error);
+    return { valid: false, error: 'Impossible de vérifier le code promo' };
+  }
+
+  return data as PromoQuote;
+}
+
+export function formatDiscount(typeRemise: 'pourcentage' | 'montant_fixe', valeur: number): string {
+  return typeRemise === 'pourcentage' ? `-${valeur}%` : `-${valeur.toLocaleString()} FCFA`;
+}
@@ -0,0 +1,150 @@
+import { supabase } from './supabase';
+import type { PublicationJob } from './supabase';
+
+export interface PublicationResponse {
+  success: boolean;
+  claimed?: boolean;
+  job?: PublicationJob;
+  error?: string;
+}
+
+// Au-delà, le worker serveur est considéré comme arrêté et le job peut être repris
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000;
+
+async function callPublishEdition(body: Record<string, unknown>): Promise<PublicationResponse> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/publish-edition`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Erreur lors de la publication',
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling publish-edition:', error);
+    return {
+      success: false,
+      error: 'Erreur de connexion. Veuillez réessayer.',
+    };
+  }
+}
+
+export function startPublication(pdfId: string): Promise<PublicationResponse> {
+  return callPublishEdition({
+    action: 'start',
+    pdfId,
+    appUrl: window.location.origin,
+  });
+}
+
+export function resumePublication(jobId: string): Promise<PublicationResponse> {
+  return callPublishEdition({ action: 'resume', jobId });
+}
+
+export async function getLatestPublicationJob(pdfId: string): Promise<PublicationJob | null> {
+  const { data, error } = await supabase
+    .from('publication_jobs')
+    .select('*')
+    .eq('pdf_id', pdfId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading publication job:', error);
+    return null;
+  }
+
+  return data;
+}
+
+export function isPublicationJobActive(job: PublicationJob): boolean {
+  return job.statut === 'en_attente' || job.statut === 'en_cours';
+}
+
+export function isPublicationJobResumable(job: PublicationJob): boolean {
+  // Les destinataires en échec d'un job `partiel` sont remis en file à la reprise
+  if (job.statut === 'echoue' || job.statut === 'partiel') return true;
+  if (!isPublicationJobActive(job)) return false;
+  if (!job.heartbeat_at) return job.statut === 'en_attente';
+  return Date.now() - new Date(job.heartbeat_at).getTime() > STALE_HEARTBEAT_MS;
+}
+
+export function subscribeToPublicationJob(
+  jobId: string,
+  callback: (job: PublicationJob) => void
+): () => void {
+  const channel = supabase
+    .channel(`publication_job:${jobId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'publication_jobs',
+        filter: `id=eq.${jobId}`,
+      },
+      (payload) => {
+        if (payload.new) {
+          callback(payload.new as PublicationJob);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export async function schedulePublication(pdfId: string, date: Date): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('pdfs')
+    .update({
+      statut_publication: 'planifie',
+      date_publication_prevue: date.toISOString(),
+    })
+    .eq('id', pdfId);
+
+  if (error) {
+    console.error('Error scheduling publication:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function cancelScheduledPublication(pdfId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('pdfs')
+    .update({
+      statut_publication: 'brouillon',
+      date_publication_prevue: null,
+    })
+    .eq('id', pdfId)
+    .eq('statut_publication', 'planifie');
+
+  if (error) {
+    console.error('Error cancelling scheduled publication:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
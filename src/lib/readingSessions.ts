@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+
+export type SessionEndReason = 'device_limit' | 'user_revoked' | 'expired' | 'admin_reset';
+
+export interface ReadingDevice {
+  device_key: string;
+  label: string | null;
+  trusted: boolean;
+  trusted_at: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  started_at: string | null;
+  last_seen_at: string | null;
+  sessions: number;
+  document: string | null;
+}
+
+export interface ReadingDevicesSummary {
+  limit: number;
+  devices: ReadingDevice[];
+}
+
+// Une session muette depuis 5 minutes perd sa place : on signale bien avant
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+export const SESSION_END_MESSAGES: Record<SessionEndReason, string> = {
+  device_limit: "Votre compte a été ouvert sur un autre appareil. Le nombre d'appareils autorisés est atteint : cette lecture a été fermée.",
+  user_revoked: 'Cet appareil a été retiré depuis votre espace abonné.',
+  expired: "Votre session de lecture a expiré après une longue inactivité. Rouvrez l'édition depuis votre espace.",
+  admin_reset: "Vos appareils ont été réinitialisés par le support. Rouvrez l'édition pour enregistrer cet appareil.",
+};
+
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Appareil inconnu';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /SamsungBrowser/.test(userAgent) ? 'Samsung Internet' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Navigateur';
+
+  const system =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  return system ? `${browser} sur ${system}` : browser;
+}
+
+export async function getMyReadingDevices(): Promise<ReadingDevicesSummary | null> {
+  const { data, error } = await supabase.rpc('get_my_reading_devices');
+
+  if (error) {
+    console.error('Error loading reading devices:', error);
+    return null;
+  }
+
+  return data as ReadingDevicesSummary | null;
+}
+
+export async function revokeMyReadingDevice(deviceKey: string): Promise<{ success: boolean; error?: string }> {
+  const { data, error } = await supabase.rpc('revoke_my_reading_device', { p_device_key: deviceKey });
+
+  if (error) {
+    console.error('Error revoking reading device:', error);
+    return { success: false, error: 'Impossible de retirer cet appareil' };
+  }
+
+  return data as { success: boolean; error?: string };
+}
+
+// Fermeture annoncée en temps réel ; le signal de vie la rattrape si le canal est coupé
+export function watchReadingSession(
+  sessionId: string,
+  onEnded: (reason: SessionEndReason) => void
+): () => void {
+  let ended = false;
+  const end = (reason: SessionEndReason | null | undefined) => {
+    if (ended) return;
+    ended = true;
+    onEnded(reason ?? 'expired');
+  };
+
+  const channel = supabase
+    .channel(`reading-session:${sessionId}`)
+    .on('broadcast', { event: 'session_ended' }, ({ payload }) => {
+      end(payload?.reason as SessionEndReason | null);
+    })
+    .subscribe();
+
+  const heartbeat = async () => {
+    const { data, error } = await supabase.rpc('heartbeat_reading_session', { p_session_id: sessionId });
+    if (error) {
+      console.error('Error sending reading heartbeat:', error);
+      return;
+    }
+    if (data && data.active === false) {
+      end(data.end_reason as SessionEndReason | null);
+    }
+  };
+
+  const interval = window.setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(interval);
+    supabase.removeChannel(channel);
+  };
+}
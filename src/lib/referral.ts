@@ -0,0 +1,38 @@
+import { supabase } from './supabase';
+import type { RecompenseParrainage } from './supabase';
+
+export interface ReferralSummary {
+  code_parrainage: string | null;
+  nb_filleuls: number;
+  jours_gagnes: number;
+  jours_en_attente: number;
+  recompenses: (Pick<RecompenseParrainage, 'id' | 'jours_bonus' | 'statut' | 'date_attribution' | 'created_at'> & {
+    filleul_nom: string;
+  })[];
+}
+
+export function getReferralShareLink(code: string): string {
+  return `${window.location.origin}/?ref=${encodeURIComponent(code)}`;
+}
+
+export async function checkReferralCode(code: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('check_referral_code', { p_code: code.trim() });
+
+  if (error) {
+    console.error('Error checking referral code:', error);
+    return false;
+  }
+
+  return !!data;
+}
+
+export async function getMyReferralSummary(): Promise<ReferralSummary | null> {
+  const { data, error } = await supabase.rpc('get_my_referral_summary');
+
+  if (error) {
+    console.error('Error loading referral summary:', error);
+    return null;
+  }
+
+  return data as ReferralSummary | null;
+}
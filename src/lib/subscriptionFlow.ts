@@ -30,6 +30,7 @@ export interface VerifyOTPResult {
   message: string;
   userId?: string;
   attemptsRemaining?: number;
+  referral?: { success: boolean; error?: string } | null;
 }
 
 export async function checkExistingUser(phoneNumber: string): Promise<ExistingUserCheck> {
@@ -228,7 +229,11 @@ export async function sendOTP(phoneNumber: string): Promise<SendOTPResult> {
   }
 }
 
-export async function verifyOTP(phoneNumber: string, otpCode: string): Promise<VerifyOTPResult> {
+export async function verifyOTP(
+  phoneNumber: string,
+  otpCode: string,
+  referralCode?: string
+): Promise<VerifyOTPResult> {
   try {
     const formattedPhone = normalizePhoneNumber(phoneNumber);
 
@@ -243,6 +248,7 @@ export async function verifyOTP(phoneNumber: string, otpCode: string): Promise<V
         body: JSON.stringify({
           numero_whatsapp: formattedPhone,
           otp_code: otpCode,
+          referral_code: referralCode?.trim() || undefined,
         }),
       }
     );
@@ -262,6 +268,7 @@ export async function verifyOTP(phoneNumber: string, otpCode: string): Promise<V
       success: true,
       message: 'Numéro WhatsApp vérifié avec succès',
       userId: data.user_id,
+      referral: data.referral,
     };
   } catch (error) {
     console.error('Error verifying OTP:', error);
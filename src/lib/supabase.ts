@@ -17,6 +17,8 @@ export interface User {
   statut_abonnement?: 'actif' | 'inactif' | 'suspendu' | 'essai' | 'expire';
   date_fin_abonnement?: string | null;
   score_confiance?: number;
+  score_calcule_at?: string | null;
+  acces_verrouille_jusqu_a?: string | null;
   devices_autorises?: number;
   code_parrainage?: string | null;
   parraine_par?: string | null;
@@ -69,6 +71,7 @@ export interface Log {
   pages_vues?: any[];
   geo_data?: any;
   suspect?: boolean;
+  source?: 'client' | 'serveur';
 }
 
 export interface Formule {
@@ -82,6 +85,7 @@ export interface Formule {
   priorite: number;
   created_at: string;
   external_payment_url?: string | null;
+  acces_archives?: 'complet' | 'periode_abonnement';
 }
 
 export interface Abonnement {
@@ -117,6 +121,69 @@ export interface Paiement {
   msisdn?: string | null;
   currency?: string | null;
   last_status_check?: string | null;
+  formule_id?: string | null;
+  montant_rembourse?: number;
+  date_remboursement?: string | null;
+  motif_remboursement?: string | null;
+  code_promo_id?: string | null;
+  montant_initial?: number | null;
+  remise_fcfa?: number;
+}
+
+export interface PaymentEvent {
+  id: string;
+  payment_id: string;
+  user_id: string;
+  event_type: 'created' | 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'confirmed_manual' | 'confirmed_auto' | 'expired' | 'cancelled';
+  old_status: string | null;
+  new_status: string;
+  performed_by: string | null;
+  ipay_transaction_id: string | null;
+  ipay_status: string | null;
+  metadata: Record<string, unknown>;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CodePromo {
+  id: string;
+  code: string;
+  description: string | null;
+  type_remise: 'pourcentage' | 'montant_fixe';
+  valeur: number;
+  date_debut: string | null;
+  date_fin: string | null;
+  max_utilisations: number | null;
+  max_par_utilisateur: number | null;
+  formule_ids: string[] | null;
+  actif: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UtilisationCodePromo {
+  id: string;
+  code_promo_id: string;
+  paiement_id: string;
+  user_id: string;
+  formule_id: string | null;
+  montant_initial: number;
+  remise_fcfa: number;
+  montant_final: number;
+  created_at: string;
+}
+
+export interface RecompenseParrainage {
+  id: string;
+  parrain_id: string;
+  filleul_id: string;
+  paiement_id: string | null;
+  jours_bonus: number;
+  statut: 'en_attente' | 'attribuee';
+  abonnement_id: string | null;
+  date_attribution: string | null;
+  created_at: string;
 }
 
 export interface AccesSuspect {
@@ -157,11 +224,16 @@ export interface Notification {
   numero_destinataire: string;
   message: string;
   lien_lecture: string | null;
-  statut: 'en_attente' | 'envoye' | 'echoue' | 'annule';
+  statut: 'en_attente' | 'en_cours' | 'envoye' | 'echoue' | 'abandonne' | 'annule';
   date_envoi_prevue: string | null;
   date_envoi_reelle: string | null;
   tentatives: number;
   erreur: string | null;
+  prochaine_tentative?: string | null;
+  derniere_tentative?: string | null;
+  provider?: string | null;
+  provider_message_id?: string | null;
+  statut_livraison?: 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | null;
   created_at: string;
 }
 
@@ -201,6 +273,78 @@ export interface ScreenshotAttempt {
   created_at: string;
 }
 
+export interface WatermarkSession {
+  id: string;
+  code: number;
+  session_id: string;
+  token_id: string | null;
+  user_id: string;
+  pdf_id: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface Device {
+  id: string;
+  user_id: string;
+  fingerprint: Record<string, unknown>;
+  label: string | null;
+  status: 'pending' | 'trusted' | 'revoked';
+  last_ip: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  trusted_at: string | null;
+  otp_verified_at: string | null;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+  created_at: string;
+}
+
+export type RiskSignal =
+  | 'acces_suspects'
+  | 'screenshot_attempts'
+  | 'device_limit'
+  | 'ip_changes'
+  | 'geo_changes'
+  | 'reading_speed';
+
+export interface RiskRule {
+  id: string;
+  code: string;
+  libelle: string;
+  signal: RiskSignal;
+  filtre: Record<string, string>;
+  seuil: number;
+  points: number;
+  plafond: number;
+  fenetre_jours: number;
+  actif: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RiskSettings {
+  id: boolean;
+  demi_vie_heures: number;
+  seuil_avertissement: number;
+  seuil_otp: number;
+  seuil_verrouillage: number;
+  seuil_revocation: number;
+  duree_verrouillage_minutes: number;
+  validite_otp_heures: number;
+  updated_at: string;
+}
+
+export interface RiskDecision {
+  id: string;
+  user_id: string;
+  token_id: string | null;
+  score: number;
+  action: 'warn' | 'step_up' | 'lock' | 'revoke';
+  contributions: { code: string; libelle: string; evenements: number; points: number }[];
+  created_at: string;
+}
+
 export interface Edition {
   id: string;
   titre: string;
@@ -218,16 +362,35 @@ export interface Edition {
   updated_at: string;
 }
 
+export interface PageImageVariant {
+  width: number;
+  height: number;
+  path: string;
+}
+
 export interface Page {
   id: string;
   edition_id: string;
   page_number: number;
   image_url: string | null;
   thumbnail_url: string | null;
+  image_variants?: PageImageVariant[];
+  image_only?: boolean;
+  ocr_engine?: 'tesseract' | 'textract' | null;
+  ocr_words?: PageOcrWord[];
   vision_api_response: any;
   created_at: string;
 }
 
+export interface PageOcrWord {
+  t: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  c: number;
+}
+
 export interface Article {
   id: string;
   edition_id: string;
@@ -241,12 +404,13 @@ export interface Article {
   position_y: number;
   width: number;
   height: number;
+  zones?: ArticleZone[];
   ordre_lecture: number;
   mots_count: number;
   temps_lecture_estime: number;
   confidence_score: number;
   textract_confidence?: number;
-  extraction_method?: 'textract' | 'pdfjs' | 'manual';
+  extraction_method?: 'textract' | 'pdfjs' | 'tesseract' | 'manual';
   layout_metadata?: any;
   valide: boolean;
   ajuste_manuellement: boolean;
@@ -254,6 +418,13 @@ export interface Article {
   updated_at: string;
 }
 
+export interface ArticleZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface LectureArticle {
   id: string;
   user_id: string;
@@ -279,3 +450,62 @@ export interface TokenArticle {
   revoked: boolean;
   created_at: string;
 }
+
+export interface PublicationJob {
+  id: string;
+  pdf_id: string;
+  created_by: string | null;
+  statut: 'en_attente' | 'en_cours' | 'termine' | 'partiel' | 'echoue' | 'annule';
+  lien_base: string;
+  validite_heures: number;
+  batch_size: number;
+  total_destinataires: number;
+  nb_traites: number;
+  nb_envoyes: number;
+  nb_echecs: number;
+  nb_reprises: number;
+  erreur: string | null;
+  started_at: string | null;
+  heartbeat_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ExtractionStrategyName = 'pdfjs' | 'tesseract' | 'textract';
+
+export interface ExtractionJob {
+  id: string;
+  edition_id: string;
+  created_by: string | null;
+  statut: 'en_attente' | 'en_cours' | 'termine' | 'echoue' | 'annule';
+  methode: ExtractionStrategyName | 'mixte';
+  strategies: ExtractionStrategyName[];
+  mode: 'fallback' | 'compare';
+  pdf_url: string;
+  total_pages: number;
+  page_courante: number;
+  nb_pages_echouees: number;
+  nb_articles: number;
+  erreur: string | null;
+  started_at: string | null;
+  heartbeat_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExtractionPageResult {
+  id: string;
+  job_id: string;
+  page_number: number;
+  strategie: ExtractionStrategyName;
+  confidence: number;
+  nb_mots: number;
+  nb_articles: number;
+  duree_ms: number;
+  zones: { titre: string | null; confidence: number; bounds: { x: number; y: number; width: number; height: number } }[];
+  retenu: boolean;
+  erreur: string | null;
+  created_at: string;
+}
@@ -0,0 +1,294 @@
+import { supabase } from './supabase';
+import type { Article, Page } from './supabase';
+
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Zone en cours d'édition : un article existant (`article`) ou à créer, sur un ou plusieurs blocs
+export interface ZoneDraft {
+  key: string;
+  article: Article | null;
+  rects: NormalizedRect[];
+  titre: string;
+  sousTitre: string;
+  auteur: string;
+  categorie: string;
+  contenu: string;
+  ordreLecture: number;
+}
+
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export interface SnapGuides {
+  vertical: number[];
+  horizontal: number[];
+}
+
+export const MIN_RECT_SIZE = 0.01;
+// Distance d'aimantation, en fraction de la page
+export const SNAP_THRESHOLD = 0.008;
+
+export const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export const wordsCount = (text: string) => {
+  if (!text) return 0;
+  const trimmed = text.trim();
+  if (!trimmed) return 0;
+  return trimmed.split(/\s+/).length;
+};
+
+export const readingSeconds = (text: string) => Math.max(60, Math.round((wordsCount(text) / 200) * 60));
+
+export const toRect = (article: Article): NormalizedRect => ({
+  x: article.position_x,
+  y: article.position_y,
+  width: article.width,
+  height: article.height,
+});
+
+// Blocs d'un article ; les articles extraits automatiquement n'ont que leur rectangle principal
+export const getArticleZones = (article: Article): NormalizedRect[] =>
+  article.zones && article.zones.length > 0 ? article.zones : [toRect(article)];
+
+let draftCounter = 0;
+
+export function zoneFromArticle(article: Article): ZoneDraft {
+  return {
+    key: article.id,
+    article,
+    rects: getArticleZones(article),
+    titre: article.titre || '',
+    sousTitre: article.sous_titre || '',
+    auteur: article.auteur || '',
+    categorie: article.categorie || '',
+    contenu: article.contenu_texte || '',
+    ordreLecture: article.ordre_lecture || 1,
+  };
+}
+
+export function createZone(
+  rect: NormalizedRect,
+  ordreLecture: number,
+  text: Partial<Pick<ZoneDraft, 'titre' | 'sousTitre' | 'auteur' | 'contenu'>> = {}
+): ZoneDraft {
+  draftCounter += 1;
+  return {
+    key: `nouvelle-${Date.now()}-${draftCounter}`,
+    article: null,
+    rects: [rect],
+    titre: text.titre || '',
+    sousTitre: text.sousTitre || '',
+    auteur: text.auteur || '',
+    categorie: '',
+    contenu: text.contenu || '',
+    ordreLecture,
+  };
+}
+
+const sameRects = (a: NormalizedRect[], b: NormalizedRect[]) =>
+  a.length === b.length &&
+  a.every(
+    (rect, index) =>
+      rect.x === b[index].x &&
+      rect.y === b[index].y &&
+      rect.width === b[index].width &&
+      rect.height === b[index].height
+  );
+
+export function isZoneModified(zone: ZoneDraft): boolean {
+  const { article } = zone;
+  if (!article) return true;
+
+  return (
+    !sameRects(zone.rects, getArticleZones(article)) ||
+    zone.titre !== (article.titre || '') ||
+    zone.sousTitre !== (article.sous_titre || '') ||
+    zone.auteur !== (article.auteur || '') ||
+    zone.categorie !== (article.categorie || '') ||
+    zone.contenu !== (article.contenu_texte || '') ||
+    zone.ordreLecture !== (article.ordre_lecture || 1)
+  );
+}
+
+// Modifications d'une page par rapport aux articles enregistrés
+export function diffPageZones(zones: ZoneDraft[], saved: Article[]) {
+  const keptIds = new Set(zones.map((zone) => zone.article?.id).filter(Boolean));
+
+  return {
+    changed: zones.filter(isZoneModified),
+    deletedIds: saved.filter((article) => !keptIds.has(article.id)).map((article) => article.id),
+  };
+}
+
+export function isZoneComplete(zone: ZoneDraft): boolean {
+  return zone.titre.trim().length > 0 && zone.contenu.trim().length > 0;
+}
+
+// Enregistre en une transaction les créations, modifications et suppressions d'une page
+export async function savePageArticles(
+  pageId: string,
+  zones: ZoneDraft[],
+  deletedIds: string[]
+): Promise<{ success: boolean; articles?: Article[]; error?: string }> {
+  const { data, error } = await supabase.rpc('save_page_articles', {
+    p_page_id: pageId,
+    p_articles: zones.map((zone) => ({
+      id: zone.article?.id ?? null,
+      titre: zone.titre.trim(),
+      sous_titre: zone.sousTitre.trim() || null,
+      auteur: zone.auteur.trim() || null,
+      categorie: zone.categorie.trim() || null,
+      contenu_texte: zone.contenu.trim(),
+      position_x: zone.rects[0].x,
+      position_y: zone.rects[0].y,
+      width: zone.rects[0].width,
+      height: zone.rects[0].height,
+      zones: zone.rects,
+      ordre_lecture: zone.ordreLecture,
+      mots_count: wordsCount(zone.contenu),
+      temps_lecture_estime: readingSeconds(zone.contenu),
+    })),
+    p_deleted_ids: deletedIds,
+  });
+
+  if (error) {
+    console.error('Error saving page articles:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data?.success) {
+    return { success: false, error: data?.error || 'Enregistrement impossible' };
+  }
+
+  return { success: true, articles: data.articles as Article[] };
+}
+
+export function rectFromPoints(origin: { x: number; y: number }, point: { x: number; y: number }): NormalizedRect {
+  return {
+    x: Math.min(origin.x, point.x),
+    y: Math.min(origin.y, point.y),
+    width: Math.abs(point.x - origin.x),
+    height: Math.abs(point.y - origin.y),
+  };
+}
+
+export function boundingRect(rects: NormalizedRect[]): NormalizedRect {
+  const x0 = Math.min(...rects.map((rect) => rect.x));
+  const y0 = Math.min(...rects.map((rect) => rect.y));
+  const x1 = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const y1 = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+export function intersects(a: NormalizedRect, b: NormalizedRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+// Déplacement borné à la page : la sélection se déplace d'un bloc
+export function clampOffset(bounds: NormalizedRect, dx: number, dy: number) {
+  return {
+    dx: Math.max(-bounds.x, Math.min(1 - bounds.x - bounds.width, dx)),
+    dy: Math.max(-bounds.y, Math.min(1 - bounds.y - bounds.height, dy)),
+  };
+}
+
+export function offsetRect(rect: NormalizedRect, dx: number, dy: number): NormalizedRect {
+  return { ...rect, x: rect.x + dx, y: rect.y + dy };
+}
+
+export function resizeRect(
+  rect: NormalizedRect,
+  handle: ResizeHandle,
+  point: { x: number; y: number }
+): NormalizedRect {
+  let x0 = rect.x;
+  let y0 = rect.y;
+  let x1 = rect.x + rect.width;
+  let y1 = rect.y + rect.height;
+
+  if (handle.includes('w')) x0 = Math.min(clamp01(point.x), x1 - MIN_RECT_SIZE);
+  if (handle.includes('e')) x1 = Math.max(clamp01(point.x), x0 + MIN_RECT_SIZE);
+  if (handle.includes('n')) y0 = Math.min(clamp01(point.y), y1 - MIN_RECT_SIZE);
+  if (handle.includes('s')) y1 = Math.max(clamp01(point.y), y0 + MIN_RECT_SIZE);
+
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/*
+  Repères d'aimantation : bords des blocs détectés à l'extraction
+  (`vision_api_response.layout.blocks`), repères de colonnes de la couche
+  texte et bords des autres zones de la page.
+*/
+export function buildSnapGuides(page: Page | null, columnGuides: number[], zones: ZoneDraft[]): SnapGuides {
+  const blocks: { bounds?: NormalizedRect }[] = page?.vision_api_response?.layout?.blocks || [];
+  const rects = [
+    ...blocks.map((block) => block.bounds).filter((bounds): bounds is NormalizedRect => !!bounds),
+    ...zones.flatMap((zone) => zone.rects),
+  ];
+
+  const unique = (values: number[]) =>
+    Array.from(new Set(values.map((value) => Math.round(value * 10000) / 10000))).sort((a, b) => a - b);
+
+  return {
+    vertical: unique([...columnGuides, ...rects.flatMap((rect) => [rect.x, rect.x + rect.width])]),
+    horizontal: unique(rects.flatMap((rect) => [rect.y, rect.y + rect.height])),
+  };
+}
+
+// Repère le plus proche d'une des valeurs, et l'écart pour l'atteindre
+function nearestGuide(values: number[], guides: number[]) {
+  let best: { guide: number; delta: number } | null = null;
+
+  for (const value of values) {
+    for (const guide of guides) {
+      const delta = guide - value;
+      if (Math.abs(delta) <= SNAP_THRESHOLD && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { guide, delta };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Aimante un rectangle déplacé : son bord le plus proche d'un repère s'y colle
+export function snapMove(rect: NormalizedRect, guides: SnapGuides) {
+  const vertical = nearestGuide([rect.x, rect.x + rect.width], guides.vertical);
+  const horizontal = nearestGuide([rect.y, rect.y + rect.height], guides.horizontal);
+
+  return {
+    dx: vertical?.delta ?? 0,
+    dy: horizontal?.delta ?? 0,
+    active: {
+      vertical: vertical ? [vertical.guide] : [],
+      horizontal: horizontal ? [horizontal.guide] : [],
+    },
+  };
+}
+
+// Aimante uniquement les bords tirés par la poignée
+export function snapResize(rect: NormalizedRect, handle: ResizeHandle, guides: SnapGuides) {
+  let x0 = rect.x;
+  let y0 = rect.y;
+  let x1 = rect.x + rect.width;
+  let y1 = rect.y + rect.height;
+  const active: SnapGuides = { vertical: [], horizontal: [] };
+
+  const snapEdge = (value: number, edgeGuides: number[], activeGuides: number[]) => {
+    const nearest = nearestGuide([value], edgeGuides);
+    if (!nearest) return value;
+    activeGuides.push(nearest.guide);
+    return nearest.guide;
+  };
+
+  if (handle.includes('w')) x0 = Math.min(snapEdge(x0, guides.vertical, active.vertical), x1 - MIN_RECT_SIZE);
+  if (handle.includes('e')) x1 = Math.max(snapEdge(x1, guides.vertical, active.vertical), x0 + MIN_RECT_SIZE);
+  if (handle.includes('n')) y0 = Math.min(snapEdge(y0, guides.horizontal, active.horizontal), y1 - MIN_RECT_SIZE);
+  if (handle.includes('s')) y1 = Math.max(snapEdge(y1, guides.horizontal, active.horizontal), y0 + MIN_RECT_SIZE);
+
+  return { rect: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }, active };
+}
@@ -0,0 +1,20 @@
+/*
+  Adresse IP du client vue par le serveur
+
+  Chaque proxy ajoute l'adresse de son interlocuteur à la fin de
+  `X-Forwarded-For` : les premières entrées peuvent donc être envoyées telles
+  quelles par le client. Seule l'entrée ajoutée par le dernier proxy de
+  confiance (celui de la plateforme) est retenue ; `TRUSTED_PROXY_HOPS` compte
+  les proxys de confiance placés devant la fonction.
+*/
+
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(Deno.env.get("TRUSTED_PROXY_HOPS") || "1"));
+
+export function getClientIp(req: Request): string | null {
+  const entries = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return entries[entries.length - TRUSTED_PROXY_HOPS] ?? null;
+}
@@ -0,0 +1,226 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+
+/*
+  Registre des appareils des abonnés
+
+  Une empreinte n'est jamais comparée telle quelle : une mise à jour du
+  navigateur, un écran pivoté ou une langue ajoutée la modifient sans changer
+  d'appareil. Chaque composant est comparé séparément et pèse dans un score
+  de similarité ; au-dessus du seuil, c'est le même appareil.
+
+  Le premier appareil d'un abonné est reconnu d'office. Les suivants restent
+  « en attente » jusqu'à la saisie du code envoyé sur le WhatsApp de
+  l'abonné (fonction `enroll-device`). Un appareil renvoyé en attente par le
+  score de confiance compte : l'appareil suivant n'est pas reconnu d'office.
+*/
+
+export interface DeviceFingerprint {
+  userAgent: string;
+  screenResolution: string;
+  timezone: string;
+  language: string;
+  platform?: string;
+  hardwareConcurrency?: number;
+  deviceMemory?: number;
+  colorDepth?: number;
+  touchPoints?: number;
+  canvasHash?: string;
+}
+
+export interface RegisteredDevice {
+  id: string;
+  status: "pending" | "trusted" | "revoked";
+  fingerprint: DeviceFingerprint;
+}
+
+export type DeviceResolution =
+  | { status: "trusted"; deviceId: string }
+  | { status: "enrollment_required"; deviceId: string; isNew: boolean }
+  | { status: "limit_reached" };
+
+// Au-dessus de ce score, deux empreintes désignent le même appareil
+export const DEVICE_MATCH_THRESHOLD = 0.8;
+// Appareils de confiance par abonné, au-delà il faut en retirer un
+export const MAX_TRUSTED_DEVICES = 5;
+// Les empreintes des anciens lecteurs n'ont que quatre composants (poids 0,5)
+const MIN_COMPARED_WEIGHT = 0.5;
+
+const COMPONENT_WEIGHTS: Record<keyof DeviceFingerprint, number> = {
+  userAgent: 0.2,
+  canvasHash: 0.2,
+  screenResolution: 0.15,
+  platform: 0.1,
+  timezone: 0.1,
+  hardwareConcurrency: 0.07,
+  deviceMemory: 0.05,
+  language: 0.05,
+  touchPoints: 0.05,
+  colorDepth: 0.03,
+};
+
+interface ParsedUserAgent {
+  browser: string;
+  version: string;
+  system: string;
+}
+
+function parseUserAgent(userAgent: string): ParsedUserAgent {
+  const browsers: [string, RegExp][] = [
+    ["edge", /Edg\/(\d+)/],
+    ["opera", /OPR\/(\d+)/],
+    ["samsung", /SamsungBrowser\/(\d+)/],
+    ["chrome", /(?:Chrome|CriOS)\/(\d+)/],
+    ["firefox", /(?:Firefox|FxiOS)\/(\d+)/],
+    ["safari", /Version\/(\d+).*Safari/],
+  ];
+  const systems: [string, RegExp][] = [
+    ["android", /Android/],
+    ["ios", /iPhone|iPad|iPod/],
+    ["windows", /Windows/],
+    ["macos", /Mac OS X/],
+    ["linux", /Linux/],
+  ];
+
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const system = systems.find(([, pattern]) => pattern.test(userAgent));
+
+  return {
+    browser: browser?.[0] ?? "other",
+    version: browser ? userAgent.match(browser[1])?.[1] ?? "" : "",
+    system: system?.[0] ?? "other",
+  };
+}
+
+function compareUserAgents(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const left = parseUserAgent(a);
+  const right = parseUserAgent(b);
+
+  if (left.system !== right.system) return 0;
+  if (left.browser !== right.browser) return 0.3;
+  // Même navigateur, autre version : la mise à jour automatique la plus courante
+  return left.version === right.version ? 0.95 : 0.9;
+}
+
+function compareScreens(a: string, b: string): number {
+  if (a === b) return 1;
+  // Tablette ou téléphone pivoté
+  const [width, height] = a.split("x");
+  return `${height}x${width}` === b ? 1 : 0;
+}
+
+function compareLanguages(a: string, b: string): number {
+  if (a === b) return 1;
+  return a.split("-")[0].toLowerCase() === b.split("-")[0].toLowerCase() ? 0.5 : 0;
+}
+
+function compareComponent(key: keyof DeviceFingerprint, a: unknown, b: unknown): number {
+  switch (key) {
+    case "userAgent":
+      return compareUserAgents(String(a), String(b));
+    case "screenResolution":
+      return compareScreens(String(a), String(b));
+    case "language":
+      return compareLanguages(String(a), String(b));
+    default:
+      return a === b ? 1 : 0;
+  }
+}
+
+function isPresent(value: unknown) {
+  return value !== undefined && value !== null && value !== "";
+}
+
+// Score entre 0 et 1, calculé sur les seuls composants connus des deux côtés
+export function fingerprintSimilarity(a: DeviceFingerprint, b: DeviceFingerprint): number {
+  let compared = 0;
+  let score = 0;
+
+  for (const [key, weight] of Object.entries(COMPONENT_WEIGHTS) as [keyof DeviceFingerprint, number][]) {
+    if (!isPresent(a[key]) || !isPresent(b[key])) continue;
+    compared += weight;
+    score += weight * compareComponent(key, a[key], b[key]);
+  }
+
+  if (compared < MIN_COMPARED_WEIGHT - 1e-9) return 0;
+  return score / compared;
+}
+
+export function matchDevice(
+  devices: RegisteredDevice[],
+  fingerprint: DeviceFingerprint
+): { device: RegisteredDevice; score: number } | null {
+  let best: { device: RegisteredDevice; score: number } | null = null;
+
+  for (const device of devices) {
+    const score = fingerprintSimilarity(device.fingerprint, fingerprint);
+    if (score >= DEVICE_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { device, score };
+    }
+  }
+
+  return best;
+}
+
+// Retrouve l'appareil de l'abonné, l'enregistre ou ouvre une demande de confirmation
+export async function resolveDevice(
+  supabase: SupabaseClient,
+  userId: string,
+  fingerprint: DeviceFingerprint,
+  ipAddress: string | null
+): Promise<DeviceResolution> {
+  const { data: devices, error } = await supabase
+    .from("devices")
+    .select("id, status, fingerprint")
+    .eq("user_id", userId)
+    .in("status", ["trusted", "pending"]);
+
+  if (error) {
+    throw new Error(`Erreur lors de la lecture des appareils: ${error.message}`);
+  }
+
+  const registered = (devices ?? []) as RegisteredDevice[];
+  const match = matchDevice(registered, fingerprint);
+
+  if (match) {
+    // L'empreinte suit les évolutions de l'appareil pour rester reconnaissable
+    await supabase
+      .from("devices")
+      .update({ fingerprint, last_seen_at: new Date().toISOString(), last_ip: ipAddress })
+      .eq("id", match.device.id);
+
+    return match.device.status === "trusted"
+      ? { status: "trusted", deviceId: match.device.id }
+      : { status: "enrollment_required", deviceId: match.device.id, isNew: false };
+  }
+
+  const trustedCount = registered.filter(device => device.status === "trusted").length;
+
+  if (trustedCount >= MAX_TRUSTED_DEVICES) {
+    return { status: "limit_reached" };
+  }
+
+  // Un appareil en attente (nouveau ou renvoyé à la confirmation par evaluate_user_risk)
+  // empêche toute reconnaissance d'office
+  const firstDevice = registered.length === 0;
+  const { data: created, error: insertError } = await supabase
+    .from("devices")
+    .insert({
+      user_id: userId,
+      fingerprint,
+      status: firstDevice ? "trusted" : "pending",
+      trusted_at: firstDevice ? new Date().toISOString() : null,
+      last_ip: ipAddress,
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !created) {
+    throw new Error(`Erreur lors de l'enregistrement de l'appareil: ${insertError?.message}`);
+  }
+
+  return firstDevice
+    ? { status: "trusted", deviceId: created.id }
+    : { status: "enrollment_required", deviceId: created.id, isNew: true };
+}
@@ -0,0 +1,18 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// `editions.pdf_url` est un chemin du bucket privé `secure-pdfs`, ou une URL complète pour les anciennes éditions
+export async function downloadEditionPdf(supabase: SupabaseClient, pdfUrl: string): Promise<ArrayBuffer> {
+  if (/^https?:\/\//.test(pdfUrl)) {
+    const response = await fetch(pdfUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download PDF: ${response.status} ${response.statusText}`);
+    }
+    return response.arrayBuffer();
+  }
+
+  const { data, error } = await supabase.storage.from("secure-pdfs").download(pdfUrl);
+  if (error || !data) {
+    throw new Error(`Failed to download PDF: ${error?.message || "fichier introuvable"}`);
+  }
+  return data.arrayBuffer();
+}
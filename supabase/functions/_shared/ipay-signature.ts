@@ -0,0 +1,98 @@
+/*
+  Signature des callbacks iPay
+
+  Schéma propre à ce projet, pas une spécification publiée par iPay : les
+  callbacks doivent être signés ainsi avec le secret partagé
+  `IPAY_WEBHOOK_SECRET` (par le relais qui les transmet, ou par le simulateur).
+  À aligner sur le format d'iPay s'il en documente un.
+
+    X-IPay-Timestamp : secondes Unix de l'envoi
+    X-IPay-Nonce     : identifiant unique de l'envoi
+    X-IPay-Signature : hex(HMAC-SHA256(secret, `${timestamp}.${nonce}.${corps brut}`))
+
+  La signature porte sur le corps brut : il faut la vérifier avant tout JSON.parse.
+*/
+
+export const SIGNATURE_HEADER = "X-IPay-Signature";
+export const TIMESTAMP_HEADER = "X-IPay-Timestamp";
+export const NONCE_HEADER = "X-IPay-Nonce";
+
+export type SignatureFailure =
+  | "missing_secret"
+  | "missing_headers"
+  | "stale_timestamp"
+  | "invalid_signature";
+
+export interface SignatureCheck {
+  valid: boolean;
+  reason: SignatureFailure | null;
+  timestamp: number | null;
+  nonce: string | null;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Comparaison en temps constant pour ne pas divulguer la signature attendue
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function signIPayPayload(
+  secret: string,
+  timestamp: number,
+  nonce: string,
+  rawBody: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${nonce}.${rawBody}`));
+  return toHex(signature);
+}
+
+export async function verifyIPaySignature(
+  headers: Headers,
+  rawBody: string,
+  secret: string | undefined,
+  toleranceSeconds: number
+): Promise<SignatureCheck> {
+  const signature = headers.get(SIGNATURE_HEADER)?.trim().toLowerCase() || "";
+  const timestampHeader = headers.get(TIMESTAMP_HEADER) || "";
+  const nonce = headers.get(NONCE_HEADER)?.trim() || "";
+  const timestamp = Number(timestampHeader);
+
+  const fail = (reason: SignatureFailure): SignatureCheck => ({
+    valid: false,
+    reason,
+    timestamp: Number.isFinite(timestamp) ? timestamp : null,
+    nonce: nonce || null,
+  });
+
+  // Sans secret configuré, on refuse tout plutôt que d'accepter des callbacks non signés
+  if (!secret) return fail("missing_secret");
+  if (!signature || !nonce || !timestampHeader || !Number.isFinite(timestamp)) {
+    return fail("missing_headers");
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - timestamp);
+  if (ageSeconds > toleranceSeconds) return fail("stale_timestamp");
+
+  const expected = await signIPayPayload(secret, timestamp, nonce, rawBody);
+  if (!timingSafeEqual(expected, signature)) return fail("invalid_signature");
+
+  return { valid: true, reason: null, timestamp, nonce };
+}
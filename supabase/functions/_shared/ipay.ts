@@ -0,0 +1,30 @@
+/*
+  Configuration de l'API iPay
+
+  `IPAY_MODE=simulator` redirige tous les appels vers l'edge function
+  `ipay-simulator`, qui reproduit les mêmes routes pour tester hors ligne
+  le parcours abonnement → paiement → activation. `IPAY_BASE_URL` permet de
+  viser une autre instance (simulateur autonome, sandbox, etc.).
+*/
+
+const LIVE_BASE_URL = "https://i-pay.money";
+
+export function isIPaySimulator(): boolean {
+  return Deno.env.get("IPAY_MODE") === "simulator";
+}
+
+export function getIPayBaseUrl(): string {
+  const override = Deno.env.get("IPAY_BASE_URL");
+  if (override) return override.replace(/\/$/, "");
+
+  if (isIPaySimulator()) {
+    return `${Deno.env.get("SUPABASE_URL")}/functions/v1/ipay-simulator`;
+  }
+
+  return LIVE_BASE_URL;
+}
+
+// Sans clé configurée, iPay répond 401 : l'erreur remonte comme une erreur d'authentification
+export function getIPaySecretKey(): string {
+  return Deno.env.get("IPAY_SECRET_KEY") || (isIPaySimulator() ? "sk_simulator" : "");
+}
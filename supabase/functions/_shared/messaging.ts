@@ -0,0 +1,474 @@
+/*
+  Fournisseurs de messagerie (WhatsApp / SMS)
+
+  Le fournisseur principal est choisi par `MESSAGING_PROVIDER`
+  (`wasender` | `whatsapp_cloud` | `sms` | `fake`) et un fournisseur de secours
+  optionnel par `MESSAGING_FALLBACK_PROVIDER`.
+
+  Chaque fournisseur renvoie un `DeliveryReceipt`, aussi bien à l'envoi que
+  lorsqu'il rappelle notre webhook de statut : les appelants (OTP, publication,
+  paiements) ne dépendent d'aucun format propre à un fournisseur.
+
+  Les callbacks de statut ne sont acceptés qu'après vérification propre au fournisseur :
+    - wasender       : en-tête `X-Webhook-Signature` égal à `WASENDER_WEBHOOK_SECRET`
+    - whatsapp_cloud : `X-Hub-Signature-256` = HMAC-SHA256(`WHATSAPP_CLOUD_APP_SECRET`, corps brut)
+    - sms            : en-tête `X-Webhook-Secret` égal à `SMS_WEBHOOK_SECRET`
+    - fake           : uniquement si `fake` fait partie des fournisseurs configurés
+*/
+
+export type ProviderName = "wasender" | "whatsapp_cloud" | "sms" | "fake";
+
+export type DeliveryStatus = "queued" | "sent" | "delivered" | "read" | "failed";
+
+export interface DeliveryReceipt {
+  provider: ProviderName;
+  status: DeliveryStatus;
+  message_id: string | null;
+  to: string | null;
+  error: string | null;
+  timestamp: string;
+  raw: unknown;
+}
+
+export interface MessagingProvider {
+  name: ProviderName;
+  send(to: string, text: string): Promise<DeliveryReceipt>;
+  verifyStatusCallback(headers: Headers, rawBody: string): Promise<boolean>;
+  parseStatusCallback(payload: unknown): DeliveryReceipt[];
+}
+
+function receipt(
+  provider: ProviderName,
+  status: DeliveryStatus,
+  fields: Partial<Omit<DeliveryReceipt, "provider" | "status">> = {}
+): DeliveryReceipt {
+  return {
+    provider,
+    status,
+    message_id: fields.message_id ?? null,
+    to: fields.to ?? null,
+    error: fields.error ?? null,
+    timestamp: fields.timestamp ?? new Date().toISOString(),
+    raw: fields.raw ?? null,
+  };
+}
+
+// Les API WhatsApp attendent le numéro international sans "+"
+function digitsOnly(phone: string): string {
+  return phone.replace(/[^\d]/g, "");
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+}
+
+// Les réponses sont typées champ par champ en optionnel : un corps illisible vaut `{}`
+async function readJson<T extends object>(response: Response): Promise<T> {
+  try {
+    return await response.json();
+  } catch {
+    return {} as T;
+  }
+}
+
+// Comparaison en temps constant pour ne pas divulguer le secret attendu
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Sans secret configuré, les callbacks sont refusés
+function matchesSharedSecret(headers: Headers, headerName: string, envName: string): boolean {
+  const secret = Deno.env.get(envName);
+  const provided = headers.get(headerName)?.trim() || "";
+  return !!secret && !!provided && timingSafeEqual(secret, provided);
+}
+
+async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// ============================================================
+// WASENDERAPI
+// ============================================================
+
+interface WasenderSendResponse {
+  success?: boolean;
+  status?: string;
+  message?: string;
+  error?: string;
+  data?: { msgId?: number | string; id?: string };
+}
+
+interface WasenderStatusUpdate {
+  key?: { id?: string; remoteJid?: string };
+  update?: { status?: number };
+}
+
+interface WasenderStatusCallback {
+  event?: string;
+  data?: WasenderStatusUpdate | WasenderStatusUpdate[];
+}
+
+const WASENDER_STATUS: Record<number, DeliveryStatus> = {
+  0: "failed",
+  1: "queued",
+  2: "sent",
+  3: "delivered",
+  4: "read",
+};
+
+function wasenderProvider(): MessagingProvider {
+  const apiUrl = Deno.env.get("WASENDER_API_URL") || "https://wasenderapi.com/api/send-message";
+
+  return {
+    name: "wasender",
+
+    async send(to, text) {
+      const response = await fetch(apiUrl, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${requireEnv("WASENDER_API_KEY")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ to: digitsOnly(to), text }),
+      });
+      const data = await readJson<WasenderSendResponse>(response);
+
+      if (!response.ok || data.success === false || data.status === "error") {
+        return receipt("wasender", "failed", {
+          to,
+          error: data.message || data.error || `HTTP ${response.status}`,
+          raw: data,
+        });
+      }
+
+      return receipt("wasender", "sent", {
+        to,
+        message_id: data.data?.msgId?.toString() ?? data.data?.id ?? null,
+        raw: data,
+      });
+    },
+
+    verifyStatusCallback(headers) {
+      return Promise.resolve(matchesSharedSecret(headers, "X-Webhook-Signature", "WASENDER_WEBHOOK_SECRET"));
+    },
+
+    parseStatusCallback(payload) {
+      const body = payload as WasenderStatusCallback | null;
+      const updates = Array.isArray(body?.data) ? body.data : [body?.data];
+
+      return updates
+        .filter((update): update is WasenderStatusUpdate => !!update?.key?.id)
+        .map((update) =>
+          receipt("wasender", WASENDER_STATUS[update.update?.status ?? -1] ?? "sent", {
+            message_id: update.key?.id ?? null,
+            to: update.key?.remoteJid?.split("@")[0] ?? null,
+            raw: update,
+          })
+        );
+    },
+  };
+}
+
+// ============================================================
+// WHATSAPP CLOUD API (META)
+// ============================================================
+
+interface WhatsAppCloudSendResponse {
+  messages?: { id: string }[];
+  error?: { message?: string };
+}
+
+interface WhatsAppCloudStatus {
+  id: string;
+  status: DeliveryStatus;
+  recipient_id?: string;
+  timestamp?: string;
+  errors?: { title?: string }[];
+}
+
+interface WhatsAppCloudStatusCallback {
+  entry?: {
+    changes?: {
+      value?: { statuses?: WhatsAppCloudStatus[] };
+    }[];
+  }[];
+}
+
+function whatsappCloudProvider(): MessagingProvider {
+  const apiVersion = Deno.env.get("WHATSAPP_CLOUD_API_VERSION") || "v20.0";
+
+  return {
+    name: "whatsapp_cloud",
+
+    async send(to, text) {
+      const phoneNumberId = requireEnv("WHATSAPP_CLOUD_PHONE_NUMBER_ID");
+      const response = await fetch(`https://graph.facebook.com/${apiVersion}/${phoneNumberId}/messages`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${requireEnv("WHATSAPP_CLOUD_ACCESS_TOKEN")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          to: digitsOnly(to),
+          type: "text",
+          text: { body: text },
+        }),
+      });
+      const data = await readJson<WhatsAppCloudSendResponse>(response);
+
+      if (!response.ok || data.error) {
+        return receipt("whatsapp_cloud", "failed", {
+          to,
+          error: data.error?.message || `HTTP ${response.status}`,
+          raw: data,
+        });
+      }
+
+      return receipt("whatsapp_cloud", "queued", {
+        to,
+        message_id: data.messages?.[0]?.id ?? null,
+        raw: data,
+      });
+    },
+
+    // Meta signe le corps brut avec le secret de l'application
+    async verifyStatusCallback(headers, rawBody) {
+      const appSecret = Deno.env.get("WHATSAPP_CLOUD_APP_SECRET");
+      const signature = headers.get("X-Hub-Signature-256")?.trim().toLowerCase() || "";
+      if (!appSecret || !signature.startsWith("sha256=")) return false;
+
+      const expected = await hmacSha256Hex(appSecret, rawBody);
+      return timingSafeEqual(`sha256=${expected}`, signature);
+    },
+
+    parseStatusCallback(payload) {
+      const body = payload as WhatsAppCloudStatusCallback | null;
+      const receipts: DeliveryReceipt[] = [];
+
+      for (const entry of body?.entry ?? []) {
+        for (const change of entry.changes ?? []) {
+          for (const status of change.value?.statuses ?? []) {
+            receipts.push(
+              receipt("whatsapp_cloud", status.status as DeliveryStatus, {
+                message_id: status.id,
+                to: status.recipient_id ?? null,
+                error: status.errors?.[0]?.title ?? null,
+                timestamp: status.timestamp
+                  ? new Date(Number(status.timestamp) * 1000).toISOString()
+                  : undefined,
+                raw: status,
+              })
+            );
+          }
+        }
+      }
+
+      return receipts;
+    },
+  };
+}
+
+// ============================================================
+// PASSERELLE SMS (HTTP GÉNÉRIQUE)
+// ============================================================
+
+interface SmsSendResponse {
+  message_id?: string | number;
+  id?: string | number;
+  message?: string;
+  error?: string | { message?: string };
+}
+
+interface SmsStatusCallback {
+  message_id?: string | number;
+  id?: string | number;
+  status?: string;
+  to?: string;
+  error?: string;
+}
+
+function smsProvider(): MessagingProvider {
+  return {
+    name: "sms",
+
+    async send(to, text) {
+      const response = await fetch(requireEnv("SMS_API_URL"), {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${requireEnv("SMS_API_KEY")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          to: `+${digitsOnly(to)}`,
+          from: Deno.env.get("SMS_SENDER") || "LENQUETEUR",
+          text,
+        }),
+      });
+      const data = await readJson<SmsSendResponse>(response);
+
+      if (!response.ok || data.error) {
+        const error = typeof data.error === "string" ? data.error : data.error?.message;
+        return receipt("sms", "failed", {
+          to,
+          error: error || data.message || `HTTP ${response.status}`,
+          raw: data,
+        });
+      }
+
+      return receipt("sms", "queued", {
+        to,
+        message_id: (data.message_id ?? data.id)?.toString() ?? null,
+        raw: data,
+      });
+    },
+
+    verifyStatusCallback(headers) {
+      return Promise.resolve(matchesSharedSecret(headers, "X-Webhook-Secret", "SMS_WEBHOOK_SECRET"));
+    },
+
+    parseStatusCallback(payload) {
+      const body = payload as SmsStatusCallback | null;
+      const id = body?.message_id ?? body?.id;
+      if (!body || !id) return [];
+
+      const status = String(body.status || "").toLowerCase();
+      const normalized: DeliveryStatus =
+        status === "delivered" ? "delivered"
+          : status === "failed" || status === "undelivered" || status === "rejected" ? "failed"
+          : "sent";
+
+      return [
+        receipt("sms", normalized, {
+          message_id: String(id),
+          to: body.to ?? null,
+          error: normalized === "failed" ? body.error || status : null,
+          raw: body,
+        }),
+      ];
+    },
+  };
+}
+
+// ============================================================
+// FOURNISSEUR FACTICE (DÉVELOPPEMENT ET TESTS)
+// ============================================================
+
+interface FakeStatusCallback {
+  message_id?: string;
+  status?: DeliveryStatus;
+  to?: string;
+}
+
+function fakeProvider(): MessagingProvider {
+  return {
+    name: "fake",
+
+    send(to, text) {
+      // FAKE_MESSAGING_OUTCOME=failed simule une panne du fournisseur
+      const outcome = Deno.env.get("FAKE_MESSAGING_OUTCOME") === "failed" ? "failed" : "sent";
+      // Jamais le texte : il porte les codes OTP et d'enrôlement
+      console.log(`[fake-messaging] ${outcome} -> ${to} (${text.length} caractères)`);
+
+      return Promise.resolve(
+        receipt("fake", outcome, {
+          to,
+          message_id: `fake-${crypto.randomUUID()}`,
+          error: outcome === "failed" ? "Simulated provider failure" : null,
+          raw: { to, length: text.length },
+        })
+      );
+    },
+
+    // Pas de secret : les reçus factices ne sont acceptés que si le fournisseur est configuré
+    verifyStatusCallback() {
+      return Promise.resolve(getConfiguredProviders().some((provider) => provider.name === "fake"));
+    },
+
+    parseStatusCallback(payload) {
+      const body = payload as FakeStatusCallback | null;
+      if (!body?.message_id) return [];
+      return [
+        receipt("fake", body.status || "delivered", {
+          message_id: body.message_id,
+          to: body.to ?? null,
+          raw: body,
+        }),
+      ];
+    },
+  };
+}
+
+const PROVIDERS: Record<ProviderName, () => MessagingProvider> = {
+  wasender: wasenderProvider,
+  whatsapp_cloud: whatsappCloudProvider,
+  sms: smsProvider,
+  fake: fakeProvider,
+};
+
+export function getProvider(name: string): MessagingProvider {
+  const factory = PROVIDERS[name as ProviderName];
+  if (!factory) {
+    throw new Error(`Unknown messaging provider: ${name}`);
+  }
+  return factory();
+}
+
+export function getConfiguredProviders(): MessagingProvider[] {
+  const primary = Deno.env.get("MESSAGING_PROVIDER") || "wasender";
+  const fallback = Deno.env.get("MESSAGING_FALLBACK_PROVIDER");
+
+  const providers = [getProvider(primary)];
+  if (fallback && fallback !== primary) {
+    providers.push(getProvider(fallback));
+  }
+  return providers;
+}
+
+/**
+ * Envoie via le fournisseur principal puis, en cas d'échec, via le fournisseur de secours.
+ * Renvoie le reçu du dernier fournisseur essayé.
+ */
+export async function sendMessage(to: string, text: string): Promise<DeliveryReceipt> {
+  let lastReceipt: DeliveryReceipt | null = null;
+
+  for (const provider of getConfiguredProviders()) {
+    try {
+      lastReceipt = await provider.send(to, text);
+    } catch (error) {
+      lastReceipt = receipt(provider.name, "failed", {
+        to,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (lastReceipt.status !== "failed") {
+      return lastReceipt;
+    }
+
+    console.error(`[messaging] ${provider.name} failed:`, lastReceipt.error);
+  }
+
+  return lastReceipt!;
+}
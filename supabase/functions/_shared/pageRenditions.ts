@@ -0,0 +1,158 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+/*
+  Rendus d'image des pages
+
+  Chaque page est rendue une fois à la plus grande largeur puis réduite pour
+  les autres tailles. Les rendus pleine page vont dans le bucket privé
+  `edition-pages` (servis en URLs signées), la miniature et la couverture
+  dans le bucket public `edition-previews`.
+*/
+
+export const PAGE_IMAGES_BUCKET = "edition-pages";
+export const PREVIEWS_BUCKET = "edition-previews";
+
+export const PAGE_WIDTHS = [800, 1600];
+const THUMBNAIL_WIDTH = 240;
+const COVER_WIDTH = 600;
+const WEBP_QUALITY = 0.82;
+
+export interface PageImageVariant {
+  width: number;
+  height: number;
+  path: string;
+}
+
+export interface PageRenditions {
+  imagePath: string;
+  thumbnailUrl: string;
+  variants: PageImageVariant[];
+  coverUrl: string | null;
+}
+
+export interface RenderedPageImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Sous-ensemble de PDFPageProxy (pdf.js) utilisé ici
+interface RenderablePage {
+  getViewport(params: { scale: number }): { width: number; height: number };
+  render(params: { canvasContext: unknown; viewport: unknown }): { promise: Promise<void> };
+}
+
+export async function renderPageRenditions(
+  supabase: SupabaseClient,
+  page: RenderablePage,
+  editionId: string,
+  pageNumber: number,
+  withCover: boolean
+): Promise<PageRenditions> {
+  const source = await renderToCanvas(page, PAGE_WIDTHS[PAGE_WIDTHS.length - 1]);
+
+  const pageKey = String(pageNumber).padStart(3, "0");
+  const variants: PageImageVariant[] = [];
+
+  for (const width of PAGE_WIDTHS) {
+    const { blob, height } = await encodeAtWidth(source, width);
+    const path = `${editionId}/page-${pageKey}-${width}.${extensionFor(blob)}`;
+    await uploadImage(supabase, PAGE_IMAGES_BUCKET, path, blob);
+    variants.push({ width, height, path });
+  }
+
+  const thumbnail = await encodeAtWidth(source, THUMBNAIL_WIDTH);
+  const thumbnailPath = `${editionId}/thumb-${pageKey}.${extensionFor(thumbnail.blob)}`;
+  await uploadImage(supabase, PREVIEWS_BUCKET, thumbnailPath, thumbnail.blob);
+
+  let coverUrl: string | null = null;
+  if (withCover) {
+    const cover = await encodeAtWidth(source, COVER_WIDTH);
+    const coverPath = `${editionId}/cover.${extensionFor(cover.blob)}`;
+    await uploadImage(supabase, PREVIEWS_BUCKET, coverPath, cover.blob);
+    coverUrl = publicUrl(supabase, coverPath);
+  }
+
+  return {
+    imagePath: variants[variants.length - 1].path,
+    thumbnailUrl: publicUrl(supabase, thumbnailPath),
+    variants,
+    coverUrl,
+  };
+}
+
+// Rendu PNG sans perte pour l'OCR (pas d'upload)
+export async function renderPageImage(page: RenderablePage, width: number): Promise<RenderedPageImage> {
+  const canvas = await renderToCanvas(page, width);
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return { blob, width: canvas.width, height: canvas.height };
+}
+
+// Rendus aux largeurs demandées sans upload : l'appelant choisit le bucket (tuiles de `page-tiles`)
+export async function renderPageVariants(page: RenderablePage, widths: number[]): Promise<RenderedPageImage[]> {
+  const source = await renderToCanvas(page, Math.max(...widths));
+  const variants: RenderedPageImage[] = [];
+
+  for (const width of widths) {
+    const { blob, height } = await encodeAtWidth(source, width);
+    variants.push({ blob, width, height });
+  }
+
+  return variants;
+}
+
+async function renderToCanvas(page: RenderablePage, width: number): Promise<OffscreenCanvas> {
+  const baseViewport = page.getViewport({ scale: 1.0 });
+  const viewport = page.getViewport({ scale: width / baseViewport.width });
+
+  const canvas = new OffscreenCanvas(Math.round(viewport.width), Math.round(viewport.height));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  // Les PDF sans fond se rendent transparents : on force le blanc du papier
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  return canvas;
+}
+
+async function encodeAtWidth(source: OffscreenCanvas, width: number) {
+  let canvas = source;
+
+  if (width < source.width) {
+    canvas = new OffscreenCanvas(width, Math.round((source.height * width) / source.width));
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Failed to get canvas context");
+    }
+    context.imageSmoothingQuality = "high";
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }
+
+  const blob = await canvas.convertToBlob({ type: "image/webp", quality: WEBP_QUALITY });
+  return { blob, height: canvas.height };
+}
+
+// Un runtime sans encodeur WebP renvoie du PNG : l'extension suit le type réel
+export function extensionFor(blob: Blob): string {
+  return blob.type === "image/webp" ? "webp" : "png";
+}
+
+export async function uploadImage(supabase: SupabaseClient, bucket: string, path: string, blob: Blob) {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, blob, { contentType: blob.type, cacheControl: "3600", upsert: true });
+
+  if (error) {
+    throw new Error(`Upload ${bucket}/${path} failed: ${error.message}`);
+  }
+}
+
+// Les chemins sont réécrits à chaque extraction : le paramètre de version évite le cache CDN
+function publicUrl(supabase: SupabaseClient, path: string): string {
+  const { data } = supabase.storage.from(PREVIEWS_BUCKET).getPublicUrl(path);
+  return `${data.publicUrl}?v=${Date.now()}`;
+}
@@ -0,0 +1,199 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getDocument } from "npm:pdfjs-dist@4.10.38";
+import { PAGE_IMAGES_BUCKET, PAGE_WIDTHS, extensionFor, renderPageVariants, uploadImage } from "./pageRenditions.ts";
+import type { PageImageVariant } from "./pageRenditions.ts";
+import { downloadEditionPdf } from "./editionPdf.ts";
+
+/*
+  Rendus propres des pages d'un document, base des tuiles filigranées
+
+  Une page n'est rendue qu'une fois : on reprend les rendus de l'édition
+  (`edition-pages`) s'ils existent, sinon le cache `page-tiles/sources`.
+  À défaut, le PDF est téléchargé, la page demandée rendue tout de suite et
+  les autres pages manquantes à la suite, avec le même document chargé.
+*/
+
+export const TILES_BUCKET = "page-tiles";
+
+// Marge sous la limite d'exécution pour le rendu des pages suivantes
+const BACKGROUND_BUDGET_MS = 100_000;
+
+export interface TileDocument {
+  id: string;
+  url_fichier: string;
+  nb_pages: number | null;
+}
+
+export interface PageSource {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface RenderedDocument {
+  variants: PageSource[];
+  totalPages: number;
+  // Rendu des autres pages manquantes, à confier à `EdgeRuntime.waitUntil`
+  renderRemaining: () => Promise<void>;
+}
+
+// Plus petite largeur de rendu couvrant la demande
+export function pickSourceWidth(requested: number): number {
+  return PAGE_WIDTHS.find(width => width >= requested) ?? PAGE_WIDTHS[PAGE_WIDTHS.length - 1];
+}
+
+async function findEditionId(supabase: SupabaseClient, doc: TileDocument): Promise<string | null> {
+  const { data } = await supabase
+    .from("editions")
+    .select("id")
+    .eq("pdf_url", doc.url_fichier)
+    .limit(1)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+async function download(supabase: SupabaseClient, bucket: string, path: string): Promise<Blob | null> {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error || !data) {
+    console.warn(`Rendu ${bucket}/${path} illisible:`, error?.message);
+    return null;
+  }
+  return data;
+}
+
+// Rendu déjà disponible (cache des tuiles ou rendus de l'édition), sans toucher au PDF
+export async function findPageSource(
+  supabase: SupabaseClient,
+  doc: TileDocument,
+  pageNumber: number,
+  width: number
+): Promise<PageSource | null> {
+  const { data: cached } = await supabase
+    .from("page_tile_sources")
+    .select("path, width, height")
+    .eq("pdf_id", doc.id)
+    .eq("page_number", pageNumber)
+    .eq("width", width)
+    .maybeSingle();
+
+  if (cached) {
+    const blob = await download(supabase, TILES_BUCKET, cached.path);
+    if (blob) return { blob, width: cached.width, height: cached.height };
+  }
+
+  const editionId = await findEditionId(supabase, doc);
+  if (!editionId) return null;
+
+  const { data: page } = await supabase
+    .from("pages")
+    .select("image_variants")
+    .eq("edition_id", editionId)
+    .eq("page_number", pageNumber)
+    .maybeSingle();
+
+  const variant = ((page?.image_variants || []) as PageImageVariant[]).find(entry => entry.width === width);
+  if (!variant) return null;
+
+  const blob = await download(supabase, PAGE_IMAGES_BUCKET, variant.path);
+  return blob ? { blob, width: variant.width, height: variant.height } : null;
+}
+
+async function cachePageVariants(
+  supabase: SupabaseClient,
+  doc: TileDocument,
+  pageNumber: number,
+  variants: PageSource[]
+) {
+  const pageKey = String(pageNumber).padStart(3, "0");
+
+  for (const variant of variants) {
+    const path = `sources/${doc.id}/page-${pageKey}-${variant.width}.${extensionFor(variant.blob)}`;
+    await uploadImage(supabase, TILES_BUCKET, path, variant.blob);
+
+    const { error } = await supabase
+      .from("page_tile_sources")
+      .upsert({
+        pdf_id: doc.id,
+        page_number: pageNumber,
+        width: variant.width,
+        height: variant.height,
+        path,
+      }, { onConflict: "pdf_id,page_number,width" });
+
+    if (error) {
+      throw new Error(`Erreur lors de l'enregistrement du rendu de la page ${pageNumber}: ${error.message}`);
+    }
+  }
+}
+
+export async function renderDocumentPage(
+  supabase: SupabaseClient,
+  doc: TileDocument,
+  pageNumber: number
+): Promise<RenderedDocument> {
+  const pdfBuffer = await downloadEditionPdf(supabase, doc.url_fichier);
+  const pdfDoc = await getDocument({
+    data: new Uint8Array(pdfBuffer),
+    useSystemFonts: true,
+  }).promise;
+  const totalPages = pdfDoc.numPages;
+
+  if (doc.nb_pages !== totalPages) {
+    await supabase.from("pdfs").update({ nb_pages: totalPages }).eq("id", doc.id);
+  }
+
+  if (pageNumber < 1 || pageNumber > totalPages) {
+    throw new RangeError("Numéro de page invalide");
+  }
+
+  const variants = await renderPageVariants(await pdfDoc.getPage(pageNumber), PAGE_WIDTHS);
+  await cachePageVariants(supabase, doc, pageNumber, variants);
+
+  const renderRemaining = async () => {
+    const startedAt = Date.now();
+    const { data: existing } = await supabase
+      .from("page_tile_sources")
+      .select("page_number")
+      .eq("pdf_id", doc.id);
+    const cached = new Set((existing || []).map(row => row.page_number));
+
+    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      if (cached.has(pageNum) || pageNum === pageNumber) continue;
+      // Les pages restantes seront rendues à la demande
+      if (Date.now() - startedAt > BACKGROUND_BUDGET_MS) return;
+
+      try {
+        const rendered = await renderPageVariants(await pdfDoc.getPage(pageNum), PAGE_WIDTHS);
+        await cachePageVariants(supabase, doc, pageNum, rendered);
+      } catch (error) {
+        console.error(`Rendu de la page ${pageNum} impossible:`, error);
+      }
+    }
+  };
+
+  return { variants, totalPages, renderRemaining };
+}
+
+// Nombre de pages sans rendre le document quand il est déjà connu
+export async function getPageCount(supabase: SupabaseClient, doc: TileDocument): Promise<number> {
+  if (doc.nb_pages) return doc.nb_pages;
+
+  const editionId = await findEditionId(supabase, doc);
+  if (editionId) {
+    const { count } = await supabase
+      .from("pages")
+      .select("id", { count: "exact", head: true })
+      .eq("edition_id", editionId);
+    if (count) return count;
+  }
+
+  const pdfBuffer = await downloadEditionPdf(supabase, doc.url_fichier);
+  const pdfDoc = await getDocument({
+    data: new Uint8Array(pdfBuffer),
+    useSystemFonts: true,
+  }).promise;
+
+  await supabase.from("pdfs").update({ nb_pages: pdfDoc.numPages }).eq("id", doc.id);
+  return pdfDoc.numPages;
+}
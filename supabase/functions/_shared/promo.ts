@@ -0,0 +1,110 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+/*
+  Codes promo
+
+  Le montant à payer est toujours recalculé côté serveur : `getFormulePrice`
+  lit `formules.prix_fcfa`, puis la remise éventuelle s'applique. Le montant
+  envoyé par le client est ignoré, code promo ou non. `quotePromoCode` sert
+  d'aperçu, `redeemPromoCode` réserve le code sous verrou une fois le paiement
+  créé, toujours avant l'appel à iPay. Si iPay échoue, le paiement passe en
+  `echoue` et le code est libéré.
+*/
+
+export interface PromoQuote {
+  valid: boolean;
+  error?: string;
+  code_promo_id?: string;
+  code?: string;
+  type_remise?: "pourcentage" | "montant_fixe";
+  valeur?: number;
+  prix_initial?: number;
+  remise_fcfa?: number;
+  montant_final?: number;
+}
+
+// Prix de référence d'une formule active, null si elle est introuvable
+export async function getFormulePrice(
+  supabase: SupabaseClient,
+  formuleId: string
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("formules")
+    .select("prix_fcfa")
+    .eq("id", formuleId)
+    .eq("actif", true)
+    .maybeSingle();
+
+  if (error) throw new Error(`Formule lookup failed: ${error.message}`);
+  return data ? Number(data.prix_fcfa) : null;
+}
+
+export async function quotePromoCode(
+  supabase: SupabaseClient,
+  code: string,
+  formuleId: string,
+  userId: string | undefined
+): Promise<PromoQuote> {
+  const { data, error } = await supabase.rpc("quote_promo_code", {
+    p_code: code,
+    p_formule_id: formuleId,
+    p_user_id: userId || null,
+  });
+
+  if (error) throw new Error(`Promo code validation failed: ${error.message}`);
+  return data as PromoQuote;
+}
+
+export async function redeemPromoCode(
+  supabase: SupabaseClient,
+  code: string,
+  formuleId: string,
+  userId: string,
+  paiementId: string
+): Promise<PromoQuote> {
+  const { data, error } = await supabase.rpc("redeem_promo_code", {
+    p_code: code,
+    p_formule_id: formuleId,
+    p_user_id: userId,
+    p_paiement_id: paiementId,
+  });
+
+  if (error) throw new Error(`Promo code redemption failed: ${error.message}`);
+  return data as PromoQuote;
+}
+
+// Le code a été épuisé entre l'aperçu et l'enregistrement : le paiement ne doit pas aboutir
+export async function voidPaymentForPromo(
+  supabase: SupabaseClient,
+  paiementId: string,
+  reason: string | undefined
+) {
+  await supabase
+    .from("paiements")
+    .update({
+      statut: "echoue",
+      notes: `Code promo refusé : ${reason || "invalide"}`,
+    })
+    .eq("id", paiementId);
+}
+
+export function invalidPromoCodeResponse(
+  message: string | undefined,
+  status: number,
+  corsHeaders: Record<string, string>
+): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: "invalid_promo_code",
+      message,
+    }),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+}
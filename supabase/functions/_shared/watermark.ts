@@ -0,0 +1,93 @@
+import { GRID, SYNC_BITS, codeBytes, crc16, isSyncCell } from "./watermarkCode.ts";
+
+/*
+  Filigranes incrustés dans les tuiles de page
+
+  - Visible : nom, numéro d'abonné, heure et session, comme le filigrane du
+    lecteur (`SecureReader`)
+  - Invisible : code de la session (`watermark_sessions`) répété en tuiles de
+    8 x 8 cellules (`watermarkCode.ts`), relu par `src/lib/forensicWatermark.ts`
+    dans l'outil « Traçage » du tableau de bord
+*/
+
+const MARK_ALPHA = 0.016;
+// Une cellule par 64e de largeur : ~16 px à l'écran quelle que soit la largeur servie
+const CELLS_PER_WIDTH = 64;
+
+export interface WatermarkIdentity {
+  userName: string;
+  userNumber: string;
+  sessionId: string;
+  code: number;
+  pageNumber: number;
+}
+
+function tileBits(code: number): number[] {
+  const payload: number[] = [];
+  for (let bit = 31; bit >= 0; bit -= 1) payload.push((code >>> bit) & 1);
+  const crc = crc16(codeBytes(code));
+  for (let bit = 15; bit >= 0; bit -= 1) payload.push((crc >>> bit) & 1);
+
+  let sync = 0;
+  let data = 0;
+  return Array.from({ length: GRID * GRID }, (_, index) =>
+    isSyncCell(index) ? SYNC_BITS[sync++] : payload[data++]
+  );
+}
+
+function drawForensicLayer(context: OffscreenCanvasRenderingContext2D, width: number, height: number, code: number) {
+  const cellSize = Math.max(8, Math.round(width / CELLS_PER_WIDTH));
+  const half = cellSize / 2;
+  const period = cellSize * GRID;
+  const bits = tileBits(code);
+
+  context.save();
+  context.globalAlpha = MARK_ALPHA;
+  context.fillStyle = "#000";
+  for (let tileY = 0; tileY < height; tileY += period) {
+    for (let tileX = 0; tileX < width; tileX += period) {
+      bits.forEach((bit, index) => {
+        const x = tileX + (index % GRID) * cellSize + (bit ? 0 : half);
+        const y = tileY + Math.floor(index / GRID) * cellSize;
+        context.fillRect(x, y, half, cellSize);
+      });
+    }
+  }
+  context.restore();
+}
+
+function drawVisibleLayer(
+  context: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  identity: WatermarkIdentity
+) {
+  const fontSize = Math.max(14, Math.min(width * 0.03, 48));
+  // Le serveur ne connaît pas le fuseau du lecteur : heure UTC explicite
+  const timestamp = `${new Date().toLocaleString("fr-FR", { timeZone: "UTC" })} UTC`;
+  const sessionPrefix = identity.sessionId.substring(0, 8).toUpperCase();
+
+  context.save();
+  context.globalAlpha = 0.12;
+  context.fillStyle = "#1f2937";
+  context.textAlign = "center";
+  context.font = `600 ${fontSize}px sans-serif`;
+  context.translate(width / 2, height / 2);
+  context.rotate(-Math.PI / 8);
+
+  context.fillText(identity.userName.toUpperCase() || "LECTEUR", 0, -fontSize * 1.5);
+  context.fillText(`Abonne ${identity.userNumber || "N/A"}`, 0, 0);
+  context.fillText(timestamp, 0, fontSize * 1.5);
+  context.fillText(`Session ${sessionPrefix} - P${identity.pageNumber}`, 0, fontSize * 3);
+  context.restore();
+}
+
+export function burnWatermark(
+  context: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  identity: WatermarkIdentity
+) {
+  drawForensicLayer(context, width, height, identity.code);
+  drawVisibleLayer(context, width, height, identity);
+}
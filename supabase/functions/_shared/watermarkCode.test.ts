@@ -0,0 +1,34 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import * as shared from "./watermarkCode.ts";
+import * as dashboard from "../../../src/lib/watermarkCode.ts";
+
+/*
+  Le tableau de bord lit les filigranes avec sa propre copie du codage :
+  une divergence rendrait les fuites introuvables sans aucune erreur visible.
+*/
+
+const SAMPLE_CODES = [0, 1, 0x7fffffff, 0x80000000, 0xdeadbeef, 0xffffffff, 123456789];
+
+Deno.test("les deux copies partagent la grille et la synchronisation", () => {
+  assertEquals(dashboard.GRID, shared.GRID);
+  assertEquals(dashboard.SYNC_BITS, shared.SYNC_BITS);
+
+  for (let index = 0; index < shared.GRID * shared.GRID; index += 1) {
+    assertEquals(dashboard.isSyncCell(index), shared.isSyncCell(index));
+  }
+});
+
+Deno.test("les deux copies codent une session de la même façon", () => {
+  for (const code of SAMPLE_CODES) {
+    const bytes = shared.codeBytes(code);
+    assertEquals(dashboard.codeBytes(code), bytes);
+    assertEquals(dashboard.crc16(bytes), shared.crc16(bytes));
+  }
+});
+
+Deno.test("le CRC est bien CRC-16/CCITT-FALSE", () => {
+  // Valeur de contrôle de référence pour "123456789"
+  const check = Array.from(new TextEncoder().encode("123456789"));
+  assertEquals(shared.crc16(check), 0x29b1);
+  assertEquals(dashboard.crc16(check), 0x29b1);
+});
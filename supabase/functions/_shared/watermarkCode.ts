@@ -0,0 +1,30 @@
+/*
+  Codage du filigrane invisible, utilisé à l'incrustation (`watermark.ts`).
+
+  Le tableau de bord en garde une copie dans `src/lib/watermarkCode.ts` pour
+  la lecture (`forensicWatermark.ts`) : toute modification doit être reportée
+  dans les deux fichiers, `watermarkCode.test.ts` vérifie qu'ils concordent.
+
+  Une tuile de 8 x 8 cellules porte 16 cellules de synchronisation, puis le
+  code de la session (32 bits) et son CRC-16.
+*/
+
+export const GRID = 8;
+// Cellules de synchronisation (16) : valeurs fixes qui donnent l'alignement de la tuile
+export const SYNC_BITS = [1, 0, 1, 1, 0, 0, 1, 0, 0, 1, 1, 1, 0, 1, 0, 0];
+
+export const isSyncCell = (index: number) => (Math.floor(index / GRID) + 2 * (index % GRID)) % 4 === 0;
+
+export const codeBytes = (code: number) => [code >>> 24, (code >>> 16) & 0xff, (code >>> 8) & 0xff, code & 0xff];
+
+// CRC-16/CCITT-FALSE
+export function crc16(bytes: number[]): number {
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { getIPayBaseUrl, getIPaySecretKey } from "../_shared/ipay.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,8 +8,8 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const IPAY_API_URL = "https://i-pay.money/api/v1/payments";
-const IPAY_SECRET_KEY = "sk_11a35c3f7ab44dc79e38757fcd28ba82";
+const IPAY_API_URL = `${getIPayBaseUrl()}/api/v1/payments`;
+const IPAY_SECRET_KEY = getIPaySecretKey();
 
 interface CheckStatusRequest {
   reference: string;
@@ -103,7 +104,7 @@ Deno.serve(async (req: Request) => {
     }
 
     if (paiement && responseData.status) {
-      if ((responseData.status === "succeeded" || responseData.status === "paid" || responseData.status === "completed") && paiement.statut !== "confirme") {
+      if ((responseData.status === "succeeded" || responseData.status === "paid" || responseData.status === "completed") && paiement.statut === "en_attente") {
         const { data: confirmResult, error: confirmError } = await supabase.rpc(
           'confirm_payment_secure',
           {
@@ -124,7 +125,9 @@ Deno.serve(async (req: Request) => {
             ipay_status: responseData.status,
             statut: "echoue",
           })
-          .eq("id", paiement.id);
+          .eq("id", paiement.id)
+          // Un paiement confirmé ou remboursé garde son statut
+          .eq("statut", "en_attente");
       } else {
         await supabase
           .from("paiements")
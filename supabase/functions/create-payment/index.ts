@@ -1,5 +1,12 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  getFormulePrice,
+  invalidPromoCodeResponse,
+  quotePromoCode,
+  redeemPromoCode,
+  voidPaymentForPromo,
+} from "../_shared/promo.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,11 +15,10 @@ const corsHeaders = {
 };
 
 interface CreatePaymentRequest {
-  user_id: string;
   abonnement_id: string;
   formule_id: string;
-  amount: number;
   transaction_id: string;
+  promo_code?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -24,9 +30,37 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { user_id, abonnement_id, formule_id, amount, transaction_id }: CreatePaymentRequest = await req.json();
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    if (!user_id || !abonnement_id || !formule_id || !amount || !transaction_id) {
+    // Un code à 100 % active l'abonnement sans paiement : l'abonné est celui du JWT, jamais celui du corps
+    const bearer = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: { user: authUser } } = bearer
+      ? await supabase.auth.getUser(bearer)
+      : { data: { user: null } };
+
+    if (!authUser) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'unauthorized',
+          message: 'Veuillez vous reconnecter',
+        }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const user_id = authUser.id;
+    const { abonnement_id, formule_id, transaction_id, promo_code }: CreatePaymentRequest = await req.json();
+
+    if (!abonnement_id || !formule_id || !transaction_id) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -43,9 +77,39 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data: abonnement } = await supabase
+      .from('abonnements')
+      .select('id')
+      .eq('id', abonnement_id)
+      .eq('user_id', user_id)
+      .maybeSingle();
+
+    let amountToPay = abonnement ? await getFormulePrice(supabase, formule_id) : null;
+
+    if (amountToPay === null) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'invalid_subscription',
+          message: 'Abonnement ou formule introuvable',
+        }),
+        {
+          status: 404,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    if (promo_code) {
+      const quote = await quotePromoCode(supabase, promo_code, formule_id, user_id);
+      if (!quote.valid) {
+        return invalidPromoCodeResponse(quote.error, 400, corsHeaders);
+      }
+      amountToPay = quote.montant_final!;
+    }
 
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + 30);
@@ -56,7 +120,7 @@ Deno.serve(async (req: Request) => {
         user_id,
         abonnement_id,
         formule_id,
-        montant_fcfa: amount,
+        montant_fcfa: amountToPay,
         methode_paiement: 'iPayMoney-SDK',
         reference_transaction: transaction_id,
         ipay_transaction_id: transaction_id,
@@ -87,6 +151,14 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    if (promo_code) {
+      const redemption = await redeemPromoCode(supabase, promo_code, formule_id, user_id, payment.id);
+      if (!redemption.valid) {
+        await voidPaymentForPromo(supabase, payment.id, redemption.error);
+        return invalidPromoCodeResponse(redemption.error, 409, corsHeaders);
+      }
+    }
+
     await supabase.from('payment_events').insert({
       payment_id: payment.id,
       user_id,
@@ -96,15 +168,30 @@ Deno.serve(async (req: Request) => {
       metadata: {
         transaction_id,
         method: 'iPay SDK',
+        promo_code: promo_code || null,
       },
       notes: 'Payment created via iPay SDK',
     });
 
+    // Code couvrant tout le prix : rien à encaisser, l'abonnement est activé directement
+    if (amountToPay === 0) {
+      const { data: confirmResult, error: confirmError } = await supabase.rpc('confirm_payment_secure', {
+        p_payment_id: payment.id,
+        p_notes: `Free via promo code ${promo_code}`,
+      });
+
+      if (confirmError || !confirmResult?.success) {
+        throw new Error(confirmError?.message || confirmResult?.error || 'Confirmation impossible');
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         payment_id: payment.id,
         transaction_id,
+        amount: amountToPay,
+        confirmed: amountToPay === 0,
       }),
       {
         status: 200,
@@ -0,0 +1,154 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import type { DeliveryReceipt } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const MAX_ATTEMPTS = Number(Deno.env.get("NOTIFICATION_MAX_ATTEMPTS") || "5");
+const BACKOFF_BASE_SECONDS = Number(Deno.env.get("NOTIFICATION_BACKOFF_BASE_SECONDS") || "60");
+const BATCH_SIZE = Number(Deno.env.get("NOTIFICATION_BATCH_SIZE") || "50");
+
+interface NotificationRow {
+  id: string;
+  numero_destinataire: string;
+  message: string;
+  tentatives: number;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Reserve a batch of due notifications (new rows and retries)
+    const { data: notifications, error: claimError } = await supabase.rpc(
+      "claim_due_notifications",
+      {
+        p_limit: BATCH_SIZE,
+        p_max_attempts: MAX_ATTEMPTS,
+      }
+    );
+
+    if (claimError) {
+      throw new Error(`Failed to claim notifications: ${claimError.message}`);
+    }
+
+    const batch = (notifications || []) as NotificationRow[];
+    let sentCount = 0;
+    let failedCount = 0;
+    let deadLetterCount = 0;
+
+    // 2. Send each one and record the outcome (backoff computed in SQL)
+    for (const notification of batch) {
+      let success = false;
+      let errorMessage: string | null = null;
+      let receipt: DeliveryReceipt | null = null;
+
+      try {
+        if (!notification.numero_destinataire) {
+          throw new Error("Numéro WhatsApp manquant");
+        }
+
+        const whatsappResponse = await fetch(`${supabaseUrl}/functions/v1/send-whatsapp`, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${supabaseServiceKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: notification.numero_destinataire,
+            text: notification.message,
+          }),
+        });
+
+        const whatsappResult = await whatsappResponse.json();
+        success = !!whatsappResult.success;
+        errorMessage = success ? null : whatsappResult.error || "Erreur inconnue";
+        receipt = whatsappResult.receipt ?? null;
+      } catch (sendError) {
+        errorMessage = sendError instanceof Error ? sendError.message : "Erreur réseau";
+      }
+
+      const { data: updated, error: recordError } = await supabase.rpc(
+        "record_notification_attempt",
+        {
+          p_notification_id: notification.id,
+          p_success: success,
+          p_error: errorMessage,
+          p_max_attempts: MAX_ATTEMPTS,
+          p_backoff_base_seconds: BACKOFF_BASE_SECONDS,
+        }
+      );
+
+      if (recordError) {
+        console.error(`Failed to record attempt for ${notification.id}:`, recordError);
+        continue;
+      }
+
+      if (receipt) {
+        await supabase
+          .from("notifications")
+          .update({
+            provider: receipt.provider,
+            provider_message_id: receipt.message_id,
+            statut_livraison: receipt.status,
+          })
+          .eq("id", notification.id);
+      }
+
+      if (success) {
+        sentCount++;
+      } else if (updated?.statut === "abandonne") {
+        deadLetterCount++;
+        console.error(`Notification ${notification.id} moved to dead-letter: ${errorMessage}`);
+      } else {
+        failedCount++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Dispatch completed",
+        claimed: batch.length,
+        sent: sentCount,
+        failed: failedCount,
+        dead_letter: deadLetterCount,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error in dispatch-notifications:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "dispatch_failed",
+        message: error instanceof Error ? error.message : "Failed to dispatch notifications",
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,235 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { sendMessage } from "../_shared/messaging.ts";
+import { MAX_TRUSTED_DEVICES } from "../_shared/devices.ts";
+
+/*
+  Confirmation d'un nouvel appareil
+
+  Le lecteur s'y adresse quand `validate-edition-access` signale un appareil
+  inconnu : `send` envoie un code sur le WhatsApp de l'abonné, `verify` le
+  contrôle et fait de l'appareil un appareil de confiance. Un lien transmis
+  à un tiers reste donc bloqué, le code n'arrivant qu'à l'abonné.
+*/
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const CODE_TTL_MINUTES = 10;
+const RESEND_DELAY_SECONDS = 60;
+const MAX_ATTEMPTS = 3;
+
+interface EnrollDeviceRequest {
+  action?: "send" | "verify";
+  token?: string;
+  deviceId?: string;
+  code?: string;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function hashCode(deviceId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${deviceId}:${code}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function generateCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+// « +229 •••• 45 67 » : l'abonné reconnaît son numéro sans qu'il soit divulgué
+function maskPhone(phone: string): string {
+  const digits = phone.replace(/[^\d]/g, "");
+  return `+${digits.slice(0, 3)} •••• ${digits.slice(-4, -2)} ${digits.slice(-2)}`;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { action, token, deviceId, code }: EnrollDeviceRequest = await req.json();
+
+    if (!token || !deviceId || (action !== "send" && action !== "verify")) {
+      return jsonResponse({
+        success: false,
+        error: "missing_fields",
+        message: "token, deviceId et action requis",
+      }, 400);
+    }
+
+    const { data: tokenData } = await supabase
+      .from("tokens")
+      .select("id, user_id, expires_at, revoked, users(numero_whatsapp)")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (!tokenData || tokenData.revoked || new Date(tokenData.expires_at) < new Date()) {
+      return jsonResponse({
+        success: false,
+        error: "invalid_token",
+        message: "Ce lien n'est plus valide",
+      }, 403);
+    }
+
+    const { data: device } = await supabase
+      .from("devices")
+      .select("id, status, enrollment_code_hash, enrollment_expires_at, enrollment_sent_at, enrollment_attempts")
+      .eq("id", deviceId)
+      .eq("user_id", tokenData.user_id)
+      .maybeSingle();
+
+    if (!device || device.status !== "pending") {
+      return jsonResponse({
+        success: false,
+        error: "device_not_found",
+        message: "Demande d'enregistrement introuvable. Rouvrez le lien pour recommencer.",
+      }, 404);
+    }
+
+    if (action === "send") {
+      const phone = (tokenData.users as unknown as { numero_whatsapp: string | null } | null)?.numero_whatsapp;
+
+      if (!phone) {
+        return jsonResponse({
+          success: false,
+          error: "missing_phone",
+          message: "Aucun numéro WhatsApp n'est associé à votre compte. Contactez le support.",
+        }, 400);
+      }
+
+      if (device.enrollment_sent_at) {
+        const elapsed = (Date.now() - new Date(device.enrollment_sent_at).getTime()) / 1000;
+        if (elapsed < RESEND_DELAY_SECONDS) {
+          return jsonResponse({
+            success: false,
+            error: "rate_limited",
+            message: "Un code vient d'être envoyé. Patientez avant d'en demander un autre.",
+            retry_after: Math.ceil(RESEND_DELAY_SECONDS - elapsed),
+          }, 429);
+        }
+      }
+
+      const otpCode = generateCode();
+
+      await supabase
+        .from("devices")
+        .update({
+          enrollment_code_hash: await hashCode(device.id, otpCode),
+          enrollment_expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+          enrollment_sent_at: new Date().toISOString(),
+          enrollment_attempts: 0,
+        })
+        .eq("id", device.id);
+
+      const receipt = await sendMessage(
+        phone,
+        `Code de confirmation de votre nouvel appareil L’Enquêteur : *${otpCode}*\n\nCe code expire dans ${CODE_TTL_MINUTES} minutes.\n⚠️ Si vous n'avez pas ouvert d'édition, ne communiquez ce code à personne : quelqu'un essaie d'utiliser votre lien.`
+      );
+
+      if (receipt.status === "failed") {
+        console.error("[enroll-device] Envoi WhatsApp impossible:", receipt);
+        return jsonResponse({
+          success: false,
+          error: "whatsapp_error",
+          message: "Erreur lors de l'envoi du message WhatsApp",
+        }, 500);
+      }
+
+      return jsonResponse({
+        success: true,
+        message: "Code envoyé sur WhatsApp",
+        masked_phone: maskPhone(phone),
+        expires_in_seconds: CODE_TTL_MINUTES * 60,
+      });
+    }
+
+    if (!code) {
+      return jsonResponse({ success: false, error: "missing_fields", message: "Code requis" }, 400);
+    }
+
+    if (!device.enrollment_code_hash || new Date(device.enrollment_expires_at) < new Date()) {
+      return jsonResponse({
+        success: false,
+        error: "expired",
+        message: "Ce code a expiré. Demandez un nouveau code.",
+      }, 400);
+    }
+
+    if (device.enrollment_attempts >= MAX_ATTEMPTS) {
+      await supabase.from("devices").update({ enrollment_code_hash: null }).eq("id", device.id);
+      return jsonResponse({
+        success: false,
+        error: "max_attempts",
+        message: "Trop de tentatives. Demandez un nouveau code.",
+      }, 400);
+    }
+
+    await supabase
+      .from("devices")
+      .update({ enrollment_attempts: device.enrollment_attempts + 1 })
+      .eq("id", device.id);
+
+    if ((await hashCode(device.id, code)) !== device.enrollment_code_hash) {
+      const remaining = MAX_ATTEMPTS - (device.enrollment_attempts + 1);
+      return jsonResponse({
+        success: false,
+        error: "invalid_code",
+        message: `Code incorrect. ${remaining} tentative${remaining > 1 ? "s" : ""} restante${remaining > 1 ? "s" : ""}.`,
+        attempts_remaining: remaining,
+      }, 400);
+    }
+
+    // Un autre appareil a pu être confirmé entre l'envoi et la saisie du code
+    const { count: trustedCount } = await supabase
+      .from("devices")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", tokenData.user_id)
+      .eq("status", "trusted");
+
+    if ((trustedCount || 0) >= MAX_TRUSTED_DEVICES) {
+      return jsonResponse({
+        success: false,
+        error: "device_limit",
+        message: `Vous avez déjà ${MAX_TRUSTED_DEVICES} appareils enregistrés. Retirez-en un depuis votre espace abonné.`,
+      }, 403);
+    }
+
+    await supabase
+      .from("devices")
+      .update({
+        status: "trusted",
+        trusted_at: new Date().toISOString(),
+        // Seule preuve d'un code saisi : `trusted_at` est aussi posé pour un premier appareil reconnu d'office
+        otp_verified_at: new Date().toISOString(),
+        enrollment_code_hash: null,
+        enrollment_expires_at: null,
+        enrollment_attempts: 0,
+      })
+      .eq("id", device.id);
+
+    return jsonResponse({ success: true, message: "Appareil enregistré" });
+  } catch (error) {
+    console.error("[enroll-device] Erreur interne:", error);
+    return jsonResponse({
+      success: false,
+      error: "internal_error",
+      message: "Erreur interne du serveur",
+    }, 500);
+  }
+});
@@ -0,0 +1,46 @@
+import { getDocument } from "npm:pdfjs-dist@4.10.38";
+
+/*
+  Sérialise la sortie `page.getTextContent()` de pages d'une édition, au
+  format lu par `layout.test.ts` :
+
+    deno run -A fixtures/serialize.ts edition.pdf 1 3
+
+  Écrit `fixtures/page-<n>.json` pour chaque page demandée. Les options de
+  `getDocument` sont celles de l'extraction (`index.ts`).
+*/
+
+const [pdfPath, ...pageArgs] = Deno.args;
+
+if (!pdfPath || pageArgs.length === 0) {
+  console.error("Usage : deno run -A fixtures/serialize.ts <edition.pdf> <page> [page...]");
+  Deno.exit(1);
+}
+
+const pdfDoc = await getDocument({
+  data: await Deno.readFile(pdfPath),
+  useSystemFonts: true,
+}).promise;
+
+for (const pageNumber of pageArgs.map(Number)) {
+  const page = await pdfDoc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1.0 });
+  const textContent = await page.getTextContent();
+
+  const fixture = {
+    pageNumber,
+    width: viewport.width,
+    height: viewport.height,
+    styles: textContent.styles,
+    items: textContent.items.filter(item => "str" in item),
+  };
+
+  // Un élément par ligne : les diffs de fixtures restent lisibles
+  const items = fixture.items.map(item => `    ${JSON.stringify(item)}`).join(",\n");
+  const json = JSON.stringify({ ...fixture, items: [] }, null, 2)
+    .replace('"items": []', `"items": [\n${items}\n  ]`);
+
+  const target = new URL(`./page-${pageNumber}.json`, import.meta.url);
+  await Deno.writeTextFile(target, json + "\n");
+  console.log(`page ${pageNumber} : ${fixture.items.length} éléments -> ${target.pathname}`);
+}
@@ -1,6 +1,13 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
 import { getDocument } from "npm:pdfjs-dist@4.10.38";
+import type { PDFPageProxy } from "npm:pdfjs-dist@4.10.38";
+import { normalizeBounds, resolveJumps } from "./layout.ts";
+import type { PageLayout } from "./layout.ts";
+import { createPageInput, resolveStrategies, runPageStrategies } from "./strategies.ts";
+import type { ExtractionMode, ExtractionStrategy, PageExtraction, StrategyName } from "./strategies.ts";
+import { renderPageRenditions } from "../_shared/pageRenditions.ts";
+import { downloadEditionPdf } from "../_shared/editionPdf.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,111 +15,395 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-Deno.serve(async (req: Request) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { status: 200, headers: corsHeaders });
+// Marge sous la limite d'exécution des edge functions : au-delà, le job se relance lui-même
+const TIME_BUDGET_MS = 100_000;
+const STALE_AFTER_SECONDS = 120;
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+// En mode `fallback`, une page sous ce seuil passe à la stratégie suivante (OCR)
+const MIN_PAGE_CONFIDENCE = Number(Deno.env.get("EXTRACTION_MIN_CONFIDENCE") || "0.5");
+
+interface ExtractRequest {
+  action?: "start" | "resume";
+  editionId?: string;
+  pdfUrl?: string;
+  jobId?: string;
+  strategies?: string[];
+  mode?: ExtractionMode;
+}
+
+interface ExtractionJobRow {
+  id: string;
+  edition_id: string;
+  pdf_url: string;
+  strategies: string[] | null;
+  mode: ExtractionMode;
+}
+
+interface PageCheckpointRow {
+  page_number: number;
+  statut: "termine" | "echoue";
+  layout: PageLayout | null;
+  strategie: StrategyName | null;
+  erreur: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function isAuthorized(supabase: SupabaseClient, req: Request, serviceKey: string) {
+  const bearer = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+  if (!bearer) return { ok: false, userId: null };
+  if (bearer === serviceKey) return { ok: true, userId: null };
+
+  const { data: { user } } = await supabase.auth.getUser(bearer);
+  if (!user) return { ok: false, userId: null };
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  return { ok: profile?.role === "admin", userId: user.id };
+}
+
+async function processPage(
+  supabase: SupabaseClient,
+  page: PDFPageProxy,
+  editionId: string,
+  pageNum: number,
+  hasImage: boolean,
+  strategies: ExtractionStrategy[],
+  mode: ExtractionMode
+): Promise<PageExtraction> {
+  const extraction = await runPageStrategies(createPageInput(page, pageNum), strategies, {
+    mode,
+    minConfidence: MIN_PAGE_CONFIDENCE,
+  });
+
+  const selected = extraction.selected;
+  if (!selected?.layout) {
+    // Relancer le job après avoir configuré un moteur OCR ne retraite que ces pages
+    if (extraction.attempts.length === 0 && extraction.imageOnly) {
+      throw new Error("Page scannée sans couche texte : aucun moteur OCR configuré (TESSERACT_URL ou clés AWS)");
+    }
+    throw new Error(extraction.attempts.map(attempt => `${attempt.strategy}: ${attempt.error}`).join(" ; "));
   }
+  const layout = selected.layout;
+
+  // Les lignes `pages` peuvent déjà exister (téléversement admin, extraction précédente)
+  const { error: pageError } = await supabase
+    .from("pages")
+    .upsert({
+      edition_id: editionId,
+      page_number: pageNum,
+      image_only: extraction.imageOnly,
+      ocr_engine: selected.ocrWords ? selected.strategy : null,
+      ocr_words: (selected.ocrWords || []).map(word => ({
+        t: word.text,
+        x: round4(word.box.x),
+        y: round4(word.box.y),
+        w: round4(word.box.width),
+        h: round4(word.box.height),
+        c: round4(word.confidence),
+      })),
+      vision_api_response: {
+        imageOnly: extraction.imageOnly,
+        strategy: selected.strategy,
+        confidence: selected.confidence,
+        words: selected.words,
+        layout: summarizeLayout(layout),
+      },
+    }, { onConflict: "edition_id,page_number" });
 
-  try {
-    const supabaseClient = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-    );
+  if (pageError) {
+    throw new Error(`Erreur lors de l'enregistrement de la page ${pageNum}: ${pageError.message}`);
+  }
 
-    const { editionId, pdfUrl } = await req.json();
+  // Un échec de rendu ne doit pas bloquer l'extraction du texte
+  if (!hasImage) {
+    try {
+      const renditions = await renderPageRenditions(supabase, page, editionId, pageNum, pageNum === 1);
+      await supabase
+        .from("pages")
+        .update({
+          image_url: renditions.imagePath,
+          thumbnail_url: renditions.thumbnailUrl,
+          image_variants: renditions.variants,
+        })
+        .eq("edition_id", editionId)
+        .eq("page_number", pageNum);
 
-    if (!editionId || !pdfUrl) {
-      return new Response(
-        JSON.stringify({ error: "Missing editionId or pdfUrl" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      if (renditions.coverUrl) {
+        await supabase
+          .from("editions")
+          .update({ cover_image_url: renditions.coverUrl })
+          .eq("id", editionId);
+      }
+    } catch (renderError) {
+      console.error(`Error rendering page ${pageNum}:`, renderError);
     }
+  }
+
+  console.log(`Page ${pageNum} (${selected.strategy}, ${selected.confidence}): ${layout.blocks.length} blocks, ${layout.articles.length} articles`);
+  return extraction;
+}
+
+async function saveAttempts(supabase: SupabaseClient, jobId: string, pageNum: number, extraction: PageExtraction) {
+  const { error } = await supabase
+    .from("extraction_page_results")
+    .upsert(extraction.attempts.map(attempt => ({
+      job_id: jobId,
+      page_number: pageNum,
+      strategie: attempt.strategy,
+      confidence: attempt.confidence,
+      nb_mots: attempt.words,
+      nb_articles: attempt.layout?.articles.length ?? 0,
+      duree_ms: attempt.durationMs,
+      zones: (attempt.layout?.articles || []).map(article => ({
+        titre: article.title,
+        confidence: article.confidence,
+        bounds: normalizeBounds(article.box, attempt.layout!.width, attempt.layout!.height),
+      })),
+      retenu: attempt === extraction.selected,
+      erreur: attempt.error,
+    })), { onConflict: "job_id,page_number,strategie" });
+
+  if (error) {
+    console.error(`Error saving strategy results for page ${pageNum}:`, error);
+  }
+}
+
+async function saveArticles(
+  supabase: SupabaseClient,
+  editionId: string,
+  pageLayouts: PageLayout[],
+  pageStrategies: Map<number, StrategyName>
+) {
+  const { data: pages, error: pagesError } = await supabase
+    .from("pages")
+    .select("id, page_number")
+    .eq("edition_id", editionId);
+
+  if (pagesError) throw pagesError;
+  const pageIds = new Map((pages || []).map(page => [page.page_number, page.id]));
+
+  // Les suites (« suite page X ») ne sont connues qu'une fois toutes les pages analysées
+  const articles = resolveJumps(pageLayouts).filter(article => article.text.length > 100);
+
+  const rows = articles.map((article, i) => {
+    const wordsCount = article.text.split(/\s+/).filter(w => w.length > 0).length;
+
+    return {
+      page_id: pageIds.get(article.pageNumber),
+      titre: cleanTitle(article.title || article.text.substring(0, 100) + "..."),
+      sous_titre: article.lead,
+      auteur: article.author,
+      contenu_texte: article.text,
+      position_x: article.bounds.x,
+      position_y: article.bounds.y,
+      width: article.bounds.width,
+      height: article.bounds.height,
+      ordre_lecture: i + 1,
+      mots_count: wordsCount,
+      temps_lecture_estime: Math.ceil(wordsCount / 200) * 60,
+      confidence_score: article.confidence,
+      extraction_method: pageStrategies.get(article.pageNumber) ?? "pdfjs",
+      layout_metadata: {
+        kicker: article.kicker,
+        captions: article.captions,
+        blocks: article.blocks.map(block => ({ type: block.type, confidence: block.confidence })),
+        jumpTo: article.jumpTo ?? null,
+        continuedFrom: article.continuedFrom ?? null,
+        continuations: article.continuations,
+      },
+      valide: article.confidence >= 0.6,
+    };
+  }).filter(row => row.page_id);
+
+  // Suppression des anciens extraits et insertion dans la même transaction ; les corrections manuelles restent
+  const { data: inserted, error: replaceError } = await supabase.rpc("replace_extracted_articles", {
+    p_edition_id: editionId,
+    p_articles: rows,
+  });
+
+  if (replaceError) throw replaceError;
+  return (inserted as number) ?? 0;
+}
+
+async function runJob(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceKey: string,
+  jobId: string
+) {
+  const startedAt = Date.now();
+
+  const { data: job, error: jobError } = await supabase
+    .from("extraction_jobs")
+    .select("id, edition_id, pdf_url, strategies, mode")
+    .eq("id", jobId)
+    .single<ExtractionJobRow>();
+
+  if (jobError || !job) {
+    console.error("❌ Job introuvable:", jobId, jobError);
+    return;
+  }
 
-    console.log("Starting extraction for edition:", editionId);
-    console.log("PDF URL:", pdfUrl);
+  const editionId = job.edition_id;
+  const strategies = resolveStrategies(job.strategies);
 
-    await supabaseClient
+  try {
+    console.log(`Starting extraction job ${jobId} for edition ${editionId}: ${strategies.map(strategy => strategy.name).join(" > ")} (${job.mode})`);
+
+    await supabase
       .from("editions")
       .update({ statut: "processing", vision_api_processed: false })
       .eq("id", editionId);
 
-    console.log("Downloading PDF from:", pdfUrl);
-    const pdfResponse = await fetch(pdfUrl);
-    if (!pdfResponse.ok) {
-      throw new Error(`Failed to download PDF: ${pdfResponse.status} ${pdfResponse.statusText}`);
-    }
-    const pdfBuffer = await pdfResponse.arrayBuffer();
+    const pdfBuffer = await downloadEditionPdf(supabase, job.pdf_url);
     const pdfSizeMB = (pdfBuffer.byteLength / 1024 / 1024).toFixed(2);
     console.log("PDF downloaded successfully. Size:", pdfSizeMB, "MB");
-    
-    if (pdfBuffer.byteLength > 50 * 1024 * 1024) {
+
+    if (pdfBuffer.byteLength > MAX_PDF_BYTES) {
       throw new Error(`PDF too large (${pdfSizeMB}MB). Maximum size is 50MB`);
     }
 
-    console.log("Loading PDF document...");
-    const loadingTask = getDocument({
+    const pdfDoc = await getDocument({
       data: new Uint8Array(pdfBuffer),
       useSystemFonts: true,
-    });
-    
-    const pdfDoc = await loadingTask.promise;
+    }).promise;
     const numPages = pdfDoc.numPages;
-    console.log(`PDF has ${numPages} pages`);
 
-    let totalArticles = 0;
+    await supabase
+      .from("extraction_jobs")
+      .update({ total_pages: numPages, updated_at: new Date().toISOString() })
+      .eq("id", jobId);
+
+    // Les pages déjà extraites par une invocation précédente ne sont pas refaites ; celles en échec le sont
+    const { data: checkpoints, error: checkpointsError } = await supabase
+      .from("extraction_job_pages")
+      .select("page_number, statut")
+      .eq("job_id", jobId);
+
+    if (checkpointsError) throw checkpointsError;
+    const done = new Set(
+      (checkpoints || []).filter(checkpoint => checkpoint.statut === "termine").map(checkpoint => checkpoint.page_number)
+    );
+
+    const { data: existingPages } = await supabase
+      .from("pages")
+      .select("page_number, image_url")
+      .eq("edition_id", editionId);
+
+    const rendered = new Set(
+      (existingPages || []).filter(page => page.image_url).map(page => page.page_number)
+    );
 
     for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      if (done.has(pageNum)) continue;
+
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        console.log(`⏱️ Budget temps atteint, relance du job ${jobId}`);
+        // Libère le job pour que l'invocation suivante puisse le reprendre immédiatement
+        await supabase
+          .from("extraction_jobs")
+          .update({ statut: "en_attente", updated_at: new Date().toISOString() })
+          .eq("id", jobId);
+
+        await fetch(`${supabaseUrl}/functions/v1/extract-articles`, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${serviceKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ action: "resume", jobId }),
+        });
+        return;
+      }
+
       console.log(`Processing page ${pageNum}/${numPages}`);
-      
-      const page = await pdfDoc.getPage(pageNum);
-      const textContent = await page.getTextContent();
-      
-      const { data: pageData, error: pageError } = await supabaseClient
-        .from("pages")
-        .insert({
-          edition_id: editionId,
-          page_number: pageNum,
-          vision_api_response: { textItems: textContent.items.length },
-        })
-        .select()
-        .single();
 
-      if (pageError || !pageData) {
-        console.error("Error saving page:", pageError);
-        continue;
+      try {
+        const page = await pdfDoc.getPage(pageNum);
+        const extraction = await processPage(supabase, page, editionId, pageNum, rendered.has(pageNum), strategies, job.mode);
+        await saveAttempts(supabase, jobId, pageNum, extraction);
+
+        await supabase
+          .from("extraction_job_pages")
+          .upsert({
+            job_id: jobId,
+            page_number: pageNum,
+            statut: "termine",
+            layout: extraction.selected!.layout,
+            strategie: extraction.selected!.strategy,
+            erreur: null,
+            processed_at: new Date().toISOString(),
+          }, { onConflict: "job_id,page_number" });
+      } catch (pageError) {
+        console.error(`❌ Page ${pageNum} en échec:`, pageError);
+        await supabase
+          .from("extraction_job_pages")
+          .upsert({
+            job_id: jobId,
+            page_number: pageNum,
+            statut: "echoue",
+            layout: null,
+            strategie: null,
+            erreur: pageError instanceof Error ? pageError.message : String(pageError),
+            processed_at: new Date().toISOString(),
+          }, { onConflict: "job_id,page_number" });
       }
 
-      const articles = extractArticlesFromTextContent(textContent, page);
-      console.log(`Page ${pageNum}: ${articles.length} articles extracted`);
-
-      for (let i = 0; i < articles.length; i++) {
-        const article = articles[i];
-        const wordsCount = article.text.split(/\s+/).filter(w => w.length > 0).length;
-        const readingTime = Math.ceil(wordsCount / 200) * 60;
-
-        await supabaseClient.from("articles").insert({
-          edition_id: editionId,
-          page_id: pageData.id,
-          titre: article.title || `Article ${totalArticles + i + 1}`,
-          contenu_texte: article.text,
-          position_x: article.bounds.x,
-          position_y: article.bounds.y,
-          width: article.bounds.width,
-          height: article.bounds.height,
-          ordre_lecture: totalArticles + i + 1,
-          mots_count: wordsCount,
-          temps_lecture_estime: readingTime,
-          confidence_score: 0.95,
-          valide: true,
-        });
-      }
+      await supabase
+        .from("extraction_jobs")
+        .update({
+          page_courante: pageNum,
+          heartbeat_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", jobId);
+    }
 
-      totalArticles += articles.length;
+    const { data: results, error: resultsError } = await supabase
+      .from("extraction_job_pages")
+      .select("page_number, statut, layout, strategie, erreur")
+      .eq("job_id", jobId)
+      .order("page_number")
+      .returns<PageCheckpointRow[]>();
+
+    if (resultsError) throw resultsError;
+
+    const failed = (results || []).filter(result => result.statut === "echoue");
+    await supabase
+      .from("extraction_jobs")
+      .update({ nb_pages_echouees: failed.length, updated_at: new Date().toISOString() })
+      .eq("id", jobId);
+
+    // Articles écrits seulement sur une édition complète : relancer le job ne refait que les pages en échec
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length} page(s) en échec (page ${failed[0].page_number} : ${failed[0].erreur || "erreur inconnue"})`
+      );
     }
 
+    const completed = (results || []).filter(result => result.page_number <= numPages && result.layout);
+    const pageStrategies = new Map(completed.map(result => [result.page_number, result.strategie ?? "pdfjs"]));
+    const usedStrategies = new Set(pageStrategies.values());
+
+    const totalArticles = await saveArticles(
+      supabase,
+      editionId,
+      completed.map(result => result.layout as PageLayout),
+      pageStrategies
+    );
     console.log(`Extraction complete: ${totalArticles} total articles`);
 
-    await supabaseClient
+    await supabase
       .from("editions")
       .update({
         statut: "ready",
@@ -122,242 +413,121 @@ Deno.serve(async (req: Request) => {
       })
       .eq("id", editionId);
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        editionId,
-        pagesProcessed: numPages,
-        articlesExtracted: totalArticles,
-      }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    await supabase
+      .from("extraction_jobs")
+      .update({
+        statut: "termine",
+        methode: usedStrategies.size > 1 ? "mixte" : [...usedStrategies][0] ?? "pdfjs",
+        nb_articles: totalArticles,
+        finished_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId);
   } catch (error) {
-    console.error("Error in extract-articles:", error);
-    
-    try {
-      const { editionId } = await req.clone().json();
-      if (editionId) {
-        const supabaseClient = createClient(
-          Deno.env.get("SUPABASE_URL") ?? "",
-          Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-        );
-        await supabaseClient
-          .from("editions")
-          .update({ 
-            statut: "draft",
-            vision_api_error: error instanceof Error ? error.message : "Unknown error"
-          })
-          .eq("id", editionId);
-      }
-    } catch (updateError) {
-      console.error("Failed to update edition status:", updateError);
-    }
-    
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : "Unknown error",
-        details: error instanceof Error ? error.stack : undefined,
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
-});
+    console.error(`❌ Job ${jobId} interrompu:`, error);
+    const message = error instanceof Error ? error.message : String(error);
 
-function extractArticlesFromTextContent(textContent: any, page: any) {
-  const viewport = page.getViewport({ scale: 1.0 });
-  const pageWidth = viewport.width;
-  const pageHeight = viewport.height;
+    await supabase
+      .from("extraction_jobs")
+      .update({ statut: "echoue", erreur: message, updated_at: new Date().toISOString() })
+      .eq("id", jobId);
 
-  const items = textContent.items;
-  if (!items || items.length === 0) {
-    return [];
+    await supabase
+      .from("editions")
+      .update({ statut: "draft", vision_api_error: message })
+      .eq("id", editionId);
   }
+}
 
-  // Trier les items par position verticale puis horizontale
-  const sortedItems = [...items].sort((a, b) => {
-    const yA = a.transform[5];
-    const yB = b.transform[5];
-    if (Math.abs(yA - yB) > 5) {
-      return yB - yA; // Top vers bottom
-    }
-    return a.transform[4] - b.transform[4]; // Left vers right
-  });
-
-  // Détecter les colonnes
-  const columns = detectColumns(sortedItems, pageWidth);
-
-  // Grouper les items en paragraphes par colonne
-  const paragraphsByColumn = columns.map(column => {
-    return groupIntoParagraphs(column.items, pageWidth, pageHeight);
-  });
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
 
-  // Fusionner les paragraphes en articles
-  const allArticles: any[] = [];
-
-  paragraphsByColumn.forEach((paragraphs, colIndex) => {
-    let currentArticle: any = null;
-
-    for (const para of paragraphs) {
-      const isTitle = para.fontSize > 12 || para.isBold || para.text.length < 100;
-      const isSubtitle = para.fontSize > 10 && para.text.length < 150;
-
-      // Démarrer un nouvel article si:
-      // - C'est un titre (grand texte ou court)
-      // - Grand espacement vertical depuis le dernier paragraphe
-      // - Changement significatif de police
-      if (isTitle && (!currentArticle || para.yGap > 25)) {
-        if (currentArticle && currentArticle.text.length > 100) {
-          allArticles.push(currentArticle);
-        }
-
-        currentArticle = {
-          title: para.text,
-          text: para.text,
-          fontSize: para.fontSize,
-          minX: para.minX,
-          minY: para.minY,
-          maxX: para.maxX,
-          maxY: para.maxY,
-          column: colIndex,
-        };
-      } else if (currentArticle) {
-        // Ajouter au paragraphe existant
-        currentArticle.text += "\n\n" + para.text;
-        currentArticle.minX = Math.min(currentArticle.minX, para.minX);
-        currentArticle.minY = Math.min(currentArticle.minY, para.minY);
-        currentArticle.maxX = Math.max(currentArticle.maxX, para.maxX);
-        currentArticle.maxY = Math.max(currentArticle.maxY, para.maxY);
-      } else if (!isTitle && para.text.length > 50) {
-        // Créer un article pour un paragraphe orphelin
-        currentArticle = {
-          title: para.text.substring(0, 100) + "...",
-          text: para.text,
-          fontSize: para.fontSize,
-          minX: para.minX,
-          minY: para.minY,
-          maxX: para.maxX,
-          maxY: para.maxY,
-          column: colIndex,
-        };
-      }
-    }
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceKey);
 
-    if (currentArticle && currentArticle.text.length > 100) {
-      allArticles.push(currentArticle);
+    const auth = await isAuthorized(supabase, req, serviceKey);
+    if (!auth.ok) {
+      return jsonResponse({ success: false, error: "Accès réservé aux administrateurs" }, 403);
     }
-  });
-
-  // Convertir en format final avec coordonnées normalisées
-  return allArticles
-    .filter(article => article.text.length > 100)
-    .map(article => ({
-      title: cleanTitle(article.title),
-      text: article.text,
-      bounds: {
-        x: article.minX / pageWidth,
-        y: article.minY / pageHeight,
-        width: (article.maxX - article.minX) / pageWidth,
-        height: (article.maxY - article.minY) / pageHeight,
-      },
-    }));
-}
 
-function detectColumns(items: any[], pageWidth: number): any[] {
-  const xPositions = items.map(item => item.transform[4]).sort((a, b) => a - b);
+    const { action = "start", editionId, pdfUrl, jobId, strategies, mode = "fallback" }: ExtractRequest = await req.json();
+    let targetJobId = jobId;
 
-  if (xPositions.length === 0) return [{ items, minX: 0, maxX: pageWidth }];
+    if (action === "start") {
+      if (!editionId) {
+        return jsonResponse({ success: false, error: "editionId requis" }, 400);
+      }
 
-  // Détecter les gaps horizontaux significatifs (plus de 40px)
-  const gaps: number[] = [];
-  for (let i = 1; i < xPositions.length; i++) {
-    if (xPositions[i] - xPositions[i - 1] > 40) {
-      gaps.push((xPositions[i] + xPositions[i - 1]) / 2);
-    }
-  }
+      const { data: edition } = await supabase
+        .from("editions")
+        .select("pdf_url")
+        .eq("id", editionId)
+        .maybeSingle();
 
-  // Si pas de gap détecté, tout est dans une colonne
-  if (gaps.length === 0) {
-    return [{ items, minX: 0, maxX: pageWidth }];
-  }
+      const sourceUrl = pdfUrl || edition?.pdf_url;
+      if (!edition || !sourceUrl) {
+        return jsonResponse({ success: false, error: "Édition ou PDF introuvable" }, 404);
+      }
 
-  // Créer les colonnes basées sur les gaps
-  const boundaries = [0, ...gaps, pageWidth];
-  const columns: any[] = [];
+      const { data: job, error: createError } = await supabase.rpc("create_extraction_job", {
+        p_edition_id: editionId,
+        p_created_by: auth.userId,
+        p_pdf_url: sourceUrl,
+        p_strategies: resolveStrategies(strategies).map(strategy => strategy.name),
+        p_mode: mode === "compare" ? "compare" : "fallback",
+      });
 
-  for (let i = 0; i < boundaries.length - 1; i++) {
-    const minX = boundaries[i];
-    const maxX = boundaries[i + 1];
-    const columnItems = items.filter(item => {
-      const x = item.transform[4];
-      return x >= minX && x < maxX;
-    });
+      if (createError || !job) {
+        throw new Error(createError?.message || "Création du job impossible");
+      }
 
-    if (columnItems.length > 0) {
-      columns.push({ items: columnItems, minX, maxX });
+      targetJobId = job.id;
+    } else if (action !== "resume" || !jobId) {
+      return jsonResponse({ success: false, error: "Action invalide" }, 400);
     }
-  }
 
-  return columns;
-}
+    const { data: claimed } = await supabase.rpc("claim_extraction_job", {
+      p_job_id: targetJobId,
+      p_stale_after_seconds: STALE_AFTER_SECONDS,
+    });
 
-function groupIntoParagraphs(items: any[], pageWidth: number, pageHeight: number): any[] {
-  const paragraphs: any[] = [];
-  let currentPara: any = null;
-  let lastY = -1;
-
-  for (const item of items) {
-    const text = item.str?.trim();
-    if (!text) continue;
-
-    const transform = item.transform;
-    const x = transform[4];
-    const y = transform[5];
-    const fontSize = Math.abs(transform[0]);
-    const width = item.width || 0;
-    const height = item.height || fontSize;
-
-    const yGap = lastY >= 0 ? Math.abs(lastY - y) : 0;
-    const isBold = fontSize > 11 || (item.fontName && item.fontName.includes('Bold'));
-
-    // Nouveau paragraphe si:
-    // - Grand gap vertical (> 15px)
-    // - Différence de taille de police
-    const shouldBreak = yGap > 15 || (currentPara && Math.abs(fontSize - currentPara.fontSize) > 2);
-
-    if (shouldBreak && currentPara) {
-      if (currentPara.text.length > 20) {
-        paragraphs.push(currentPara);
-      }
-      currentPara = null;
+    if (claimed) {
+      EdgeRuntime.waitUntil(runJob(supabase, supabaseUrl, serviceKey, targetJobId!));
     }
 
-    if (!currentPara) {
-      currentPara = {
-        text: text,
-        fontSize,
-        isBold,
-        minX: x,
-        minY: y,
-        maxX: x + width,
-        maxY: y + height,
-        yGap,
-      };
-    } else {
-      currentPara.text += " " + text;
-      currentPara.minX = Math.min(currentPara.minX, x);
-      currentPara.minY = Math.min(currentPara.minY, y);
-      currentPara.maxX = Math.max(currentPara.maxX, x + width);
-      currentPara.maxY = Math.max(currentPara.maxY, y + height);
-    }
+    const { data: job } = await supabase
+      .from("extraction_jobs")
+      .select("*")
+      .eq("id", targetJobId)
+      .single();
 
-    lastY = y;
+    return jsonResponse({ success: true, claimed: !!claimed, job }, 202);
+  } catch (error) {
+    console.error("Error in extract-articles:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
   }
+});
 
-  if (currentPara && currentPara.text.length > 20) {
-    paragraphs.push(currentPara);
-  }
+function summarizeLayout(layout: PageLayout) {
+  return {
+    bodyFontSize: layout.bodyFontSize,
+    blocks: layout.blocks.map(block => ({
+      type: block.type,
+      confidence: block.confidence,
+      bounds: normalizeBounds(block.box, layout.width, layout.height),
+    })),
+  };
+}
 
-  return paragraphs;
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
 }
 
 function cleanTitle(title: string): string {
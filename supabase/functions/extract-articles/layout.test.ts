@@ -0,0 +1,104 @@
+import { assert, assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+import { analyzePageLayout, type PageLayout, resolveJumps } from "./layout.ts";
+import page1 from "./fixtures/page-1.json" with { type: "json" };
+import page3 from "./fixtures/page-3.json" with { type: "json" };
+
+/*
+  Les fixtures sont la sortie réelle de `page.getTextContent()` (pdf.js 4.10),
+  sérialisée par `fixtures/serialize.ts` à partir d'un PDF composé en trois
+  colonnes sur le modèle de l'édition, en polices PDF standard. pdf.js n'y
+  indique ni gras ni italique (`fontFamily` vaut `serif`) et insère des
+  éléments vides de fin de ligne : l'analyse ne doit compter sur aucun des deux.
+  Regénérer avec une édition publiée dès qu'on en a une sous la main.
+    - page 1 : article sur deux colonnes (surtitre, titre sur deux lignes,
+      signature, renvoi « Suite page 3 ») et article en troisième colonne
+      (signature de correspondant, légende photo, renvoi « Lire la suite en page 3 »)
+    - page 3 : les deux suites « Suite de la page 1 » et un article autonome
+*/
+
+function analyze(fixture: typeof page1): PageLayout {
+  return analyzePageLayout(fixture.items, fixture);
+}
+
+Deno.test("lit une page multi-colonnes colonne par colonne", () => {
+  const layout = analyze(page1);
+  const [budget, greve] = layout.articles;
+
+  assertEquals(layout.bodyFontSize, 9);
+  assertEquals(layout.articles.length, 2);
+  assert(budget.text.indexOf("Après trois semaines") < budget.text.indexOf("Les syndicats de la fonction publique"));
+  assert(!budget.text.includes("enseignants du secondaire"));
+  assert(greve.text.startsWith("Les enseignants du secondaire"));
+});
+
+Deno.test("écarte l'en-tête et le folio", () => {
+  const layout = analyze(page1);
+  const furniture = layout.blocks.filter(block => block.type === "furniture").map(block => block.text);
+
+  assertEquals(furniture, ["L'ENQUÊTEUR · Mardi 14 octobre 2025 · N° 1287", "1"]);
+  for (const article of layout.articles) {
+    assert(!article.text.includes("L'ENQUÊTEUR"));
+  }
+});
+
+Deno.test("reconnaît titres, surtitres et signatures", () => {
+  const [budget, greve] = analyze(page1).articles;
+
+  assertEquals(budget.kicker, "POLITIQUE");
+  assertEquals(budget.title, "Le budget 2026 adopté au forceps à l'Assemblée");
+  assertEquals(budget.author, "Awa Traoré");
+
+  assertEquals(greve.kicker, null);
+  assertEquals(greve.title, "Les enseignants en grève illimitée");
+  assertEquals(greve.author, "De notre correspondant à Sikasso");
+  assertEquals(greve.captions, ["Photo : Moussa Diallo. Piquet de grève devant le lycée Mamadou Konaté de Sikasso."]);
+
+  // La signature et la légende ne se retrouvent pas dans le texte
+  assert(!budget.text.includes("Awa Traoré"));
+  assert(!greve.text.includes("Moussa Diallo"));
+});
+
+Deno.test("extrait les renvois vers une autre page", () => {
+  const [budget, greve] = analyze(page1).articles;
+  const continuations = analyze(page3).articles.filter(article => article.continuedFrom);
+
+  assertEquals(budget.jumpTo, 3);
+  assertEquals(greve.jumpTo, 3);
+  assert(!budget.text.includes("Suite page"));
+  assert(!greve.text.includes("Lire la suite"));
+
+  assertEquals(continuations.length, 2);
+  for (const continuation of continuations) {
+    assertEquals(continuation.continuedFrom, 1);
+    assertEquals(continuation.title, null);
+    assertEquals(continuation.blocks[0].type, "jump");
+  }
+});
+
+Deno.test("rattache chaque suite à l'article qui y renvoie", () => {
+  const articles = resolveJumps([analyze(page1), analyze(page3)]);
+  const byTitle = new Map(articles.map(article => [article.title, article]));
+
+  assertEquals(articles.length, 3);
+  assert(articles.every(article => article.title !== null));
+
+  // Deux candidats renvoient vers la page 3 : les mots du titre départagent
+  const budget = byTitle.get("Le budget 2026 adopté au forceps à l'Assemblée")!;
+  assertEquals(budget.pageNumber, 1);
+  assertEquals(budget.continuations.map(continuation => continuation.pageNumber), [3]);
+  assertStringIncludes(budget.text, "\n\nLa saisine de la Cour constitutionnelle");
+
+  const greve = byTitle.get("Les enseignants en grève illimitée")!;
+  assertEquals(greve.continuations.map(continuation => continuation.pageNumber), [3]);
+  assertStringIncludes(greve.text, "\n\nAu ministère de l'Éducation");
+  assert(!greve.text.includes("Cour constitutionnelle"));
+
+  const djoliba = byTitle.get("Le Djoliba file en finale")!;
+  assertEquals(djoliba.pageNumber, 3);
+  assertEquals(djoliba.continuations, []);
+
+  for (const article of articles) {
+    const { x, y, width, height } = article.bounds;
+    assert(x >= 0 && y >= 0 && x + width <= 1 && y + height <= 1);
+  }
+});
@@ -0,0 +1,653 @@
+/*
+  Analyse de mise en page d'une page de journal
+
+  Entrée : les items de `page.getTextContent()` (pdf.js) et les dimensions de
+  la page. Le module ne dépend pas de pdf.js pour rester testable sur des
+  items sérialisés.
+
+  Étapes :
+    1. Les items deviennent des « spans » en coordonnées haut-gauche.
+    2. Découpage XY récursif sur les bandes de blanc : les gouttières
+       (coupes verticales) sont lues de gauche à droite, les interlignages
+       larges (coupes horizontales) de haut en bas. L'ordre des feuilles
+       donne l'ordre de lecture.
+    3. Chaque feuille est découpée en lignes puis en blocs (changement de
+       corps, de graisse ou espacement de paragraphe).
+    4. Chaque bloc est classé (titre, surtitre, chapô, signature, légende,
+       texte, renvoi, folio) avec une confiance entre 0 et 1.
+    5. Les blocs sont regroupés en articles ; les renvois « suite page X » /
+       « suite de la page X » sont résolus entre pages par `resolveJumps`.
+*/
+
+export interface PdfTextItem {
+  str?: string;
+  transform: number[];
+  width?: number;
+  height?: number;
+  fontName?: string;
+}
+
+export interface PdfTextStyle {
+  fontFamily?: string;
+}
+
+export interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export type BlockType =
+  | "headline"
+  | "kicker"
+  | "lead"
+  | "byline"
+  | "caption"
+  | "body"
+  | "jump"
+  | "furniture";
+
+export interface LayoutBlock {
+  type: BlockType;
+  text: string;
+  box: Box;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  lineCount: number;
+  confidence: number;
+  jumpTo?: number;
+  continuedFrom?: number;
+}
+
+export interface LayoutArticle {
+  title: string | null;
+  kicker: string | null;
+  lead: string | null;
+  author: string | null;
+  text: string;
+  box: Box;
+  captions: string[];
+  blocks: LayoutBlock[];
+  confidence: number;
+  jumpTo?: number;
+  continuedFrom?: number;
+}
+
+export interface PageLayout {
+  pageNumber: number;
+  width: number;
+  height: number;
+  bodyFontSize: number;
+  blocks: LayoutBlock[];
+  articles: LayoutArticle[];
+}
+
+export interface ArticleContinuation {
+  pageNumber: number;
+  bounds: NormalizedBounds;
+}
+
+export interface ResolvedArticle extends LayoutArticle {
+  pageNumber: number;
+  bounds: NormalizedBounds;
+  continuations: ArticleContinuation[];
+}
+
+export interface NormalizedBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Span {
+  text: string;
+  box: Box;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface Line {
+  spans: Span[];
+  text: string;
+  box: Box;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+const MAX_XY_DEPTH = 32;
+const HEADER_BAND = 0.06;
+const FOOTER_BAND = 0.05;
+
+const JUMP_TO_PATTERN = /\(?\s*(?:lire\s+la\s+)?suite\s+(?:en\s+|à\s+la\s+)?(?:page|p\.)\s*(\d{1,3})\s*\)?\s*$/i;
+const JUMP_FROM_PATTERN = /^\(?\s*suite\s+de\s+la\s+(?:page\s*(\d{1,3})|p\.\s*(\d{1,3})|une)\s*\)?/i;
+const BYLINE_PATTERN = /^(?:par|propos recueillis par|de notre (?:correspondant|envoyée?) (?:spécial(?:e)? )?(?:à|au|en)?)\s+\S/i;
+const CAPTION_PATTERN = /^(?:\(?photo|©|crédit|ph\s*:)/i;
+
+export function analyzePageLayout(
+  items: PdfTextItem[],
+  page: { pageNumber: number; width: number; height: number; styles?: Record<string, PdfTextStyle> }
+): PageLayout {
+  const spans = toSpans(items, page.height, page.styles || {});
+  const bodyFontSize = dominantFontSize(spans);
+
+  if (spans.length === 0) {
+    return { pageNumber: page.pageNumber, width: page.width, height: page.height, bodyFontSize, blocks: [], articles: [] };
+  }
+
+  const regions = xyCut(spans, bodyFontSize * 0.6, bodyFontSize * 0.5, 0);
+  const blocks = regions.flatMap(region => buildBlocks(buildLines(region), bodyFontSize));
+
+  classifyBlocks(blocks, bodyFontSize, page.height);
+
+  return {
+    pageNumber: page.pageNumber,
+    width: page.width,
+    height: page.height,
+    bodyFontSize,
+    blocks,
+    articles: assembleArticles(blocks, bodyFontSize),
+  };
+}
+
+export function normalizeBounds(box: Box, width: number, height: number): NormalizedBounds {
+  return {
+    x: clamp01(box.x0 / width),
+    y: clamp01(box.y0 / height),
+    width: clamp01((box.x1 - box.x0) / width),
+    height: clamp01((box.y1 - box.y0) / height),
+  };
+}
+
+/*
+  Rattache chaque article « suite de la page X » à l'article de la page X qui
+  renvoie vers la page courante. S'il y a plusieurs candidats, celui dont le
+  titre partage le plus de mots avec la suite l'emporte. Les suites sans
+  origine trouvée restent des articles à part entière.
+*/
+export function resolveJumps(pages: PageLayout[]): ResolvedArticle[] {
+  const resolved = pages.map(page =>
+    page.articles.map<ResolvedArticle>(article => ({
+      ...article,
+      pageNumber: page.pageNumber,
+      bounds: normalizeBounds(article.box, page.width, page.height),
+      continuations: [],
+    }))
+  );
+  const byPageNumber = new Map(pages.map((page, index) => [page.pageNumber, resolved[index]]));
+  const merged = new Set<ResolvedArticle>();
+
+  for (const pageArticles of resolved) {
+    for (const continuation of pageArticles) {
+      const sourcePage = continuation.continuedFrom;
+      if (!sourcePage || sourcePage === continuation.pageNumber) continue;
+
+      const candidates = (byPageNumber.get(sourcePage) || []).filter(article =>
+        article.jumpTo === continuation.pageNumber && !merged.has(article)
+      );
+      if (candidates.length === 0) continue;
+
+      const origin = candidates
+        .map(article => ({ article, score: sharedWords(article.title || "", `${continuation.title || ""} ${continuation.text.slice(0, 300)}`) }))
+        .sort((a, b) => b.score - a.score)[0].article;
+
+      origin.text += "\n\n" + continuation.text;
+      origin.captions.push(...continuation.captions);
+      origin.continuations.push({ pageNumber: continuation.pageNumber, bounds: continuation.bounds });
+      origin.confidence = round2((origin.confidence + continuation.confidence) / 2);
+      merged.add(continuation);
+    }
+  }
+
+  return resolved.flat().filter(article => !merged.has(article));
+}
+
+function toSpans(items: PdfTextItem[], pageHeight: number, styles: Record<string, PdfTextStyle>): Span[] {
+  const spans: Span[] = [];
+
+  for (const item of items) {
+    const text = item.str?.replace(/\s+/g, " ");
+    if (!text || !text.trim() || !item.transform) continue;
+
+    const [a, b, c, d, e, f] = item.transform;
+    // Texte vertical (marges, crédits photo) : ignoré par l'analyse
+    if (Math.abs(b) > Math.abs(a)) continue;
+
+    const fontSize = Math.hypot(c, d) || Math.hypot(a, b) || item.height || 0;
+    if (fontSize <= 0) continue;
+
+    const fontName = `${item.fontName || ""} ${styles[item.fontName || ""]?.fontFamily || ""}`;
+    const width = item.width || text.length * fontSize * 0.5;
+
+    spans.push({
+      text,
+      box: {
+        x0: e,
+        y0: pageHeight - f - fontSize * 0.8,
+        x1: e + width,
+        y1: pageHeight - f + fontSize * 0.2,
+      },
+      fontSize,
+      bold: /bold|black|heavy|demi|semibold/i.test(fontName),
+      italic: /italic|oblique/i.test(fontName),
+    });
+  }
+
+  return spans;
+}
+
+function dominantFontSize(spans: Span[]): number {
+  const weights = new Map<number, number>();
+  for (const span of spans) {
+    const size = Math.round(span.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + span.text.length);
+  }
+
+  let best = 10;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+// Coupe sur la plus large bande de blanc ; les gouttières passent avant les interlignes
+function xyCut(spans: Span[], minGapX: number, minGapY: number, depth: number): Span[][] {
+  if (spans.length <= 1 || depth >= MAX_XY_DEPTH) return [spans];
+
+  // Une région d'une seule ligne (un titre en gros corps) ne se coupe pas entre ses mots
+  const region = boxOf(spans);
+  const maxFontSize = Math.max(...spans.map(span => span.fontSize));
+  const xCut = region.y1 - region.y0 > maxFontSize * 1.5 ? largestGap(spans, "x", minGapX) : null;
+  if (xCut !== null) {
+    const left = spans.filter(span => (span.box.x0 + span.box.x1) / 2 < xCut);
+    const right = spans.filter(span => (span.box.x0 + span.box.x1) / 2 >= xCut);
+    return [...xyCut(left, minGapX, minGapY, depth + 1), ...xyCut(right, minGapX, minGapY, depth + 1)];
+  }
+
+  const yCut = largestGap(spans, "y", minGapY);
+  if (yCut !== null) {
+    const top = spans.filter(span => (span.box.y0 + span.box.y1) / 2 < yCut);
+    const bottom = spans.filter(span => (span.box.y0 + span.box.y1) / 2 >= yCut);
+    return [...xyCut(top, minGapX, minGapY, depth + 1), ...xyCut(bottom, minGapX, minGapY, depth + 1)];
+  }
+
+  return [spans];
+}
+
+function largestGap(spans: Span[], axis: "x" | "y", minGap: number): number | null {
+  const intervals = spans
+    .map(span => axis === "x" ? [span.box.x0, span.box.x1] : [span.box.y0, span.box.y1])
+    .sort((a, b) => a[0] - b[0]);
+
+  let maxEnd = intervals[0][1];
+  let bestSize = 0;
+  let bestAt: number | null = null;
+
+  for (let i = 1; i < intervals.length; i++) {
+    const gap = intervals[i][0] - maxEnd;
+    if (gap >= minGap && gap > bestSize) {
+      bestSize = gap;
+      bestAt = maxEnd + gap / 2;
+    }
+    maxEnd = Math.max(maxEnd, intervals[i][1]);
+  }
+
+  return bestAt;
+}
+
+function buildLines(spans: Span[]): Line[] {
+  const sorted = [...spans].sort((a, b) => a.box.y0 - b.box.y0 || a.box.x0 - b.box.x0);
+  const groups: Span[][] = [];
+
+  for (const span of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && verticalOverlap(boxOf(current), span.box) >= 0.5) {
+      current.push(span);
+    } else {
+      groups.push([span]);
+    }
+  }
+
+  return groups.map(group => {
+    const lineSpans = group.sort((a, b) => a.box.x0 - b.box.x0);
+    let text = "";
+    let previous: Span | null = null;
+
+    for (const span of lineSpans) {
+      const needsSpace = previous !== null &&
+        !text.endsWith(" ") &&
+        !span.text.startsWith(" ") &&
+        span.box.x0 - previous.box.x1 > previous.fontSize * 0.15;
+      text += (needsSpace ? " " : "") + span.text;
+      previous = span;
+    }
+
+    return {
+      spans: lineSpans,
+      text: text.trim(),
+      box: boxOf(lineSpans),
+      fontSize: weightedFontSize(lineSpans),
+      bold: majority(lineSpans, span => span.bold),
+      italic: majority(lineSpans, span => span.italic),
+    };
+  });
+}
+
+function buildBlocks(lines: Line[], bodyFontSize: number): LayoutBlock[] {
+  const blocks: LayoutBlock[] = [];
+  let current: Line[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const spans = current.flatMap(line => line.spans);
+    blocks.push({
+      type: "body",
+      text: joinLines(current.map(line => line.text)),
+      box: boxOf(spans),
+      fontSize: weightedFontSize(spans),
+      bold: majority(spans, span => span.bold),
+      italic: majority(spans, span => span.italic),
+      lineCount: current.length,
+      confidence: 0,
+    });
+    current = [];
+  };
+
+  for (const line of lines) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const sizeRatio = line.fontSize / previous.fontSize;
+      const gap = line.box.y0 - previous.box.y1;
+      const paragraphGap = Math.max(previous.fontSize, bodyFontSize) * 0.8;
+
+      if (sizeRatio > 1.12 || sizeRatio < 0.89 || line.bold !== previous.bold || gap > paragraphGap) {
+        flush();
+      }
+    }
+    current.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+function classifyBlocks(blocks: LayoutBlock[], bodyFontSize: number, pageHeight: number) {
+  for (const block of blocks) {
+    extractJumps(block);
+    Object.assign(block, classifyBlock(block, bodyFontSize, pageHeight));
+  }
+
+  // Surtitre : ligne courte juste au-dessus d'un titre, en plus petit
+  for (let i = 0; i < blocks.length - 1; i++) {
+    const block = blocks[i];
+    const next = blocks[i + 1];
+    if (next.type !== "headline" || !["body", "lead", "caption"].includes(block.type)) continue;
+    if (block.text.length > 90 || block.lineCount > 2 || block.fontSize >= next.fontSize) continue;
+    if (next.box.y0 - block.box.y1 > bodyFontSize * 2 || horizontalOverlap(block.box, next.box) <= 0) continue;
+    if (!block.bold && !isMostlyUppercase(block.text) && Math.abs(block.fontSize / bodyFontSize - 1) <= 0.1) continue;
+
+    block.type = "kicker";
+    block.confidence = isMostlyUppercase(block.text) ? 0.8 : 0.65;
+  }
+
+  // Chapô : premier bloc de texte après le titre (et sa signature), en gras ou plus grand
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i].type !== "headline") continue;
+
+    let j = i + 1;
+    while (j < blocks.length && ["headline", "byline"].includes(blocks[j].type)) j++;
+
+    const candidate = blocks[j];
+    if (
+      candidate &&
+      candidate.type === "body" &&
+      candidate.text.length < 600 &&
+      (candidate.bold || candidate.fontSize > bodyFontSize * 1.05)
+    ) {
+      candidate.type = "lead";
+      candidate.confidence = 0.6;
+    }
+  }
+}
+
+function extractJumps(block: LayoutBlock) {
+  const from = block.text.match(JUMP_FROM_PATTERN);
+  if (from) {
+    block.continuedFrom = from[1] || from[2] ? parseInt(from[1] || from[2]) : 1;
+    block.text = block.text.slice(from[0].length).trim();
+  }
+
+  const to = block.text.match(JUMP_TO_PATTERN);
+  if (to) {
+    block.jumpTo = parseInt(to[1]);
+    block.text = block.text.slice(0, to.index).trim();
+  }
+}
+
+function classifyBlock(block: LayoutBlock, bodyFontSize: number, pageHeight: number): Pick<LayoutBlock, "type" | "confidence"> {
+  const text = block.text;
+  const ratio = block.fontSize / bodyFontSize;
+
+  if ((block.jumpTo || block.continuedFrom) && text.length < 3) {
+    return { type: "jump", confidence: 0.95 };
+  }
+
+  const inHeader = block.box.y1 < pageHeight * HEADER_BAND;
+  const inFooter = block.box.y0 > pageHeight * (1 - FOOTER_BAND);
+  if (/^\d{1,3}$/.test(text) || ((inHeader || inFooter) && text.length < 120)) {
+    return { type: "furniture", confidence: inHeader || inFooter ? 0.9 : 0.6 };
+  }
+
+  if (BYLINE_PATTERN.test(text) && text.length < 80 && block.lineCount <= 2) {
+    return { type: "byline", confidence: ratio <= 1.2 ? 0.9 : 0.7 };
+  }
+
+  if (text.length < 250 && block.lineCount <= 4 && (ratio >= 1.4 || (ratio >= 1.15 && block.bold))) {
+    return { type: "headline", confidence: round2(Math.min(0.98, 0.55 + (ratio - 1) * 0.4 + (block.bold ? 0.1 : 0))) };
+  }
+
+  if (CAPTION_PATTERN.test(text) && text.length < 300) {
+    return { type: "caption", confidence: 0.85 };
+  }
+
+  if (text.length < 300 && block.lineCount <= 4 && (ratio < 0.92 || (block.italic && ratio <= 1))) {
+    return { type: "caption", confidence: round2(0.55 + (block.italic ? 0.15 : 0) + (ratio < 0.92 ? 0.1 : 0)) };
+  }
+
+  // Plus le corps est proche du corps dominant, plus le bloc est sûrement du texte courant
+  return { type: "body", confidence: round2(Math.max(0.5, 0.95 - Math.abs(ratio - 1) * 1.5)) };
+}
+
+function assembleArticles(blocks: LayoutBlock[], bodyFontSize: number): LayoutArticle[] {
+  const articles: LayoutArticle[] = [];
+  let current: LayoutArticle | null = null;
+  let headlineBox: Box | null = null;
+  let pendingKicker: LayoutBlock | null = null;
+  let lastType: BlockType | null = null;
+
+  const start = (block: LayoutBlock): LayoutArticle => {
+    const article: LayoutArticle = {
+      title: null,
+      kicker: pendingKicker?.text || null,
+      lead: null,
+      author: null,
+      text: "",
+      box: pendingKicker ? unionBox(pendingKicker.box, block.box) : { ...block.box },
+      captions: [],
+      blocks: pendingKicker ? [pendingKicker] : [],
+      confidence: 0,
+    };
+    pendingKicker = null;
+    articles.push(article);
+    return article;
+  };
+
+  const attach = (article: LayoutArticle, block: LayoutBlock) => {
+    article.blocks.push(block);
+    article.box = unionBox(article.box, block.box);
+    if (block.jumpTo) article.jumpTo = block.jumpTo;
+    if (block.continuedFrom && !article.continuedFrom) article.continuedFrom = block.continuedFrom;
+  };
+
+  // Un bloc de texte appartient à l'article en cours s'il est sous son titre et dans ses colonnes
+  const belongsToCurrent = (block: LayoutBlock) => {
+    if (!current) return false;
+    if (!headlineBox) return true;
+    const margin = bodyFontSize * 2;
+    return block.box.y0 >= headlineBox.y0 &&
+      block.box.x1 > headlineBox.x0 - margin &&
+      block.box.x0 < headlineBox.x1 + margin;
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "furniture":
+        break;
+
+      case "kicker":
+        pendingKicker = block;
+        break;
+
+      case "headline":
+        // Titre sur plusieurs blocs (ex. deux corps différents) : on complète le titre en cours
+        if (current && lastType === "headline" && current.text === "") {
+          current.title = `${current.title} ${block.text}`;
+          attach(current, block);
+          headlineBox = unionBox(headlineBox || block.box, block.box);
+          break;
+        }
+        current = start(block);
+        current.title = block.text;
+        headlineBox = { ...block.box };
+        attach(current, block);
+        break;
+
+      case "lead":
+        if (!current || !belongsToCurrent(block)) {
+          current = start(block);
+          headlineBox = null;
+        }
+        current.lead = current.lead ? `${current.lead} ${block.text}` : block.text;
+        attach(current, block);
+        break;
+
+      case "byline":
+        if (current && !current.author) {
+          current.author = block.text.replace(/^(?:par|propos recueillis par)\s+/i, "").trim();
+          attach(current, block);
+        }
+        break;
+
+      case "caption":
+        if (current) {
+          current.captions.push(block.text);
+          current.blocks.push(block);
+        }
+        break;
+
+      case "jump":
+        if (block.continuedFrom) {
+          current = start(block);
+          headlineBox = null;
+        }
+        if (current) attach(current, block);
+        break;
+
+      default:
+        if (!current || !belongsToCurrent(block) || (block.continuedFrom && current.text !== "")) {
+          current = start(block);
+          headlineBox = null;
+        }
+        current.text += (current.text ? "\n\n" : "") + block.text;
+        attach(current, block);
+    }
+
+    lastType = block.type;
+  }
+
+  return articles
+    .filter(article => article.text.length > 0)
+    .map(article => ({ ...article, confidence: articleConfidence(article) }));
+}
+
+function articleConfidence(article: LayoutArticle): number {
+  const scored = article.blocks.filter(block => block.type !== "caption");
+  const totalWeight = scored.reduce((sum, block) => sum + block.text.length, 0);
+  if (totalWeight === 0) return 0;
+
+  const mean = scored.reduce((sum, block) => sum + block.confidence * block.text.length, 0) / totalWeight;
+  return round2(article.title ? mean : mean * 0.75);
+}
+
+function joinLines(lines: string[]): string {
+  return lines.reduce((text, line) => {
+    if (!text) return line;
+    // Césure en fin de ligne : « gouver- / nement » devient « gouvernement »
+    if (/[a-zà-ÿ]-$/i.test(text) && /^[a-zà-ÿ]/.test(line)) {
+      return text.slice(0, -1) + line;
+    }
+    return `${text} ${line}`;
+  }, "");
+}
+
+function boxOf(spans: { box: Box }[]): Box {
+  return spans.reduce((box, span) => unionBox(box, span.box), { ...spans[0].box });
+}
+
+function unionBox(a: Box, b: Box): Box {
+  return {
+    x0: Math.min(a.x0, b.x0),
+    y0: Math.min(a.y0, b.y0),
+    x1: Math.max(a.x1, b.x1),
+    y1: Math.max(a.y1, b.y1),
+  };
+}
+
+function verticalOverlap(a: Box, b: Box): number {
+  const overlap = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+  const smallest = Math.min(a.y1 - a.y0, b.y1 - b.y0);
+  return smallest > 0 ? overlap / smallest : 0;
+}
+
+function horizontalOverlap(a: Box, b: Box): number {
+  return Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+}
+
+function weightedFontSize(spans: Span[]): number {
+  const chars = spans.reduce((sum, span) => sum + span.text.length, 0);
+  if (chars === 0) return spans[0]?.fontSize || 0;
+  return spans.reduce((sum, span) => sum + span.fontSize * span.text.length, 0) / chars;
+}
+
+function majority(spans: Span[], predicate: (span: Span) => boolean): boolean {
+  const chars = spans.reduce((sum, span) => sum + span.text.length, 0);
+  const matching = spans.filter(predicate).reduce((sum, span) => sum + span.text.length, 0);
+  return matching * 2 > chars;
+}
+
+function isMostlyUppercase(text: string): boolean {
+  const letters = text.replace(/[^a-zà-ÿ]/gi, "");
+  return letters.length > 0 && letters.replace(/[^A-ZÀ-Ý]/g, "").length / letters.length > 0.7;
+}
+
+function sharedWords(a: string, b: string): number {
+  const words = (value: string) => new Set(value.toLowerCase().split(/[^a-zà-ÿ0-9]+/).filter(word => word.length >= 4));
+  const other = words(b);
+  return [...words(a)].filter(word => other.has(word)).length;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,294 @@
+import type { RenderedPageImage } from "../_shared/pageRenditions.ts";
+import type { NormalizedBounds } from "./layout.ts";
+
+/*
+  Moteurs OCR
+
+  Les deux moteurs renvoient des lignes avec leurs mots, en coordonnées
+  normalisées (0-1, origine en haut à gauche) et une confiance 0-1 :
+    - `textract` : AWS Textract (DetectDocumentText), nécessite les clés AWS
+    - `tesseract` : serveur Tesseract auto-hébergé (`TESSERACT_URL`), utilisable
+      hors ligne. Le service reçoit l'image en multipart et renvoie la sortie
+      TSV de Tesseract dans `data.stdout`.
+*/
+
+export type OcrEngineName = "textract" | "tesseract";
+
+export interface OcrWord {
+  text: string;
+  box: NormalizedBounds;
+  confidence: number;
+}
+
+export interface OcrLine {
+  text: string;
+  box: NormalizedBounds;
+  confidence: number;
+  words: OcrWord[];
+}
+
+export interface OcrResult {
+  lines: OcrLine[];
+  confidence: number;
+}
+
+export interface OcrEngine {
+  name: OcrEngineName;
+  isAvailable(): boolean;
+  recognize(image: RenderedPageImage): Promise<OcrResult>;
+}
+
+// Modèles Tesseract à charger (`fra` doit être installé sur le serveur OCR)
+const OCR_LANGUAGES = (Deno.env.get("OCR_LANGUAGES") || "fra").split(",").map(lang => lang.trim()).filter(Boolean);
+// Limite des appels synchrones Textract
+const TEXTRACT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const tesseractEngine: OcrEngine = {
+  name: "tesseract",
+
+  isAvailable() {
+    return !!Deno.env.get("TESSERACT_URL");
+  },
+
+  async recognize(image) {
+    const form = new FormData();
+    form.append("file", image.blob, "page.png");
+    form.append("options", JSON.stringify({
+      languages: OCR_LANGUAGES,
+      // Mise en page automatique : les colonnes restent séparées dans la sortie
+      psm: 3,
+      configParams: { tessedit_create_tsv: "1" },
+    }));
+
+    const response = await fetch(`${Deno.env.get("TESSERACT_URL")!.replace(/\/$/, "")}/tesseract`, {
+      method: "POST",
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Tesseract error: ${response.status} - ${await response.text()}`);
+    }
+
+    const { data } = await response.json();
+    return parseTesseractTsv(data?.stdout || "", image.width, image.height);
+  },
+};
+
+export const textractEngine: OcrEngine = {
+  name: "textract",
+
+  isAvailable() {
+    return !!Deno.env.get("AWS_ACCESS_KEY_ID") && !!Deno.env.get("AWS_SECRET_ACCESS_KEY");
+  },
+
+  async recognize(image) {
+    if (image.blob.size > TEXTRACT_MAX_BYTES) {
+      throw new Error(`Image trop volumineuse pour Textract (${(image.blob.size / 1024 / 1024).toFixed(1)} Mo)`);
+    }
+
+    const bytes = await image.blob.arrayBuffer();
+    const response = await callTextract("Textract.DetectDocumentText", {
+      Document: { Bytes: arrayBufferToBase64(bytes) },
+    });
+    return parseTextractBlocks(response.Blocks || []);
+  },
+};
+
+function parseTesseractTsv(tsv: string, imageWidth: number, imageHeight: number): OcrResult {
+  const lines = new Map<string, OcrWord[]>();
+
+  for (const row of tsv.split("\n").slice(1)) {
+    const columns = row.split("\t");
+    if (columns.length < 12 || columns[0] !== "5") continue;
+
+    const [, , block, paragraph, line, , left, top, width, height, conf] = columns;
+    const text = normalizeOcrText(columns.slice(11).join("\t"));
+    const confidence = Number(conf);
+    if (!text || confidence < 0) continue;
+
+    const key = `${block}-${paragraph}-${line}`;
+    if (!lines.has(key)) lines.set(key, []);
+    lines.get(key)!.push({
+      text,
+      box: {
+        x: Number(left) / imageWidth,
+        y: Number(top) / imageHeight,
+        width: Number(width) / imageWidth,
+        height: Number(height) / imageHeight,
+      },
+      confidence: confidence / 100,
+    });
+  }
+
+  return toResult(Array.from(lines.values()).map(words => ({
+    text: words.map(word => word.text).join(" "),
+    box: unionBounds(words.map(word => word.box)),
+    confidence: mean(words.map(word => word.confidence)),
+    words,
+  })));
+}
+
+interface TextractBlock {
+  Id: string;
+  BlockType: string;
+  Text?: string;
+  Confidence?: number;
+  Geometry?: { BoundingBox?: { Left: number; Top: number; Width: number; Height: number } };
+  Relationships?: { Type: string; Ids: string[] }[];
+}
+
+function parseTextractBlocks(blocks: TextractBlock[]): OcrResult {
+  const byId = new Map(blocks.map(block => [block.Id, block]));
+
+  const lines = blocks
+    .filter(block => block.BlockType === "LINE" && block.Text && block.Geometry?.BoundingBox)
+    .map(block => {
+      const childIds = (block.Relationships || [])
+        .filter(relationship => relationship.Type === "CHILD")
+        .flatMap(relationship => relationship.Ids);
+
+      const words = childIds
+        .map(id => byId.get(id))
+        .filter((child): child is TextractBlock => child?.BlockType === "WORD" && !!child.Text)
+        .map(child => ({
+          text: normalizeOcrText(child.Text!),
+          box: textractBounds(child),
+          confidence: (child.Confidence || 0) / 100,
+        }));
+
+      return {
+        text: normalizeOcrText(block.Text!),
+        box: textractBounds(block),
+        confidence: (block.Confidence || 0) / 100,
+        words,
+      };
+    });
+
+  return toResult(lines);
+}
+
+// Ligatures et tirets de césure propres aux polices de presse : le texte OCR doit rester cherchable
+function normalizeOcrText(text: string): string {
+  return text
+    .normalize("NFC")
+    .trim()
+    .replace(/\uFB00/g, "ff")
+    .replace(/\uFB01/g, "fi")
+    .replace(/\uFB02/g, "fl")
+    .replace(/\uFB03/g, "ffi")
+    .replace(/\uFB04/g, "ffl")
+    .replace(/[\u00AC\u2010\u2011]$/, "-");
+}
+
+function textractBounds(block: TextractBlock): NormalizedBounds {
+  const bbox = block.Geometry?.BoundingBox;
+  return { x: bbox?.Left || 0, y: bbox?.Top || 0, width: bbox?.Width || 0, height: bbox?.Height || 0 };
+}
+
+function toResult(lines: OcrLine[]): OcrResult {
+  const weighted = lines.reduce((sum, line) => sum + line.confidence * line.text.length, 0);
+  const chars = lines.reduce((sum, line) => sum + line.text.length, 0);
+  return { lines, confidence: chars > 0 ? weighted / chars : 0 };
+}
+
+function unionBounds(boxes: NormalizedBounds[]): NormalizedBounds {
+  const x0 = Math.min(...boxes.map(box => box.x));
+  const y0 = Math.min(...boxes.map(box => box.y));
+  const x1 = Math.max(...boxes.map(box => box.x + box.width));
+  const y1 = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Requête AWS signée (Signature V4), sans SDK
+async function callTextract(target: string, body: unknown): Promise<{ Blocks?: TextractBlock[] }> {
+  const region = Deno.env.get("AWS_REGION") ?? "eu-north-1";
+  const accessKeyId = Deno.env.get("AWS_ACCESS_KEY_ID") ?? "";
+  const secretAccessKey = Deno.env.get("AWS_SECRET_ACCESS_KEY") ?? "";
+
+  const requestBody = JSON.stringify(body);
+  const timestamp = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const date = timestamp.substring(0, 8);
+  const host = `textract.${region}.amazonaws.com`;
+  const service = "textract";
+
+  const canonicalRequest = [
+    "POST",
+    "/",
+    "",
+    `host:${host}`,
+    `x-amz-date:${timestamp}`,
+    `x-amz-target:${target}`,
+    "",
+    "host;x-amz-date;x-amz-target",
+    await sha256(requestBody),
+  ].join("\n");
+
+  const credentialScope = `${date}/${region}/${service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    timestamp,
+    credentialScope,
+    await sha256(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = await getSignatureKey(secretAccessKey, date, region, service);
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  const response = await fetch(`https://${host}/`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-amz-json-1.1",
+      "X-Amz-Target": target,
+      "X-Amz-Date": timestamp,
+      "Authorization": [
+        "AWS4-HMAC-SHA256",
+        `Credential=${accessKeyId}/${credentialScope}`,
+        "SignedHeaders=host;x-amz-date;x-amz-target",
+        `Signature=${signature}`,
+      ].join(", "),
+    },
+    body: requestBody,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Textract API error: ${response.status} - ${await response.text()}`);
+  }
+
+  return response.json();
+}
+
+async function sha256(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(message)));
+}
+
+async function hmac(key: BufferSource, message: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return crypto.subtle.sign("HMAC", cryptoKey, new TextEncoder().encode(message));
+}
+
+async function getSignatureKey(key: string, dateStamp: string, regionName: string, serviceName: string): Promise<ArrayBuffer> {
+  const kDate = await hmac(new TextEncoder().encode("AWS4" + key), dateStamp);
+  const kRegion = await hmac(kDate, regionName);
+  const kService = await hmac(kRegion, serviceName);
+  return hmac(kService, "aws4_request");
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = "";
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return btoa(binary);
+}
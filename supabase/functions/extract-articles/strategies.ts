@@ -0,0 +1,272 @@
+import { OPS } from "npm:pdfjs-dist@4.10.38";
+import type { PDFPageProxy } from "npm:pdfjs-dist@4.10.38";
+import { analyzePageLayout } from "./layout.ts";
+import type { PageLayout, PdfTextItem } from "./layout.ts";
+import { tesseractEngine, textractEngine } from "./ocr.ts";
+import type { OcrEngine, OcrEngineName, OcrLine, OcrWord } from "./ocr.ts";
+import { renderPageImage } from "../_shared/pageRenditions.ts";
+import type { RenderedPageImage } from "../_shared/pageRenditions.ts";
+
+/*
+  Stratégies d'extraction
+
+  Une stratégie produit la mise en page (`PageLayout`) d'une page. Toutes
+  passent par la même segmentation (`analyzePageLayout`) : pdf.js lui fournit
+  la couche texte du PDF, les moteurs OCR des lignes reconnues sur le rendu de
+  la page. Les résultats sont donc notés de la même façon et comparables.
+
+  L'orchestrateur (`runPageStrategies`) essaie les stratégies dans l'ordre du
+  job :
+    - mode `fallback` : s'arrête à la première dont la confiance atteint le seuil
+    - mode `compare` : les exécute toutes, pour la comparaison côté admin
+  Dans les deux cas, la meilleure tentative est retenue (la première à
+  égalité, donc la moins coûteuse).
+
+  Les pages scannées (une image, pas de couche texte) sont détectées avant :
+  les stratégies texte y sont sautées et seul l'OCR est essayé.
+
+  Les zones manuelles (`ArticleZoneEditor`) ne sont pas une stratégie : elles
+  sont conservées par `replace_extracted_articles` et servent de référence
+  dans la comparaison.
+*/
+
+export type StrategyName = "pdfjs" | OcrEngineName;
+export type ExtractionMode = "fallback" | "compare";
+
+export const DEFAULT_STRATEGIES: StrategyName[] = ["pdfjs", "tesseract", "textract"];
+
+// Rendu envoyé à l'OCR : 300 dpi, plafonné pour les grands formats (mémoire de l'edge function)
+const OCR_DPI = 300;
+const OCR_MAX_IMAGE_WIDTH = 3600;
+// En dessous, la couche texte ne compte pas (folio, tampon ajoutés sur un scan)
+const MIN_TEXT_LAYER_CHARS = 50;
+const IMAGE_OPS = new Set([OPS.paintImageXObject, OPS.paintInlineImageXObject, OPS.paintImageXObjectRepeat]);
+
+export interface PageInput {
+  page: PDFPageProxy;
+  pageNumber: number;
+  width: number;
+  height: number;
+  // Résultats mis en cache : détection et stratégies successives ne refont ni l'extraction du texte ni le rendu
+  textContent(): Promise<PdfTextContent>;
+  image(): Promise<RenderedPageImage>;
+  imageOnly(): Promise<boolean>;
+}
+
+type PdfTextContent = Awaited<ReturnType<PDFPageProxy["getTextContent"]>>;
+
+interface StrategyOutput {
+  layout: PageLayout;
+  // Fiabilité du texte lui-même : 1 pour la couche texte du PDF, confiance moyenne pour l'OCR
+  textConfidence: number;
+  ocrWords?: OcrWord[];
+}
+
+export interface ExtractionStrategy {
+  name: StrategyName;
+  kind: "text" | "ocr";
+  isAvailable(): boolean;
+  extractPage(input: PageInput): Promise<StrategyOutput>;
+}
+
+export interface StrategyAttempt {
+  strategy: StrategyName;
+  layout: PageLayout | null;
+  confidence: number;
+  words: number;
+  durationMs: number;
+  error: string | null;
+  ocrWords: OcrWord[] | null;
+}
+
+export interface PageExtraction {
+  selected: StrategyAttempt | null;
+  attempts: StrategyAttempt[];
+  imageOnly: boolean;
+}
+
+export const pdfjsStrategy: ExtractionStrategy = {
+  name: "pdfjs",
+  kind: "text",
+
+  isAvailable() {
+    return true;
+  },
+
+  async extractPage({ pageNumber, width, height, textContent: getTextContent }) {
+    const textContent = await getTextContent();
+    const layout = analyzePageLayout(textContent.items as PdfTextItem[], {
+      pageNumber,
+      width,
+      height,
+      styles: textContent.styles,
+    });
+    return { layout, textConfidence: 1 };
+  },
+};
+
+function createOcrStrategy(engine: OcrEngine): ExtractionStrategy {
+  return {
+    name: engine.name,
+    kind: "ocr",
+
+    isAvailable() {
+      return engine.isAvailable();
+    },
+
+    async extractPage({ pageNumber, width, height, image }) {
+      const result = await engine.recognize(await image());
+      const layout = analyzePageLayout(ocrLinesToTextItems(result.lines, width, height), {
+        pageNumber,
+        width,
+        height,
+      });
+      return {
+        layout,
+        textConfidence: result.confidence,
+        ocrWords: result.lines.flatMap(line => line.words),
+      };
+    },
+  };
+}
+
+const STRATEGIES: Record<StrategyName, ExtractionStrategy> = {
+  pdfjs: pdfjsStrategy,
+  tesseract: createOcrStrategy(tesseractEngine),
+  textract: createOcrStrategy(textractEngine),
+};
+
+// Stratégies demandées et configurées sur ce serveur ; pdf.js en dernier recours
+export function resolveStrategies(names: string[] | null | undefined): ExtractionStrategy[] {
+  const resolved = (names && names.length > 0 ? names : DEFAULT_STRATEGIES)
+    .filter((name): name is StrategyName => name in STRATEGIES)
+    .map(name => STRATEGIES[name])
+    .filter(strategy => strategy.isAvailable());
+
+  return resolved.length > 0 ? resolved : [pdfjsStrategy];
+}
+
+export function createPageInput(page: PDFPageProxy, pageNumber: number): PageInput {
+  const viewport = page.getViewport({ scale: 1.0 });
+  let textContent: Promise<PdfTextContent> | null = null;
+  let rendered: Promise<RenderedPageImage> | null = null;
+  let imageOnly: Promise<boolean> | null = null;
+
+  const input: PageInput = {
+    page,
+    pageNumber,
+    width: viewport.width,
+    height: viewport.height,
+    textContent: () => {
+      textContent ??= page.getTextContent();
+      return textContent;
+    },
+    image: () => {
+      // Les dimensions PDF sont en points (1/72 de pouce)
+      const width = Math.min(OCR_MAX_IMAGE_WIDTH, Math.round((viewport.width / 72) * OCR_DPI));
+      rendered ??= renderPageImage(page, width);
+      return rendered;
+    },
+    imageOnly: () => {
+      imageOnly ??= detectImageOnly(input);
+      return imageOnly;
+    },
+  };
+
+  return input;
+}
+
+// Page scannée : presque pas de texte extractible, mais au moins une image dessinée
+async function detectImageOnly(input: PageInput): Promise<boolean> {
+  const { items } = await input.textContent();
+  const chars = items.reduce((sum, item) => sum + ("str" in item ? item.str.trim().length : 0), 0);
+  if (chars >= MIN_TEXT_LAYER_CHARS) return false;
+
+  const operators = await input.page.getOperatorList();
+  return operators.fnArray.some(fn => IMAGE_OPS.has(fn));
+}
+
+export async function runPageStrategies(
+  input: PageInput,
+  strategies: ExtractionStrategy[],
+  options: { mode: ExtractionMode; minConfidence: number }
+): Promise<PageExtraction> {
+  const attempts: StrategyAttempt[] = [];
+  const imageOnly = await input.imageOnly();
+
+  for (const strategy of strategies) {
+    if (imageOnly && strategy.kind === "text") continue;
+
+    const startedAt = Date.now();
+
+    try {
+      const { layout, textConfidence, ocrWords } = await strategy.extractPage(input);
+      attempts.push({
+        strategy: strategy.name,
+        layout,
+        confidence: scoreLayout(layout, textConfidence),
+        words: countWords(layout),
+        durationMs: Date.now() - startedAt,
+        error: null,
+        ocrWords: ocrWords ?? null,
+      });
+    } catch (error) {
+      console.error(`Strategy ${strategy.name} failed on page ${input.pageNumber}:`, error);
+      attempts.push({
+        strategy: strategy.name,
+        layout: null,
+        confidence: 0,
+        words: 0,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+        ocrWords: null,
+      });
+    }
+
+    const last = attempts[attempts.length - 1];
+    if (options.mode === "fallback" && last.layout && last.confidence >= options.minConfidence) {
+      break;
+    }
+  }
+
+  const selected = attempts
+    .filter(attempt => attempt.layout)
+    .reduce<StrategyAttempt | null>((best, attempt) => (!best || attempt.confidence > best.confidence ? attempt : best), null);
+
+  return { selected, attempts, imageOnly };
+}
+
+/*
+  Les mots OCR deviennent des items au format pdf.js. Un item par mot : une
+  ligne OCR qui enjambe une gouttière ne masque pas la colonne au découpage
+  XY. Tous les mots d'une ligne prennent la hauteur de la ligne comme corps
+  (seuls les rapports de taille comptent pour la segmentation) et partagent
+  sa ligne de base, placée comme pour une police réelle.
+*/
+export function ocrLinesToTextItems(lines: OcrLine[], width: number, height: number): PdfTextItem[] {
+  return lines.flatMap(line => {
+    const fontSize = line.box.height * height;
+    const baseline = height - line.box.y * height - fontSize * 0.8;
+    const words = line.words.length > 0 ? line.words : [{ text: line.text, box: line.box, confidence: line.confidence }];
+
+    return words.map(word => ({
+      str: word.text,
+      transform: [fontSize, 0, 0, fontSize, word.box.x * width, baseline],
+      width: word.box.width * width,
+      height: fontSize,
+    }));
+  });
+}
+
+// Confiance de page : confiance des articles pondérée par leur longueur, puis par la fiabilité du texte
+function scoreLayout(layout: PageLayout, textConfidence: number): number {
+  const chars = layout.articles.reduce((sum, article) => sum + article.text.length, 0);
+  if (chars === 0) return 0;
+
+  const weighted = layout.articles.reduce((sum, article) => sum + article.confidence * article.text.length, 0);
+  return Math.round((weighted / chars) * textConfidence * 100) / 100;
+}
+
+function countWords(layout: PageLayout): number {
+  return layout.blocks.reduce((sum, block) => sum + block.text.split(/\s+/).filter(Boolean).length, 0);
+}
@@ -1,5 +1,13 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  getFormulePrice,
+  invalidPromoCodeResponse,
+  quotePromoCode,
+  redeemPromoCode,
+  voidPaymentForPromo,
+} from "../_shared/promo.ts";
+import { getIPayBaseUrl, getIPaySecretKey } from "../_shared/ipay.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,17 +15,20 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const IPAY_API_URL = "https://i-pay.money/api/v1/payment-links";
-const IPAY_SECRET_KEY = "sk_11a35c3f7ab44dc79e38757fcd28ba82";
+const IPAY_API_URL = `${getIPayBaseUrl()}/api/v1/payment-links`;
+const IPAY_SECRET_KEY = getIPaySecretKey();
+// Durée de vie d'un lien : couvre les rappels de renouvellement (J-7 à l'échéance)
+const PAYMENT_LINK_TTL_HOURS = Number(Deno.env.get("PAYMENT_LINK_TTL_HOURS") || "168");
 
 interface PaymentLinkRequest {
   customer_name: string;
-  amount: number;
   currency: string;
   country: string;
   user_id: string;
   abonnement_id: string;
+  formule_id?: string;
   description?: string;
+  promo_code?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -29,9 +40,9 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { customer_name, amount, currency, country, user_id, abonnement_id, description }: PaymentLinkRequest = await req.json();
+    const { customer_name, currency, country, user_id, abonnement_id, formule_id, description, promo_code }: PaymentLinkRequest = await req.json();
 
-    if (!customer_name || !amount || !currency || !country || !user_id || !abonnement_id) {
+    if (!customer_name || !currency || !country || !user_id || !abonnement_id) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -52,8 +63,92 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // confirm_payment_secure a besoin de la formule pour calculer la nouvelle date de fin
+    let formuleId = formule_id || null;
+    if (!formuleId) {
+      const { data: abonnement } = await supabase
+        .from("abonnements")
+        .select("formule_id")
+        .eq("id", abonnement_id)
+        .maybeSingle();
+      formuleId = abonnement?.formule_id || null;
+    }
+
+    let amount = formuleId ? await getFormulePrice(supabase, formuleId) : null;
+
+    if (!formuleId || amount === null) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "formule_not_found",
+          message: "Formule introuvable pour cet abonnement",
+        }),
+        {
+          status: 404,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    if (promo_code) {
+      const quote = await quotePromoCode(supabase, promo_code, formuleId, user_id);
+      const message = !quote.valid
+        ? quote.error
+        : quote.montant_final === 0
+          ? "Ce code couvre la totalité du prix : utilisez le paiement en ligne"
+          : null;
+
+      if (message) {
+        return invalidPromoCodeResponse(message, 400, corsHeaders);
+      }
+      amount = quote.montant_final!;
+    }
+
     const externalReference = `ABN-${abonnement_id}`;
 
+    // Le paiement est créé et le code promo réservé avant de demander le lien à iPay :
+    // un code épuisé ne doit jamais produire un lien payable
+    const { data: paiement, error: paiementError } = await supabase
+      .from("paiements")
+      .insert({
+        user_id,
+        abonnement_id,
+        formule_id: formuleId,
+        montant_fcfa: amount,
+        methode_paiement: "iPayMoney-link",
+        ipay_transaction_id: externalReference,
+        country_code: country,
+        currency,
+        statut: "en_attente",
+        // Sans date, expire_pending_payments() l'expirerait au bout de 30 minutes
+        expires_at: new Date(Date.now() + PAYMENT_LINK_TTL_HOURS * 3600 * 1000).toISOString(),
+        notes: "Payment link requested",
+      })
+      .select()
+      .single();
+
+    if (paiementError || !paiement) {
+      throw new Error(`Failed to create payment: ${paiementError?.message}`);
+    }
+
+    if (promo_code) {
+      const redemption = await redeemPromoCode(supabase, promo_code, formuleId, user_id, paiement.id);
+      if (!redemption.valid) {
+        await voidPaymentForPromo(supabase, paiement.id, redemption.error);
+        return invalidPromoCodeResponse(redemption.error, 409, corsHeaders);
+      }
+    }
+
+    // Libère le code promo réservé : seul un paiement en attente ou confirmé le consomme
+    const failPayment = (notes: string) =>
+      supabase
+        .from("paiements")
+        .update({ statut: "echoue", notes })
+        .eq("id", paiement.id);
+
     const paymentLinkBody = {
       customer_name,
       amount: amount.toString(),
@@ -65,14 +160,20 @@ Deno.serve(async (req: Request) => {
 
     console.log("📤 Creating iPay payment link:", paymentLinkBody);
 
-    const ipayResponse = await fetch(IPAY_API_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${IPAY_SECRET_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(paymentLinkBody),
-    });
+    let ipayResponse: Response;
+    try {
+      ipayResponse = await fetch(IPAY_API_URL, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${IPAY_SECRET_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(paymentLinkBody),
+      });
+    } catch (fetchError) {
+      await failPayment("iPay injoignable");
+      throw fetchError;
+    }
 
     const responseData = await ipayResponse.json();
 
@@ -83,6 +184,7 @@ Deno.serve(async (req: Request) => {
     });
 
     if (!ipayResponse.ok) {
+      await failPayment(`Payment link failed - ${responseData.message || ipayResponse.status}`);
       return new Response(
         JSON.stringify({
           success: false,
@@ -100,29 +202,16 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { data: paiement, error: paiementError } = await supabase
+    await supabase
       .from("paiements")
-      .insert({
-        user_id,
-        abonnement_id,
-        montant_fcfa: amount,
-        methode_paiement: "iPayMoney-link",
+      .update({
         ipay_reference: responseData.reference || null,
-        ipay_transaction_id: externalReference,
-        country_code: country,
-        currency,
-        statut: "en_attente",
         notes: `Payment link created - ${responseData.status || 'pending'}`,
       })
-      .select()
-      .single();
-
-    if (paiementError) {
-      console.error("❌ Error creating paiement record:", paiementError);
-    }
+      .eq("id", paiement.id);
 
     await supabase.from("payment_api_logs").insert({
-      paiement_id: paiement?.id || null,
+      paiement_id: paiement.id,
       request_type: "create_link",
       request_url: IPAY_API_URL,
       request_body: paymentLinkBody,
@@ -147,7 +236,7 @@ Deno.serve(async (req: Request) => {
         reference: responseData.reference,
         external_reference: externalReference,
         message: "Lien de paiement créé avec succès",
-        paiement_id: paiement?.id,
+        paiement_id: paiement.id,
         debug_response: responseData,
       }),
       {
@@ -1,178 +1,272 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.57.4";
-import { getDocument } from "npm:pdfjs-dist@4.10.38";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { burnWatermark } from "../_shared/watermark.ts";
+import { getClientIp } from "../_shared/clientIp.ts";
+import {
+  TILES_BUCKET,
+  findPageSource,
+  getPageCount,
+  pickSourceWidth,
+  renderDocumentPage,
+} from "../_shared/pageTiles.ts";
+import type { PageSource, TileDocument } from "../_shared/pageTiles.ts";
+
+/*
+  Tuiles de page filigranées
+
+  Le PDF original ne quitte jamais le serveur : chaque page est servie comme
+  une image portant le filigrane visible et le code invisible de la session
+  de lecture, par une URL signée de courte durée. Une tuile est fabriquée une
+  fois par session, page et largeur, puis réutilisée.
+*/
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+// Le lecteur redemande une URL à chaque affichage de page : inutile de la garder plus longtemps
+const TILE_URL_TTL_SECONDS = 120;
+// Tuiles des sessions terminées, supprimées au fil des appels
+const DELIVERY_RETENTION_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 200;
+
+interface TileRequest {
+  token?: string;
+  sessionId?: string;
+  pageNumber?: number;
+  width?: number;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
+
+async function signTile(supabase: SupabaseClient, path: string) {
+  const { data, error } = await supabase.storage
+    .from(TILES_BUCKET)
+    .createSignedUrl(path, TILE_URL_TTL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Erreur lors de la signature de la tuile: ${error?.message}`);
+  }
+
+  return {
+    url: data.signedUrl,
+    expiresAt: new Date(Date.now() + TILE_URL_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+async function purgeExpiredDeliveries(supabase: SupabaseClient) {
+  const { data: expired } = await supabase
+    .from("page_tile_deliveries")
+    .select("id, path")
+    .lt("created_at", new Date(Date.now() - DELIVERY_RETENTION_MS).toISOString())
+    .limit(PURGE_BATCH_SIZE);
+
+  if (!expired?.length) return;
+
+  const { error } = await supabase.storage.from(TILES_BUCKET).remove(expired.map(row => row.path));
+  if (error) {
+    console.error("Purge des tuiles impossible:", error);
+    return;
+  }
+
+  await supabase.from("page_tile_deliveries").delete().in("id", expired.map(row => row.id));
+}
+
+async function loadSource(
+  supabase: SupabaseClient,
+  doc: TileDocument,
+  pageNumber: number,
+  width: number
+): Promise<PageSource> {
+  const cached = await findPageSource(supabase, doc, pageNumber, width);
+  if (cached) return cached;
+
+  const rendered = await renderDocumentPage(supabase, doc, pageNumber);
+  doc.nb_pages = rendered.totalPages;
+  EdgeRuntime.waitUntil(rendered.renderRemaining());
+
+  const source = rendered.variants.find(variant => variant.width === width);
+  if (!source) {
+    throw new Error(`Rendu de la page ${pageNumber} introuvable`);
+  }
+  return source;
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 200, headers: corsHeaders });
   }
 
   try {
-    const supabaseClient = createClient(
+    const supabase = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    const { token, pageNumber } = await req.json();
+    const { token, sessionId, pageNumber, width }: TileRequest = await req.json();
 
-    if (!token || !pageNumber) {
-      return new Response(
-        JSON.stringify({ error: "Missing token or pageNumber" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!token || !sessionId || !Number.isInteger(pageNumber) || pageNumber! < 1) {
+      return jsonResponse({ error: "token, sessionId et pageNumber requis" }, 400);
     }
 
-    // Valider le token
-    const { data: tokenData, error: tokenError } = await supabaseClient
+    const { data: tokenData, error: tokenError } = await supabase
       .from("tokens")
-      .select(`
-        *,
-        pdfs (url_fichier),
-        users (nom, numero_abonne)
-      `)
+      .select("id, pdf_id, user_id, expires_at, revoked, revoked_reason, users(nom, numero_abonne), pdfs(id, url_fichier, nb_pages)")
       .eq("token", token)
       .maybeSingle();
 
     if (tokenError || !tokenData) {
-      return new Response(
-        JSON.stringify({ error: "Invalid token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "Token invalide" }, 401);
     }
 
-    // Vérifier l'expiration
     if (new Date(tokenData.expires_at) < new Date()) {
-      return new Response(
-        JSON.stringify({ error: "Token expired" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "Ce lien a expiré" }, 403);
     }
 
-    // Vérifier si révoqué
     if (tokenData.revoked) {
-      return new Response(
-        JSON.stringify({ error: "Token revoked" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({
+        error: "Accès révoqué",
+        reason: tokenData.revoked_reason || "Partage de lien détecté",
+      }, 403);
     }
 
-    // Incrémenter le compteur d'accès
-    await supabaseClient
-      .from("tokens")
-      .update({
-        access_count: (tokenData.access_count || 0) + 1,
-        last_access_at: new Date().toISOString(),
-      })
-      .eq("id", tokenData.id);
-
-    // Récupérer le PDF
-    const { data: pdfData } = supabaseClient.storage
-      .from("secure-pdfs")
-      .getPublicUrl((tokenData as any).pdfs.url_fichier);
-
-    if (!pdfData) {
-      throw new Error("PDF not found");
+    const doc = tokenData.pdfs as unknown as TileDocument | null;
+    const user = tokenData.users as unknown as { nom: string; numero_abonne: string } | null;
+    if (!doc) {
+      return jsonResponse({ error: "Édition introuvable" }, 404);
     }
 
-    // Télécharger le PDF
-    const pdfResponse = await fetch(pdfData.publicUrl);
-    if (!pdfResponse.ok) {
-      throw new Error("Failed to download PDF");
+    // Seule une session admise par validate-edition-access pour ce lien reçoit des pages ;
+    // une session fermée (limite d'appareils, retrait par l'abonné) n'en reçoit plus
+    const { data: readingSession } = await supabase
+      .from("active_sessions")
+      .select("is_active")
+      .eq("session_id", sessionId)
+      .eq("token_id", tokenData.id)
+      .maybeSingle();
+
+    if (!readingSession) {
+      return jsonResponse({ error: "Session de lecture invalide", reason: "session_not_admitted" }, 403);
     }
 
-    const pdfBuffer = await pdfResponse.arrayBuffer();
+    if (!readingSession.is_active) {
+      return jsonResponse({ error: "Session de lecture fermée", reason: "session_ended" }, 403);
+    }
 
-    // Charger la page spécifique
-    const loadingTask = getDocument({
-      data: new Uint8Array(pdfBuffer),
-      useSystemFonts: true,
-    });
+    EdgeRuntime.waitUntil(purgeExpiredDeliveries(supabase));
 
-    const pdfDoc = await loadingTask.promise;
+    const sourceWidth = pickSourceWidth(width ?? 0);
 
-    if (pageNumber < 1 || pageNumber > pdfDoc.numPages) {
-      return new Response(
-        JSON.stringify({ error: "Invalid page number" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const { data: delivered } = await supabase
+      .from("page_tile_deliveries")
+      .select("path, width, height")
+      .eq("token_id", tokenData.id)
+      .eq("session_id", sessionId)
+      .eq("page_number", pageNumber!)
+      .eq("width", sourceWidth)
+      .maybeSingle();
+
+    if (delivered) {
+      return jsonResponse({
+        ...(await signTile(supabase, delivered.path)),
+        width: delivered.width,
+        height: delivered.height,
+        totalPages: await getPageCount(supabase, doc),
+      });
     }
 
-    const page = await pdfDoc.getPage(pageNumber);
+    const { data: registration, error: registrationError } = await supabase.rpc("register_watermark_session", {
+      p_token: token,
+      p_session_id: sessionId,
+      p_user_agent: req.headers.get("user-agent"),
+    });
 
-    // Render en canvas
-    const viewport = page.getViewport({ scale: 2.0 });
-    const canvas = new OffscreenCanvas(viewport.width, viewport.height);
-    const context = canvas.getContext("2d");
+    if (registrationError || !registration?.success) {
+      console.error("Watermark session error:", registrationError || registration?.error);
+      return jsonResponse({ error: "Session de lecture invalide" }, 403);
+    }
+
+    let source: PageSource;
+    try {
+      source = await loadSource(supabase, doc, pageNumber!, sourceWidth);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return jsonResponse({ error: error.message }, 400);
+      }
+      throw error;
+    }
 
+    const canvas = new OffscreenCanvas(source.width, source.height);
+    const context = canvas.getContext("2d");
     if (!context) {
       throw new Error("Failed to get canvas context");
     }
 
-    await page.render({
-      canvasContext: context as any,
-      viewport: viewport,
-    }).promise;
+    const bitmap = await createImageBitmap(source.blob);
+    context.drawImage(bitmap, 0, 0, source.width, source.height);
+    bitmap.close();
 
-    // Ajouter watermark côté serveur
-    const watermarkText = `${(tokenData as any).users.nom} - ${(tokenData as any).users.numero_abonne}`;
-    const timestamp = new Date().toLocaleString("fr-FR");
-
-    // Ajouter plusieurs watermarks semi-transparents
-    for (let i = 0; i < 5; i++) {
-      context.save();
-      context.globalAlpha = 0.1 + Math.random() * 0.05;
-      context.font = "bold 24px Arial";
-      context.fillStyle = "#FFD700";
-      context.textAlign = "center";
+    burnWatermark(context, source.width, source.height, {
+      userName: user?.nom ?? "",
+      userNumber: user?.numero_abonne ?? "",
+      sessionId,
+      code: Number(registration.code),
+      pageNumber: pageNumber!,
+    });
 
-      const x = Math.random() * viewport.width;
-      const y = Math.random() * viewport.height;
-      context.translate(x, y);
-      context.rotate((Math.random() - 0.5) * Math.PI / 3);
+    const tile = await canvas.convertToBlob({ type: "image/webp", quality: 0.9 });
+    const pageKey = String(pageNumber).padStart(3, "0");
+    const path = `served/${tokenData.id}/${sessionId}/page-${pageKey}-${source.width}.webp`;
 
-      context.fillText(watermarkText, 0, 0);
-      context.fillText(timestamp, 0, 30);
+    const { error: uploadError } = await supabase.storage
+      .from(TILES_BUCKET)
+      .upload(path, tile, { contentType: "image/webp", upsert: true });
 
-      context.restore();
+    if (uploadError) {
+      throw new Error(`Erreur lors de l'envoi de la tuile: ${uploadError.message}`);
     }
 
-    // Convertir en PNG
-    const blob = await canvas.convertToBlob({ type: "image/png" });
-    const imageData = await blob.arrayBuffer();
+    await supabase.from("page_tile_deliveries").upsert({
+      token_id: tokenData.id,
+      session_id: sessionId,
+      page_number: pageNumber,
+      width: source.width,
+      height: source.height,
+      path,
+      watermark_code: registration.code,
+    }, { onConflict: "token_id,session_id,page_number,width" });
 
-    // Logger l'accès
-    await supabaseClient.from("logs").insert({
+    // Seules les lignes `serveur` alimentent le score de confiance (risk_rule_events)
+    await supabase.from("logs").insert({
       pdf_id: tokenData.pdf_id,
       user_id: tokenData.user_id,
-      ip: req.headers.get("x-forwarded-for") || "unknown",
+      ip: getClientIp(req) || "unknown",
       user_agent: req.headers.get("user-agent") || "unknown",
       pages_vues: [pageNumber],
+      source: "serveur",
     });
 
-    return new Response(imageData, {
-      status: 200,
-      headers: {
-        ...corsHeaders,
-        "Content-Type": "image/png",
-        "Cache-Control": "private, no-cache, no-store, must-revalidate",
-        "Expires": "0",
-        "Pragma": "no-cache",
-      },
+    return jsonResponse({
+      ...(await signTile(supabase, path)),
+      width: source.width,
+      height: source.height,
+      totalPages: await getPageCount(supabase, doc),
     });
   } catch (error) {
     console.error("Error in generate-secure-page:", error);
-
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : "Unknown error",
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({
+      error: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
   }
 });
@@ -1,5 +1,13 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { getIPayBaseUrl, getIPaySecretKey } from "../_shared/ipay.ts";
+import {
+  getFormulePrice,
+  invalidPromoCodeResponse,
+  quotePromoCode,
+  redeemPromoCode,
+  voidPaymentForPromo,
+} from "../_shared/promo.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,8 +15,8 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const IPAY_API_URL = "https://i-pay.money/api/v1/payments";
-const IPAY_SECRET_KEY = "sk_11a35c3f7ab44dc79e38757fcd28ba82";
+const IPAY_API_URL = `${getIPayBaseUrl()}/api/v1/payments`;
+const IPAY_SECRET_KEY = getIPaySecretKey();
 
 type PaymentType = 'mobile' | 'card' | 'sta';
 
@@ -16,13 +24,13 @@ interface PaymentRequest {
   customer_name: string;
   currency: string;
   country: string;
-  amount: number;
   transaction_id: string;
   msisdn?: string;
   payment_type: PaymentType;
   user_id?: string;
   abonnement_id?: string;
-  formule_id?: string;
+  formule_id: string;
+  promo_code?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -35,9 +43,9 @@ Deno.serve(async (req: Request) => {
 
   try {
     const requestBody: PaymentRequest = await req.json();
-    const { customer_name, currency, country, amount, transaction_id, msisdn, payment_type, user_id, abonnement_id, formule_id } = requestBody;
+    const { customer_name, currency, country, transaction_id, msisdn, payment_type, user_id, abonnement_id, formule_id, promo_code } = requestBody;
 
-    if (!customer_name || !currency || !country || !amount || !transaction_id || !payment_type) {
+    if (!customer_name || !currency || !country || !formule_id || !transaction_id || !payment_type) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -75,6 +83,87 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    let amount = await getFormulePrice(supabase, formule_id);
+
+    if (amount === null) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "formule_not_found",
+          message: "Formule introuvable"
+        }),
+        {
+          status: 404,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    if (promo_code) {
+      // Sans compte, l'utilisation ne pourrait pas être enregistrée ni plafonnée
+      const quote = user_id
+        ? await quotePromoCode(supabase, promo_code, formule_id, user_id)
+        : { valid: false, error: "Connectez-vous pour utiliser un code promo" };
+      const message = !quote.valid
+        ? quote.error
+        : quote.montant_final === 0
+          ? "Ce code couvre la totalité du prix : utilisez le paiement en ligne"
+          : null;
+
+      if (message) {
+        return invalidPromoCodeResponse(message, 400, corsHeaders);
+      }
+      amount = quote.montant_final!;
+    }
+
+    let paiementId: string | null = null;
+
+    // Le paiement est créé et le code promo réservé avant l'appel à iPay :
+    // un code épuisé ne doit jamais produire une transaction payable
+    if (user_id) {
+      const expiresAt = new Date();
+      expiresAt.setMinutes(expiresAt.getMinutes() + 30);
+
+      const paiementData = {
+        user_id,
+        abonnement_id,
+        formule_id,
+        montant_fcfa: amount,
+        methode_paiement: `iPayMoney-${payment_type}`,
+        ipay_transaction_id: transaction_id,
+        reference_transaction: transaction_id,
+        country_code: country,
+        currency,
+        expires_at: expiresAt.toISOString(),
+        statut: "en_attente",
+        notes: `Payment via iPayMoney (${payment_type}) - initiating`,
+        ...(msisdn ? { msisdn } : {}),
+      };
+
+      const { data: paiement, error: paiementError } = await supabase
+        .from("paiements")
+        .insert(paiementData)
+        .select()
+        .single();
+
+      if (paiementError || !paiement) {
+        throw new Error(`Failed to create payment: ${paiementError?.message}`);
+      }
+
+      paiementId = paiement.id;
+
+      if (promo_code) {
+        const redemption = await redeemPromoCode(supabase, promo_code, formule_id, user_id, paiement.id);
+        if (!redemption.valid) {
+          await voidPaymentForPromo(supabase, paiement.id, redemption.error);
+          return invalidPromoCodeResponse(redemption.error, 409, corsHeaders);
+        }
+      }
+    }
+
     const startTime = Date.now();
 
     const paymentBody: Record<string, string> = {
@@ -98,16 +187,28 @@ Deno.serve(async (req: Request) => {
       body: paymentBody,
     });
 
-    const ipayResponse = await fetch(IPAY_API_URL, {
-      method: "POST",
-      headers: {
-        "Ipay-Payment-Type": payment_type,
-        "Ipay-Target-Environment": "live",
-        "Authorization": `Bearer ${IPAY_SECRET_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(paymentBody),
-    });
+    let ipayResponse: Response;
+    try {
+      ipayResponse = await fetch(IPAY_API_URL, {
+        method: "POST",
+        headers: {
+          "Ipay-Payment-Type": payment_type,
+          "Ipay-Target-Environment": "live",
+          "Authorization": `Bearer ${IPAY_SECRET_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(paymentBody),
+      });
+    } catch (fetchError) {
+      // Libère le code promo réservé : seul un paiement en attente ou confirmé le consomme
+      if (paiementId) {
+        await supabase
+          .from("paiements")
+          .update({ statut: "echoue", notes: "iPay injoignable" })
+          .eq("id", paiementId);
+      }
+      throw fetchError;
+    }
 
     const responseTime = Date.now() - startTime;
     const responseData = await ipayResponse.json();
@@ -118,41 +219,17 @@ Deno.serve(async (req: Request) => {
       data: responseData,
     });
 
-    let paiementId: string | null = null;
-
-    if (user_id) {
-      const expiresAt = new Date();
-      expiresAt.setMinutes(expiresAt.getMinutes() + 30);
-
-      const paiementData: any = {
-        user_id,
-        abonnement_id,
-        formule_id,
-        montant_fcfa: amount,
-        methode_paiement: `iPayMoney-${payment_type}`,
-        ipay_transaction_id: transaction_id,
-        reference_transaction: responseData.reference || transaction_id,
-        ipay_status: responseData.status || null,
-        country_code: country,
-        currency,
-        expires_at: expiresAt.toISOString(),
-        statut: ipayResponse.ok ? "en_attente" : "echoue",
-        notes: `Payment via iPayMoney (${payment_type}) - ${responseData.status || 'initiated'}`,
-      };
-
-      if (msisdn) {
-        paiementData.msisdn = msisdn;
-      }
-
-      const { data: paiement, error: paiementError } = await supabase
+    if (paiementId) {
+      // Un échec iPay passe le paiement en `echoue`, ce qui libère aussi le code promo
+      await supabase
         .from("paiements")
-        .insert(paiementData)
-        .select()
-        .single();
-
-      if (!paiementError && paiement) {
-        paiementId = paiement.id;
-      }
+        .update({
+          reference_transaction: responseData.reference || transaction_id,
+          ipay_status: responseData.status || null,
+          statut: ipayResponse.ok ? "en_attente" : "echoue",
+          notes: `Payment via iPayMoney (${payment_type}) - ${responseData.status || 'initiated'}`,
+        })
+        .eq("id", paiementId);
     }
 
     await supabase.from("payment_api_logs").insert({
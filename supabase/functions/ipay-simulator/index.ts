@@ -0,0 +1,439 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { isIPaySimulator } from "../_shared/ipay.ts";
+import {
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signIPayPayload,
+} from "../_shared/ipay-signature.ts";
+
+/*
+  Simulateur iPay
+
+  Reproduit les routes d'iPay utilisées par l'application, sous
+  `/functions/v1/ipay-simulator` :
+
+    POST /api/v1/payments                              paiement mobile (initiate-payment)
+    GET  /api/v1/payments/:reference                   statut (check-payment-status, reconcile)
+    POST /api/v1/payment-links                         lien de paiement (generate-payment-link)
+    POST /api/sdk/payment_pages/create_payment_token   page de paiement (IPayCheckout)
+    GET  /api/sdk/payment_pages?token=...              page de paiement simulée
+
+  et ajoute une route de pilotage pour les scénarios scriptés :
+
+    POST /_simulator/transactions/:reference/resolve   { "outcome": "failed" }
+
+  Scénarios : `succeeded`, `failed`, `pending` (jamais résolu),
+  `delayed_webhook` (payé, callback envoyé en retard) et `duplicate_webhook`
+  (callback envoyé deux fois, puis rejoué à l'identique).
+
+  Le scénario d'un paiement mobile est choisi par l'en-tête
+  `X-IPay-Simulator-Outcome`, puis par les numéros de test iPay
+  (voir `IPAY_TEST_NUMBERS`), puis par `IPAY_SIMULATOR_OUTCOME`.
+
+  Le simulateur ne répond que si `IPAY_MODE=simulator` : il signe des
+  callbacks valides et ne doit jamais être actif en production.
+*/
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, Ipay-Payment-Type, Ipay-Target-Environment, X-IPay-Simulator-Outcome",
+};
+
+const OUTCOMES = ["succeeded", "failed", "pending", "delayed_webhook", "duplicate_webhook"] as const;
+type Outcome = typeof OUTCOMES[number];
+
+const WEBHOOK_DELAY_MS = Number(Deno.env.get("IPAY_SIMULATOR_WEBHOOK_DELAY_MS") || "2000");
+const LATE_WEBHOOK_DELAY_MS = Number(Deno.env.get("IPAY_SIMULATOR_LATE_WEBHOOK_DELAY_MS") || "60000");
+
+// Mêmes numéros que la sandbox iPay (src/lib/ipay.ts)
+const TEST_NUMBER_OUTCOMES: Record<string, Outcome> = {
+  "40410000000": "succeeded",
+  "40410000001": "succeeded",
+  "40410000002": "failed",
+  "40410000003": "failed",
+  "40410000004": "failed",
+  "40410000005": "failed",
+  "40410000006": "failed",
+  "40410000007": "failed",
+  "40410000008": "pending",
+  "40410000009": "pending",
+};
+
+interface SimulatedTransaction {
+  id: string;
+  reference: string;
+  kind: "payment" | "link" | "page";
+  transaction_id: string | null;
+  external_reference: string | null;
+  amount: number;
+  currency: string | null;
+  msisdn: string | null;
+  customer_name: string | null;
+  outcome: Outcome;
+  status: "pending" | "succeeded" | "failed";
+  webhook_count: number;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function htmlResponse(html: string, status = 200) {
+  return new Response(html, {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function parseOutcome(value: string | null | undefined): Outcome | null {
+  return OUTCOMES.includes(value as Outcome) ? value as Outcome : null;
+}
+
+function defaultOutcome(): Outcome {
+  return parseOutcome(Deno.env.get("IPAY_SIMULATOR_OUTCOME")) || "succeeded";
+}
+
+function generateReference(): string {
+  return `SIM-${Date.now()}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// `id` vient du chemin de la requête : jamais interpolé dans un filtre `.or()`
+async function findTransaction(supabase: SupabaseClient, id: string) {
+  for (const column of ["reference", "transaction_id"]) {
+    const { data } = await supabase
+      .from("ipay_simulator_transactions")
+      .select("*")
+      .eq(column, id)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle<SimulatedTransaction>();
+    if (data) return data;
+  }
+  return null;
+}
+
+function toIPayStatus(transaction: SimulatedTransaction) {
+  return {
+    reference: transaction.reference,
+    external_reference: transaction.external_reference,
+    transaction_id: transaction.transaction_id,
+    status: transaction.status,
+    amount: transaction.amount,
+    currency: transaction.currency,
+    msisdn: transaction.msisdn,
+  };
+}
+
+async function buildSignedWebhook(transaction: SimulatedTransaction) {
+  const body = JSON.stringify({
+    ...toIPayStatus(transaction),
+    amount: String(transaction.amount),
+    customer_name: transaction.customer_name,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const nonce = crypto.randomUUID();
+  const signature = await signIPayPayload(
+    Deno.env.get("IPAY_WEBHOOK_SECRET") || "",
+    timestamp,
+    nonce,
+    body
+  );
+
+  return {
+    body,
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${Deno.env.get("SUPABASE_ANON_KEY") || ""}`,
+      [SIGNATURE_HEADER]: signature,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [NONCE_HEADER]: nonce,
+    },
+  };
+}
+
+async function postWebhook(
+  supabase: SupabaseClient,
+  transaction: SimulatedTransaction,
+  request: { body: string; headers: Record<string, string> }
+) {
+  const webhookUrl = Deno.env.get("IPAY_SIMULATOR_WEBHOOK_URL")
+    || `${Deno.env.get("SUPABASE_URL")}/functions/v1/ipay-webhook`;
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: request.headers,
+      body: request.body,
+    });
+    console.log(`📤 [ipay-simulator] webhook ${transaction.reference} -> ${response.status}`, await response.text());
+  } catch (error) {
+    console.error(`❌ [ipay-simulator] webhook ${transaction.reference} failed:`, error);
+  }
+
+  await supabase
+    .from("ipay_simulator_transactions")
+    .update({
+      webhook_count: transaction.webhook_count + 1,
+      last_webhook_at: new Date().toISOString(),
+    })
+    .eq("id", transaction.id);
+  transaction.webhook_count++;
+}
+
+async function deliverWebhooks(supabase: SupabaseClient, transaction: SimulatedTransaction) {
+  switch (transaction.outcome) {
+    case "pending":
+      return;
+
+    case "delayed_webhook":
+      // Le statut est déjà `succeeded` : la réconciliation doit pouvoir confirmer avant le callback
+      await sleep(LATE_WEBHOOK_DELAY_MS);
+      await postWebhook(supabase, transaction, await buildSignedWebhook(transaction));
+      return;
+
+    case "duplicate_webhook": {
+      await sleep(WEBHOOK_DELAY_MS);
+      const first = await buildSignedWebhook(transaction);
+      await postWebhook(supabase, transaction, first);
+      // Même événement avec un nouveau nonce (doublon), puis requête identique (rejeu)
+      await postWebhook(supabase, transaction, await buildSignedWebhook(transaction));
+      await postWebhook(supabase, transaction, first);
+      return;
+    }
+
+    default:
+      await sleep(WEBHOOK_DELAY_MS);
+      await postWebhook(supabase, transaction, await buildSignedWebhook(transaction));
+  }
+}
+
+async function resolveTransaction(
+  supabase: SupabaseClient,
+  transaction: SimulatedTransaction,
+  outcome: Outcome
+) {
+  const status = outcome === "pending" ? "pending" : outcome === "failed" ? "failed" : "succeeded";
+
+  const { data: updated, error } = await supabase
+    .from("ipay_simulator_transactions")
+    .update({ outcome, status, updated_at: new Date().toISOString() })
+    .eq("id", transaction.id)
+    .select("*")
+    .single<SimulatedTransaction>();
+
+  if (error || !updated) {
+    throw new Error(`Mise à jour de la transaction simulée impossible: ${error?.message}`);
+  }
+
+  EdgeRuntime.waitUntil(deliverWebhooks(supabase, updated));
+  return updated;
+}
+
+async function createTransaction(
+  supabase: SupabaseClient,
+  fields: Partial<SimulatedTransaction> & Pick<SimulatedTransaction, "kind">
+) {
+  const { data, error } = await supabase
+    .from("ipay_simulator_transactions")
+    .insert({
+      reference: generateReference(),
+      outcome: defaultOutcome(),
+      status: "pending",
+      ...fields,
+    })
+    .select("*")
+    .single<SimulatedTransaction>();
+
+  if (error || !data) {
+    throw new Error(`Création de la transaction simulée impossible: ${error?.message}`);
+  }
+  return data;
+}
+
+function renderPaymentPage(transaction: SimulatedTransaction, baseUrl: string) {
+  const buttons = OUTCOMES.map((outcome) => `
+        <button name="outcome" value="${outcome}" class="${outcome === "failed" ? "secondary" : ""}">${outcome}</button>`).join("");
+
+  return `<!doctype html>
+<html lang="fr">
+  <head>
+    <meta charset="utf-8" />
+    <title>iPay (simulateur)</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #111827; color: #f9fafb; display: flex; justify-content: center; padding: 2rem; }
+      form { background: #1f2937; border: 1px solid #374151; border-radius: 0.75rem; padding: 1.5rem; max-width: 24rem; width: 100%; }
+      h1 { font-size: 1.1rem; margin: 0 0 1rem; color: #f59e0b; }
+      p { color: #d1d5db; font-size: 0.9rem; }
+      button { display: block; width: 100%; margin-top: 0.5rem; padding: 0.6rem; border: 0; border-radius: 0.5rem; background: #f59e0b; color: #000; font-weight: 600; cursor: pointer; }
+      button.secondary { background: #374151; color: #f9fafb; }
+    </style>
+  </head>
+  <body>
+    <form method="post" action="${baseUrl}/api/sdk/payment_pages/complete">
+      <h1>Paiement simulé</h1>
+      <p>Référence : <code>${escapeHtml(transaction.reference)}</code></p>
+      <p>Montant : <strong>${transaction.amount} ${escapeHtml(transaction.currency || "XOF")}</strong></p>
+      <input type="hidden" name="reference" value="${escapeHtml(transaction.reference)}" />
+      ${buttons}
+    </form>
+  </body>
+</html>`;
+}
+
+function renderResultPage(transaction: SimulatedTransaction) {
+  // Même message que la page iPay réelle, écouté par IPayCheckout
+  const message = JSON.stringify({
+    type: "payment.response",
+    other: { status: transaction.status, reference: transaction.reference },
+  });
+
+  return `<!doctype html>
+<html lang="fr">
+  <body style="font-family: system-ui, sans-serif; background: #111827; color: #f9fafb; padding: 2rem;">
+    <p>Paiement simulé : <strong>${escapeHtml(transaction.outcome)}</strong> (${escapeHtml(transaction.status)})</p>
+    <script>window.parent && window.parent.postMessage(${message}, "*");</script>
+  </body>
+</html>`;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (!isIPaySimulator()) {
+    return jsonResponse({ success: false, error: "simulator_disabled", message: "IPAY_MODE=simulator requis" }, 404);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const baseUrl = `${supabaseUrl}/functions/v1/ipay-simulator`;
+
+    const url = new URL(req.url);
+    const path = url.pathname.replace(/^.*?\/ipay-simulator/, "") || "/";
+    const segments = path.split("/").filter(Boolean);
+
+    // POST /api/v1/payments : paiement mobile résolu immédiatement selon le scénario
+    if (req.method === "POST" && path === "/api/v1/payments") {
+      const body = await req.json();
+      const msisdn = body.msisdn ? String(body.msisdn).replace(/[^\d]/g, "") : null;
+      const outcome = parseOutcome(req.headers.get("X-IPay-Simulator-Outcome"))
+        || (msisdn ? TEST_NUMBER_OUTCOMES[msisdn] : null)
+        || defaultOutcome();
+
+      const transaction = await createTransaction(supabase, {
+        kind: "payment",
+        transaction_id: body.transaction_id || null,
+        amount: Number(body.amount) || 0,
+        currency: body.currency || "XOF",
+        msisdn,
+        customer_name: body.customer_name || null,
+      });
+
+      await resolveTransaction(supabase, transaction, outcome);
+
+      // Comme iPay, la réponse initiale est toujours `pending`
+      return jsonResponse({ ...toIPayStatus(transaction), status: "pending" });
+    }
+
+    // GET /api/v1/payments/:reference
+    if (req.method === "GET" && segments[0] === "api" && segments[2] === "payments" && segments[3]) {
+      const transaction = await findTransaction(supabase, segments[3]);
+      if (!transaction) {
+        return jsonResponse({ message: "Transaction not found" }, 404);
+      }
+      return jsonResponse(toIPayStatus(transaction));
+    }
+
+    // POST /api/v1/payment-links : en attente jusqu'au passage sur la page de paiement
+    if (req.method === "POST" && path === "/api/v1/payment-links") {
+      const body = await req.json();
+      const transaction = await createTransaction(supabase, {
+        kind: "link",
+        external_reference: body.external_reference || null,
+        amount: Number(body.amount) || 0,
+        currency: body.currency || "XOF",
+        customer_name: body.customer_name || null,
+      });
+
+      return jsonResponse({
+        reference: transaction.reference,
+        external_reference: transaction.external_reference,
+        status: "pending",
+        payment_url: `${baseUrl}/api/sdk/payment_pages?token=${transaction.reference}`,
+      });
+    }
+
+    // POST /api/sdk/payment_pages/create_payment_token
+    if (req.method === "POST" && path === "/api/sdk/payment_pages/create_payment_token") {
+      const body = await req.json();
+      const transaction = await createTransaction(supabase, {
+        kind: "page",
+        transaction_id: body.transaction_id || null,
+        amount: Number(body.amount) || 0,
+      });
+
+      return jsonResponse({ token: transaction.reference });
+    }
+
+    // GET /api/sdk/payment_pages?token=...
+    if (req.method === "GET" && path === "/api/sdk/payment_pages") {
+      const transaction = await findTransaction(supabase, url.searchParams.get("token") || "");
+      if (!transaction) {
+        return htmlResponse("<p>Token de paiement inconnu</p>", 404);
+      }
+      return htmlResponse(renderPaymentPage(transaction, baseUrl));
+    }
+
+    // POST /api/sdk/payment_pages/complete (formulaire de la page simulée)
+    if (req.method === "POST" && path === "/api/sdk/payment_pages/complete") {
+      const form = await req.formData();
+      const transaction = await findTransaction(supabase, String(form.get("reference") || ""));
+      const outcome = parseOutcome(String(form.get("outcome") || ""));
+      if (!transaction || !outcome) {
+        return htmlResponse("<p>Requête invalide</p>", 400);
+      }
+
+      const resolved = await resolveTransaction(supabase, transaction, outcome);
+      return htmlResponse(renderResultPage(resolved));
+    }
+
+    // POST /_simulator/transactions/:reference/resolve
+    if (req.method === "POST" && segments[0] === "_simulator" && segments[1] === "transactions" && segments[3] === "resolve") {
+      const transaction = await findTransaction(supabase, segments[2]);
+      const body = await req.json().catch(() => ({}));
+      const outcome = parseOutcome(body.outcome) || defaultOutcome();
+      if (!transaction) {
+        return jsonResponse({ success: false, error: "not_found" }, 404);
+      }
+
+      const resolved = await resolveTransaction(supabase, transaction, outcome);
+      return jsonResponse({ success: true, transaction: resolved });
+    }
+
+    return jsonResponse({ message: `Route non simulée: ${req.method} ${path}` }, 404);
+  } catch (error) {
+    console.error("❌ Error in ipay-simulator:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Erreur interne",
+    }, 500);
+  }
+});
@@ -1,12 +1,15 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { verifyIPaySignature } from "../_shared/ipay-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-IPay-Signature, X-IPay-Timestamp, X-IPay-Nonce",
 };
 
+const SIGNATURE_TOLERANCE_SECONDS = Number(Deno.env.get("IPAY_WEBHOOK_TOLERANCE_SECONDS") || "300");
+
 interface IPayWebhookPayload {
   external_reference?: string;
   reference: string;
@@ -21,6 +24,32 @@ interface IPayWebhookPayload {
   paiement_id?: string;
 }
 
+// Montant attendu recalculé côté serveur : `montant_fcfa` peut venir d'un paiement inséré par le client.
+// Avec un code promo, seul le montant enregistré par `redeem_promo_code()` fait foi.
+async function getExpectedAmount(
+  supabase: SupabaseClient,
+  paiement: { id: string; formule_id: string | null; code_promo_id: string | null }
+): Promise<number | null> {
+  if (paiement.code_promo_id) {
+    const { data } = await supabase
+      .from("utilisations_code_promo")
+      .select("montant_final")
+      .eq("paiement_id", paiement.id)
+      .eq("code_promo_id", paiement.code_promo_id)
+      .maybeSingle();
+    return data ? Number(data.montant_final) : null;
+  }
+
+  if (!paiement.formule_id) return null;
+
+  const { data } = await supabase
+    .from("formules")
+    .select("prix_fcfa")
+    .eq("id", paiement.formule_id)
+    .maybeSingle();
+  return data ? Number(data.prix_fcfa) : null;
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -29,11 +58,75 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  let rawBody = "";
+  let logId: string | null = null;
+
   try {
-    const payload: IPayWebhookPayload = await req.json();
+    // 1. La signature porte sur le corps brut : vérification avant tout traitement
+    rawBody = await req.text();
+    const signatureCheck = await verifyIPaySignature(
+      req.headers,
+      rawBody,
+      Deno.env.get("IPAY_WEBHOOK_SECRET"),
+      SIGNATURE_TOLERANCE_SECONDS
+    );
+
+    if (!signatureCheck.valid) {
+      console.error("❌ Signature iPay refusée:", signatureCheck.reason);
+
+      await supabase.from("webhook_logs").insert({
+        source: "ipay",
+        event_type: "payment_status_update",
+        payload: { raw: rawBody.slice(0, 10000) },
+        status: "rejected",
+        nonce: signatureCheck.nonce,
+        signature_valid: false,
+        error_message: signatureCheck.reason,
+        processed_at: new Date().toISOString(),
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: signatureCheck.reason === "missing_secret" ? "webhook_not_configured" : "invalid_signature",
+          message: "Signature du webhook invalide",
+        }),
+        {
+          status: signatureCheck.reason === "missing_secret" ? 500 : 401,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    let payload: IPayWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "invalid_payload",
+          message: "Corps JSON invalide",
+        }),
+        {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
     console.log("📥 Webhook iPay reçu:", payload);
 
-    const { reference, status, external_reference, transaction_id, user_id, abonnement_id, paiement_id } = payload;
+    const { reference, status, external_reference, transaction_id, abonnement_id, paiement_id } = payload;
 
     if (!reference && !transaction_id) {
       console.error("❌ Référence ou transaction_id manquant");
@@ -53,9 +146,44 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    // 2. Anti-rejeu (nonce) et idempotence (un traitement par référence iPay et statut)
+    const { data: registration, error: registrationError } = await supabase.rpc(
+      "register_webhook_event",
+      {
+        p_source: "ipay",
+        p_idempotency_key: `${reference || transaction_id}:${status}`,
+        p_nonce: signatureCheck.nonce,
+        p_event_type: "payment_status_update",
+        p_payload: payload,
+      }
+    );
+
+    if (registrationError) {
+      throw new Error(`Failed to register webhook event: ${registrationError.message}`);
+    }
+
+    if (!registration.accepted) {
+      const isReplay = registration.reason === "replay";
+      console.log(`ℹ️ Webhook ignoré (${registration.reason}):`, reference || transaction_id);
+
+      return new Response(
+        JSON.stringify({
+          success: !isReplay,
+          duplicate: true,
+          error: isReplay ? "replayed_nonce" : undefined,
+          message: isReplay ? "Nonce déjà utilisé" : "Événement déjà traité",
+        }),
+        {
+          status: isReplay ? 409 : 200,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    logId = registration.log_id;
 
     let paiement = null;
 
@@ -92,46 +220,12 @@ Deno.serve(async (req: Request) => {
         .from("paiements")
         .select("*")
         .eq("abonnement_id", abonnement_id)
+        .eq("statut", "en_attente")
         .order("created_at", { ascending: false })
         .limit(1)
         .maybeSingle();
       paiement = data;
       console.log(`🔍 Found payment via abonnement_id: ${abonnement_id}`);
-
-      if (!paiement && user_id) {
-        console.log(`🆕 Creating payment record for external payment`);
-        const { data: abonnement } = await supabase
-          .from("abonnements")
-          .select("user_id, formule_id, formules(prix_fcfa)")
-          .eq("id", abonnement_id)
-          .single();
-
-        if (abonnement) {
-          const { data: newPaiement, error: insertError } = await supabase
-            .from("paiements")
-            .insert({
-              user_id: user_id,
-              abonnement_id: abonnement_id,
-              montant_fcfa: (abonnement.formules as any)?.prix_fcfa || parseFloat(payload.amount || "0"),
-              methode_paiement: "iPayMoney-external",
-              ipay_reference: reference,
-              ipay_transaction_id: transaction_id,
-              statut: "en_attente",
-              notes: `External payment webhook - ${new Date().toISOString()}`,
-              currency: payload.currency,
-              msisdn: payload.msisdn,
-            })
-            .select()
-            .single();
-
-          if (!insertError && newPaiement) {
-            paiement = newPaiement;
-            console.log(`✅ Payment record created: ${paiement.id}`);
-          } else {
-            console.error("❌ Error creating payment:", insertError);
-          }
-        }
-      }
     }
 
     if (!paiement && external_reference) {
@@ -141,6 +235,7 @@ Deno.serve(async (req: Request) => {
           .from("paiements")
           .select("*")
           .eq("abonnement_id", abonnementIdFromRef)
+          .eq("statut", "en_attente")
           .order("created_at", { ascending: false })
           .limit(1)
           .maybeSingle();
@@ -151,11 +246,21 @@ Deno.serve(async (req: Request) => {
 
     if (!paiement) {
       console.error("❌ Paiement introuvable pour référence:", reference || transaction_id || external_reference);
+
+      await supabase
+        .from("webhook_logs")
+        .update({
+          status: "error",
+          error_message: "payment_not_found",
+          processed_at: new Date().toISOString(),
+        })
+        .eq("id", logId);
+
       return new Response(
         JSON.stringify({
           success: false,
           error: "payment_not_found",
-          message: "Paiement introuvable et impossible de créer un enregistrement",
+          message: "Paiement introuvable",
         }),
         {
           status: 404,
@@ -167,7 +272,26 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const paidAmount = payload.amount ? parseFloat(payload.amount) : NaN;
+    const paidCurrency = payload.currency?.trim().toUpperCase() || null;
+    const expectedCurrency = (paiement.currency || "XOF").toUpperCase();
+
     if (status === "succeeded" || status === "paid" || status === "completed") {
+      // Sans montant et devise conformes au paiement attendu, l'abonnement n'est jamais activé
+      if (!Number.isFinite(paidAmount) || !paidCurrency) {
+        throw new Error("Montant ou devise absent du callback");
+      }
+      if (paidCurrency !== expectedCurrency) {
+        throw new Error(`Devise reçue (${paidCurrency}) différente de la devise attendue (${expectedCurrency})`);
+      }
+      const expectedAmount = await getExpectedAmount(supabase, paiement);
+      if (expectedAmount === null) {
+        throw new Error("Montant attendu introuvable (formule ou code promo)");
+      }
+      if (paidAmount !== expectedAmount) {
+        throw new Error(`Montant reçu (${paidAmount}) différent du montant attendu (${expectedAmount})`);
+      }
+
       console.log(`✅ Payment succeeded, calling confirm_payment_secure`);
 
       const { data: confirmResult, error: confirmError } = await supabase.rpc(
@@ -242,6 +366,9 @@ Deno.serve(async (req: Request) => {
           }
         }
       }
+    } else if (paiement.statut !== "en_attente") {
+      // Un callback tardif ne doit pas faire régresser un paiement déjà finalisé
+      console.log(`ℹ️ Payment ${paiement.id} already ${paiement.statut}, ignoring status ${status}`);
     } else if (status === "failed" || status === "cancelled" || status === "expired") {
       console.log(`❌ Payment failed: ${status}`);
 
@@ -276,13 +403,13 @@ Deno.serve(async (req: Request) => {
         .eq("id", paiement.id);
     }
 
-    await supabase.from("webhook_logs").insert({
-      source: "ipay",
-      event_type: "payment_status_update",
-      payload: payload,
-      status: "processed",
-      processed_at: new Date().toISOString(),
-    });
+    await supabase
+      .from("webhook_logs")
+      .update({
+        status: "processed",
+        processed_at: new Date().toISOString(),
+      })
+      .eq("id", logId);
 
     return new Response(
       JSON.stringify({
@@ -302,15 +429,21 @@ Deno.serve(async (req: Request) => {
   } catch (error) {
     console.error("❌ Erreur webhook:", error);
 
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-
-    if (supabaseUrl && supabaseKey) {
-      const supabase = createClient(supabaseUrl, supabaseKey);
+    // L'événement repasse en `error` : un nouvel envoi d'iPay pourra le retraiter
+    if (logId) {
+      await supabase
+        .from("webhook_logs")
+        .update({
+          status: "error",
+          error_message: error instanceof Error ? error.message : String(error),
+          processed_at: new Date().toISOString(),
+        })
+        .eq("id", logId);
+    } else {
       await supabase.from("webhook_logs").insert({
         source: "ipay",
         event_type: "payment_status_update",
-        payload: await req.clone().json().catch(() => ({})),
+        payload: { raw: rawBody.slice(0, 10000) },
         status: "error",
         error_message: error instanceof Error ? error.message : String(error),
         processed_at: new Date().toISOString(),
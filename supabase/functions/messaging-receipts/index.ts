@@ -0,0 +1,108 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getProvider } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Callback URL à déclarer chez chaque fournisseur :
+//   /functions/v1/messaging-receipts?provider=wasender|whatsapp_cloud|sms|fake
+// Chaque callback est authentifié selon le fournisseur (voir _shared/messaging.ts)
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const url = new URL(req.url);
+  const providerName = url.searchParams.get("provider") || "";
+
+  // Vérification d'abonnement du webhook WhatsApp Cloud API
+  if (req.method === "GET" && providerName === "whatsapp_cloud") {
+    const verifyToken = Deno.env.get("WHATSAPP_CLOUD_VERIFY_TOKEN");
+    if (verifyToken && url.searchParams.get("hub.verify_token") === verifyToken) {
+      return new Response(url.searchParams.get("hub.challenge") || "", { status: 200 });
+    }
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const provider = getProvider(providerName);
+    // La vérification porte sur le corps brut, avant tout JSON.parse
+    const rawBody = await req.text();
+
+    if (!(await provider.verifyStatusCallback(req.headers, rawBody))) {
+      console.error(`Rejected unauthenticated delivery receipt for ${providerName}`);
+      return new Response(
+        JSON.stringify({ success: false, error: "invalid_signature" }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const payload = JSON.parse(rawBody);
+    const receipts = provider.parseStatusCallback(payload);
+
+    let updated = 0;
+    for (const receipt of receipts) {
+      if (!receipt.message_id) continue;
+
+      const { count } = await supabase
+        .from("notifications")
+        .update({ statut_livraison: receipt.status }, { count: "exact" })
+        .eq("provider", receipt.provider)
+        .eq("provider_message_id", receipt.message_id);
+
+      updated += count || 0;
+    }
+
+    await supabase.from("webhook_logs").insert({
+      source: providerName,
+      event_type: "delivery_receipt",
+      payload: { receipts, original: payload },
+      status: "processed",
+      processed_at: new Date().toISOString(),
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, receipts: receipts.length, updated }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error in messaging-receipts:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      }),
+      {
+        status: 400,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
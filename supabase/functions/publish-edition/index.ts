@@ -0,0 +1,398 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const BATCH_SIZE = Number(Deno.env.get("PUBLICATION_BATCH_SIZE") || "25");
+// Marge sous la limite d'exécution des edge functions : au-delà, le job se relance lui-même
+const TIME_BUDGET_MS = 100_000;
+const STALE_AFTER_SECONDS = 120;
+// Même politique de réessai que dispatch-notifications
+const MAX_ATTEMPTS = Number(Deno.env.get("NOTIFICATION_MAX_ATTEMPTS") || "5");
+const BACKOFF_BASE_SECONDS = Number(Deno.env.get("NOTIFICATION_BACKOFF_BASE_SECONDS") || "60");
+
+interface PublishRequest {
+  action: "start" | "resume";
+  pdfId?: string;
+  jobId?: string;
+  appUrl?: string;
+}
+
+interface PublicationJobRow {
+  id: string;
+  pdf_id: string;
+  statut: string;
+  lien_base: string;
+  validite_heures: number;
+  batch_size: number;
+  nb_envoyes: number;
+}
+
+interface PublicationItemRow {
+  id: string;
+  user_id: string;
+  numero_destinataire: string | null;
+  token_id: string | null;
+  notification_id: string | null;
+  lien_lecture: string | null;
+  users: { nom: string } | null;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function isAuthorized(supabase: SupabaseClient, req: Request, serviceKey: string) {
+  const bearer = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+  if (!bearer) return { ok: false, userId: null };
+  if (bearer === serviceKey) return { ok: true, userId: null };
+
+  const { data: { user } } = await supabase.auth.getUser(bearer);
+  if (!user) return { ok: false, userId: null };
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  return { ok: profile?.role === "admin", userId: user.id };
+}
+
+async function processItem(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceKey: string,
+  job: PublicationJobRow,
+  item: PublicationItemRow
+) {
+  let link = item.lien_lecture;
+  const nom = item.users?.nom || "";
+
+  // Checkpoint 1 : le token n'est créé qu'une fois, même en cas de reprise
+  if (!item.token_id) {
+    const token = crypto.randomUUID();
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + job.validite_heures);
+
+    const { data: tokenRow, error: tokenError } = await supabase
+      .from("tokens")
+      .insert({
+        pdf_id: job.pdf_id,
+        user_id: item.user_id,
+        token,
+        expires_at: expiresAt.toISOString(),
+        used: false,
+        max_access_count: 999,
+        revoked: false,
+      })
+      .select("id")
+      .single();
+
+    if (tokenError || !tokenRow) {
+      throw new Error(`Erreur lors de la création du token: ${tokenError?.message}`);
+    }
+
+    link = `${job.lien_base}/read/${token}`;
+    await supabase
+      .from("publication_job_items")
+      .update({ token_id: tokenRow.id, lien_lecture: link })
+      .eq("id", item.id);
+  }
+
+  const message = `Bonjour ${nom}! La nouvelle édition de L'Enquêteur est disponible. Cliquez sur le lien pour lire: ${link}`;
+
+  // Checkpoint 2 : une seule notification par destinataire. Lors d'une reprise,
+  // elle a déjà été envoyée ou est entre les mains de dispatch-notifications
+  if (item.notification_id) {
+    const { data: existing } = await supabase
+      .from("notifications")
+      .select("statut")
+      .eq("id", item.notification_id)
+      .single();
+
+    if (existing?.statut === "envoye") return;
+    throw new Error("Envoi confié à la file de réessai");
+  }
+
+  // `en_cours` dès l'insertion : le dispatcher ne la réserve pas pendant notre envoi
+  const { data: notification, error: notifError } = await supabase
+    .from("notifications")
+    .insert({
+      user_id: item.user_id,
+      pdf_id: job.pdf_id,
+      type_notification: "nouvelle_edition",
+      numero_destinataire: item.numero_destinataire || "",
+      message,
+      lien_lecture: link,
+      statut: "en_cours",
+      date_envoi_prevue: new Date().toISOString(),
+      derniere_tentative: new Date().toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (notifError || !notification) {
+    throw new Error(`Erreur lors de la création de la notification: ${notifError?.message}`);
+  }
+
+  const notificationId = notification.id;
+  await supabase
+    .from("publication_job_items")
+    .update({ notification_id: notificationId })
+    .eq("id", item.id);
+
+  if (!item.numero_destinataire) {
+    throw new Error("Numéro WhatsApp manquant");
+  }
+
+  const whatsappResponse = await fetch(`${supabaseUrl}/functions/v1/send-whatsapp`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${serviceKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ to: item.numero_destinataire, text: message }),
+  });
+  const whatsappResult = await whatsappResponse.json();
+
+  // Les échecs restent en file : dispatch-notifications les retentera avec backoff
+  await supabase.rpc("record_notification_attempt", {
+    p_notification_id: notificationId,
+    p_success: !!whatsappResult.success,
+    p_error: whatsappResult.success ? null : whatsappResult.error || "Erreur inconnue",
+    p_max_attempts: MAX_ATTEMPTS,
+    p_backoff_base_seconds: BACKOFF_BASE_SECONDS,
+  });
+
+  if (whatsappResult.receipt) {
+    await supabase
+      .from("notifications")
+      .update({
+        provider: whatsappResult.receipt.provider,
+        provider_message_id: whatsappResult.receipt.message_id,
+        statut_livraison: whatsappResult.receipt.status,
+      })
+      .eq("id", notificationId);
+  }
+
+  if (!whatsappResult.success) {
+    throw new Error(whatsappResult.error || "Erreur inconnue");
+  }
+}
+
+async function runJob(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceKey: string,
+  jobId: string
+) {
+  const startedAt = Date.now();
+  // Envois réussis de cette invocation : une reprise ne recompte pas ceux des précédentes
+  let sentThisRun = 0;
+
+  const { data: job, error: jobError } = await supabase
+    .from("publication_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .single<PublicationJobRow>();
+
+  if (jobError || !job) {
+    console.error("❌ Job introuvable:", jobId, jobError);
+    return;
+  }
+
+  try {
+    while (true) {
+      const { data: items, error: itemsError } = await supabase
+        .from("publication_job_items")
+        .select("id, user_id, numero_destinataire, token_id, notification_id, lien_lecture, users(nom)")
+        .eq("job_id", jobId)
+        .eq("statut", "en_attente")
+        .limit(job.batch_size || BATCH_SIZE)
+        .returns<PublicationItemRow[]>();
+
+      if (itemsError) throw itemsError;
+      if (!items || items.length === 0) break;
+
+      await Promise.all(items.map(async (item) => {
+        try {
+          await processItem(supabase, supabaseUrl, serviceKey, job, item);
+          await supabase
+            .from("publication_job_items")
+            .update({ statut: "envoye", erreur: null, processed_at: new Date().toISOString() })
+            .eq("id", item.id);
+          sentThisRun++;
+        } catch (itemError) {
+          console.error(`❌ Envoi échoué pour ${item.user_id}:`, itemError);
+          await supabase
+            .from("publication_job_items")
+            .update({
+              statut: "echoue",
+              erreur: itemError instanceof Error ? itemError.message : String(itemError),
+              processed_at: new Date().toISOString(),
+            })
+            .eq("id", item.id);
+        }
+      }));
+
+      await supabase.rpc("refresh_publication_job_progress", { p_job_id: jobId });
+
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        console.log(`⏱️ Budget temps atteint, relance du job ${jobId}`);
+        // Libère le job pour que l'invocation suivante puisse le reprendre immédiatement
+        await supabase
+          .from("publication_jobs")
+          .update({ statut: "en_attente", updated_at: new Date().toISOString() })
+          .eq("id", jobId);
+
+        await fetch(`${supabaseUrl}/functions/v1/publish-edition`, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${serviceKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ action: "resume", jobId }),
+        });
+        return;
+      }
+    }
+
+    const { data: progress } = await supabase.rpc("refresh_publication_job_progress", { p_job_id: jobId });
+    const sentCount = progress?.nb_envoyes || 0;
+    const failedCount = progress?.nb_echecs || 0;
+
+    // Aucun abonné n'a reçu l'édition : elle ne doit pas apparaître comme publiée
+    if (sentCount === 0 && failedCount > 0) {
+      await supabase
+        .from("publication_jobs")
+        .update({
+          statut: "echoue",
+          erreur: `Aucun envoi réussi (${failedCount} échecs)`,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", jobId);
+
+      console.error(`❌ Job ${jobId} : aucun envoi réussi`);
+      return;
+    }
+
+    await supabase
+      .from("pdfs")
+      .update({
+        statut_publication: "publie",
+        date_publication_reelle: new Date().toISOString(),
+      })
+      .eq("id", job.pdf_id)
+      // Relance des échecs d'un job `partiel` : l'édition est déjà publiée, sa date reste
+      .neq("statut_publication", "publie");
+
+    await supabase
+      .from("publication_jobs")
+      .update({
+        // Les échecs restent dans la file de notifications, qui les retente
+        statut: failedCount > 0 ? "partiel" : "termine",
+        erreur: failedCount > 0 ? `${failedCount} envoi(s) en échec, retentés par la file de notifications` : null,
+        finished_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId);
+
+    console.log(`✅ Job ${jobId} terminé:`, progress);
+  } catch (error) {
+    console.error(`❌ Job ${jobId} interrompu:`, error);
+    await supabase
+      .from("publication_jobs")
+      .update({
+        statut: "echoue",
+        erreur: error instanceof Error ? error.message : String(error),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId);
+  } finally {
+    if (sentThisRun > 0) {
+      const { data: pdf } = await supabase
+        .from("pdfs")
+        .select("nb_envois")
+        .eq("id", job.pdf_id)
+        .single();
+
+      await supabase
+        .from("pdfs")
+        .update({ nb_envois: (pdf?.nb_envois || 0) + sentThisRun })
+        .eq("id", job.pdf_id);
+    }
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    const auth = await isAuthorized(supabase, req, serviceKey);
+    if (!auth.ok) {
+      return jsonResponse({ success: false, error: "unauthorized" }, 401);
+    }
+
+    const { action, pdfId, jobId, appUrl }: PublishRequest = await req.json();
+    let targetJobId = jobId;
+
+    if (action === "start") {
+      const lienBase = appUrl || Deno.env.get("APP_URL");
+      if (!pdfId || !lienBase) {
+        return jsonResponse({ success: false, error: "pdfId et appUrl requis" }, 400);
+      }
+
+      const { data: job, error: createError } = await supabase.rpc("create_publication_job", {
+        p_pdf_id: pdfId,
+        p_created_by: auth.userId,
+        p_lien_base: lienBase.replace(/\/$/, ""),
+        p_batch_size: BATCH_SIZE,
+      });
+
+      if (createError || !job) {
+        throw new Error(createError?.message || "Création du job impossible");
+      }
+
+      targetJobId = job.id;
+    } else if (action !== "resume" || !jobId) {
+      return jsonResponse({ success: false, error: "Action invalide" }, 400);
+    }
+
+    const { data: claimed } = await supabase.rpc("claim_publication_job", {
+      p_job_id: targetJobId,
+      p_stale_after_seconds: STALE_AFTER_SECONDS,
+    });
+
+    if (claimed) {
+      EdgeRuntime.waitUntil(runJob(supabase, supabaseUrl, serviceKey, targetJobId!));
+    }
+
+    const { data: job } = await supabase
+      .from("publication_jobs")
+      .select("*")
+      .eq("id", targetJobId)
+      .single();
+
+    return jsonResponse({ success: true, claimed: !!claimed, job }, 202);
+  } catch (error) {
+    console.error("❌ Error in publish-edition:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Erreur interne",
+    }, 500);
+  }
+});
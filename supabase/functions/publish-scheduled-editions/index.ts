@@ -0,0 +1,154 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Au-delà, un job `en_cours` est considéré comme abandonné par son worker
+const STALE_AFTER_MS = 2 * 60 * 1000;
+// Au-delà, un job `echoue` n'est plus repris automatiquement : l'admin le relance à la main
+const MAX_AUTO_RESUMES = Number(Deno.env.get("PUBLICATION_MAX_AUTO_RESUMES") || "3");
+
+// Appelée périodiquement (cron) : publie les éditions `planifie` arrivées à échéance
+// et relance les jobs de publication interrompus.
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const appUrl = Deno.env.get("APP_URL");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!appUrl) {
+      throw new Error("APP_URL must be configured to build reading links");
+    }
+
+    const callPublishEdition = async (body: Record<string, unknown>) => {
+      const response = await fetch(`${supabaseUrl}/functions/v1/publish-edition`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${supabaseServiceKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      return response.json();
+    };
+
+    // 1. Find scheduled editions whose time has come
+    const { data: duePdfs, error: fetchError } = await supabase
+      .from("pdfs")
+      .select("id, titre, date_publication_prevue")
+      .eq("statut_publication", "planifie")
+      .lte("date_publication_prevue", new Date().toISOString())
+      .order("date_publication_prevue", { ascending: true });
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch scheduled editions: ${fetchError.message}`);
+    }
+
+    const results = [];
+
+    for (const pdf of duePdfs || []) {
+      try {
+        const { data: latestJob } = await supabase
+          .from("publication_jobs")
+          .select("id, statut, heartbeat_at, nb_reprises")
+          .eq("pdf_id", pdf.id)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        const isStale = latestJob?.statut === "en_cours" &&
+          (!latestJob.heartbeat_at || Date.now() - new Date(latestJob.heartbeat_at).getTime() > STALE_AFTER_MS);
+
+        // 2. Never start a second job for an edition that already has one in flight
+        if (latestJob?.statut === "echoue" && latestJob.nb_reprises >= MAX_AUTO_RESUMES) {
+          results.push({ pdf_id: pdf.id, action: "gave_up", job_id: latestJob.id });
+        } else if (latestJob && (latestJob.statut === "echoue" || isStale)) {
+          if (latestJob.statut === "echoue") {
+            await supabase
+              .from("publication_jobs")
+              .update({ nb_reprises: latestJob.nb_reprises + 1 })
+              .eq("id", latestJob.id);
+          }
+          const result = await callPublishEdition({ action: "resume", jobId: latestJob.id });
+          results.push({ pdf_id: pdf.id, action: "resumed", job_id: latestJob.id, claimed: result.claimed });
+        } else if (latestJob && (latestJob.statut === "en_attente" || latestJob.statut === "en_cours")) {
+          results.push({ pdf_id: pdf.id, action: "in_progress", job_id: latestJob.id });
+        } else {
+          const result = await callPublishEdition({ action: "start", pdfId: pdf.id, appUrl });
+          if (!result.success) {
+            throw new Error(result.error || "publish-edition failed");
+          }
+          console.log(`📅 Scheduled publication started for ${pdf.titre}`);
+          results.push({ pdf_id: pdf.id, action: "started", job_id: result.job?.id });
+        }
+      } catch (error) {
+        console.error(`Error publishing scheduled edition ${pdf.id}:`, error);
+        results.push({
+          pdf_id: pdf.id,
+          action: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    // 3. Recover manual publications whose worker died
+    const { data: staleJobs } = await supabase
+      .from("publication_jobs")
+      .select("id, pdf_id")
+      .eq("statut", "en_cours")
+      .lt("heartbeat_at", new Date(Date.now() - STALE_AFTER_MS).toISOString());
+
+    const handledPdfIds = new Set((duePdfs || []).map((pdf) => pdf.id));
+    let resumedCount = 0;
+
+    for (const job of staleJobs || []) {
+      if (handledPdfIds.has(job.pdf_id)) continue;
+      await callPublishEdition({ action: "resume", jobId: job.id });
+      resumedCount++;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Scheduled publications processed",
+        due: duePdfs?.length || 0,
+        resumed_stale_jobs: resumedCount,
+        results,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error in publish-scheduled-editions:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "scheduler_failed",
+        message: error instanceof Error ? error.message : "Failed to process scheduled publications",
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { getIPayBaseUrl, getIPaySecretKey } from "../_shared/ipay.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,8 +8,8 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const IPAY_API_URL = "https://i-pay.money/api/v1";
-const IPAY_SECRET_KEY = Deno.env.get("IPAY_SECRET_KEY") || "sk_11a35c3f7ab44dc79e38757fcd28ba82";
+const IPAY_API_URL = `${getIPayBaseUrl()}/api/v1`;
+const IPAY_SECRET_KEY = getIPaySecretKey();
 
 interface IPayStatusResponse {
   status: string;
@@ -0,0 +1,147 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { getDocument } from "npm:pdfjs-dist@4.10.38";
+import { renderPageRenditions } from "../_shared/pageRenditions.ts";
+import { downloadEditionPdf } from "../_shared/editionPdf.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Marge sous la limite d'exécution : au-delà, le client relance l'appel pour les pages restantes
+const TIME_BUDGET_MS = 100_000;
+
+interface RenderRequest {
+  editionId?: string;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function isAuthorized(supabase: SupabaseClient, req: Request, serviceKey: string) {
+  const bearer = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+  if (!bearer) return false;
+  if (bearer === serviceKey) return true;
+
+  const { data: { user } } = await supabase.auth.getUser(bearer);
+  if (!user) return false;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  return profile?.role === "admin";
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+
+    if (!(await isAuthorized(supabase, req, serviceKey))) {
+      return jsonResponse({ success: false, error: "Accès réservé aux administrateurs" }, 403);
+    }
+
+    const { editionId }: RenderRequest = await req.json();
+    if (!editionId) {
+      return jsonResponse({ success: false, error: "editionId requis" }, 400);
+    }
+
+    const { data: edition } = await supabase
+      .from("editions")
+      .select("id, pdf_url, nb_pages")
+      .eq("id", editionId)
+      .maybeSingle();
+
+    if (!edition?.pdf_url) {
+      return jsonResponse({ success: false, error: "Édition ou PDF introuvable" }, 404);
+    }
+
+    const startedAt = Date.now();
+    const pdfBuffer = await downloadEditionPdf(supabase, edition.pdf_url);
+    const pdfDoc = await getDocument({
+      data: new Uint8Array(pdfBuffer),
+      useSystemFonts: true,
+    }).promise;
+    const numPages = pdfDoc.numPages;
+
+    const { data: existingPages } = await supabase
+      .from("pages")
+      .select("page_number, image_url")
+      .eq("edition_id", editionId);
+
+    const rendered = new Set(
+      (existingPages || []).filter(page => page.image_url).map(page => page.page_number)
+    );
+
+    let renderedNow = 0;
+    let remaining = 0;
+
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      if (rendered.has(pageNum)) continue;
+
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        remaining++;
+        continue;
+      }
+
+      const page = await pdfDoc.getPage(pageNum);
+      const renditions = await renderPageRenditions(supabase, page, editionId, pageNum, pageNum === 1);
+
+      const { error: pageError } = await supabase
+        .from("pages")
+        .upsert({
+          edition_id: editionId,
+          page_number: pageNum,
+          image_url: renditions.imagePath,
+          thumbnail_url: renditions.thumbnailUrl,
+          image_variants: renditions.variants,
+        }, { onConflict: "edition_id,page_number" });
+
+      if (pageError) {
+        throw new Error(`Erreur lors de l'enregistrement de la page ${pageNum}: ${pageError.message}`);
+      }
+
+      if (renditions.coverUrl) {
+        await supabase
+          .from("editions")
+          .update({ cover_image_url: renditions.coverUrl })
+          .eq("id", editionId);
+      }
+
+      renderedNow++;
+    }
+
+    if (edition.nb_pages !== numPages) {
+      await supabase
+        .from("editions")
+        .update({ nb_pages: numPages })
+        .eq("id", editionId);
+    }
+
+    return jsonResponse({
+      success: true,
+      totalPages: numPages,
+      rendered: renderedNow,
+      remaining,
+    });
+  } catch (error) {
+    console.error("❌ Error in render-edition-pages:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Erreur interne",
+    }, 500);
+  }
+});
@@ -0,0 +1,143 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import type { DeviceFingerprint } from "../_shared/devices.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Lien ouvert depuis l'espace abonné : court, car l'abonné peut en redemander un à tout moment
+const TOKEN_TTL_MINUTES = Number(Deno.env.get("READER_TOKEN_TTL_MINUTES") || "30");
+const TOKEN_MAX_ACCESS = 20;
+const MAX_TOKENS_PER_HOUR = Number(Deno.env.get("READER_TOKENS_PER_HOUR") || "20");
+
+interface RequestEditionAccess {
+  pdfId?: string;
+  deviceFingerprint?: DeviceFingerprint;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const bearer = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: { user: authUser } } = bearer
+      ? await supabase.auth.getUser(bearer)
+      : { data: { user: null } };
+
+    if (!authUser) {
+      return jsonResponse({ success: false, error: "Veuillez vous reconnecter" }, 401);
+    }
+
+    const { pdfId, deviceFingerprint }: RequestEditionAccess = await req.json();
+
+    if (!pdfId || !deviceFingerprint) {
+      return jsonResponse({ success: false, error: "pdfId et deviceFingerprint requis" }, 400);
+    }
+
+    // Le compte auth peut être rattaché par id ou par email : l'id prime, l'email sert de repli
+    let { data: profile } = await supabase
+      .from("users")
+      .select("id, role")
+      .eq("id", authUser.id)
+      .maybeSingle();
+
+    if (!profile && authUser.email) {
+      ({ data: profile } = await supabase
+        .from("users")
+        .select("id, role")
+        .eq("email", authUser.email)
+        .limit(1)
+        .maybeSingle());
+    }
+
+    if (!profile) {
+      return jsonResponse({ success: false, error: "Utilisateur introuvable" }, 404);
+    }
+
+    const { data: pdf } = await supabase
+      .from("pdfs")
+      .select("id, statut_publication")
+      .eq("id", pdfId)
+      .maybeSingle();
+
+    if (!pdf || (pdf.statut_publication !== "publie" && profile.role !== "admin")) {
+      return jsonResponse({ success: false, error: "Édition introuvable" }, 404);
+    }
+
+    const { data: hasAccess, error: accessError } = await supabase.rpc("user_has_access_to_edition", {
+      p_user_id: profile.id,
+      p_pdf_id: pdfId,
+    });
+
+    if (accessError) throw accessError;
+
+    if (!hasAccess) {
+      return jsonResponse({
+        success: false,
+        error: "Votre abonnement doit être actif pour lire cette édition",
+      }, 403);
+    }
+
+    const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const { count: recentTokens } = await supabase
+      .from("tokens")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", profile.id)
+      .eq("origine", "espace_abonne")
+      .gte("created_at", since);
+
+    if ((recentTokens || 0) >= MAX_TOKENS_PER_HOUR) {
+      return jsonResponse({
+        success: false,
+        error: "Trop d'ouvertures en peu de temps. Réessayez dans quelques minutes.",
+      }, 429);
+    }
+
+    const token = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES * 60 * 1000);
+
+    // Empreinte gardée pour l'audit : validate-edition-access vérifie l'appareil auprès du registre
+    const { error: tokenError } = await supabase
+      .from("tokens")
+      .insert({
+        pdf_id: pdfId,
+        user_id: profile.id,
+        token,
+        expires_at: expiresAt.toISOString(),
+        used: false,
+        max_access_count: TOKEN_MAX_ACCESS,
+        revoked: false,
+        device_fingerprint: JSON.stringify(deviceFingerprint),
+        origine: "espace_abonne",
+      });
+
+    if (tokenError) {
+      throw new Error(`Erreur lors de la création du token: ${tokenError.message}`);
+    }
+
+    return jsonResponse({ success: true, token, expiresAt: expiresAt.toISOString() });
+  } catch (error) {
+    console.error("❌ Error in request-edition-access:", error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Erreur interne",
+    }, 500);
+  }
+});
@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
+import { sendMessage } from "../_shared/messaging.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,9 +8,6 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const WASENDER_API_URL = "https://wasenderapi.com/api/send-message";
-const WASENDER_API_KEY = "9017ef11b7228c6d68ac651a7878e1ec05ab47247c7e32e007b802118cc5416b";
-
 interface SendOTPRequest {
   numero_whatsapp: string;
 }
@@ -110,34 +108,17 @@ Deno.serve(async (req: Request) => {
       p_metadata: { method: "whatsapp" },
     });
 
-    // WaSender API exige le numéro sans "+"
-    const phoneNumberForWhatsApp = formattedPhone.startsWith("+")
-      ? formattedPhone.substring(1)
-      : formattedPhone;
-
-    console.log("Sending WhatsApp message to:", phoneNumberForWhatsApp);
-
-    const whatsappResponse = await fetch(WASENDER_API_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${WASENDER_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        to: phoneNumberForWhatsApp,
-        text: message,
-      }),
-    });
+    console.log("Sending WhatsApp message to:", formattedPhone);
 
-    const whatsappData = await whatsappResponse.json();
+    const receipt = await sendMessage(formattedPhone, message);
 
-    console.log("WhatsApp API response:", whatsappData);
+    console.log("Messaging provider receipt:", receipt);
 
     // ✅ Vérifie si le message WhatsApp a été bien envoyé
-    if (!whatsappResponse.ok || whatsappData.error || whatsappData.status === "error") {
+    if (receipt.status === "failed") {
       let userMessage = "Erreur lors de l'envoi du message WhatsApp";
 
-      if (whatsappData.message?.includes("Invalid phone")) {
+      if (receipt.error?.includes("Invalid phone")) {
         userMessage = "Numéro de téléphone invalide ou paramètres incorrects";
       }
 
@@ -146,7 +127,7 @@ Deno.serve(async (req: Request) => {
           success: false,
           error: "whatsapp_error",
           message: userMessage,
-          details: whatsappData,
+          details: receipt,
         }),
         {
           status: 500,
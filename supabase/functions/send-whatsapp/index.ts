@@ -1,4 +1,5 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { sendMessage } from "../_shared/messaging.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,20 +7,11 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const WASENDER_API_URL = "https://wasenderapi.com/api/send-message";
-const WASENDER_API_KEY = "9017ef11b7228c6d68ac651a7878e1ec05ab47247c7e32e007b802118cc5416b";
-
 interface SendMessageRequest {
   to: string;
   text: string;
 }
 
-interface WasenderResponse {
-  success: boolean;
-  message?: string;
-  error?: string;
-}
-
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -47,30 +39,18 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const response = await fetch(WASENDER_API_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${WASENDER_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        to,
-        text,
-      }),
-    });
-
-    const responseData = await response.json();
+    const receipt = await sendMessage(to, text);
 
-    if (!response.ok) {
-      console.error("WasenderApi error:", responseData);
+    if (receipt.status === "failed") {
+      console.error(`${receipt.provider} error:`, receipt.raw);
       return new Response(
         JSON.stringify({
           success: false,
-          error: responseData.message || "Failed to send WhatsApp message",
-          details: responseData,
+          error: receipt.error || "Failed to send WhatsApp message",
+          receipt,
         }),
         {
-          status: response.status,
+          status: 502,
           headers: {
             ...corsHeaders,
             "Content-Type": "application/json",
@@ -83,7 +63,7 @@ Deno.serve(async (req: Request) => {
       JSON.stringify({
         success: true,
         message: "WhatsApp message sent successfully",
-        data: responseData,
+        receipt,
       }),
       {
         status: 200,
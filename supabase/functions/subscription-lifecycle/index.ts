@@ -0,0 +1,228 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const REMINDER_DAYS = (Deno.env.get("SUBSCRIPTION_REMINDER_DAYS") || "7,3,1")
+  .split(",")
+  .map((day) => parseInt(day.trim(), 10))
+  .filter((day) => day > 0);
+
+interface DueReminder {
+  abonnement_id: string;
+  user_id: string;
+  nom: string;
+  numero_whatsapp: string;
+  date_fin: string;
+  jalon_jours: number;
+  renouvellement_auto: boolean;
+  formule_id: string;
+  formule_nom: string;
+  prix_fcfa: number;
+}
+
+interface PreviousPaymentReminder {
+  paiement_id: string;
+  notifications: { lien_lecture: string | null } | null;
+  paiements: { statut: string; expires_at: string | null } | null;
+}
+
+function detectCountryFromPhone(msisdn: string): string {
+  const digits = msisdn.replace(/[^\d]/g, "");
+  if (digits.startsWith("227")) return "NE";
+  return "BJ";
+}
+
+function formatDelay(days: number): string {
+  return days <= 1 ? "demain" : `dans ${days} jours`;
+}
+
+// Job quotidien (cron) : expire les abonnements échus, envoie les rappels J-7/J-3/J-1
+// et prépare un lien de paiement pour les abonnés en renouvellement automatique.
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const appUrl = (Deno.env.get("APP_URL") || "").replace(/\/$/, "");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Expire lapsed subscriptions (users are resynced by trigger)
+    const { data: expireResult, error: expireError } = await supabase.rpc("expire_lapsed_subscriptions");
+
+    if (expireError) {
+      throw new Error(`Failed to expire subscriptions: ${expireError.message}`);
+    }
+
+    console.log("Expired subscriptions:", expireResult);
+
+    // 2. Find reminders due on this run
+    const { data: dueReminders, error: remindersError } = await supabase.rpc(
+      "get_due_subscription_reminders",
+      { p_jalons: REMINDER_DAYS }
+    );
+
+    if (remindersError) {
+      throw new Error(`Failed to fetch due reminders: ${remindersError.message}`);
+    }
+
+    let queuedCount = 0;
+    let paymentLinksCount = 0;
+    const results = [];
+
+    for (const reminder of (dueReminders || []) as DueReminder[]) {
+      try {
+        const dateFin = new Date(reminder.date_fin).toLocaleDateString("fr-FR");
+        let message: string;
+        let link: string | null = null;
+        let paiementId: string | null = null;
+        let type = "expiration_proche";
+
+        // 3. Auto-renew subscribers get a ready-to-use payment link, one per period:
+        //    a later milestone reuses the link of an earlier one while it is still pending
+        const { data: previous } = reminder.renouvellement_auto
+          ? await supabase
+            .from("rappels_abonnement")
+            .select("paiement_id, notifications(lien_lecture), paiements(statut, expires_at)")
+            .eq("abonnement_id", reminder.abonnement_id)
+            .eq("date_fin", reminder.date_fin)
+            .not("paiement_id", "is", null)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle<PreviousPaymentReminder>()
+          : { data: null };
+
+        const previousPayment = previous?.paiements;
+        const previousLinkUsable = previousPayment?.statut === "en_attente" &&
+          (!previousPayment.expires_at || new Date(previousPayment.expires_at) > new Date());
+
+        if (previous && previousLinkUsable && previous.notifications?.lien_lecture) {
+          link = previous.notifications.lien_lecture;
+          paiementId = previous.paiement_id;
+          type = "rappel_paiement";
+        } else if (reminder.renouvellement_auto) {
+          const linkResponse = await fetch(`${supabaseUrl}/functions/v1/generate-payment-link`, {
+            method: "POST",
+            headers: {
+              "Authorization": `Bearer ${supabaseServiceKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              customer_name: reminder.nom,
+              currency: "XOF",
+              country: detectCountryFromPhone(reminder.numero_whatsapp),
+              user_id: reminder.user_id,
+              abonnement_id: reminder.abonnement_id,
+              formule_id: reminder.formule_id,
+              description: `Renouvellement ${reminder.formule_nom} - ${reminder.nom}`,
+            }),
+          });
+          const linkResult = await linkResponse.json();
+
+          if (linkResult.success && linkResult.payment_url) {
+            link = linkResult.payment_url;
+            paiementId = linkResult.paiement_id || null;
+            type = "rappel_paiement";
+            paymentLinksCount++;
+          } else {
+            console.error(`Payment link failed for ${reminder.abonnement_id}:`, linkResult);
+          }
+        }
+
+        if (type === "rappel_paiement") {
+          message = `Bonjour ${reminder.nom},\n\nVotre abonnement ${reminder.formule_nom} à L'Enquêteur se termine ${formatDelay(reminder.jalon_jours)} (${dateFin}).\n\n💳 Renouvelez-le en un clic (${reminder.prix_fcfa} FCFA) : ${link}\n\nVotre nouvelle période démarrera à la fin de l'actuelle.\n\nÉquipe L'Enquêteur`;
+        } else {
+          link = appUrl ? `${appUrl}/subscribe` : null;
+          message = `Bonjour ${reminder.nom},\n\n⏳ Votre abonnement ${reminder.formule_nom} à L'Enquêteur se termine ${formatDelay(reminder.jalon_jours)} (${dateFin}).${link ? `\n\nPour continuer à recevoir vos éditions, renouvelez ici : ${link}` : ""}\n\nÉquipe L'Enquêteur`;
+        }
+
+        const { data: notificationId, error: recordError } = await supabase.rpc(
+          "record_subscription_reminder",
+          {
+            p_abonnement_id: reminder.abonnement_id,
+            p_date_fin: reminder.date_fin,
+            p_jalon_jours: reminder.jalon_jours,
+            p_type_notification: type,
+            p_message: message,
+            p_lien: link,
+            p_paiement_id: paiementId,
+          }
+        );
+
+        if (recordError) throw recordError;
+
+        if (notificationId) {
+          queuedCount++;
+        }
+
+        results.push({
+          abonnement_id: reminder.abonnement_id,
+          jalon_jours: reminder.jalon_jours,
+          type,
+          queued: !!notificationId,
+        });
+      } catch (error) {
+        console.error(`Error processing reminder for ${reminder.abonnement_id}:`, error);
+        results.push({
+          abonnement_id: reminder.abonnement_id,
+          status: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    // 4. Send the queued reminders right away
+    if (queuedCount > 0) {
+      await fetch(`${supabaseUrl}/functions/v1/dispatch-notifications`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${supabaseServiceKey}`,
+          "Content-Type": "application/json",
+        },
+      }).catch((error) => console.error("Error triggering dispatcher:", error));
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Subscription lifecycle completed",
+        expired: expireResult,
+        reminders_queued: queuedCount,
+        payment_links: paymentLinksCount,
+        results,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error in subscription-lifecycle:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "lifecycle_failed",
+        message: error instanceof Error ? error.message : "Failed to run subscription lifecycle",
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -1,5 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { MAX_TRUSTED_DEVICES, resolveDevice } from "../_shared/devices.ts";
+import type { DeviceFingerprint } from "../_shared/devices.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,13 +9,6 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-interface DeviceFingerprint {
-  userAgent: string;
-  screenResolution: string;
-  timezone: string;
-  language: string;
-}
-
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 200, headers: corsHeaders });
@@ -25,7 +20,12 @@ Deno.serve(async (req: Request) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    const { token, deviceFingerprint, ipAddress } = await req.json();
+    const { token, deviceFingerprint, ipAddress, sessionId }: {
+      token?: string;
+      deviceFingerprint?: DeviceFingerprint;
+      ipAddress?: string;
+      sessionId?: string;
+    } = await req.json();
 
     if (!token) {
       return new Response(
@@ -34,6 +34,22 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Sans session admise, generate-secure-page ne servirait aucune page
+    if (!sessionId) {
+      return new Response(
+        JSON.stringify({ error: "Session de lecture requise" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Sans empreinte, le registre d'appareils et sa limite seraient contournés
+    if (!deviceFingerprint) {
+      return new Response(
+        JSON.stringify({ error: "Empreinte de l'appareil requise" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     const { data: tokenData, error: tokenError } = await supabaseClient
       .from("tokens")
       .select("*")
@@ -81,7 +97,7 @@ Deno.serve(async (req: Request) => {
 
     const { data: pdfData, error: pdfError } = await supabaseClient
       .from("pdfs")
-      .select("id, titre, url_fichier, statut_publication")
+      .select("id, titre, url_fichier, statut_publication, nb_pages")
       .eq("id", tokenData.pdf_id)
       .maybeSingle();
 
@@ -107,83 +123,111 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    let suspiciousActivity = false;
-    let suspiciousReason = "";
+    // Appareil reconnu par similarité d'empreinte : une mise à jour du navigateur
+    // ne passe plus pour un partage de lien
+    const device = await resolveDevice(supabaseClient, userData.id, deviceFingerprint, ipAddress || null);
 
-    if (tokenData.device_fingerprint && deviceFingerprint) {
-      if (tokenData.device_fingerprint !== JSON.stringify(deviceFingerprint)) {
-        suspiciousActivity = true;
-        suspiciousReason = "Device différent détecté";
+    if (device.status === "limit_reached") {
+      return new Response(
+        JSON.stringify({
+          error: "Trop d'appareils",
+          reason: `Vous avez déjà ${MAX_TRUSTED_DEVICES} appareils enregistrés. Retirez-en un depuis votre espace abonné pour lire sur celui-ci.`,
+        }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
+    if (device.status === "enrollment_required") {
+      if (device.isNew) {
         await supabaseClient.from("acces_suspects").insert({
           user_id: tokenData.user_id,
           token_id: tokenData.id,
           type_alerte: "device_multiple",
-          description: `Tentative d'accès depuis un device différent. Original: ${tokenData.device_fingerprint}, Nouveau: ${JSON.stringify(deviceFingerprint)}`,
-          severity: "critical",
+          description: "Ouverture depuis un appareil inconnu, en attente du code WhatsApp",
+          severity: "medium",
           data: {
-            original_device: tokenData.device_fingerprint,
+            device_id: device.deviceId,
             new_device: deviceFingerprint,
             ip_address: ipAddress,
           },
         });
-
-        await supabaseClient
-          .from("tokens")
-          .update({
-            revoked: true,
-            revoked_reason: "Accès depuis un device non autorisé",
-          })
-          .eq("id", tokenData.id);
-
-        return new Response(
-          JSON.stringify({
-            error: "Accès refusé",
-            reason: "Ce lien ne peut être ouvert que sur le device d'origine. Partage de lien détecté et signalé."
-          }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
       }
+
+      return new Response(
+        JSON.stringify({
+          error: "Nouvel appareil",
+          reason: "Confirmez cet appareil avec le code envoyé sur votre WhatsApp.",
+          enrollmentRequired: true,
+          deviceId: device.deviceId,
+        }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    if (tokenData.ip_addresses && ipAddress) {
-      const ipList = tokenData.ip_addresses as string[];
-      if (ipList.length > 0 && !ipList.includes(ipAddress)) {
-        if (ipList.length >= 2) {
-          suspiciousActivity = true;
-          suspiciousReason = "Accès depuis plusieurs IP";
-
-          await supabaseClient.from("acces_suspects").insert({
-            user_id: tokenData.user_id,
-            token_id: tokenData.id,
-            type_alerte: "ip_differente",
-            description: `Accès depuis une nouvelle IP: ${ipAddress}. IPs précédentes: ${ipList.join(", ")}`,
-            severity: "high",
-            data: {
-              previous_ips: ipList,
-              new_ip: ipAddress,
-            },
-          });
-
-          await supabaseClient
-            .from("tokens")
-            .update({
-              revoked: true,
-              revoked_reason: "Accès depuis plusieurs localisations différentes",
-            })
-            .eq("id", tokenData.id);
-
-          return new Response(
-            JSON.stringify({
-              error: "Accès refusé",
-              reason: "Accès depuis plusieurs localisations détecté. Ce lien a été désactivé pour des raisons de sécurité."
-            }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-      }
+    const deviceId = device.deviceId;
+
+    // Score de confiance (règles réglables par les admins) : la réponse est
+    // graduée au lieu d'une révocation immédiate
+    const { data: risk, error: riskError } = await supabaseClient.rpc("evaluate_user_risk", {
+      p_user_id: userData.id,
+      p_token_id: tokenData.id,
+      p_device_id: deviceId,
+    });
+
+    if (riskError || !risk?.success) {
+      console.error("Risk evaluation error:", riskError || risk?.error);
+      return new Response(
+        JSON.stringify({ error: "Erreur lors de la vérification de l'accès" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    if (risk.action === "revoke") {
+      await supabaseClient
+        .from("tokens")
+        .update({
+          revoked: true,
+          revoked_reason: "Score de confiance insuffisant",
+        })
+        .eq("id", tokenData.id);
+
+      return new Response(
+        JSON.stringify({
+          error: "Accès révoqué",
+          reason: "Trop d'activités inhabituelles sur votre compte. Ce lien a été désactivé ; contactez le support.",
+        }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (risk.action === "lock") {
+      const minutes = Math.max(1, Math.ceil((new Date(risk.locked_until).getTime() - Date.now()) / 60000));
+
+      return new Response(
+        JSON.stringify({
+          error: "Accès temporairement suspendu",
+          reason: `Activité inhabituelle détectée sur votre compte. Réessayez dans ${minutes} minute${minutes > 1 ? "s" : ""}.`,
+          lockedUntil: risk.locked_until,
+        }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (risk.action === "step_up") {
+      return new Response(
+        JSON.stringify({
+          error: "Vérification requise",
+          reason: "Confirmez votre identité avec le code envoyé sur votre WhatsApp.",
+          enrollmentRequired: true,
+          stepUp: true,
+          deviceId,
+        }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const suspiciousActivity = risk.action === "warn";
+
     const updateData: any = {
       access_count: tokenData.access_count + 1,
       last_access_at: new Date().toISOString(),
@@ -191,9 +235,7 @@ Deno.serve(async (req: Request) => {
 
     if (!tokenData.first_access_at) {
       updateData.first_access_at = new Date().toISOString();
-      if (deviceFingerprint) {
-        updateData.device_fingerprint = JSON.stringify(deviceFingerprint);
-      }
+      updateData.device_fingerprint = JSON.stringify(deviceFingerprint);
     }
 
     if (ipAddress) {
@@ -208,18 +250,39 @@ Deno.serve(async (req: Request) => {
       .update(updateData)
       .eq("id", tokenData.id);
 
+    // Au-delà des appareils autorisés, les sessions les plus anciennes sont fermées
+    // et prévenues en temps réel (trigger sur active_sessions)
+    const { data: admission, error: admissionError } = await supabaseClient.rpc("admit_reading_session", {
+      p_token_id: tokenData.id,
+      p_session_id: sessionId,
+      p_device_id: deviceId,
+      p_device_fingerprint: deviceFingerprint,
+      p_ip_address: ipAddress || null,
+      p_user_agent: req.headers.get("user-agent"),
+    });
+
+    if (admissionError || !admission?.success) {
+      console.error("Session admission error:", admissionError || admission?.error);
+      return new Response(
+        JSON.stringify({ error: "Impossible d'ouvrir une session de lecture" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     const { data: editionData } = await supabaseClient
       .from("editions")
       .select(`
         id,
         titre,
-        pages(id, page_number, image_url),
+        nb_pages,
         articles(id, titre, ordre_lecture)
       `)
       .eq("pdf_url", pdfData.url_fichier)
       .eq("statut", "published")
       .maybeSingle();
 
+    // Les pages ne sont plus envoyées ici : le lecteur les demande une à une,
+    // filigranées, à generate-secure-page
     if (editionData) {
       return new Response(
         JSON.stringify({
@@ -227,10 +290,12 @@ Deno.serve(async (req: Request) => {
           hasArticles: true,
           editionId: editionData.id,
           editionTitle: editionData.titre,
+          totalPages: editionData.nb_pages ?? pdfData.nb_pages,
           userId: userData.id,
           userName: userData.nom,
           userNumber: userData.numero_abonne,
           suspicious: suspiciousActivity,
+          trustScore: risk.score,
         }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -240,12 +305,13 @@ Deno.serve(async (req: Request) => {
       JSON.stringify({
         valid: true,
         hasArticles: false,
-        pdfUrl: pdfData.url_fichier,
         pdfTitle: pdfData.titre,
+        totalPages: pdfData.nb_pages,
         userId: userData.id,
         userName: userData.nom,
         userNumber: userData.numero_abonne,
         suspicious: suspiciousActivity,
+        trustScore: risk.score,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
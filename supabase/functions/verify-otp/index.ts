@@ -10,6 +10,7 @@ const corsHeaders = {
 interface VerifyOTPRequest {
   numero_whatsapp: string;
   otp_code: string;
+  referral_code?: string;
 }
 
 const MAX_ATTEMPTS = 3;
@@ -20,7 +21,7 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { numero_whatsapp, otp_code }: VerifyOTPRequest = await req.json();
+    const { numero_whatsapp, otp_code, referral_code }: VerifyOTPRequest = await req.json();
 
     if (!numero_whatsapp || !otp_code) {
       return new Response(
@@ -154,11 +155,26 @@ Deno.serve(async (req: Request) => {
 
     console.log("[verify-otp] ✅ Vérification réussie pour", formatted);
 
+    // Le parrainage n'est rattaché qu'ici, une fois le numéro prouvé : la RPC est réservée
+    // au service role. Un code refusé ne bloque pas l'inscription.
+    let referral = null;
+    if (referral_code) {
+      const { data: referralResult, error: referralError } = await supabase.rpc("apply_referral_code", {
+        p_user_id: userData.id,
+        p_code: referral_code,
+      });
+      if (referralError) {
+        console.error("[verify-otp] Erreur de parrainage:", referralError);
+      }
+      referral = referralResult ?? { success: false, error: "Code de parrainage non appliqué" };
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         message: "Numéro WhatsApp vérifié avec succès",
         user_id: userData.id,
+        referral,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,242 @@
+/*
+  # Publication des éditions côté serveur
+
+  1. Problème
+    - `PublishModal` créait les tokens, notifications et envois WhatsApp
+      depuis le navigateur de l'admin avec `Promise.all`
+    - Si l'onglet était fermé en cours de route, une partie des abonnés
+      ne recevait jamais l'édition
+
+  2. Nouvelles Tables
+    - `publication_jobs` : une publication d'un PDF (statut, compteurs, heartbeat)
+      - `partiel` : job terminé avec au moins un destinataire en échec
+    - `publication_job_items` : un destinataire par ligne, avec checkpoint
+      du token et de la notification créés pour lui
+
+  3. Nouvelles Fonctions
+    - `create_publication_job()` : crée le job et fige la liste des abonnés actifs
+    - `claim_publication_job()` : un seul worker à la fois, reprise si heartbeat expiré ;
+      la reprise d'un job `echoue` ou `partiel` remet ses destinataires en échec en file
+    - `refresh_publication_job_progress()` : recalcule les compteurs depuis les items
+
+  4. Security
+    - RLS activé, lecture réservée aux admins
+    - Écriture uniquement via l'edge function `publish-edition` (service role)
+    - Fonctions révoquées pour anon et authenticated : réservées au service role
+    - `publication_jobs` ajouté à la publication realtime pour suivre la progression
+*/
+
+-- ============================================================
+-- TABLE : JOBS DE PUBLICATION
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS publication_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pdf_id uuid NOT NULL REFERENCES pdfs(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  statut text NOT NULL DEFAULT 'en_attente' CHECK (statut IN ('en_attente', 'en_cours', 'termine', 'partiel', 'echoue', 'annule')),
+  lien_base text NOT NULL,
+  validite_heures integer NOT NULL DEFAULT 24,
+  batch_size integer NOT NULL DEFAULT 25,
+  total_destinataires integer NOT NULL DEFAULT 0,
+  nb_traites integer NOT NULL DEFAULT 0,
+  nb_envoyes integer NOT NULL DEFAULT 0,
+  nb_echecs integer NOT NULL DEFAULT 0,
+  erreur text,
+  started_at timestamptz,
+  heartbeat_at timestamptz,
+  finished_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_publication_jobs_pdf_id ON publication_jobs(pdf_id);
+CREATE INDEX IF NOT EXISTS idx_publication_jobs_statut ON publication_jobs(statut);
+CREATE INDEX IF NOT EXISTS idx_publication_jobs_created_at ON publication_jobs(created_at DESC);
+
+-- ============================================================
+-- TABLE : DESTINATAIRES D'UN JOB
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS publication_job_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES publication_jobs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  numero_destinataire text,
+  token_id uuid REFERENCES tokens(id) ON DELETE SET NULL,
+  notification_id uuid REFERENCES notifications(id) ON DELETE SET NULL,
+  lien_lecture text,
+  statut text NOT NULL DEFAULT 'en_attente' CHECK (statut IN ('en_attente', 'envoye', 'echoue')),
+  erreur text,
+  processed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (job_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_publication_job_items_job_statut ON publication_job_items(job_id, statut);
+
+-- ============================================================
+-- ENABLE RLS
+-- ============================================================
+
+ALTER TABLE publication_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE publication_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view publication jobs"
+  ON publication_jobs FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view publication job items"
+  ON publication_job_items FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- ============================================================
+-- FONCTION : CRÉATION D'UN JOB
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION create_publication_job(
+  p_pdf_id uuid,
+  p_created_by uuid,
+  p_lien_base text,
+  p_batch_size integer DEFAULT 25,
+  p_validite_heures integer DEFAULT 24
+)
+RETURNS publication_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job publication_jobs;
+  v_total integer;
+BEGIN
+  -- Un seul job actif par PDF
+  SELECT * INTO v_job
+  FROM publication_jobs
+  WHERE pdf_id = p_pdf_id
+  AND statut IN ('en_attente', 'en_cours')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN v_job;
+  END IF;
+
+  INSERT INTO publication_jobs (pdf_id, created_by, lien_base, batch_size, validite_heures)
+  VALUES (p_pdf_id, p_created_by, p_lien_base, p_batch_size, p_validite_heures)
+  RETURNING * INTO v_job;
+
+  -- Liste figée des abonnés actifs au moment de la publication
+  INSERT INTO publication_job_items (job_id, user_id, numero_destinataire)
+  SELECT v_job.id, u.id, u.numero_whatsapp
+  FROM users u
+  WHERE u.role = 'lecteur'
+  AND u.statut_abonnement IN ('actif', 'essai')
+  AND (u.date_fin_abonnement IS NULL OR u.date_fin_abonnement >= now());
+
+  GET DIAGNOSTICS v_total = ROW_COUNT;
+
+  UPDATE publication_jobs
+  SET total_destinataires = v_total,
+      updated_at = now()
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+-- ============================================================
+-- FONCTION : PRISE EN CHARGE D'UN JOB PAR UN WORKER
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION claim_publication_job(
+  p_job_id uuid,
+  p_stale_after_seconds integer DEFAULT 120
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed integer;
+  v_previous_statut text;
+BEGIN
+  SELECT statut INTO v_previous_statut
+  FROM publication_jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  -- Un job en cours dont le heartbeat est récent appartient déjà à un worker
+  UPDATE publication_jobs
+  SET statut = 'en_cours',
+      started_at = COALESCE(started_at, now()),
+      heartbeat_at = now(),
+      erreur = NULL,
+      updated_at = now()
+  WHERE id = p_job_id
+  AND (
+    statut IN ('en_attente', 'echoue', 'partiel')
+    OR (
+      statut = 'en_cours'
+      AND (heartbeat_at IS NULL OR heartbeat_at < now() - make_interval(secs => p_stale_after_seconds))
+    )
+  );
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  -- Le worker ne traite que les items `en_attente` : sans cela, une reprise ne renverrait rien
+  IF v_claimed > 0 AND v_previous_statut IN ('echoue', 'partiel') THEN
+    UPDATE publication_job_items
+    SET statut = 'en_attente',
+        erreur = NULL
+    WHERE job_id = p_job_id
+    AND statut = 'echoue';
+  END IF;
+
+  RETURN v_claimed > 0;
+END;
+$$;
+
+-- ============================================================
+-- FONCTION : MISE À JOUR DE LA PROGRESSION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION refresh_publication_job_progress(p_job_id uuid)
+RETURNS publication_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job publication_jobs;
+BEGIN
+  UPDATE publication_jobs j
+  SET nb_envoyes = s.envoyes,
+      nb_echecs = s.echecs,
+      nb_traites = s.envoyes + s.echecs,
+      heartbeat_at = now(),
+      updated_at = now()
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE statut = 'envoye') AS envoyes,
+      COUNT(*) FILTER (WHERE statut = 'echoue') AS echecs
+    FROM publication_job_items
+    WHERE job_id = p_job_id
+  ) s
+  WHERE j.id = p_job_id
+  RETURNING j.* INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_publication_job(uuid, uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_publication_job(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_publication_job_progress(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Progression diffusée à l'interface admin
+ALTER PUBLICATION supabase_realtime ADD TABLE publication_jobs;
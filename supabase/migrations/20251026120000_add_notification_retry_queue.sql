@@ -0,0 +1,204 @@
+/*
+  # File de réessai et dead-letter pour les notifications
+
+  1. Problème
+    - Aucun envoi échoué n'était jamais retenté
+    - La publication écrivait `statut = 'echec'`, refusé par la contrainte CHECK
+
+  2. Schema Changes
+    - Nouveaux statuts :
+      - `en_cours` : ligne prise en charge par le dispatcher
+      - `abandonne` : dead-letter, nombre maximal de tentatives atteint
+    - `prochaine_tentative` : date à partir de laquelle la ligne peut être retentée
+    - `derniere_tentative` : date du dernier essai (sert aussi à libérer les lignes bloquées en `en_cours`)
+
+  3. Nouvelles Fonctions
+    - `claim_due_notifications()` : réserve un lot de notifications à envoyer (SKIP LOCKED)
+    - `record_notification_attempt()` : enregistre le résultat d'un envoi avec backoff exponentiel
+    - `requeue_notifications()` : remise en file manuelle par un admin
+
+  4. Security
+    - `claim_due_notifications()` et `record_notification_attempt()` sont réservées
+      au service role : les messages contiennent les liens de lecture
+
+  5. Important Notes
+    - Une notification insérée directement en `en_cours` (envoi immédiat par
+      `publish-edition`) n'est reprise par le dispatcher qu'une fois bloquée
+    - Le nombre maximal de tentatives et le délai de base du backoff sont passés
+      en paramètres par l'edge function `dispatch-notifications` (variables d'environnement)
+*/
+
+-- ============================================================
+-- 1. STATUTS ET COLONNES
+-- ============================================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_statut_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_statut_check
+CHECK (statut IN ('en_attente', 'en_cours', 'envoye', 'echoue', 'abandonne', 'annule'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'prochaine_tentative'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN prochaine_tentative timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'derniere_tentative'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN derniere_tentative timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_retry_queue
+ON notifications(prochaine_tentative)
+WHERE statut IN ('en_attente', 'echoue');
+
+-- ============================================================
+-- 2. RÉSERVATION D'UN LOT
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION claim_due_notifications(
+  p_limit integer DEFAULT 50,
+  p_max_attempts integer DEFAULT 5,
+  p_stale_after_seconds integer DEFAULT 600
+)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notifications n
+  SET statut = 'en_cours',
+      derniere_tentative = now()
+  WHERE n.id IN (
+    SELECT id
+    FROM notifications
+    WHERE tentatives < p_max_attempts
+    AND (
+      (
+        statut IN ('en_attente', 'echoue')
+        AND (date_envoi_prevue IS NULL OR date_envoi_prevue <= now())
+        AND (prochaine_tentative IS NULL OR prochaine_tentative <= now())
+      )
+      OR (
+        -- Dispatcher interrompu pendant l'envoi
+        statut = 'en_cours'
+        AND derniere_tentative < now() - make_interval(secs => p_stale_after_seconds)
+      )
+    )
+    ORDER BY COALESCE(prochaine_tentative, date_envoi_prevue, created_at)
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$;
+
+-- ============================================================
+-- 3. RÉSULTAT D'UN ENVOI
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION record_notification_attempt(
+  p_notification_id uuid,
+  p_success boolean,
+  p_error text DEFAULT NULL,
+  p_max_attempts integer DEFAULT 5,
+  p_backoff_base_seconds integer DEFAULT 60
+)
+RETURNS notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notification notifications;
+  v_attempts integer;
+BEGIN
+  SELECT * INTO v_notification
+  FROM notifications
+  WHERE id = p_notification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_attempts := COALESCE(v_notification.tentatives, 0) + 1;
+
+  IF p_success THEN
+    UPDATE notifications
+    SET statut = 'envoye',
+        tentatives = v_attempts,
+        date_envoi_reelle = now(),
+        derniere_tentative = now(),
+        prochaine_tentative = NULL,
+        erreur = NULL
+    WHERE id = p_notification_id
+    RETURNING * INTO v_notification;
+  ELSIF v_attempts >= p_max_attempts THEN
+    UPDATE notifications
+    SET statut = 'abandonne',
+        tentatives = v_attempts,
+        derniere_tentative = now(),
+        prochaine_tentative = NULL,
+        erreur = p_error
+    WHERE id = p_notification_id
+    RETURNING * INTO v_notification;
+  ELSE
+    -- Backoff exponentiel : base, 2x base, 4x base...
+    UPDATE notifications
+    SET statut = 'echoue',
+        tentatives = v_attempts,
+        derniere_tentative = now(),
+        prochaine_tentative = now() + make_interval(secs => p_backoff_base_seconds * power(2, v_attempts - 1)),
+        erreur = p_error
+    WHERE id = p_notification_id
+    RETURNING * INTO v_notification;
+  END IF;
+
+  RETURN v_notification;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_notifications(integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_notification_attempt(uuid, boolean, text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 4. REMISE EN FILE PAR UN ADMIN
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION requeue_notifications(p_notification_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Accès réservé aux administrateurs';
+  END IF;
+
+  UPDATE notifications
+  SET statut = 'en_attente',
+      tentatives = 0,
+      prochaine_tentative = NULL,
+      date_envoi_prevue = now()
+  WHERE id = ANY(p_notification_ids)
+  AND statut IN ('echoue', 'abandonne');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION requeue_notifications TO authenticated;
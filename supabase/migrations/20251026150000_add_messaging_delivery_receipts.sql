@@ -0,0 +1,43 @@
+/*
+  # Reçus de livraison des fournisseurs de messagerie
+
+  1. Schema Changes
+    - `notifications.provider` : fournisseur ayant effectivement envoyé le message
+    - `notifications.provider_message_id` : identifiant du message chez ce fournisseur
+    - `notifications.statut_livraison` : dernier statut normalisé
+      (queued, sent, delivered, read, failed)
+
+  2. Important Notes
+    - Les reçus sont normalisés par `_shared/messaging.ts` quel que soit le fournisseur
+    - L'edge function `messaging-receipts` reçoit les callbacks et met à jour
+      `statut_livraison` via `provider_message_id`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'provider'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN provider text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'provider_message_id'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN provider_message_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'statut_livraison'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN statut_livraison text
+      CHECK (statut_livraison IN ('queued', 'sent', 'delivered', 'read', 'failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_provider_message_id
+ON notifications(provider, provider_message_id)
+WHERE provider_message_id IS NOT NULL;
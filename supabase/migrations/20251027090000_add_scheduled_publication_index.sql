@@ -0,0 +1,35 @@
+/*
+  # Publication planifiée des éditions
+
+  1. Index
+    - Index partiel sur `pdfs.date_publication_prevue` pour les éditions `planifie`,
+      interrogé à chaque passage de l'edge function `publish-scheduled-editions`
+
+  2. Contraintes
+    - Une édition planifiée doit avoir une date de publication prévue
+    - Les éditions `planifie` existantes sans date repassent en `brouillon`
+      avant l'ajout de la contrainte
+
+  3. Schema Changes
+    - `publication_jobs.nb_reprises` : reprises automatiques d'un job `echoue`,
+      plafonnées par `publish-scheduled-editions`
+*/
+
+CREATE INDEX IF NOT EXISTS idx_pdfs_publication_planifiee
+ON pdfs(date_publication_prevue)
+WHERE statut_publication = 'planifie';
+
+-- Sans date, le cron ne les publierait jamais : retour en brouillon plutôt qu'une date inventée
+UPDATE pdfs
+SET statut_publication = 'brouillon'
+WHERE statut_publication = 'planifie'
+AND date_publication_prevue IS NULL;
+
+ALTER TABLE pdfs DROP CONSTRAINT IF EXISTS pdfs_planifie_date_check;
+
+ALTER TABLE pdfs
+ADD CONSTRAINT pdfs_planifie_date_check
+CHECK (statut_publication <> 'planifie' OR date_publication_prevue IS NOT NULL);
+
+ALTER TABLE publication_jobs
+ADD COLUMN IF NOT EXISTS nb_reprises integer NOT NULL DEFAULT 0;
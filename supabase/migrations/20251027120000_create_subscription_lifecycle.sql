@@ -0,0 +1,330 @@
+/*
+  # Cycle de vie des abonnements : expiration, rappels et renouvellement
+
+  1. Problème
+    - Aucun abonnement n'expirait jamais automatiquement
+    - Les notifications `expiration_proche` et `rappel_paiement` n'étaient jamais produites
+    - `users.statut_abonnement` pouvait diverger des lignes `abonnements`
+
+  2. Nouvelles Tables
+    - `rappels_abonnement` : un rappel envoyé par abonnement, échéance et jalon (J-7, J-3, J-1)
+
+  3. Nouvelles Fonctions
+    - `sync_user_subscription_status()` : recalcule `users.statut_abonnement` et
+      `users.date_fin_abonnement` depuis `abonnements` (trigger)
+    - `expire_lapsed_subscriptions()` : passe en `expire` les abonnements échus
+    - `get_due_subscription_reminders()` : rappels à envoyer lors de ce passage
+    - `record_subscription_reminder()` : enregistre le rappel et met la notification en file
+    - `set_auto_renewal()` : l'abonné active ou désactive son renouvellement automatique
+
+  4. Security
+    - Fonctions du job quotidien révoquées pour anon et authenticated : elles
+      exposent les numéros WhatsApp et mettent des messages en file (service role uniquement)
+
+  5. Important Notes
+    - Un utilisateur `suspendu` par un admin n'est jamais réactivé par la synchronisation
+    - Les rappels passent par la file `notifications` (envoi par `dispatch-notifications`)
+    - Si un passage quotidien est manqué, le jalon le plus proche est envoyé une seule fois
+    - Un seul lien de paiement par échéance : les jalons suivants réutilisent celui
+      du premier rappel tant que le paiement est en attente
+*/
+
+-- ============================================================
+-- 1. TABLE : RAPPELS ENVOYÉS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS rappels_abonnement (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  abonnement_id uuid NOT NULL REFERENCES abonnements(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  date_fin timestamptz NOT NULL,
+  jalon_jours integer NOT NULL,
+  notification_id uuid REFERENCES notifications(id) ON DELETE SET NULL,
+  paiement_id uuid REFERENCES paiements(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (abonnement_id, date_fin, jalon_jours)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rappels_abonnement_user_id ON rappels_abonnement(user_id);
+
+ALTER TABLE rappels_abonnement ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view subscription reminders"
+  ON rappels_abonnement FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- ============================================================
+-- 2. SYNCHRONISATION USERS <- ABONNEMENTS
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION sync_user_subscription_status(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_status text;
+  v_active_end timestamptz;
+  v_last_end timestamptz;
+BEGIN
+  SELECT statut_abonnement INTO v_current_status
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_current_status = 'suspendu' THEN
+    RETURN;
+  END IF;
+
+  SELECT MAX(date_fin) INTO v_active_end
+  FROM abonnements
+  WHERE user_id = p_user_id
+  AND statut = 'actif'
+  AND date_fin > now();
+
+  IF v_active_end IS NOT NULL THEN
+    UPDATE users
+    SET statut_abonnement = CASE WHEN v_current_status = 'essai' THEN 'essai' ELSE 'actif' END,
+        date_fin_abonnement = v_active_end,
+        updated_at = now()
+    WHERE id = p_user_id;
+    RETURN;
+  END IF;
+
+  SELECT MAX(date_fin) INTO v_last_end
+  FROM abonnements
+  WHERE user_id = p_user_id
+  AND statut IN ('actif', 'expire');
+
+  -- Seuls les comptes qui avaient un accès le perdent ; `inactif` (paiement en attente) reste tel quel
+  IF v_last_end IS NOT NULL AND v_current_status IN ('actif', 'essai') THEN
+    UPDATE users
+    SET statut_abonnement = 'expire',
+        date_fin_abonnement = v_last_end,
+        updated_at = now()
+    WHERE id = p_user_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_sync_user_subscription_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM sync_user_subscription_status(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_user_subscription_status_on_abonnements ON abonnements;
+
+CREATE TRIGGER sync_user_subscription_status_on_abonnements
+  AFTER INSERT OR UPDATE OF statut, date_fin ON abonnements
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_sync_user_subscription_status();
+
+-- ============================================================
+-- 3. EXPIRATION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION expire_lapsed_subscriptions()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expired_subscriptions integer := 0;
+  v_expired_users integer := 0;
+BEGIN
+  -- Le trigger resynchronise chaque utilisateur concerné
+  UPDATE abonnements
+  SET statut = 'expire',
+      updated_at = now()
+  WHERE statut = 'actif'
+  AND date_fin <= now();
+
+  GET DIAGNOSTICS v_expired_subscriptions = ROW_COUNT;
+
+  -- Comptes sans ligne d'abonnement (anciens essais) dont la date de fin est passée
+  UPDATE users
+  SET statut_abonnement = 'expire',
+      updated_at = now()
+  WHERE role = 'lecteur'
+  AND statut_abonnement IN ('actif', 'essai')
+  AND date_fin_abonnement IS NOT NULL
+  AND date_fin_abonnement <= now();
+
+  GET DIAGNOSTICS v_expired_users = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'expired_subscriptions', v_expired_subscriptions,
+    'expired_users', v_expired_users
+  );
+END;
+$$;
+
+-- ============================================================
+-- 4. RAPPELS À ENVOYER
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_due_subscription_reminders(p_jalons integer[] DEFAULT ARRAY[7, 3, 1])
+RETURNS TABLE (
+  abonnement_id uuid,
+  user_id uuid,
+  nom text,
+  numero_whatsapp text,
+  date_fin timestamptz,
+  jalon_jours integer,
+  renouvellement_auto boolean,
+  formule_id uuid,
+  formule_nom text,
+  prix_fcfa integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT
+      a.id AS abonnement_id,
+      a.user_id,
+      u.nom,
+      u.numero_whatsapp,
+      a.date_fin,
+      -- Plus petit jalon encore couvert par le temps restant
+      (
+        SELECT MIN(j)
+        FROM unnest(p_jalons) AS j
+        WHERE a.date_fin - now() <= make_interval(days => j)
+      ) AS jalon_jours,
+      a.renouvellement_auto,
+      f.id AS formule_id,
+      f.nom AS formule_nom,
+      f.prix_fcfa
+    FROM abonnements a
+    JOIN users u ON u.id = a.user_id
+    JOIN formules f ON f.id = a.formule_id
+    WHERE a.statut = 'actif'
+    AND a.date_fin > now()
+    AND a.date_fin <= now() + make_interval(days => (SELECT MAX(j) FROM unnest(p_jalons) AS j))
+    AND u.statut_abonnement <> 'suspendu'
+    AND u.numero_whatsapp IS NOT NULL
+    -- Un abonnement plus long prend déjà le relais
+    AND NOT EXISTS (
+      SELECT 1 FROM abonnements other
+      WHERE other.user_id = a.user_id
+      AND other.id <> a.id
+      AND other.statut = 'actif'
+      AND other.date_fin > a.date_fin
+    )
+  )
+  SELECT c.*
+  FROM candidates c
+  WHERE NOT EXISTS (
+    SELECT 1 FROM rappels_abonnement r
+    WHERE r.abonnement_id = c.abonnement_id
+    AND r.date_fin = c.date_fin
+    AND r.jalon_jours <= c.jalon_jours
+  );
+$$;
+
+-- ============================================================
+-- 5. ENREGISTREMENT D'UN RAPPEL
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION record_subscription_reminder(
+  p_abonnement_id uuid,
+  p_date_fin timestamptz,
+  p_jalon_jours integer,
+  p_type_notification text,
+  p_message text,
+  p_lien text DEFAULT NULL,
+  p_paiement_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user record;
+  v_reminder_id uuid;
+  v_notification_id uuid;
+BEGIN
+  SELECT u.id, u.numero_whatsapp INTO v_user
+  FROM abonnements a
+  JOIN users u ON u.id = a.user_id
+  WHERE a.id = p_abonnement_id;
+
+  INSERT INTO rappels_abonnement (abonnement_id, user_id, date_fin, jalon_jours, paiement_id)
+  VALUES (p_abonnement_id, v_user.id, p_date_fin, p_jalon_jours, p_paiement_id)
+  ON CONFLICT (abonnement_id, date_fin, jalon_jours) DO NOTHING
+  RETURNING id INTO v_reminder_id;
+
+  -- Déjà envoyé par un passage concurrent
+  IF v_reminder_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (
+    user_id,
+    type_notification,
+    numero_destinataire,
+    message,
+    lien_lecture,
+    statut,
+    date_envoi_prevue
+  ) VALUES (
+    v_user.id,
+    p_type_notification,
+    v_user.numero_whatsapp,
+    p_message,
+    p_lien,
+    'en_attente',
+    now()
+  )
+  RETURNING id INTO v_notification_id;
+
+  UPDATE rappels_abonnement
+  SET notification_id = v_notification_id
+  WHERE id = v_reminder_id;
+
+  RETURN v_notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_user_subscription_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_lapsed_subscriptions() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_due_subscription_reminders(integer[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_subscription_reminder(uuid, timestamptz, integer, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 6. RENOUVELLEMENT AUTOMATIQUE (CHOIX DE L'ABONNÉ)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION set_auto_renewal(p_abonnement_id uuid, p_enabled boolean)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE abonnements
+  SET renouvellement_auto = p_enabled,
+      updated_at = now()
+  WHERE id = p_abonnement_id
+  AND (user_id = auth.uid() OR is_admin());
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_auto_renewal TO authenticated;
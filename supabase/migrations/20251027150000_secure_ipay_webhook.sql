@@ -0,0 +1,212 @@
+/*
+  # Sécurisation du webhook iPay : signature, anti-rejeu et idempotence
+
+  1. Problème
+    - `ipay-webhook` acceptait n'importe quel corps JSON, sans authentification
+    - Un même callback rejoué (ou falsifié) pouvait être traité plusieurs fois
+
+  2. Modifications de `webhook_logs`
+    - `idempotency_key` (text) : clé de l'événement (`<référence iPay>:<statut>`)
+    - `nonce` (text) : nonce signé de la dernière réception
+    - `signature_valid` (boolean) : résultat de la vérification HMAC
+    - `attempts` (integer) : nombre de réceptions de l'événement
+    - Statut supplémentaire `processing` et `rejected`
+
+  3. Nouvelles Tables
+    - `webhook_nonces` : nonces déjà reçus, purgés après 24 h
+
+  4. Nouvelles Fonctions
+    - `register_webhook_event()` : enregistre un événement entrant de façon atomique
+      - refuse un nonce déjà vu (rejeu)
+      - renvoie `duplicate` si l'événement est déjà traité ou en cours
+      - autorise une nouvelle tentative si le traitement précédent a échoué
+    - `confirm_payment_manual()` : confirmation manuelle d'un paiement par un admin
+
+  5. Security
+    - `register_webhook_event()` est réservée au service role : un client pourrait sinon
+      pré-enregistrer une clé d'idempotence et faire rejeter le vrai callback iPay
+    - `confirm_payment_secure()` n'est plus exécutable par les clients : seules les edge
+      functions (service role) et `confirm_payment_manual()` (admins) activent un abonnement
+
+  6. Important Notes
+    - Les clients ne peuvent plus insérer dans `webhook_logs` (service role uniquement)
+    - La vérification de la signature se fait dans l'edge function (secret `IPAY_WEBHOOK_SECRET`)
+    - `confirm_payment_secure` reste la seule voie d'activation ; il refuse déjà un paiement confirmé
+*/
+
+-- ============================================================
+-- 1. COLONNES D'IDEMPOTENCE SUR WEBHOOK_LOGS
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'webhook_logs' AND column_name = 'idempotency_key'
+  ) THEN
+    ALTER TABLE webhook_logs ADD COLUMN idempotency_key text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'webhook_logs' AND column_name = 'nonce'
+  ) THEN
+    ALTER TABLE webhook_logs ADD COLUMN nonce text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'webhook_logs' AND column_name = 'signature_valid'
+  ) THEN
+    ALTER TABLE webhook_logs ADD COLUMN signature_valid boolean;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'webhook_logs' AND column_name = 'attempts'
+  ) THEN
+    ALTER TABLE webhook_logs ADD COLUMN attempts integer NOT NULL DEFAULT 1;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_logs_idempotency
+  ON webhook_logs(source, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS webhook_nonces (
+  source text NOT NULL,
+  nonce text NOT NULL,
+  received_at timestamptz DEFAULT now(),
+  PRIMARY KEY (source, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_nonces_received_at ON webhook_nonces(received_at);
+
+ALTER TABLE webhook_nonces ENABLE ROW LEVEL SECURITY;
+
+-- Les logs ne sont plus insérables par les clients : seules les edge functions (service role) écrivent
+DROP POLICY IF EXISTS "System can insert webhook logs" ON webhook_logs;
+
+-- ============================================================
+-- 2. ENREGISTREMENT ATOMIQUE D'UN ÉVÉNEMENT
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION register_webhook_event(
+  p_source text,
+  p_idempotency_key text,
+  p_nonce text,
+  p_event_type text,
+  p_payload jsonb,
+  p_nonce_ttl_seconds integer DEFAULT 86400
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_existing record;
+  v_log_id uuid;
+BEGIN
+  -- 1. Anti-rejeu : un nonce n'est accepté qu'une fois
+  DELETE FROM webhook_nonces
+  WHERE received_at < now() - make_interval(secs => p_nonce_ttl_seconds);
+
+  INSERT INTO webhook_nonces (source, nonce)
+  VALUES (p_source, p_nonce)
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'replay');
+  END IF;
+
+  -- 2. Idempotence : un événement par référence iPay et statut
+  SELECT id, status INTO v_existing
+  FROM webhook_logs
+  WHERE source = p_source
+  AND idempotency_key = p_idempotency_key
+  FOR UPDATE;
+
+  IF FOUND THEN
+    UPDATE webhook_logs
+    SET attempts = attempts + 1
+    WHERE id = v_existing.id;
+
+    IF v_existing.status <> 'error' THEN
+      RETURN jsonb_build_object(
+        'accepted', false,
+        'reason', 'duplicate',
+        'log_id', v_existing.id,
+        'status', v_existing.status
+      );
+    END IF;
+
+    -- Le traitement précédent a échoué : nouvelle tentative autorisée
+    UPDATE webhook_logs
+    SET status = 'processing',
+        nonce = p_nonce,
+        payload = p_payload,
+        signature_valid = true,
+        error_message = NULL,
+        processed_at = NULL
+    WHERE id = v_existing.id;
+
+    RETURN jsonb_build_object('accepted', true, 'log_id', v_existing.id);
+  END IF;
+
+  INSERT INTO webhook_logs (
+    source,
+    event_type,
+    payload,
+    status,
+    idempotency_key,
+    nonce,
+    signature_valid
+  ) VALUES (
+    p_source,
+    p_event_type,
+    p_payload,
+    'processing',
+    p_idempotency_key,
+    p_nonce,
+    true
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN jsonb_build_object('accepted', true, 'log_id', v_log_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION register_webhook_event(text, text, text, text, jsonb, integer) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 3. ACTIVATION RÉSERVÉE AU SERVICE ROLE ET AUX ADMINS
+-- ============================================================
+
+REVOKE EXECUTE ON FUNCTION confirm_payment_secure(uuid, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION confirm_payment_manual(
+  p_payment_id uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Accès réservé aux administrateurs';
+  END IF;
+
+  RETURN confirm_payment_secure(
+    p_payment_id,
+    NULL,
+    NULL,
+    auth.uid(),
+    p_notes
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_payment_manual(uuid, text) TO authenticated;
@@ -0,0 +1,41 @@
+/*
+  # Simulateur iPay (tests hors ligne)
+
+  1. Nouvelles Tables
+    - `ipay_simulator_transactions` : transactions créées par l'edge function `ipay-simulator`
+      - `reference` (text, unique) : référence renvoyée comme le ferait iPay
+      - `kind` (text) : `payment` (API), `link` (lien de paiement) ou `page` (SDK / iframe)
+      - `outcome` (text) : scénario joué (`succeeded`, `failed`, `pending`, `delayed_webhook`, `duplicate_webhook`)
+      - `status` (text) : statut exposé par l'API simulée (`pending`, `succeeded`, `failed`)
+      - `webhook_count` / `last_webhook_at` : callbacks envoyés à `ipay-webhook`
+
+  2. Security
+    - RLS activé sans policy : seule l'edge function (service role) y accède
+
+  3. Important Notes
+    - Utilisée uniquement lorsque `IPAY_MODE=simulator` ; vide en production
+*/
+
+CREATE TABLE IF NOT EXISTS ipay_simulator_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference text UNIQUE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('payment', 'link', 'page')),
+  transaction_id text,
+  external_reference text,
+  amount numeric NOT NULL DEFAULT 0,
+  currency text DEFAULT 'XOF',
+  msisdn text,
+  customer_name text,
+  outcome text NOT NULL DEFAULT 'succeeded'
+    CHECK (outcome IN ('succeeded', 'failed', 'pending', 'delayed_webhook', 'duplicate_webhook')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  webhook_count integer NOT NULL DEFAULT 0,
+  last_webhook_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ipay_simulator_transactions_transaction_id
+  ON ipay_simulator_transactions(transaction_id);
+
+ALTER TABLE ipay_simulator_transactions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,304 @@
+/*
+  # Remboursements totaux et partiels
+
+  1. Problème
+    - Le statut `rembourse` existait sans aucun chemin pour le produire
+    - Un remboursement devait être reporté à la main sur l'abonnement
+
+  2. Modifications de `paiements`
+    - `montant_rembourse` (integer) : cumul des montants remboursés
+    - `date_remboursement` (timestamptz) : date du dernier remboursement
+    - `motif_remboursement` (text) : motif du dernier remboursement
+
+  3. Modifications de `payment_events`
+    - Nouveau type d'événement `partially_refunded`
+
+  4. Nouvelles Fonctions
+    - `refund_payment()` : rembourse tout ou partie d'un paiement confirmé (admin)
+
+  5. Règle de prorata
+    - Le paiement a acheté `duree_jours` jours de sa formule
+    - Rembourser X FCFA sur un paiement de P FCFA retire ceil(duree_jours × X / P) jours
+      à la date de fin de l'abonnement lié
+    - Si la nouvelle date de fin est passée, l'abonnement est annulé
+
+  6. Important Notes
+    - Le remboursement effectif (Mobile Money, espèces) reste fait hors plateforme
+    - L'abonné est prévenu par WhatsApp via la file `notifications`
+    - `sync_user_subscription_status()` tient désormais compte des abonnements annulés
+*/
+
+-- ============================================================
+-- 1. COLONNES DE REMBOURSEMENT
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'paiements' AND column_name = 'montant_rembourse'
+  ) THEN
+    ALTER TABLE paiements ADD COLUMN montant_rembourse integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'paiements' AND column_name = 'date_remboursement'
+  ) THEN
+    ALTER TABLE paiements ADD COLUMN date_remboursement timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'paiements' AND column_name = 'motif_remboursement'
+  ) THEN
+    ALTER TABLE paiements ADD COLUMN motif_remboursement text;
+  END IF;
+END $$;
+
+ALTER TABLE payment_events DROP CONSTRAINT IF EXISTS payment_events_event_type_check;
+
+ALTER TABLE payment_events
+ADD CONSTRAINT payment_events_event_type_check
+CHECK (event_type IN (
+  'created', 'pending', 'paid', 'failed', 'refunded', 'partially_refunded',
+  'confirmed_manual', 'confirmed_auto', 'expired', 'cancelled'
+));
+
+-- ============================================================
+-- 2. SYNCHRONISATION : PRISE EN COMPTE DES ABONNEMENTS ANNULÉS
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION sync_user_subscription_status(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_status text;
+  v_active_end timestamptz;
+  v_last_end timestamptz;
+BEGIN
+  SELECT statut_abonnement INTO v_current_status
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_current_status = 'suspendu' THEN
+    RETURN;
+  END IF;
+
+  SELECT MAX(date_fin) INTO v_active_end
+  FROM abonnements
+  WHERE user_id = p_user_id
+  AND statut = 'actif'
+  AND date_fin > now();
+
+  IF v_active_end IS NOT NULL THEN
+    UPDATE users
+    SET statut_abonnement = CASE WHEN v_current_status = 'essai' THEN 'essai' ELSE 'actif' END,
+        date_fin_abonnement = v_active_end,
+        updated_at = now()
+    WHERE id = p_user_id;
+    RETURN;
+  END IF;
+
+  -- Un abonnement annulé (remboursement) retire l'accès comme une expiration
+  SELECT MAX(date_fin) INTO v_last_end
+  FROM abonnements
+  WHERE user_id = p_user_id
+  AND statut IN ('actif', 'expire', 'annule');
+
+  IF v_last_end IS NOT NULL AND v_current_status IN ('actif', 'essai') THEN
+    UPDATE users
+    SET statut_abonnement = 'expire',
+        date_fin_abonnement = v_last_end,
+        updated_at = now()
+    WHERE id = p_user_id;
+  END IF;
+END;
+$$;
+
+-- ============================================================
+-- 3. REMBOURSEMENT
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION refund_payment(
+  p_payment_id uuid,
+  p_amount integer,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment record;
+  v_subscription record;
+  v_user record;
+  v_duree_jours integer;
+  v_remaining integer;
+  v_total_refunded integer;
+  v_is_full boolean;
+  v_days_removed integer := 0;
+  v_new_end_date timestamptz;
+  v_subscription_cancelled boolean := false;
+  v_message text;
+  v_notification_id uuid;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Accès réservé aux administrateurs';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Le motif du remboursement est requis');
+  END IF;
+
+  -- 1. Verrouiller le paiement
+  SELECT * INTO v_payment
+  FROM paiements
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Paiement introuvable');
+  END IF;
+
+  IF v_payment.statut <> 'confirme' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Seul un paiement confirmé peut être remboursé');
+  END IF;
+
+  v_remaining := v_payment.montant_fcfa - v_payment.montant_rembourse;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_remaining THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Montant invalide (maximum remboursable : %s FCFA)', v_remaining)
+    );
+  END IF;
+
+  v_total_refunded := v_payment.montant_rembourse + p_amount;
+  v_is_full := v_total_refunded >= v_payment.montant_fcfa;
+
+  -- 2. Prorata : jours achetés par ce paiement × part remboursée
+  SELECT COALESCE(f.duree_jours, a.duration_days) INTO v_duree_jours
+  FROM paiements p
+  LEFT JOIN formules f ON f.id = p.formule_id
+  LEFT JOIN abonnements a ON a.id = p.abonnement_id
+  WHERE p.id = p_payment_id;
+
+  SELECT * INTO v_subscription
+  FROM abonnements
+  WHERE id = v_payment.abonnement_id
+  FOR UPDATE;
+
+  IF v_subscription.id IS NOT NULL AND v_duree_jours IS NOT NULL AND v_payment.montant_fcfa > 0 THEN
+    v_days_removed := ceil(v_duree_jours::numeric * p_amount / v_payment.montant_fcfa)::integer;
+    v_new_end_date := v_subscription.date_fin - make_interval(days => v_days_removed);
+
+    IF v_new_end_date <= now() THEN
+      v_new_end_date := LEAST(v_subscription.date_fin, now());
+      v_subscription_cancelled := true;
+    END IF;
+
+    -- Le trigger de synchronisation met à jour `users`
+    UPDATE abonnements
+    SET date_fin = v_new_end_date,
+        statut = CASE WHEN v_subscription_cancelled THEN 'annule' ELSE statut END,
+        renouvellement_auto = CASE WHEN v_subscription_cancelled THEN false ELSE renouvellement_auto END,
+        updated_at = now()
+    WHERE id = v_subscription.id;
+  END IF;
+
+  -- 3. Mettre à jour le paiement
+  UPDATE paiements
+  SET montant_rembourse = v_total_refunded,
+      date_remboursement = now(),
+      motif_remboursement = p_reason,
+      statut = CASE WHEN v_is_full THEN 'rembourse' ELSE statut END
+  WHERE id = p_payment_id;
+
+  -- 4. Journal d'audit
+  INSERT INTO payment_events (
+    payment_id,
+    user_id,
+    event_type,
+    old_status,
+    new_status,
+    performed_by,
+    metadata,
+    notes
+  ) VALUES (
+    p_payment_id,
+    v_payment.user_id,
+    CASE WHEN v_is_full THEN 'refunded' ELSE 'partially_refunded' END,
+    v_payment.statut,
+    CASE WHEN v_is_full THEN 'rembourse' ELSE 'confirme' END,
+    auth.uid(),
+    jsonb_build_object(
+      'amount', p_amount,
+      'total_refunded', v_total_refunded,
+      'payment_amount', v_payment.montant_fcfa,
+      'subscription_id', v_subscription.id,
+      'days_removed', v_days_removed,
+      'previous_end_date', v_subscription.date_fin,
+      'new_end_date', v_new_end_date,
+      'subscription_cancelled', v_subscription_cancelled
+    ),
+    p_reason
+  );
+
+  -- 5. Prévenir l'abonné (envoyé par dispatch-notifications)
+  SELECT id, nom, numero_whatsapp INTO v_user
+  FROM users
+  WHERE id = v_payment.user_id;
+
+  IF v_user.numero_whatsapp IS NOT NULL THEN
+    v_message := format(
+      E'Bonjour %s,\n\n💸 Un remboursement de %s FCFA a été effectué sur votre paiement de %s FCFA.\nMotif : %s\n\n%s\n\nÉquipe L''Enquêteur',
+      v_user.nom,
+      p_amount,
+      v_payment.montant_fcfa,
+      p_reason,
+      CASE
+        WHEN v_subscription.id IS NULL THEN 'Votre abonnement n''est pas modifié.'
+        WHEN v_subscription_cancelled THEN 'Votre abonnement a été annulé.'
+        ELSE format('Votre abonnement est désormais valable jusqu''au %s.', to_char(v_new_end_date, 'DD/MM/YYYY'))
+      END
+    );
+
+    INSERT INTO notifications (
+      user_id,
+      type_notification,
+      numero_destinataire,
+      message,
+      statut,
+      date_envoi_prevue
+    ) VALUES (
+      v_user.id,
+      'autre',
+      v_user.numero_whatsapp,
+      v_message,
+      'en_attente',
+      now()
+    )
+    RETURNING id INTO v_notification_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'payment_id', p_payment_id,
+    'refunded_amount', p_amount,
+    'total_refunded', v_total_refunded,
+    'is_full_refund', v_is_full,
+    'days_removed', v_days_removed,
+    'new_end_date', v_new_end_date,
+    'subscription_cancelled', v_subscription_cancelled,
+    'notification_id', v_notification_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_payment TO authenticated;
@@ -0,0 +1,277 @@
+/*
+  # Codes promo et remises sur les formules
+
+  1. Nouvelles Tables
+    - `codes_promo`
+      - `code` (text, unique) : code saisi par l'abonné (stocké en majuscules)
+      - `type_remise` (text) : `pourcentage` ou `montant_fixe`
+      - `valeur` (integer) : pourcentage (1-100) ou montant en FCFA
+      - `date_debut` / `date_fin` (timestamptz) : fenêtre de validité (optionnelles)
+      - `max_utilisations` (integer) : plafond global (NULL = illimité)
+      - `max_par_utilisateur` (integer) : plafond par abonné
+      - `formule_ids` (uuid[]) : formules autorisées (NULL = toutes)
+      - `actif` (boolean)
+    - `utilisations_code_promo` : une ligne par paiement ayant utilisé un code
+
+  2. Modifications de `paiements`
+    - `code_promo_id`, `montant_initial`, `remise_fcfa`
+
+  3. Nouvelles Fonctions
+    - `quote_promo_code()` : calcule la remise sans rien enregistrer (edge functions)
+    - `validate_promo_code()` : aperçu côté client, pour l'abonné connecté uniquement
+    - `redeem_promo_code()` : revalide sous verrou et enregistre l'utilisation sur le paiement
+
+  4. Important Notes
+    - Le prix de référence est toujours `formules.prix_fcfa`, jamais un montant envoyé par le client
+    - Une utilisation ne compte que si son paiement est en attente ou confirmé :
+      un paiement expiré, échoué ou remboursé libère le code
+    - `validate_promo_code()` compte les utilisations de `auth.uid()` : un client ne peut
+      pas sonder l'historique d'un autre abonné
+*/
+
+-- ============================================================
+-- 1. TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS codes_promo (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text,
+  type_remise text NOT NULL CHECK (type_remise IN ('pourcentage', 'montant_fixe')),
+  valeur integer NOT NULL CHECK (valeur > 0),
+  date_debut timestamptz,
+  date_fin timestamptz,
+  max_utilisations integer CHECK (max_utilisations IS NULL OR max_utilisations > 0),
+  max_par_utilisateur integer DEFAULT 1 CHECK (max_par_utilisateur IS NULL OR max_par_utilisateur > 0),
+  formule_ids uuid[],
+  actif boolean DEFAULT true,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT codes_promo_pourcentage_check CHECK (type_remise <> 'pourcentage' OR valeur <= 100),
+  CONSTRAINT codes_promo_dates_check CHECK (date_debut IS NULL OR date_fin IS NULL OR date_fin > date_debut)
+);
+
+CREATE TABLE IF NOT EXISTS utilisations_code_promo (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code_promo_id uuid NOT NULL REFERENCES codes_promo(id) ON DELETE CASCADE,
+  paiement_id uuid UNIQUE NOT NULL REFERENCES paiements(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  formule_id uuid REFERENCES formules(id),
+  montant_initial integer NOT NULL,
+  remise_fcfa integer NOT NULL,
+  montant_final integer NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_utilisations_code_promo_code ON utilisations_code_promo(code_promo_id);
+CREATE INDEX IF NOT EXISTS idx_utilisations_code_promo_user ON utilisations_code_promo(user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'paiements' AND column_name = 'code_promo_id'
+  ) THEN
+    ALTER TABLE paiements ADD COLUMN code_promo_id uuid REFERENCES codes_promo(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'paiements' AND column_name = 'montant_initial'
+  ) THEN
+    ALTER TABLE paiements ADD COLUMN montant_initial integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'paiements' AND column_name = 'remise_fcfa'
+  ) THEN
+    ALTER TABLE paiements ADD COLUMN remise_fcfa integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- ============================================================
+-- 2. SÉCURITÉ
+-- ============================================================
+
+ALTER TABLE codes_promo ENABLE ROW LEVEL SECURITY;
+ALTER TABLE utilisations_code_promo ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promo codes"
+  ON codes_promo FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can view promo code usage"
+  ON utilisations_code_promo FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- ============================================================
+-- 3. VALIDATION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION quote_promo_code(
+  p_code text,
+  p_formule_id uuid,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_promo record;
+  v_formule record;
+  v_total_uses integer;
+  v_user_uses integer;
+  v_discount integer;
+BEGIN
+  SELECT * INTO v_promo
+  FROM codes_promo
+  WHERE code = upper(btrim(p_code));
+
+  IF NOT FOUND OR NOT v_promo.actif THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Code promo invalide');
+  END IF;
+
+  IF v_promo.date_debut IS NOT NULL AND now() < v_promo.date_debut THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Ce code promo n''est pas encore actif');
+  END IF;
+
+  IF v_promo.date_fin IS NOT NULL AND now() >= v_promo.date_fin THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Ce code promo a expiré');
+  END IF;
+
+  SELECT id, prix_fcfa INTO v_formule
+  FROM formules
+  WHERE id = p_formule_id
+  AND actif = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Formule introuvable');
+  END IF;
+
+  IF v_promo.formule_ids IS NOT NULL AND NOT (p_formule_id = ANY(v_promo.formule_ids)) THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Ce code promo ne s''applique pas à cette formule');
+  END IF;
+
+  -- Seules les utilisations dont le paiement est en attente ou confirmé comptent
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE u.user_id = p_user_id)
+  INTO v_total_uses, v_user_uses
+  FROM utilisations_code_promo u
+  JOIN paiements p ON p.id = u.paiement_id
+  WHERE u.code_promo_id = v_promo.id
+  AND p.statut IN ('en_attente', 'confirme');
+
+  IF v_promo.max_utilisations IS NOT NULL AND v_total_uses >= v_promo.max_utilisations THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Ce code promo a atteint son nombre maximal d''utilisations');
+  END IF;
+
+  IF p_user_id IS NOT NULL AND v_promo.max_par_utilisateur IS NOT NULL AND v_user_uses >= v_promo.max_par_utilisateur THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'Vous avez déjà utilisé ce code promo');
+  END IF;
+
+  v_discount := CASE
+    WHEN v_promo.type_remise = 'pourcentage' THEN round(v_formule.prix_fcfa * v_promo.valeur / 100.0)::integer
+    ELSE v_promo.valeur
+  END;
+  v_discount := LEAST(v_discount, v_formule.prix_fcfa);
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'code_promo_id', v_promo.id,
+    'code', v_promo.code,
+    'type_remise', v_promo.type_remise,
+    'valeur', v_promo.valeur,
+    'prix_initial', v_formule.prix_fcfa,
+    'remise_fcfa', v_discount,
+    'montant_final', v_formule.prix_fcfa - v_discount
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION quote_promo_code FROM PUBLIC, anon, authenticated;
+
+-- Aperçu côté client : l'abonné est celui du JWT, jamais un identifiant passé en paramètre
+CREATE OR REPLACE FUNCTION validate_promo_code(
+  p_code text,
+  p_formule_id uuid
+)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT quote_promo_code(p_code, p_formule_id, auth.uid());
+$$;
+
+REVOKE EXECUTE ON FUNCTION validate_promo_code FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION validate_promo_code TO anon, authenticated;
+
+-- ============================================================
+-- 4. UTILISATION (APPELÉE PAR LES EDGE FUNCTIONS)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_code text,
+  p_formule_id uuid,
+  p_user_id uuid,
+  p_paiement_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verrou sur le code : deux paiements simultanés ne peuvent pas dépasser le plafond
+  PERFORM 1 FROM codes_promo
+  WHERE code = upper(btrim(p_code))
+  FOR UPDATE;
+
+  v_result := quote_promo_code(p_code, p_formule_id, p_user_id);
+
+  IF NOT (v_result->>'valid')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  INSERT INTO utilisations_code_promo (
+    code_promo_id,
+    paiement_id,
+    user_id,
+    formule_id,
+    montant_initial,
+    remise_fcfa,
+    montant_final
+  ) VALUES (
+    (v_result->>'code_promo_id')::uuid,
+    p_paiement_id,
+    p_user_id,
+    p_formule_id,
+    (v_result->>'prix_initial')::integer,
+    (v_result->>'remise_fcfa')::integer,
+    (v_result->>'montant_final')::integer
+  );
+
+  UPDATE paiements
+  SET code_promo_id = (v_result->>'code_promo_id')::uuid,
+      montant_initial = (v_result->>'prix_initial')::integer,
+      remise_fcfa = (v_result->>'remise_fcfa')::integer,
+      montant_fcfa = (v_result->>'montant_final')::integer
+  WHERE id = p_paiement_id;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_promo_code FROM PUBLIC, anon, authenticated;
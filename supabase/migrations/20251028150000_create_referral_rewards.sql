@@ -0,0 +1,606 @@
+/*
+  # Programme de parrainage : attribution et jours offerts
+
+  1. Problème
+    - `users.code_parrainage` et `users.parraine_par` existaient sans être utilisés
+    - Aucun avantage n'était accordé au parrain
+
+  2. Nouvelles Tables
+    - `recompenses_parrainage` : une récompense par filleul (premier paiement confirmé)
+      - `parrain_id`, `filleul_id` (unique), `paiement_id`
+      - `jours_bonus` (integer) : jours ajoutés à l'abonnement du parrain
+      - `statut` : `en_attente` (parrain sans abonnement actif) ou `attribuee`
+      - `abonnement_id`, `date_attribution` : abonnement prolongé et date de prolongation
+    - `parametres_parrainage` : ligne unique, `jours_bonus` offerts au parrain par filleul
+
+  3. Nouvelles Fonctions
+    - `check_referral_code()` : vérifie qu'un code de parrainage existe (formulaire d'inscription)
+    - `apply_referral_code()` : rattache un nouvel abonné à son parrain (appelée par
+      `verify-otp` une fois le numéro vérifié, jamais par un client)
+    - `grant_referral_reward()` : crée la récompense au premier paiement confirmé du filleul
+    - `apply_pending_referral_rewards()` : ajoute les jours en attente à l'abonnement actif du parrain
+    - `get_my_referral_summary()` : code, filleuls et récompenses de l'abonné connecté
+
+  4. Modifications
+    - `confirm_payment_secure()` accorde la récompense du parrain et crédite les
+      récompenses en attente de l'abonné qui paie
+
+  5. Security
+    - `apply_referral_code()` prend un `p_user_id` arbitraire : réservée au service role
+    - `parametres_parrainage` modifiable par les admins uniquement
+    - `users.parraine_par` n'est plus modifiable par l'abonné (trigger `protect_users_referral_trigger`) :
+      la policy "Users can update own profile" couvre toutes les colonnes
+
+  6. Important Notes
+    - Le parrain reçoit `parametres_parrainage.jours_bonus` jours par filleul (7 par défaut),
+      une seule fois par filleul
+    - Un paiement à 0 FCFA (code promo à 100 %) ne déclenche pas de récompense
+    - Un parrain sans abonnement actif garde ses jours en attente jusqu'à son prochain paiement confirmé
+    - Le parrainage ne peut plus être modifié après le premier paiement confirmé du filleul
+*/
+
+-- ============================================================
+-- 1. TABLE : RÉCOMPENSES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS recompenses_parrainage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parrain_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filleul_id uuid UNIQUE NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  paiement_id uuid REFERENCES paiements(id) ON DELETE SET NULL,
+  jours_bonus integer NOT NULL CHECK (jours_bonus > 0),
+  statut text NOT NULL DEFAULT 'en_attente' CHECK (statut IN ('en_attente', 'attribuee')),
+  abonnement_id uuid REFERENCES abonnements(id) ON DELETE SET NULL,
+  date_attribution timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS parametres_parrainage (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  jours_bonus integer NOT NULL DEFAULT 7 CHECK (jours_bonus > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO parametres_parrainage DEFAULT VALUES ON CONFLICT (id) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_recompenses_parrainage_parrain ON recompenses_parrainage(parrain_id, statut);
+CREATE INDEX IF NOT EXISTS idx_users_parraine_par ON users(parraine_par);
+
+ALTER TABLE recompenses_parrainage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parametres_parrainage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage referral settings"
+  ON parametres_parrainage FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Referrers can view their rewards"
+  ON recompenses_parrainage FOR SELECT
+  TO authenticated
+  USING (parrain_id = auth.uid() OR is_admin());
+
+-- ============================================================
+-- 2. ATTRIBUTION DU FILLEUL
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION check_referral_code(p_code text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE code_parrainage = upper(btrim(p_code))
+    AND statut_abonnement <> 'suspendu'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION check_referral_code TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_referral_code(p_user_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user record;
+  v_parrain record;
+BEGIN
+  SELECT id, parraine_par INTO v_user
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Utilisateur introuvable');
+  END IF;
+
+  IF v_user.parraine_par IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Un parrain est déjà enregistré pour ce compte');
+  END IF;
+
+  -- Seul un nouvel abonné peut être parrainé
+  IF EXISTS (
+    SELECT 1 FROM paiements
+    WHERE user_id = p_user_id
+    AND statut IN ('confirme', 'rembourse')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Le parrainage est réservé aux nouveaux abonnés');
+  END IF;
+
+  SELECT id, nom INTO v_parrain
+  FROM users
+  WHERE code_parrainage = upper(btrim(p_code))
+  AND statut_abonnement <> 'suspendu';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Code de parrainage invalide');
+  END IF;
+
+  IF v_parrain.id = p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Vous ne pouvez pas utiliser votre propre code');
+  END IF;
+
+  UPDATE users
+  SET parraine_par = v_parrain.id,
+      updated_at = now()
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object('success', true, 'parrain_id', v_parrain.id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_referral_code(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 3. CRÉDIT DES JOURS AU PARRAIN
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION apply_pending_referral_rewards(p_parrain_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subscription record;
+  v_user record;
+  v_total_days integer;
+  v_new_end_date timestamptz;
+BEGIN
+  SELECT * INTO v_subscription
+  FROM abonnements
+  WHERE user_id = p_parrain_id
+  AND statut = 'actif'
+  AND date_fin > now()
+  ORDER BY date_fin DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Pas d'abonnement actif : les jours restent en attente
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  WITH applied AS (
+    UPDATE recompenses_parrainage
+    SET statut = 'attribuee',
+        abonnement_id = v_subscription.id,
+        date_attribution = now()
+    WHERE parrain_id = p_parrain_id
+    AND statut = 'en_attente'
+    RETURNING jours_bonus
+  )
+  SELECT COALESCE(SUM(jours_bonus), 0) INTO v_total_days FROM applied;
+
+  IF v_total_days = 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_new_end_date := v_subscription.date_fin + make_interval(days => v_total_days);
+
+  -- Le trigger de synchronisation met à jour `users`
+  UPDATE abonnements
+  SET date_fin = v_new_end_date,
+      updated_at = now()
+  WHERE id = v_subscription.id;
+
+  SELECT id, nom, numero_whatsapp INTO v_user
+  FROM users
+  WHERE id = p_parrain_id;
+
+  IF v_user.numero_whatsapp IS NOT NULL THEN
+    INSERT INTO notifications (
+      user_id,
+      type_notification,
+      numero_destinataire,
+      message,
+      statut,
+      date_envoi_prevue
+    ) VALUES (
+      v_user.id,
+      'autre',
+      v_user.numero_whatsapp,
+      format(
+        E'Bonjour %s,\n\n🎁 Merci pour votre parrainage ! %s jour(s) ont été ajoutés à votre abonnement, désormais valable jusqu''au %s.\n\nÉquipe L''Enquêteur',
+        v_user.nom,
+        v_total_days,
+        to_char(v_new_end_date, 'DD/MM/YYYY')
+      ),
+      'en_attente',
+      now()
+    );
+  END IF;
+
+  RETURN v_total_days;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grant_referral_reward(p_payment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bonus_days integer;
+  v_payment record;
+  v_parrain_id uuid;
+  v_reward_id uuid;
+  v_days_applied integer;
+  v_parrain record;
+BEGIN
+  SELECT id, user_id, montant_fcfa INTO v_payment
+  FROM paiements
+  WHERE id = p_payment_id;
+
+  IF NOT FOUND OR v_payment.montant_fcfa <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT parraine_par INTO v_parrain_id
+  FROM users
+  WHERE id = v_payment.user_id;
+
+  IF v_parrain_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Uniquement au premier paiement confirmé du filleul
+  IF EXISTS (
+    SELECT 1 FROM paiements
+    WHERE user_id = v_payment.user_id
+    AND id <> p_payment_id
+    AND statut IN ('confirme', 'rembourse')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jours_bonus INTO v_bonus_days
+  FROM parametres_parrainage
+  WHERE id;
+
+  v_bonus_days := COALESCE(v_bonus_days, 7);
+
+  INSERT INTO recompenses_parrainage (parrain_id, filleul_id, paiement_id, jours_bonus)
+  VALUES (v_parrain_id, v_payment.user_id, p_payment_id, v_bonus_days)
+  ON CONFLICT (filleul_id) DO NOTHING
+  RETURNING id INTO v_reward_id;
+
+  IF v_reward_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_days_applied := apply_pending_referral_rewards(v_parrain_id);
+
+  IF v_days_applied = 0 THEN
+    SELECT id, nom, numero_whatsapp INTO v_parrain
+    FROM users
+    WHERE id = v_parrain_id;
+
+    IF v_parrain.numero_whatsapp IS NOT NULL THEN
+      INSERT INTO notifications (
+        user_id,
+        type_notification,
+        numero_destinataire,
+        message,
+        statut,
+        date_envoi_prevue
+      ) VALUES (
+        v_parrain.id,
+        'autre',
+        v_parrain.numero_whatsapp,
+        format(
+          E'Bonjour %s,\n\n🎁 Votre filleul vient de s''abonner ! %s jour(s) offerts seront ajoutés à votre prochain abonnement.\n\nÉquipe L''Enquêteur',
+          v_parrain.nom,
+          v_bonus_days
+        ),
+        'en_attente',
+        now()
+      );
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'reward_id', v_reward_id,
+    'parrain_id', v_parrain_id,
+    'jours_bonus', v_bonus_days,
+    'attribuee', v_days_applied > 0
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_pending_referral_rewards FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION grant_referral_reward FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 4. TABLEAU DE BORD DU PARRAIN
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_my_referral_summary()
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'code_parrainage', u.code_parrainage,
+    'nb_filleuls', (SELECT COUNT(*) FROM users f WHERE f.parraine_par = u.id),
+    'jours_gagnes', (
+      SELECT COALESCE(SUM(jours_bonus), 0) FROM recompenses_parrainage
+      WHERE parrain_id = u.id AND statut = 'attribuee'
+    ),
+    'jours_en_attente', (
+      SELECT COALESCE(SUM(jours_bonus), 0) FROM recompenses_parrainage
+      WHERE parrain_id = u.id AND statut = 'en_attente'
+    ),
+    'recompenses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'filleul_nom', f.nom,
+        'jours_bonus', r.jours_bonus,
+        'statut', r.statut,
+        'date_attribution', r.date_attribution,
+        'created_at', r.created_at
+      ) ORDER BY r.created_at DESC)
+      FROM recompenses_parrainage r
+      JOIN users f ON f.id = r.filleul_id
+      WHERE r.parrain_id = u.id
+    ), '[]'::jsonb)
+  )
+  FROM users u
+  WHERE u.id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_referral_summary TO authenticated;
+
+-- ============================================================
+-- 5. CONFIRMATION DE PAIEMENT : RÉCOMPENSE DU PARRAIN
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION confirm_payment_secure(
+  p_payment_id uuid,
+  p_ipay_transaction_id text DEFAULT NULL,
+  p_ipay_status text DEFAULT NULL,
+  p_confirmed_by uuid DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment record;
+  v_subscription record;
+  v_formule record;
+  v_user record;
+  v_new_end_date timestamptz;
+  v_is_renewal boolean;
+  v_result jsonb;
+  v_referral jsonb;
+BEGIN
+  -- 1. Lock and fetch payment
+  SELECT * INTO v_payment
+  FROM paiements
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Payment not found'
+    );
+  END IF;
+
+  -- 2. Only a pending payment can be confirmed: a refunded or failed one
+  --    must never reactivate the subscription
+  IF v_payment.statut = 'confirme' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Payment already confirmed'
+    );
+  END IF;
+
+  IF v_payment.statut IS DISTINCT FROM 'en_attente' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Payment is not pending (' || COALESCE(v_payment.statut, 'null') || ')'
+    );
+  END IF;
+
+  -- 3. Fetch related records
+  SELECT * INTO v_user FROM users WHERE id = v_payment.user_id;
+  SELECT * INTO v_formule FROM formules WHERE id = v_payment.formule_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Formule not found'
+    );
+  END IF;
+
+  -- 4. Fetch or create subscription
+  SELECT * INTO v_subscription
+  FROM abonnements
+  WHERE id = v_payment.abonnement_id
+  FOR UPDATE;
+
+  -- 5. Calculate new end date (renewal logic)
+  IF v_subscription.id IS NOT NULL AND v_subscription.date_fin > now() THEN
+    -- Active subscription: extend from current end date
+    v_new_end_date := v_subscription.date_fin + (v_formule.duree_jours || ' days')::interval;
+    v_is_renewal := true;
+  ELSE
+    -- New or expired subscription: start from now
+    v_new_end_date := now() + (v_formule.duree_jours || ' days')::interval;
+    v_is_renewal := false;
+  END IF;
+
+  -- 6. Update or create subscription
+  IF v_subscription.id IS NOT NULL THEN
+    UPDATE abonnements
+    SET 
+      date_fin = v_new_end_date,
+      statut = 'actif',
+      updated_at = now()
+    WHERE id = v_subscription.id;
+  ELSE
+    -- Create new subscription
+    INSERT INTO abonnements (
+      user_id,
+      formule_id,
+      date_debut,
+      date_fin,
+      statut,
+      duration_days
+    ) VALUES (
+      v_payment.user_id,
+      v_payment.formule_id,
+      now(),
+      v_new_end_date,
+      'actif',
+      v_formule.duree_jours
+    )
+    RETURNING * INTO v_subscription;
+
+    -- Link payment to new subscription
+    UPDATE paiements
+    SET abonnement_id = v_subscription.id
+    WHERE id = p_payment_id;
+  END IF;
+
+  -- 7. Update payment record
+  UPDATE paiements
+  SET 
+    statut = 'confirme',
+    ipay_transaction_id = COALESCE(p_ipay_transaction_id, ipay_transaction_id),
+    ipay_status = COALESCE(p_ipay_status, ipay_status),
+    confirme_par = COALESCE(p_confirmed_by, auth.uid()),
+    notes = COALESCE(p_notes, notes),
+    date_paiement = now()
+  WHERE id = p_payment_id;
+
+  -- 8. Update user status
+  UPDATE users
+  SET 
+    statut_abonnement = 'actif',
+    date_fin_abonnement = v_new_end_date,
+    updated_at = now()
+  WHERE id = v_payment.user_id;
+
+  -- 9. Create audit event
+  INSERT INTO payment_events (
+    payment_id,
+    user_id,
+    event_type,
+    old_status,
+    new_status,
+    performed_by,
+    ipay_transaction_id,
+    ipay_status,
+    metadata,
+    notes
+  ) VALUES (
+    p_payment_id,
+    v_payment.user_id,
+    CASE 
+      WHEN p_confirmed_by IS NOT NULL THEN 'confirmed_manual'
+      ELSE 'confirmed_auto'
+    END,
+    v_payment.statut,
+    'confirme',
+    COALESCE(p_confirmed_by, auth.uid()),
+    p_ipay_transaction_id,
+    p_ipay_status,
+    jsonb_build_object(
+      'is_renewal', v_is_renewal,
+      'previous_end_date', v_subscription.date_fin,
+      'new_end_date', v_new_end_date,
+      'formule_name', v_formule.nom,
+      'amount', v_payment.montant_fcfa
+    ),
+    p_notes
+  );
+
+  -- 10. Referral: reward the referrer on the first confirmed payment,
+  -- then credit the payer's own pending rewards (the trigger resyncs `users`)
+  v_referral := grant_referral_reward(p_payment_id);
+  PERFORM apply_pending_referral_rewards(v_payment.user_id);
+
+  -- 11. Return success with details
+  v_result := jsonb_build_object(
+    'success', true,
+    'payment_id', p_payment_id,
+    'subscription_id', v_subscription.id,
+    'user_id', v_payment.user_id,
+    'is_renewal', v_is_renewal,
+    'new_end_date', v_new_end_date,
+    'amount', v_payment.montant_fcfa,
+    'formule', v_formule.nom,
+    'referral_reward', v_referral
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+-- Le remplacement conserve les droits : toujours réservé au service role (voir confirm_payment_manual)
+REVOKE EXECUTE ON FUNCTION confirm_payment_secure(uuid, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 6. PROTECTION DU PARRAINAGE
+-- ============================================================
+
+-- Un abonné pourrait se déclarer filleul d'un complice : seuls apply_referral_code()
+-- (SECURITY DEFINER), le service role et les admins fixent `parraine_par`
+CREATE OR REPLACE FUNCTION protect_users_referral()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.parraine_par := NULL;
+  ELSIF NEW.parraine_par IS DISTINCT FROM OLD.parraine_par THEN
+    RAISE EXCEPTION 'Le parrainage ne peut pas être modifié par l''abonné';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_users_referral_trigger ON users;
+CREATE TRIGGER protect_users_referral_trigger
+  BEFORE INSERT OR UPDATE OF parraine_par ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_users_referral();
@@ -0,0 +1,75 @@
+/*
+  # Ouverture des éditions depuis l'espace abonné
+
+  1. Problème
+    - Un abonné ne pouvait lire une édition que via le lien `/read/:token` reçu sur WhatsApp
+    - `user_has_access_to_edition()` écrasait le statut d'abonnement par le rôle :
+      un lecteur n'obtenait jamais l'accès
+
+  2. Modifications de `tokens`
+    - `origine` (text) : `whatsapp` (publication) ou `espace_abonne` (ouverture depuis /my-account)
+
+  3. Fonctions Modifiées
+    - `user_has_access_to_edition()` : lit le rôle et le statut dans des variables distinctes
+
+  4. Important Notes
+    - Les tokens `espace_abonne` sont émis par l'edge function `request-edition-access`,
+      liés dès leur création à l'appareil qui les demande et valables peu de temps
+*/
+
+-- ============================================================
+-- 1. ORIGINE DES TOKENS
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tokens' AND column_name = 'origine'
+  ) THEN
+    ALTER TABLE tokens ADD COLUMN origine text NOT NULL DEFAULT 'whatsapp'
+      CHECK (origine IN ('whatsapp', 'espace_abonne'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_user_origine_created ON tokens(user_id, origine, created_at DESC);
+
+-- ============================================================
+-- 2. CONTRÔLE D'ACCÈS À UNE ÉDITION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION user_has_access_to_edition(
+  p_user_id uuid,
+  p_pdf_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+  v_status text;
+  v_end_date timestamptz;
+BEGIN
+  SELECT role, statut_abonnement, date_fin_abonnement
+  INTO v_role, v_status, v_end_date
+  FROM users
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_role = 'admin' THEN
+    RETURN true;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pdfs WHERE id = p_pdf_id) THEN
+    RETURN false;
+  END IF;
+
+  RETURN v_status IN ('actif', 'essai') AND v_end_date >= now();
+END;
+$$;
@@ -0,0 +1,222 @@
+/*
+  # Archives des éditions pour les abonnés
+
+  1. Problème
+    - L'espace abonné n'affichait que les 10 dernières éditions, sans recherche ni navigation
+    - Aucune règle ne limitait l'accès aux anciens numéros
+
+  2. Modifications de `formules`
+    - `acces_archives` (text) : règle d'accès aux anciens numéros
+      - `complet` : toutes les éditions publiées (comportement existant)
+      - `periode_abonnement` : uniquement les éditions publiées pendant une période
+        d'abonnement de l'abonné (abonnements actifs ou expirés, pas annulés)
+
+  3. Nouvelles Fonctions
+    - `edition_within_entitlement()` : applique la règle de la formule de l'abonnement en cours
+    - `get_edition_archive()` : page d'archives filtrée (mois, année, titre ou numéro)
+      avec couverture, indicateur d'accès et mois disponibles
+
+  4. Fonctions Modifiées
+    - `user_has_access_to_edition()` applique désormais la règle d'archives
+
+  5. Important Notes
+    - La règle se règle par formule (`UPDATE formules SET acces_archives = ...`)
+    - Un abonné sans ligne `abonnements` (ancien essai) garde l'accès complet
+    - La date de référence d'une édition est sa date de publication réelle, à défaut sa date d'édition
+*/
+
+-- ============================================================
+-- 1. RÈGLE D'ACCÈS PAR FORMULE
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'formules' AND column_name = 'acces_archives'
+  ) THEN
+    ALTER TABLE formules ADD COLUMN acces_archives text NOT NULL DEFAULT 'complet'
+      CHECK (acces_archives IN ('complet', 'periode_abonnement'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_pdfs_statut_publication_date ON pdfs(statut_publication, date_publication_reelle DESC);
+
+-- ============================================================
+-- 2. CONTRÔLE D'ACCÈS
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION edition_within_entitlement(p_user_id uuid, p_pdf_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rule text;
+  v_edition_date timestamptz;
+BEGIN
+  SELECT f.acces_archives INTO v_rule
+  FROM abonnements a
+  JOIN formules f ON f.id = a.formule_id
+  WHERE a.user_id = p_user_id
+  AND a.statut = 'actif'
+  AND a.date_fin > now()
+  ORDER BY a.date_fin DESC
+  LIMIT 1;
+
+  IF v_rule IS NULL OR v_rule = 'complet' THEN
+    RETURN true;
+  END IF;
+
+  SELECT COALESCE(date_publication_reelle, date_edition::timestamptz) INTO v_edition_date
+  FROM pdfs
+  WHERE id = p_pdf_id;
+
+  RETURN EXISTS (
+    SELECT 1 FROM abonnements
+    WHERE user_id = p_user_id
+    AND statut IN ('actif', 'expire')
+    AND v_edition_date BETWEEN date_debut AND date_fin
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION user_has_access_to_edition(
+  p_user_id uuid,
+  p_pdf_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+  v_status text;
+  v_end_date timestamptz;
+BEGIN
+  SELECT role, statut_abonnement, date_fin_abonnement
+  INTO v_role, v_status, v_end_date
+  FROM users
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_role = 'admin' THEN
+    RETURN true;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pdfs WHERE id = p_pdf_id) THEN
+    RETURN false;
+  END IF;
+
+  IF NOT (v_status IN ('actif', 'essai') AND v_end_date >= now()) THEN
+    RETURN false;
+  END IF;
+
+  RETURN edition_within_entitlement(p_user_id, p_pdf_id);
+END;
+$$;
+
+-- ============================================================
+-- 3. ARCHIVES PAGINÉES
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_edition_archive(
+  p_year integer DEFAULT NULL,
+  p_month integer DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 12
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_page integer := GREATEST(COALESCE(p_page, 1), 1);
+  v_page_size integer := LEAST(GREATEST(COALESCE(p_page_size, 12), 1), 48);
+  v_search text := NULLIF(btrim(p_search), '');
+  v_result jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentification requise';
+  END IF;
+
+  WITH base AS (
+    SELECT
+      p.id,
+      p.titre,
+      p.numero_edition,
+      p.date_edition,
+      p.url_fichier,
+      COALESCE(p.date_publication_reelle, p.date_edition::timestamptz) AS date_reference
+    FROM pdfs p
+    WHERE p.statut_publication = 'publie'
+    AND (
+      v_search IS NULL
+      OR p.titre ILIKE '%' || v_search || '%'
+      OR (v_search ~ '^[0-9]+$' AND p.numero_edition = v_search::integer)
+    )
+  ), filtered AS (
+    SELECT * FROM base
+    WHERE (p_year IS NULL OR extract(year FROM date_reference) = p_year)
+    AND (p_month IS NULL OR extract(month FROM date_reference) = p_month)
+  ), page AS (
+    SELECT
+      f.id,
+      f.titre,
+      f.numero_edition,
+      f.date_edition,
+      f.date_reference,
+      cover.cover_image_url,
+      user_has_access_to_edition(v_user_id, f.id) AS accessible
+    FROM filtered f
+    LEFT JOIN LATERAL (
+      SELECT ed.cover_image_url
+      FROM editions ed
+      WHERE ed.pdf_url = f.url_fichier
+      AND ed.cover_image_url IS NOT NULL
+      ORDER BY ed.updated_at DESC
+      LIMIT 1
+    ) cover ON true
+    ORDER BY f.date_reference DESC NULLS LAST, f.numero_edition DESC NULLS LAST
+    LIMIT v_page_size
+    OFFSET (v_page - 1) * v_page_size
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM filtered),
+    'page', v_page,
+    'page_size', v_page_size,
+    'editions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(pg) ORDER BY pg.date_reference DESC NULLS LAST, pg.numero_edition DESC NULLS LAST)
+      FROM page pg
+    ), '[]'::jsonb),
+    -- Mois disponibles pour la navigation : calculés avant le filtre de date
+    'mois_disponibles', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('annee', m.annee, 'mois', m.mois, 'nb', m.nb) ORDER BY m.annee DESC, m.mois DESC)
+      FROM (
+        SELECT
+          extract(year FROM date_reference)::integer AS annee,
+          extract(month FROM date_reference)::integer AS mois,
+          COUNT(*) AS nb
+        FROM base
+        WHERE date_reference IS NOT NULL
+        GROUP BY 1, 2
+      ) m
+    ), '[]'::jsonb)
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_edition_archive TO authenticated;
@@ -0,0 +1,177 @@
+/*
+  # Recherche plein texte dans les articles
+
+  1. Configuration
+    - Extension `unaccent`
+    - Configuration de recherche `francais_unaccent` : racinisation française
+      et comparaison insensible aux accents (« économie » trouve « economie »)
+
+  2. Modifications de `articles`
+    - `search_vector` (tsvector, colonne générée) pondérée :
+      titre (A), sous-titre (B), auteur et catégorie (C), contenu (D)
+    - Index GIN sur `search_vector`
+
+  3. Nouvelles Fonctions
+    - `search_articles()` : recherche classée par pertinence avec extrait surligné
+      - administrateurs : tous les articles, toutes éditions confondues
+      - abonnés : uniquement les éditions publiées auxquelles ils ont accès
+        (`user_has_access_to_edition`)
+
+  4. Important Notes
+    - La requête accepte la syntaxe web : guillemets pour une expression exacte, `-mot` pour exclure
+    - Les passages trouvés sont encadrés par `[[` et `]]` dans l'extrait (rendu côté client, sans HTML)
+*/
+
+-- ============================================================
+-- 1. CONFIGURATION FRANÇAISE SANS ACCENTS
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'francais_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION public.francais_unaccent (COPY = pg_catalog.french);
+    ALTER TEXT SEARCH CONFIGURATION public.francais_unaccent
+      ALTER MAPPING FOR hword, hword_part, word
+      WITH unaccent, french_stem;
+  END IF;
+END $$;
+
+-- ============================================================
+-- 2. INDEX PLEIN TEXTE
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('public.francais_unaccent', coalesce(titre, '')), 'A') ||
+      setweight(to_tsvector('public.francais_unaccent', coalesce(sous_titre, '')), 'B') ||
+      setweight(to_tsvector('public.francais_unaccent', coalesce(auteur, '') || ' ' || coalesce(categorie, '')), 'C') ||
+      setweight(to_tsvector('public.francais_unaccent', coalesce(contenu_texte, '')), 'D')
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_articles_search_vector ON articles USING GIN (search_vector);
+
+-- ============================================================
+-- 3. RECHERCHE
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION search_articles(
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  article_id uuid,
+  edition_id uuid,
+  pdf_id uuid,
+  titre text,
+  sous_titre text,
+  auteur text,
+  categorie text,
+  edition_titre text,
+  edition_statut text,
+  date_edition date,
+  extrait text,
+  rang real,
+  total bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_is_admin boolean := is_admin();
+  v_query tsquery;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentification requise';
+  END IF;
+
+  IF p_query IS NULL OR length(btrim(p_query)) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_query := websearch_to_tsquery('public.francais_unaccent', p_query);
+
+  -- Requête réduite à des mots vides (« le », « de »...) : rien à chercher
+  IF numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      a.id,
+      a.edition_id,
+      pdf.id AS pdf_id,
+      a.titre,
+      a.sous_titre,
+      a.auteur,
+      a.categorie,
+      e.titre AS edition_titre,
+      e.statut AS edition_statut,
+      e.date_edition,
+      a.contenu_texte,
+      ts_rank_cd(a.search_vector, v_query) AS rang
+    FROM articles a
+    JOIN editions e ON e.id = a.edition_id
+    LEFT JOIN LATERAL (
+      SELECT p.id
+      FROM pdfs p
+      WHERE p.url_fichier = e.pdf_url
+      ORDER BY (p.statut_publication = 'publie') DESC, p.date_upload DESC
+      LIMIT 1
+    ) pdf ON true
+    WHERE a.search_vector @@ v_query
+    AND (
+      v_is_admin
+      OR (
+        e.statut = 'published'
+        AND pdf.id IS NOT NULL
+        AND EXISTS (SELECT 1 FROM pdfs p WHERE p.id = pdf.id AND p.statut_publication = 'publie')
+        AND user_has_access_to_edition(v_user_id, pdf.id)
+      )
+    )
+  ), page AS (
+    SELECT m.*, COUNT(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rang DESC, m.date_edition DESC NULLS LAST
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  )
+  -- Extrait calculé uniquement sur la page de résultats demandée
+  SELECT
+    pg.id,
+    pg.edition_id,
+    pg.pdf_id,
+    pg.titre,
+    pg.sous_titre,
+    pg.auteur,
+    pg.categorie,
+    pg.edition_titre,
+    pg.edition_statut,
+    pg.date_edition,
+    ts_headline(
+      'public.francais_unaccent',
+      pg.contenu_texte,
+      v_query,
+      'StartSel=[[, StopSel=]], MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    pg.rang,
+    pg.total_count
+  FROM page pg
+  ORDER BY pg.rang DESC, pg.date_edition DESC NULLS LAST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_articles TO authenticated;
@@ -0,0 +1,55 @@
+/*
+  # Images des pages et miniatures
+
+  1. Stockage
+    - Bucket privé `edition-pages` : rendus WebP de chaque page en plusieurs
+      largeurs. Jamais public : les lecteurs reçoivent des URLs signées via
+      `validate-edition-access`, après contrôle du token.
+    - Bucket public `edition-previews` : miniatures de pages et couverture,
+      en basse résolution, affichées dans l'espace abonné et l'administration.
+
+  2. Modifications de tables
+    - `pages.image_variants` (JSONB) : liste `{width, height, path}` des rendus
+      stockés dans `edition-pages`. `pages.image_url` pointe vers le plus grand.
+
+  3. Sécurité
+    - Seuls les admins écrivent dans les deux buckets (l'extraction passe par
+      la clé service, qui contourne RLS).
+    - Lecture publique limitée à `edition-previews`.
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES
+  ('edition-pages', 'edition-pages', false, 10485760, ARRAY['image/webp', 'image/png']),
+  ('edition-previews', 'edition-previews', true, 2097152, ARRAY['image/webp', 'image/png'])
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Admins manage edition page images" ON storage.objects;
+DROP POLICY IF EXISTS "Public can read edition previews" ON storage.objects;
+
+CREATE POLICY "Admins manage edition page images"
+  ON storage.objects FOR ALL
+  TO authenticated
+  USING (bucket_id IN ('edition-pages', 'edition-previews') AND is_admin())
+  WITH CHECK (bucket_id IN ('edition-pages', 'edition-previews') AND is_admin());
+
+CREATE POLICY "Public can read edition previews"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'edition-previews');
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pages' AND column_name = 'image_variants'
+  ) THEN
+    ALTER TABLE pages ADD COLUMN image_variants jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN pages.image_url IS 'Chemin du plus grand rendu dans le bucket privé edition-pages';
+COMMENT ON COLUMN pages.thumbnail_url IS 'URL publique de la miniature (bucket edition-previews)';
+COMMENT ON COLUMN pages.image_variants IS 'Rendus disponibles : [{width, height, path}] dans edition-pages';
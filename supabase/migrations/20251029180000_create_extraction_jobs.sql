@@ -0,0 +1,235 @@
+/*
+  # Jobs d'extraction reprenables
+
+  1. Problème
+    - Relancer `extract-articles` insérait de nouvelles lignes `pages` et
+      `articles` à chaque appel, sans nettoyer ni mettre à jour
+    - Un échec en cours de route laissait l'édition en `processing` avec une
+      partie des pages écrites, sans moyen de reprendre
+
+  2. Nouvelles Tables
+    - `extraction_jobs` : une extraction d'édition (statut, méthode, page
+      courante, erreur, heartbeat)
+    - `extraction_job_pages` : checkpoint par page, avec la mise en page
+      analysée. La résolution des suites entre pages se fait à la fin, à
+      partir de ces checkpoints, sans réanalyser le PDF
+
+  3. Nouvelles Fonctions
+    - `create_extraction_job()` : réutilise le job actif de l'édition s'il existe
+    - `claim_extraction_job()` : un seul worker à la fois, reprise si heartbeat expiré
+    - `replace_extracted_articles()` : remplace en une transaction les articles
+      extraits automatiquement. Les articles `ajuste_manuellement = true` sont
+      conservés, et un article extrait qui recouvre l'un d'eux est ignoré
+
+  4. Security
+    - RLS activé, lecture réservée aux admins
+    - Écriture uniquement via l'edge function `extract-articles` (service role)
+    - `extraction_jobs` ajouté à la publication realtime pour suivre la progression
+*/
+
+-- ============================================================
+-- TABLE : JOBS D'EXTRACTION
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS extraction_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  edition_id uuid NOT NULL REFERENCES editions(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  statut text NOT NULL DEFAULT 'en_attente' CHECK (statut IN ('en_attente', 'en_cours', 'termine', 'echoue', 'annule')),
+  methode text NOT NULL DEFAULT 'pdfjs' CHECK (methode IN ('pdfjs', 'textract')),
+  pdf_url text NOT NULL,
+  total_pages integer NOT NULL DEFAULT 0,
+  page_courante integer NOT NULL DEFAULT 0,
+  nb_pages_echouees integer NOT NULL DEFAULT 0,
+  nb_articles integer NOT NULL DEFAULT 0,
+  erreur text,
+  started_at timestamptz,
+  heartbeat_at timestamptz,
+  finished_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_edition_id ON extraction_jobs(edition_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_statut ON extraction_jobs(statut);
+
+-- ============================================================
+-- TABLE : CHECKPOINTS PAR PAGE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS extraction_job_pages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES extraction_jobs(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  statut text NOT NULL CHECK (statut IN ('termine', 'echoue')),
+  layout jsonb,
+  erreur text,
+  processed_at timestamptz DEFAULT now(),
+  UNIQUE (job_id, page_number)
+);
+
+-- ============================================================
+-- ENABLE RLS
+-- ============================================================
+
+ALTER TABLE extraction_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extraction_job_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view extraction jobs"
+  ON extraction_jobs FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view extraction job pages"
+  ON extraction_job_pages FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- ============================================================
+-- FONCTION : CRÉATION D'UN JOB
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION create_extraction_job(
+  p_edition_id uuid,
+  p_created_by uuid,
+  p_pdf_url text,
+  p_methode text DEFAULT 'pdfjs'
+)
+RETURNS extraction_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job extraction_jobs;
+BEGIN
+  -- Un seul job actif par édition
+  SELECT * INTO v_job
+  FROM extraction_jobs
+  WHERE edition_id = p_edition_id
+  AND statut IN ('en_attente', 'en_cours')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN v_job;
+  END IF;
+
+  INSERT INTO extraction_jobs (edition_id, created_by, pdf_url, methode)
+  VALUES (p_edition_id, p_created_by, p_pdf_url, p_methode)
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+-- ============================================================
+-- FONCTION : PRISE EN CHARGE D'UN JOB PAR UN WORKER
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION claim_extraction_job(
+  p_job_id uuid,
+  p_stale_after_seconds integer DEFAULT 120
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed integer;
+BEGIN
+  -- Un job en cours dont le heartbeat est récent appartient déjà à un worker
+  UPDATE extraction_jobs
+  SET statut = 'en_cours',
+      started_at = COALESCE(started_at, now()),
+      heartbeat_at = now(),
+      erreur = NULL,
+      finished_at = NULL,
+      updated_at = now()
+  WHERE id = p_job_id
+  AND (
+    statut IN ('en_attente', 'echoue')
+    OR (
+      statut = 'en_cours'
+      AND (heartbeat_at IS NULL OR heartbeat_at < now() - make_interval(secs => p_stale_after_seconds))
+    )
+  );
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+  RETURN v_claimed > 0;
+END;
+$$;
+
+-- ============================================================
+-- FONCTION : REMPLACEMENT DES ARTICLES EXTRAITS
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION replace_extracted_articles(
+  p_edition_id uuid,
+  p_articles jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inserted integer;
+BEGIN
+  DELETE FROM articles
+  WHERE edition_id = p_edition_id
+  AND COALESCE(ajuste_manuellement, false) = false;
+
+  INSERT INTO articles (
+    edition_id, page_id, titre, sous_titre, auteur, contenu_texte,
+    position_x, position_y, width, height, ordre_lecture,
+    mots_count, temps_lecture_estime, confidence_score,
+    extraction_method, layout_metadata, valide
+  )
+  SELECT
+    p_edition_id, a.page_id, a.titre, a.sous_titre, a.auteur, a.contenu_texte,
+    a.position_x, a.position_y, a.width, a.height, a.ordre_lecture,
+    a.mots_count, a.temps_lecture_estime, a.confidence_score,
+    a.extraction_method, COALESCE(a.layout_metadata, '{}'::jsonb), a.valide
+  FROM jsonb_to_recordset(p_articles) AS a(
+    page_id uuid,
+    titre text,
+    sous_titre text,
+    auteur text,
+    contenu_texte text,
+    position_x float,
+    position_y float,
+    width float,
+    height float,
+    ordre_lecture integer,
+    mots_count integer,
+    temps_lecture_estime integer,
+    confidence_score float,
+    extraction_method text,
+    layout_metadata jsonb,
+    valide boolean
+  )
+  -- Une zone corrigée à la main fait foi : l'extraction ne la duplique pas
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM articles m
+    WHERE m.edition_id = p_edition_id
+    AND m.page_id = a.page_id
+    AND m.ajuste_manuellement = true
+    AND GREATEST(0, LEAST(m.position_x + m.width, a.position_x + a.width) - GREATEST(m.position_x, a.position_x))
+      * GREATEST(0, LEAST(m.position_y + m.height, a.position_y + a.height) - GREATEST(m.position_y, a.position_y))
+      > 0.5 * LEAST(m.width * m.height, a.width * a.height)
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_extraction_job(uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_extraction_job(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION replace_extracted_articles(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Progression diffusée à l'interface admin
+ALTER PUBLICATION supabase_realtime ADD TABLE extraction_jobs;
@@ -0,0 +1,137 @@
+/*
+  # Stratégies d'extraction unifiées
+
+  1. Problème
+    - Deux edge functions parallèles (`extract-articles` avec pdf.js,
+      `extract-articles-textract` avec AWS) et les zones manuelles n'avaient
+      en commun que `articles.extraction_method`
+    - Pas de repli page par page, ni de moyen de comparer les méthodes
+
+  2. Modifications de tables
+    - `extraction_jobs.strategies` : stratégies à essayer, dans l'ordre
+    - `extraction_jobs.mode` : `fallback` (s'arrête dès qu'une stratégie est
+      assez fiable) ou `compare` (exécute toutes les stratégies)
+    - `extraction_jobs.methode` accepte `tesseract` et `mixte` (plusieurs
+      stratégies retenues selon les pages)
+    - `extraction_job_pages.strategie` : stratégie retenue pour la page
+    - `articles.extraction_method` accepte `tesseract`
+
+  3. Nouvelle Table
+    - `extraction_page_results` : une tentative par page et par stratégie
+      (confiance, mots, articles, durée, zones détectées), pour la
+      comparaison côté admin
+
+  4. Nouvelle Fonction
+    - `create_extraction_job()` reçoit les stratégies et le mode
+
+  5. Security
+    - RLS activé, lecture réservée aux admins
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'extraction_jobs' AND column_name = 'strategies'
+  ) THEN
+    ALTER TABLE extraction_jobs ADD COLUMN strategies text[] NOT NULL DEFAULT ARRAY['pdfjs', 'tesseract', 'textract'];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'extraction_jobs' AND column_name = 'mode'
+  ) THEN
+    ALTER TABLE extraction_jobs ADD COLUMN mode text NOT NULL DEFAULT 'fallback' CHECK (mode IN ('fallback', 'compare'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'extraction_job_pages' AND column_name = 'strategie'
+  ) THEN
+    ALTER TABLE extraction_job_pages ADD COLUMN strategie text;
+  END IF;
+END $$;
+
+ALTER TABLE extraction_jobs DROP CONSTRAINT IF EXISTS extraction_jobs_methode_check;
+ALTER TABLE extraction_jobs ADD CONSTRAINT extraction_jobs_methode_check
+  CHECK (methode IN ('pdfjs', 'textract', 'tesseract', 'mixte'));
+
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_extraction_method_check;
+ALTER TABLE articles ADD CONSTRAINT articles_extraction_method_check
+  CHECK (extraction_method IN ('textract', 'pdfjs', 'tesseract', 'manual'));
+
+COMMENT ON COLUMN articles.extraction_method IS 'Méthode d''extraction: pdfjs (couche texte), tesseract (OCR local), textract (OCR AWS), manual (ajusté manuellement)';
+
+-- ============================================================
+-- TABLE : TENTATIVES PAR STRATÉGIE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS extraction_page_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES extraction_jobs(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  strategie text NOT NULL,
+  confidence float NOT NULL DEFAULT 0,
+  nb_mots integer NOT NULL DEFAULT 0,
+  nb_articles integer NOT NULL DEFAULT 0,
+  duree_ms integer NOT NULL DEFAULT 0,
+  zones jsonb NOT NULL DEFAULT '[]'::jsonb,
+  retenu boolean NOT NULL DEFAULT false,
+  erreur text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (job_id, page_number, strategie)
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_page_results_job ON extraction_page_results(job_id, page_number);
+
+ALTER TABLE extraction_page_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view extraction page results"
+  ON extraction_page_results FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+COMMENT ON COLUMN extraction_page_results.zones IS 'Articles détectés : [{titre, confidence, bounds: {x, y, width, height}}] en coordonnées normalisées';
+
+-- ============================================================
+-- FONCTION : CRÉATION D'UN JOB
+-- ============================================================
+
+DROP FUNCTION IF EXISTS create_extraction_job(uuid, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION create_extraction_job(
+  p_edition_id uuid,
+  p_created_by uuid,
+  p_pdf_url text,
+  p_strategies text[] DEFAULT ARRAY['pdfjs', 'tesseract', 'textract'],
+  p_mode text DEFAULT 'fallback'
+)
+RETURNS extraction_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job extraction_jobs;
+BEGIN
+  -- Un seul job actif par édition
+  SELECT * INTO v_job
+  FROM extraction_jobs
+  WHERE edition_id = p_edition_id
+  AND statut IN ('en_attente', 'en_cours')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN v_job;
+  END IF;
+
+  INSERT INTO extraction_jobs (edition_id, created_by, pdf_url, strategies, mode, methode)
+  VALUES (p_edition_id, p_created_by, p_pdf_url, p_strategies, p_mode, p_strategies[1])
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_extraction_job(uuid, uuid, text, text[], text) FROM PUBLIC, anon, authenticated;
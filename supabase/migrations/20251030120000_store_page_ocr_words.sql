@@ -0,0 +1,44 @@
+/*
+  # OCR des éditions scannées
+
+  1. Problème
+    - Les anciens numéros scannés n'ont pas de couche texte : pdf.js ne
+      renvoie rien et aucun article n'était extrait
+    - Sans couche texte, l'éditeur de zones ne peut rien lire dans un
+      rectangle dessiné sur ces pages
+
+  2. Modifications de tables
+    - `pages.image_only` : page détectée comme scannée (image sans texte)
+    - `pages.ocr_engine` : moteur OCR retenu pour la page (`tesseract`, `textract`)
+    - `pages.ocr_words` (JSONB) : mots reconnus
+      `[{t, x, y, w, h, c}]`, coordonnées normalisées 0-1 depuis le coin
+      haut gauche et confiance 0-1. Tient lieu de couche texte pour ces pages.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pages' AND column_name = 'image_only'
+  ) THEN
+    ALTER TABLE pages ADD COLUMN image_only boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pages' AND column_name = 'ocr_engine'
+  ) THEN
+    ALTER TABLE pages ADD COLUMN ocr_engine text CHECK (ocr_engine IN ('tesseract', 'textract'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pages' AND column_name = 'ocr_words'
+  ) THEN
+    ALTER TABLE pages ADD COLUMN ocr_words jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN pages.image_only IS 'Page scannée sans couche texte : extraite par OCR';
+COMMENT ON COLUMN pages.ocr_engine IS 'Moteur OCR retenu pour la page (null si couche texte PDF)';
+COMMENT ON COLUMN pages.ocr_words IS 'Mots OCR : [{t, x, y, w, h, c}] en coordonnées normalisées, confiance 0-1';
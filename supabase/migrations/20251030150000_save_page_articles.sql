@@ -0,0 +1,143 @@
+/*
+  # Enregistrement groupé des zones d'une page
+
+  1. Problème
+    - L'éditeur de zones enregistrait chaque article séparément : une
+      correction (déplacer trois zones, en supprimer une) laissait la page
+      à moitié modifiée si un appel échouait
+    - Les modifications sont désormais préparées localement (annuler /
+      rétablir) puis envoyées ensemble
+
+  2. Nouvelle Fonction
+    - `save_page_articles(p_page_id, p_articles, p_deleted_ids)` : applique en
+      une transaction les créations (`id` absent), mises à jour et
+      suppressions d'articles d'une page, puis renvoie les articles de la
+      page. Les articles enregistrés sont marqués `ajuste_manuellement` et
+      conservés par les extractions suivantes.
+
+  3. Security
+    - Réservée aux administrateurs (`is_admin()`)
+    - Seuls les articles de la page indiquée peuvent être modifiés ou supprimés
+*/
+
+CREATE OR REPLACE FUNCTION save_page_articles(
+  p_page_id uuid,
+  p_articles jsonb DEFAULT '[]'::jsonb,
+  p_deleted_ids uuid[] DEFAULT ARRAY[]::uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_page pages;
+  v_foreign integer;
+  v_articles jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Accès réservé aux administrateurs';
+  END IF;
+
+  SELECT * INTO v_page FROM pages WHERE id = p_page_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Page introuvable');
+  END IF;
+
+  -- Un article d'une autre page ne peut pas être réécrit par erreur
+  SELECT count(*) INTO v_foreign
+  FROM jsonb_to_recordset(p_articles) AS z(id uuid)
+  JOIN articles a ON a.id = z.id
+  WHERE a.page_id <> p_page_id;
+
+  IF v_foreign > 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Des articles n''appartiennent pas à cette page');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_articles) AS z(titre text, contenu_texte text)
+    WHERE COALESCE(btrim(z.titre), '') = '' OR COALESCE(btrim(z.contenu_texte), '') = ''
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Le titre et le contenu sont obligatoires');
+  END IF;
+
+  DELETE FROM articles
+  WHERE page_id = p_page_id
+  AND id = ANY(p_deleted_ids);
+
+  UPDATE articles a
+  SET
+    titre = z.titre,
+    sous_titre = z.sous_titre,
+    auteur = z.auteur,
+    categorie = z.categorie,
+    contenu_texte = z.contenu_texte,
+    position_x = z.position_x,
+    position_y = z.position_y,
+    width = z.width,
+    height = z.height,
+    ordre_lecture = z.ordre_lecture,
+    mots_count = z.mots_count,
+    temps_lecture_estime = z.temps_lecture_estime,
+    confidence_score = 1,
+    extraction_method = 'manual',
+    ajuste_manuellement = true,
+    valide = true,
+    updated_at = now()
+  FROM jsonb_to_recordset(p_articles) AS z(
+    id uuid,
+    titre text,
+    sous_titre text,
+    auteur text,
+    categorie text,
+    contenu_texte text,
+    position_x float,
+    position_y float,
+    width float,
+    height float,
+    ordre_lecture integer,
+    mots_count integer,
+    temps_lecture_estime integer
+  )
+  WHERE z.id IS NOT NULL
+  AND a.id = z.id
+  AND a.page_id = p_page_id;
+
+  INSERT INTO articles (
+    edition_id, page_id, titre, sous_titre, auteur, categorie, contenu_texte,
+    position_x, position_y, width, height, ordre_lecture,
+    mots_count, temps_lecture_estime, confidence_score,
+    extraction_method, ajuste_manuellement, valide
+  )
+  SELECT
+    v_page.edition_id, p_page_id, z.titre, z.sous_titre, z.auteur, z.categorie, z.contenu_texte,
+    z.position_x, z.position_y, z.width, z.height, z.ordre_lecture,
+    z.mots_count, z.temps_lecture_estime, 1,
+    'manual', true, true
+  FROM jsonb_to_recordset(p_articles) AS z(
+    id uuid,
+    titre text,
+    sous_titre text,
+    auteur text,
+    categorie text,
+    contenu_texte text,
+    position_x float,
+    position_y float,
+    width float,
+    height float,
+    ordre_lecture integer,
+    mots_count integer,
+    temps_lecture_estime integer
+  )
+  WHERE z.id IS NULL;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(a) ORDER BY a.ordre_lecture), '[]'::jsonb) INTO v_articles
+  FROM articles a
+  WHERE a.page_id = p_page_id;
+
+  RETURN jsonb_build_object('success', true, 'articles', v_articles);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_page_articles(uuid, jsonb, uuid[]) TO authenticated;
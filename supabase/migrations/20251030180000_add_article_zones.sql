@@ -0,0 +1,239 @@
+/*
+  # Articles sur plusieurs blocs
+
+  1. Problème
+    - Un article n'avait qu'un rectangle (`position_x`, `position_y`,
+      `width`, `height`) : un article qui continue dans une autre colonne ne
+      pouvait pas être délimité sans englober ses voisins
+
+  2. Modifications de tables
+    - `articles.zones` (JSONB) : rectangles de l'article sur sa page, dans
+      l'ordre de lecture, `[{x, y, width, height}]` en coordonnées
+      normalisées. Vide pour les articles extraits automatiquement.
+    - `position_x`, `position_y`, `width`, `height` restent le premier bloc
+
+  3. Fonctions mises à jour
+    - `save_page_articles()` enregistre les blocs de chaque article
+    - `replace_extracted_articles()` compare les extraits à chaque bloc des
+      articles ajustés manuellement
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'articles' AND column_name = 'zones'
+  ) THEN
+    ALTER TABLE articles ADD COLUMN zones jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN articles.zones IS 'Blocs de l''article sur la page : [{x, y, width, height}] normalisés, dans l''ordre de lecture';
+
+-- ============================================================
+-- FONCTION : ENREGISTREMENT D'UNE PAGE
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION save_page_articles(
+  p_page_id uuid,
+  p_articles jsonb DEFAULT '[]'::jsonb,
+  p_deleted_ids uuid[] DEFAULT ARRAY[]::uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_page pages;
+  v_foreign integer;
+  v_articles jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Accès réservé aux administrateurs';
+  END IF;
+
+  SELECT * INTO v_page FROM pages WHERE id = p_page_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Page introuvable');
+  END IF;
+
+  -- Un article d'une autre page ne peut pas être réécrit par erreur
+  SELECT count(*) INTO v_foreign
+  FROM jsonb_to_recordset(p_articles) AS z(id uuid)
+  JOIN articles a ON a.id = z.id
+  WHERE a.page_id <> p_page_id;
+
+  IF v_foreign > 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Des articles n''appartiennent pas à cette page');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_articles) AS z(titre text, contenu_texte text)
+    WHERE COALESCE(btrim(z.titre), '') = '' OR COALESCE(btrim(z.contenu_texte), '') = ''
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Le titre et le contenu sont obligatoires');
+  END IF;
+
+  DELETE FROM articles
+  WHERE page_id = p_page_id
+  AND id = ANY(p_deleted_ids);
+
+  UPDATE articles a
+  SET
+    titre = z.titre,
+    sous_titre = z.sous_titre,
+    auteur = z.auteur,
+    categorie = z.categorie,
+    contenu_texte = z.contenu_texte,
+    position_x = z.position_x,
+    position_y = z.position_y,
+    width = z.width,
+    height = z.height,
+    zones = COALESCE(z.zones, '[]'::jsonb),
+    ordre_lecture = z.ordre_lecture,
+    mots_count = z.mots_count,
+    temps_lecture_estime = z.temps_lecture_estime,
+    confidence_score = 1,
+    extraction_method = 'manual',
+    ajuste_manuellement = true,
+    valide = true,
+    updated_at = now()
+  FROM jsonb_to_recordset(p_articles) AS z(
+    id uuid,
+    titre text,
+    sous_titre text,
+    auteur text,
+    categorie text,
+    contenu_texte text,
+    position_x float,
+    position_y float,
+    width float,
+    height float,
+    zones jsonb,
+    ordre_lecture integer,
+    mots_count integer,
+    temps_lecture_estime integer
+  )
+  WHERE z.id IS NOT NULL
+  AND a.id = z.id
+  AND a.page_id = p_page_id;
+
+  INSERT INTO articles (
+    edition_id, page_id, titre, sous_titre, auteur, categorie, contenu_texte,
+    position_x, position_y, width, height, zones, ordre_lecture,
+    mots_count, temps_lecture_estime, confidence_score,
+    extraction_method, ajuste_manuellement, valide
+  )
+  SELECT
+    v_page.edition_id, p_page_id, z.titre, z.sous_titre, z.auteur, z.categorie, z.contenu_texte,
+    z.position_x, z.position_y, z.width, z.height, COALESCE(z.zones, '[]'::jsonb), z.ordre_lecture,
+    z.mots_count, z.temps_lecture_estime, 1,
+    'manual', true, true
+  FROM jsonb_to_recordset(p_articles) AS z(
+    id uuid,
+    titre text,
+    sous_titre text,
+    auteur text,
+    categorie text,
+    contenu_texte text,
+    position_x float,
+    position_y float,
+    width float,
+    height float,
+    zones jsonb,
+    ordre_lecture integer,
+    mots_count integer,
+    temps_lecture_estime integer
+  )
+  WHERE z.id IS NULL;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(a) ORDER BY a.ordre_lecture), '[]'::jsonb) INTO v_articles
+  FROM articles a
+  WHERE a.page_id = p_page_id;
+
+  RETURN jsonb_build_object('success', true, 'articles', v_articles);
+END;
+$$;
+
+-- ============================================================
+-- FONCTION : REMPLACEMENT DES ARTICLES EXTRAITS
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION replace_extracted_articles(
+  p_edition_id uuid,
+  p_articles jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inserted integer;
+BEGIN
+  DELETE FROM articles
+  WHERE edition_id = p_edition_id
+  AND COALESCE(ajuste_manuellement, false) = false;
+
+  INSERT INTO articles (
+    edition_id, page_id, titre, sous_titre, auteur, contenu_texte,
+    position_x, position_y, width, height, ordre_lecture,
+    mots_count, temps_lecture_estime, confidence_score,
+    extraction_method, layout_metadata, valide
+  )
+  SELECT
+    p_edition_id, a.page_id, a.titre, a.sous_titre, a.auteur, a.contenu_texte,
+    a.position_x, a.position_y, a.width, a.height, a.ordre_lecture,
+    a.mots_count, a.temps_lecture_estime, a.confidence_score,
+    a.extraction_method, COALESCE(a.layout_metadata, '{}'::jsonb), a.valide
+  FROM jsonb_to_recordset(p_articles) AS a(
+    page_id uuid,
+    titre text,
+    sous_titre text,
+    auteur text,
+    contenu_texte text,
+    position_x float,
+    position_y float,
+    width float,
+    height float,
+    ordre_lecture integer,
+    mots_count integer,
+    temps_lecture_estime integer,
+    confidence_score float,
+    extraction_method text,
+    layout_metadata jsonb,
+    valide boolean
+  )
+  -- Une zone corrigée à la main fait foi : l'extraction ne la duplique pas, quel que soit le bloc recouvert
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM articles m
+    CROSS JOIN LATERAL (
+      SELECT
+        (r->>'x')::float AS x,
+        (r->>'y')::float AS y,
+        (r->>'width')::float AS width,
+        (r->>'height')::float AS height
+      FROM jsonb_array_elements(
+        CASE
+          WHEN jsonb_array_length(m.zones) > 0 THEN m.zones
+          ELSE jsonb_build_array(jsonb_build_object('x', m.position_x, 'y', m.position_y, 'width', m.width, 'height', m.height))
+        END
+      ) AS r
+    ) b
+    WHERE m.edition_id = p_edition_id
+    AND m.page_id = a.page_id
+    AND m.ajuste_manuellement = true
+    AND GREATEST(0, LEAST(b.x + b.width, a.position_x + a.width) - GREATEST(b.x, a.position_x))
+      * GREATEST(0, LEAST(b.y + b.height, a.position_y + a.height) - GREATEST(b.y, a.position_y))
+      > 0.5 * LEAST(b.width * b.height, a.width * a.height)
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_extracted_articles(uuid, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,97 @@
+/*
+  # Filigrane invisible des sessions de lecture
+
+  1. Problème
+    - Le filigrane visible du lecteur (nom, numéro d'abonné, session) est
+      recadré ou flouté sur les captures qui circulent : une fuite ne peut
+      plus être rattachée à un abonné
+
+  2. Nouvelles Tables
+    - `watermark_sessions` : un code de 32 bits par session de lecture,
+      inscrit de façon invisible dans les pixels des pages rendues. Le code
+      renvoie au jeton, à l'abonné, au document et à la session
+
+  3. Nouvelles Fonctions
+    - `register_watermark_session()` : appelée par le lecteur à l'ouverture
+      d'un jeton valide ; attribue un code unique à la session (idempotent
+      pour une même session)
+
+  4. Security
+    - RLS activé, lecture réservée aux admins (outil « Traçage » du tableau
+      de bord)
+    - Écriture uniquement via `register_watermark_session()`, qui vérifie le
+      jeton
+*/
+
+-- ============================================================
+-- TABLE : SESSIONS FILIGRANÉES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS watermark_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code bigint UNIQUE NOT NULL CHECK (code >= 0 AND code < 4294967296),
+  session_id uuid NOT NULL,
+  token_id uuid REFERENCES tokens(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pdf_id uuid REFERENCES pdfs(id) ON DELETE SET NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (token_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watermark_sessions_user_id ON watermark_sessions(user_id, created_at DESC);
+
+ALTER TABLE watermark_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view watermark sessions"
+  ON watermark_sessions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- ============================================================
+-- FONCTION : ENREGISTREMENT D'UNE SESSION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION register_watermark_session(
+  p_token text,
+  p_session_id uuid,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token tokens;
+  v_code bigint;
+BEGIN
+  SELECT * INTO v_token FROM tokens WHERE token = p_token;
+
+  IF NOT FOUND OR v_token.expires_at < now() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Lien invalide ou expiré');
+  END IF;
+
+  SELECT code INTO v_code
+  FROM watermark_sessions
+  WHERE token_id = v_token.id
+  AND session_id = p_session_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'code', v_code);
+  END IF;
+
+  -- Code aléatoire : une capture ne révèle rien de l'ordre des sessions
+  LOOP
+    v_code := floor(random() * 4294967296)::bigint;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM watermark_sessions WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO watermark_sessions (code, session_id, token_id, user_id, pdf_id, user_agent)
+  VALUES (v_code, p_session_id, v_token.id, v_token.user_id, v_token.pdf_id, left(p_user_agent, 500));
+
+  RETURN jsonb_build_object('success', true, 'code', v_code);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION register_watermark_session(text, uuid, text) TO anon, authenticated;
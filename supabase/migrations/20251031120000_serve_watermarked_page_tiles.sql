@@ -0,0 +1,116 @@
+/*
+  # Tuiles de page filigranées côté serveur
+
+  1. Problème
+    - Les lecteurs téléchargeaient le PDF complet depuis `secure-pdfs` pour le
+      rendre dans le navigateur : le fichier original se récupérait depuis les
+      outils de développement
+    - `generate-secure-page` re-téléchargeait et réanalysait le PDF entier à
+      chaque page demandée
+
+  2. Stockage
+    - Bucket privé `page-tiles` :
+      - `sources/` : rendu propre de chaque page, fait une seule fois par
+        document (quand l'édition n'a pas déjà ses rendus `edition-pages`)
+      - `served/` : tuiles filigranées pour une session de lecture, servies
+        en URLs signées de courte durée
+
+  3. Nouvelles Tables
+    - `page_tile_sources` : index des rendus propres par document, page et largeur
+    - `page_tile_deliveries` : tuiles remises à chaque session (jeton, session,
+      page, code du filigrane invisible). Sert au traçage et à la purge
+
+  4. Modifications de tables
+    - `pdfs.nb_pages` : nombre de pages, connu au premier rendu
+
+  5. Security
+    - RLS activé sur les deux tables, lecture réservée aux admins
+    - Écriture uniquement via `generate-secure-page` (service role), qui ouvre
+      aussi la session de filigrane : `register_watermark_session` n'est plus
+      exposée aux clients
+    - `secure-pdfs` n'est plus lisible que par les admins : les abonnés ne
+      reçoivent que des tuiles
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('page-tiles', 'page-tiles', false, 10485760, ARRAY['image/webp', 'image/png'])
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Admins manage page tiles" ON storage.objects;
+
+CREATE POLICY "Admins manage page tiles"
+  ON storage.objects FOR ALL
+  TO authenticated
+  USING (bucket_id = 'page-tiles' AND is_admin())
+  WITH CHECK (bucket_id = 'page-tiles' AND is_admin());
+
+-- Le PDF original ne sort plus que par les outils d'administration
+DROP POLICY IF EXISTS "Authenticated users can view files" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can view secure PDFs" ON storage.objects;
+
+CREATE POLICY "Admins can view secure PDFs"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'secure-pdfs' AND is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pdfs' AND column_name = 'nb_pages'
+  ) THEN
+    ALTER TABLE pdfs ADD COLUMN nb_pages integer;
+  END IF;
+END $$;
+
+-- ============================================================
+-- TABLE : RENDUS PROPRES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS page_tile_sources (
+  pdf_id uuid NOT NULL REFERENCES pdfs(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  width integer NOT NULL,
+  height integer NOT NULL,
+  path text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (pdf_id, page_number, width)
+);
+
+-- ============================================================
+-- TABLE : TUILES REMISES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS page_tile_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_id uuid NOT NULL REFERENCES tokens(id) ON DELETE CASCADE,
+  session_id uuid NOT NULL,
+  page_number integer NOT NULL,
+  width integer NOT NULL,
+  height integer NOT NULL,
+  path text NOT NULL,
+  watermark_code bigint,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (token_id, session_id, page_number, width)
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_tile_deliveries_created_at ON page_tile_deliveries(created_at);
+
+ALTER TABLE page_tile_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_tile_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view page tile sources"
+  ON page_tile_sources FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view page tile deliveries"
+  ON page_tile_deliveries FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Les sessions de filigrane sont désormais ouvertes par generate-secure-page
+REVOKE EXECUTE ON FUNCTION register_watermark_session(text, uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,356 @@
+/*
+  # Limite de sessions simultanées par abonné
+
+  1. Problème
+    - `users.devices_autorises` existait sans être appliqué : rien ne limitait
+      le nombre d'appareils lisant en même temps sur un compte, tous jetons
+      confondus
+    - `active_sessions` n'était jamais alimentée, et sa politique « Système
+      peut gérer les sessions » laissait tout utilisateur connecté la modifier
+
+  2. Admission des sessions
+    - `admit_reading_session()` : appelée par `validate-edition-access` à
+      l'ouverture du lecteur. Un appareil (empreinte) déjà en lecture ne
+      prend pas de place supplémentaire ; au-delà de `devices_autorises`,
+      les sessions des appareils les plus anciens sont fermées
+    - `heartbeat_reading_session()` : signal de vie du lecteur, qui apprend
+      aussi que sa session a été fermée
+    - Une session est active si son dernier signal date de moins de 5 minutes,
+      comme dans `get_active_sessions_count()`
+
+  3. Fermeture en temps réel
+    - Trigger sur `active_sessions` : à la fermeture d'une session, diffusion
+      Realtime `session_ended` sur le canal `reading-session:<session_id>`
+    - Colonnes `ended_at` et `end_reason` (device_limit, user_revoked, expired)
+
+  4. Espace abonné
+    - `get_my_reading_devices()` : appareils en lecture et limite du compte
+    - `revoke_my_reading_device()` : ferme les sessions d'un appareil et
+      révoque les jetons ouverts dessus
+
+  5. Security
+    - Suppression de la politique d'écriture ouverte sur `active_sessions`
+    - `admit_reading_session` réservée au service role
+    - `users.devices_autorises` n'est plus modifiable par l'abonné : la policy
+      "Users can update own profile" couvre toutes les colonnes
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'active_sessions' AND column_name = 'ended_at'
+  ) THEN
+    ALTER TABLE active_sessions ADD COLUMN ended_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'active_sessions' AND column_name = 'end_reason'
+  ) THEN
+    ALTER TABLE active_sessions ADD COLUMN end_reason text
+      CHECK (end_reason IN ('device_limit', 'user_revoked', 'expired'));
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Système peut gérer les sessions" ON active_sessions;
+
+-- Identifiant d'appareil : l'empreinte envoyée par le lecteur, à défaut la session seule
+CREATE OR REPLACE FUNCTION reading_device_key(p_fingerprint jsonb, p_session_id text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT md5(COALESCE(p_fingerprint::text, p_session_id));
+$$;
+
+-- ============================================================
+-- FONCTION : Admission d'une session de lecture
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION admit_reading_session(
+  p_token_id uuid,
+  p_session_id text,
+  p_device_fingerprint jsonb DEFAULT NULL,
+  p_ip_address text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_limit integer;
+  v_device_key text := reading_device_key(p_device_fingerprint, p_session_id);
+  v_kicked text[] := ARRAY[]::text[];
+  v_device record;
+BEGIN
+  SELECT user_id INTO v_user_id FROM tokens WHERE id = p_token_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Jeton introuvable');
+  END IF;
+
+  -- Verrou sur l'abonné : deux ouvertures simultanées ne dépassent pas la limite
+  SELECT GREATEST(COALESCE(devices_autorises, 1), 1)
+  INTO v_limit
+  FROM users
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  UPDATE active_sessions
+  SET is_active = false, ended_at = now(), end_reason = 'expired'
+  WHERE user_id = v_user_id
+    AND is_active = true
+    AND last_heartbeat <= now() - INTERVAL '5 minutes';
+
+  -- On garde les appareils les plus récents, en laissant une place pour celui-ci
+  FOR v_device IN
+    WITH other_devices AS (
+      SELECT reading_device_key(device_fingerprint, session_id) AS device_key,
+             MIN(started_at) AS first_started_at
+      FROM active_sessions
+      WHERE user_id = v_user_id
+        AND is_active = true
+        AND session_id <> p_session_id
+      GROUP BY 1
+    )
+    SELECT device_key
+    FROM (
+      SELECT device_key, ROW_NUMBER() OVER (ORDER BY first_started_at DESC) AS recency
+      FROM other_devices
+      WHERE device_key <> v_device_key
+    ) ranked
+    WHERE recency >= v_limit
+  LOOP
+    WITH ended AS (
+      UPDATE active_sessions
+      SET is_active = false, ended_at = now(), end_reason = 'device_limit'
+      WHERE user_id = v_user_id
+        AND is_active = true
+        AND reading_device_key(device_fingerprint, session_id) = v_device.device_key
+      RETURNING session_id
+    )
+    SELECT v_kicked || COALESCE(array_agg(session_id), ARRAY[]::text[]) INTO v_kicked FROM ended;
+  END LOOP;
+
+  INSERT INTO active_sessions (
+    token_id, user_id, session_id, device_fingerprint, ip_address, user_agent
+  ) VALUES (
+    p_token_id, v_user_id, p_session_id, p_device_fingerprint, p_ip_address, p_user_agent
+  )
+  ON CONFLICT (session_id) DO UPDATE SET
+    is_active = true,
+    last_heartbeat = now(),
+    ended_at = NULL,
+    end_reason = NULL,
+    ip_address = EXCLUDED.ip_address;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'limit', v_limit,
+    'kicked_sessions', to_jsonb(v_kicked)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admit_reading_session(uuid, text, jsonb, text, text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- FONCTION : Signal de vie du lecteur
+-- ============================================================
+
+-- L'identifiant de session est un UUID tiré par le lecteur : le connaître suffit
+CREATE OR REPLACE FUNCTION heartbeat_reading_session(p_session_id text, p_current_page integer DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_end_reason text;
+BEGIN
+  UPDATE active_sessions
+  SET last_heartbeat = now(),
+      current_page = COALESCE(p_current_page, current_page)
+  WHERE session_id = p_session_id
+    AND is_active = true
+    AND last_heartbeat > now() - INTERVAL '5 minutes';
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('active', true);
+  END IF;
+
+  -- Lecteur resté muet trop longtemps (mise en veille) : sa place a pu être reprise
+  UPDATE active_sessions
+  SET is_active = false, ended_at = now(), end_reason = 'expired'
+  WHERE session_id = p_session_id
+    AND is_active = true;
+
+  SELECT end_reason INTO v_end_reason FROM active_sessions WHERE session_id = p_session_id;
+
+  IF NOT FOUND THEN
+    -- Session ouverte sans admission (ancien lecteur) : rien à fermer
+    RETURN jsonb_build_object('active', true);
+  END IF;
+
+  RETURN jsonb_build_object('active', false, 'end_reason', v_end_reason);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION heartbeat_reading_session(text, integer) TO anon, authenticated;
+
+-- ============================================================
+-- TRIGGER : Diffusion de la fermeture d'une session
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION notify_reading_session_ended()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    BEGIN
+      PERFORM realtime.send(
+        jsonb_build_object('reason', NEW.end_reason),
+        'session_ended',
+        'reading-session:' || NEW.session_id,
+        false
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Le signal de vie du lecteur prend le relais
+      RAISE WARNING 'Diffusion de fin de session impossible: %', SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notify_reading_session_ended ON active_sessions;
+
+CREATE TRIGGER trg_notify_reading_session_ended
+  AFTER UPDATE OF is_active ON active_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_reading_session_ended();
+
+-- ============================================================
+-- FONCTIONS : Appareils de l'abonné
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_my_reading_devices()
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'limit', GREATEST(COALESCE(u.devices_autorises, 1), 1),
+    'devices', COALESCE((
+      SELECT jsonb_agg(d ORDER BY d->>'last_seen_at' DESC)
+      FROM (
+        SELECT jsonb_build_object(
+          'device_key', reading_device_key(s.device_fingerprint, s.session_id),
+          'user_agent', (array_agg(s.user_agent ORDER BY s.last_heartbeat DESC))[1],
+          'ip_address', (array_agg(s.ip_address ORDER BY s.last_heartbeat DESC))[1],
+          'started_at', MIN(s.started_at),
+          'last_seen_at', MAX(s.last_heartbeat),
+          'sessions', COUNT(*),
+          'document', (array_agg(p.titre ORDER BY s.last_heartbeat DESC))[1]
+        ) AS d
+        FROM active_sessions s
+        LEFT JOIN tokens t ON t.id = s.token_id
+        LEFT JOIN pdfs p ON p.id = t.pdf_id
+        WHERE s.user_id = u.id
+          AND s.is_active = true
+          AND s.last_heartbeat > now() - INTERVAL '5 minutes'
+        GROUP BY reading_device_key(s.device_fingerprint, s.session_id)
+      ) devices
+    ), '[]'::jsonb)
+  )
+  FROM users u
+  WHERE u.id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_reading_devices TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_my_reading_device(p_device_key text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token_ids uuid[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Non authentifié');
+  END IF;
+
+  WITH ended AS (
+    UPDATE active_sessions
+    SET is_active = false, ended_at = now(), end_reason = 'user_revoked'
+    WHERE user_id = auth.uid()
+      AND is_active = true
+      AND reading_device_key(device_fingerprint, session_id) = p_device_key
+    RETURNING token_id
+  )
+  SELECT array_agg(DISTINCT token_id) INTO v_token_ids FROM ended;
+
+  IF v_token_ids IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Appareil introuvable');
+  END IF;
+
+  -- Un lien partagé depuis cet appareil ne doit pas pouvoir être rouvert
+  UPDATE tokens
+  SET revoked = true, revoked_reason = 'Appareil retiré par l''abonné'
+  WHERE id = ANY(v_token_ids)
+    AND user_id = auth.uid()
+    AND revoked = false;
+
+  INSERT INTO revocation_log (token_id, user_id, revoked_by, reason, revocation_type)
+  SELECT token_id, auth.uid(), auth.uid(), 'Appareil retiré par l''abonné', 'manual'
+  FROM unnest(v_token_ids) AS token_id;
+
+  RETURN jsonb_build_object('success', true, 'revoked_tokens', COALESCE(array_length(v_token_ids, 1), 0));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_my_reading_device TO authenticated;
+
+-- ============================================================
+-- TRIGGER : Protection de la limite d'appareils
+-- ============================================================
+
+-- Sans cela, l'abonné relèverait lui-même sa limite : seuls le service role
+-- et les admins fixent `devices_autorises`
+CREATE OR REPLACE FUNCTION protect_users_device_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.devices_autorises := 1;
+  ELSIF NEW.devices_autorises IS DISTINCT FROM OLD.devices_autorises THEN
+    RAISE EXCEPTION 'La limite d''appareils ne peut pas être modifiée par l''abonné';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_users_device_limit_trigger ON users;
+CREATE TRIGGER protect_users_device_limit_trigger
+  BEFORE INSERT OR UPDATE OF devices_autorises ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_users_device_limit();
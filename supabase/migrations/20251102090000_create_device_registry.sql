@@ -0,0 +1,361 @@
+/*
+  # Registre des appareils et appareils de confiance
+
+  1. Problème
+    - `validate-edition-access` comparait l'empreinte JSON du lecteur
+      caractère par caractère avec celle du jeton : une mise à jour du
+      navigateur suffisait à passer pour un autre appareil et à révoquer le
+      lien de l'abonné
+    - Les sessions de lecture identifiaient l'appareil par un hash de
+      l'empreinte brute, avec le même défaut
+
+  2. Nouvelle Table
+    - `devices` : appareils connus de chaque abonné, avec la dernière
+      empreinte vue. La correspondance est approchée (score de similarité
+      par composant, voir `_shared/devices.ts`)
+    - Statuts : `pending` (nouvel appareil en attente du code WhatsApp),
+      `trusted`, `revoked` (retiré par l'abonné ou réinitialisé par un admin)
+    - Le code de confirmation n'est conservé que sous forme de hash
+
+  3. Sessions de lecture
+    - `active_sessions.device_id` : une session est rattachée à l'appareil
+      reconnu ; `reading_device_key()` s'en sert avant l'empreinte brute
+    - `admit_reading_session()` reçoit l'appareil, `get_my_reading_devices()`
+      liste aussi les appareils de confiance hors lecture, et
+      `revoke_my_reading_device()` retire l'appareil du registre
+    - Nouveau motif de fin de session `admin_reset`
+
+  4. Administration
+    - `reset_user_devices()` : retire tous les appareils d'un abonné et ferme
+      ses lectures en cours ; le prochain appareil utilisé est reconnu
+      d'office
+
+  5. Security
+    - RLS activé sur `devices`, lecture réservée aux admins
+    - Les abonnés passent par `get_my_reading_devices()` et
+      `revoke_my_reading_device()` ; l'enregistrement se fait par les
+      fonctions edge (service role)
+*/
+
+-- ============================================================
+-- TABLE : APPAREILS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  fingerprint jsonb NOT NULL,
+  label text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'trusted', 'revoked')),
+  last_ip text,
+  enrollment_code_hash text,
+  enrollment_expires_at timestamptz,
+  enrollment_sent_at timestamptz,
+  enrollment_attempts integer NOT NULL DEFAULT 0,
+  first_seen_at timestamptz DEFAULT now(),
+  last_seen_at timestamptz DEFAULT now(),
+  trusted_at timestamptz,
+  revoked_at timestamptz,
+  revoked_reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_devices_user_status ON devices(user_id, status);
+
+ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view devices"
+  ON devices FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'active_sessions' AND column_name = 'device_id'
+  ) THEN
+    ALTER TABLE active_sessions ADD COLUMN device_id uuid REFERENCES devices(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_active_sessions_device_id ON active_sessions(device_id);
+
+ALTER TABLE active_sessions DROP CONSTRAINT IF EXISTS active_sessions_end_reason_check;
+ALTER TABLE active_sessions ADD CONSTRAINT active_sessions_end_reason_check
+  CHECK (end_reason IN ('device_limit', 'user_revoked', 'expired', 'admin_reset'));
+
+-- L'appareil du registre d'abord ; l'empreinte brute pour les sessions ouvertes avant lui
+CREATE OR REPLACE FUNCTION reading_device_key(p_device_id uuid, p_fingerprint jsonb, p_session_id text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_device_id::text, md5(COALESCE(p_fingerprint::text, p_session_id)));
+$$;
+
+-- ============================================================
+-- FONCTION : Admission d'une session de lecture
+-- ============================================================
+
+DROP FUNCTION IF EXISTS admit_reading_session(uuid, text, jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION admit_reading_session(
+  p_token_id uuid,
+  p_session_id text,
+  p_device_id uuid DEFAULT NULL,
+  p_device_fingerprint jsonb DEFAULT NULL,
+  p_ip_address text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_limit integer;
+  v_device_key text := reading_device_key(p_device_id, p_device_fingerprint, p_session_id);
+  v_kicked text[] := ARRAY[]::text[];
+  v_device record;
+BEGIN
+  SELECT user_id INTO v_user_id FROM tokens WHERE id = p_token_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Jeton introuvable');
+  END IF;
+
+  -- Verrou sur l'abonné : deux ouvertures simultanées ne dépassent pas la limite
+  SELECT GREATEST(COALESCE(devices_autorises, 1), 1)
+  INTO v_limit
+  FROM users
+  WHERE id = v_user_id
+  FOR UPDATE;
+
+  UPDATE active_sessions
+  SET is_active = false, ended_at = now(), end_reason = 'expired'
+  WHERE user_id = v_user_id
+    AND is_active = true
+    AND last_heartbeat <= now() - INTERVAL '5 minutes';
+
+  -- On garde les appareils les plus récents, en laissant une place pour celui-ci
+  FOR v_device IN
+    WITH other_devices AS (
+      SELECT reading_device_key(device_id, device_fingerprint, session_id) AS device_key,
+             MIN(started_at) AS first_started_at
+      FROM active_sessions
+      WHERE user_id = v_user_id
+        AND is_active = true
+        AND session_id <> p_session_id
+      GROUP BY 1
+    )
+    SELECT device_key
+    FROM (
+      SELECT device_key, ROW_NUMBER() OVER (ORDER BY first_started_at DESC) AS recency
+      FROM other_devices
+      WHERE device_key <> v_device_key
+    ) ranked
+    WHERE recency >= v_limit
+  LOOP
+    WITH ended AS (
+      UPDATE active_sessions
+      SET is_active = false, ended_at = now(), end_reason = 'device_limit'
+      WHERE user_id = v_user_id
+        AND is_active = true
+        AND reading_device_key(device_id, device_fingerprint, session_id) = v_device.device_key
+      RETURNING session_id
+    )
+    SELECT v_kicked || COALESCE(array_agg(session_id), ARRAY[]::text[]) INTO v_kicked FROM ended;
+  END LOOP;
+
+  INSERT INTO active_sessions (
+    token_id, user_id, session_id, device_id, device_fingerprint, ip_address, user_agent
+  ) VALUES (
+    p_token_id, v_user_id, p_session_id, p_device_id, p_device_fingerprint, p_ip_address, p_user_agent
+  )
+  ON CONFLICT (session_id) DO UPDATE SET
+    is_active = true,
+    last_heartbeat = now(),
+    ended_at = NULL,
+    end_reason = NULL,
+    device_id = EXCLUDED.device_id,
+    ip_address = EXCLUDED.ip_address;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'limit', v_limit,
+    'kicked_sessions', to_jsonb(v_kicked)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admit_reading_session(uuid, text, uuid, jsonb, text, text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- FONCTIONS : Appareils de l'abonné
+-- ============================================================
+
+-- Appareils de confiance et appareils en lecture, réunis par clé d'appareil
+CREATE OR REPLACE FUNCTION get_my_reading_devices()
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH live AS (
+    SELECT reading_device_key(s.device_id, s.device_fingerprint, s.session_id) AS device_key,
+           (array_agg(s.user_agent ORDER BY s.last_heartbeat DESC))[1] AS user_agent,
+           (array_agg(s.ip_address ORDER BY s.last_heartbeat DESC))[1] AS ip_address,
+           MIN(s.started_at) AS started_at,
+           MAX(s.last_heartbeat) AS last_seen_at,
+           COUNT(*) AS sessions,
+           (array_agg(p.titre ORDER BY s.last_heartbeat DESC))[1] AS document
+    FROM active_sessions s
+    LEFT JOIN tokens t ON t.id = s.token_id
+    LEFT JOIN pdfs p ON p.id = t.pdf_id
+    WHERE s.user_id = auth.uid()
+      AND s.is_active = true
+      AND s.last_heartbeat > now() - INTERVAL '5 minutes'
+    GROUP BY 1
+  ),
+  registered AS (
+    SELECT d.id::text AS device_key,
+           d.label,
+           d.fingerprint->>'userAgent' AS user_agent,
+           d.last_ip,
+           d.trusted_at,
+           d.last_seen_at
+    FROM devices d
+    WHERE d.user_id = auth.uid()
+      AND d.status = 'trusted'
+  )
+  SELECT jsonb_build_object(
+    'limit', GREATEST(COALESCE(u.devices_autorises, 1), 1),
+    'devices', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'device_key', COALESCE(r.device_key, l.device_key),
+          'label', r.label,
+          'trusted', r.device_key IS NOT NULL,
+          'trusted_at', r.trusted_at,
+          'user_agent', COALESCE(l.user_agent, r.user_agent),
+          'ip_address', COALESCE(l.ip_address, r.last_ip),
+          'started_at', l.started_at,
+          'last_seen_at', GREATEST(l.last_seen_at, r.last_seen_at),
+          'sessions', COALESCE(l.sessions, 0),
+          'document', l.document
+        )
+        ORDER BY GREATEST(l.last_seen_at, r.last_seen_at) DESC
+      )
+      FROM registered r
+      FULL JOIN live l ON l.device_key = r.device_key
+    ), '[]'::jsonb)
+  )
+  FROM users u
+  WHERE u.id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_reading_devices TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_my_reading_device(p_device_key text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token_ids uuid[];
+  v_forgotten boolean;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Non authentifié');
+  END IF;
+
+  -- Retiré du registre : il faudra un nouveau code WhatsApp pour y relire
+  UPDATE devices
+  SET status = 'revoked', revoked_at = now(), revoked_reason = 'Retiré par l''abonné'
+  WHERE user_id = auth.uid()
+    AND id::text = p_device_key
+    AND status <> 'revoked';
+
+  v_forgotten := FOUND;
+
+  WITH ended AS (
+    UPDATE active_sessions
+    SET is_active = false, ended_at = now(), end_reason = 'user_revoked'
+    WHERE user_id = auth.uid()
+      AND is_active = true
+      AND reading_device_key(device_id, device_fingerprint, session_id) = p_device_key
+    RETURNING token_id
+  )
+  SELECT array_agg(DISTINCT token_id) INTO v_token_ids FROM ended;
+
+  IF v_token_ids IS NULL AND NOT v_forgotten THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Appareil introuvable');
+  END IF;
+
+  -- Un lien partagé depuis cet appareil ne doit pas pouvoir être rouvert
+  UPDATE tokens
+  SET revoked = true, revoked_reason = 'Appareil retiré par l''abonné'
+  WHERE id = ANY(COALESCE(v_token_ids, ARRAY[]::uuid[]))
+    AND user_id = auth.uid()
+    AND revoked = false;
+
+  INSERT INTO revocation_log (token_id, user_id, revoked_by, reason, revocation_type)
+  SELECT token_id, auth.uid(), auth.uid(), 'Appareil retiré par l''abonné', 'manual'
+  FROM unnest(COALESCE(v_token_ids, ARRAY[]::uuid[])) AS token_id;
+
+  RETURN jsonb_build_object('success', true, 'revoked_tokens', COALESCE(array_length(v_token_ids, 1), 0));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_my_reading_device TO authenticated;
+
+DROP FUNCTION IF EXISTS reading_device_key(jsonb, text);
+
+-- ============================================================
+-- FONCTION : Réinitialisation des appareils (admin)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION reset_user_devices(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_devices integer;
+  v_sessions integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Accès réservé aux administrateurs');
+  END IF;
+
+  UPDATE devices
+  SET status = 'revoked',
+      revoked_at = now(),
+      revoked_reason = 'Réinitialisé par un administrateur',
+      enrollment_code_hash = NULL
+  WHERE user_id = p_user_id
+    AND status <> 'revoked';
+
+  GET DIAGNOSTICS v_devices = ROW_COUNT;
+
+  UPDATE active_sessions
+  SET is_active = false, ended_at = now(), end_reason = 'admin_reset'
+  WHERE user_id = p_user_id
+    AND is_active = true;
+
+  GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'devices_reset', v_devices,
+    'sessions_ended', v_sessions
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reset_user_devices(uuid) TO authenticated;
@@ -0,0 +1,515 @@
+/*
+  # Moteur de score de confiance
+
+  1. Problème
+    - `users.score_confiance` valait 100 à l'inscription et ne bougeait plus
+    - `validate-edition-access` révoquait le lien dès une troisième adresse
+      IP : aucune gradation, aucun oubli avec le temps, et des seuils figés
+      dans le code
+
+  2. Nouvelles Tables
+    - `risk_rules` : règles modifiables par les admins. Chaque règle lit un
+      signal, retient les événements de sa fenêtre au-delà de son seuil et
+      retire `points` par événement, dans la limite de `plafond`
+    - `risk_settings` : ligne unique avec la demi-vie des pénalités et les
+      paliers d'action (avertissement, code WhatsApp, verrouillage
+      temporaire, révocation)
+    - `risk_decisions` : journal des décisions autres que « allow »
+
+  3. Signaux
+    - `acces_suspects` (non résolus, filtrables par type et gravité)
+    - `screenshot_attempts` (filtrable par type de détection)
+    - `device_limit` : sessions fermées par la limite d'appareils ; les
+      sessions vivent dans `active_sessions`, `sessions_lecture` n'étant
+      plus alimentée
+    - `ip_changes` / `geo_changes` : adresses et réseaux (/16) distincts vus
+      par le serveur dans `logs`, faute de géolocalisation
+    - `reading_speed` : pages distinctes servies en une minute pour un
+      même document
+    - Ces trois signaux ne lisent que les lignes `logs.source = 'serveur'` :
+      la policy "Public can insert access logs" laisse n'importe qui écrire
+      dans `logs`, et un faux journal ferait révoquer un autre abonné
+
+  4. Calcul
+    - Score = 100 - somme des pénalités ; chaque événement perd la moitié
+      de son poids à chaque demi-vie, le score remonte donc tout seul
+    - `evaluate_user_risk()` : appelée par `validate-edition-access`, met à
+      jour `score_confiance` et renvoie l'action. Un verrouillage n'est
+      reconduit que si de nouveaux événements sont survenus depuis ; un
+      code WhatsApp reste valable `validite_otp_heures`
+    - `devices.otp_verified_at` : dernière saisie d'un code sur l'appareil.
+      `trusted_at` ne suffit pas, un premier appareil est reconnu d'office
+    - `refresh_trust_scores()` : recalcul de tous les abonnés après un
+      réglage (admin)
+
+  5. Security
+    - RLS activé, règles et paliers réservés aux admins
+    - `compute_trust_score` et `evaluate_user_risk` réservées au service role
+    - `logs.source` vaut toujours `client` pour une insertion anon ou
+      authenticated (trigger `force_client_log_source_trigger`) ; seul le
+      service role (`generate-secure-page`) écrit des lignes `serveur`, avec
+      l'adresse ajoutée par le proxy de la plateforme
+    - `score_confiance`, `score_calcule_at` et `acces_verrouille_jusqu_a` ne
+      sont plus modifiables par l'abonné (trigger `protect_users_risk_columns_trigger`) :
+      la policy "Users can update own profile" couvre toutes les colonnes
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'acces_verrouille_jusqu_a'
+  ) THEN
+    ALTER TABLE users ADD COLUMN acces_verrouille_jusqu_a timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'score_calcule_at'
+  ) THEN
+    ALTER TABLE users ADD COLUMN score_calcule_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'logs' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE logs ADD COLUMN source text NOT NULL DEFAULT 'client' CHECK (source IN ('client', 'serveur'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'devices' AND column_name = 'otp_verified_at'
+  ) THEN
+    ALTER TABLE devices ADD COLUMN otp_verified_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_logs_user_date ON logs(user_id, date_access DESC);
+
+-- ============================================================
+-- TRIGGER : Origine des journaux d'accès
+-- ============================================================
+
+-- Un client ne peut pas se faire passer pour le serveur
+CREATE OR REPLACE FUNCTION force_client_log_source()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.source := 'client';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS force_client_log_source_trigger ON logs;
+CREATE TRIGGER force_client_log_source_trigger
+  BEFORE INSERT OR UPDATE ON logs
+  FOR EACH ROW
+  EXECUTE FUNCTION force_client_log_source();
+
+-- ============================================================
+-- TABLE : RÈGLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS risk_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  libelle text NOT NULL,
+  signal text NOT NULL CHECK (signal IN (
+    'acces_suspects', 'screenshot_attempts', 'device_limit', 'ip_changes', 'geo_changes', 'reading_speed'
+  )),
+  filtre jsonb NOT NULL DEFAULT '{}'::jsonb,
+  seuil numeric NOT NULL DEFAULT 0 CHECK (seuil >= 0),
+  points numeric NOT NULL CHECK (points >= 0),
+  plafond numeric NOT NULL CHECK (plafond >= 0),
+  fenetre_jours integer NOT NULL DEFAULT 30 CHECK (fenetre_jours > 0),
+  actif boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- seuil : événements tolérés dans la fenêtre, ou pages par minute pour reading_speed
+INSERT INTO risk_rules (code, libelle, signal, filtre, seuil, points, plafond, fenetre_jours) VALUES
+  ('alerte_critique', 'Alerte critique', 'acces_suspects', '{"severity": "critical"}', 0, 25, 60, 30),
+  ('alerte_elevee', 'Alerte élevée', 'acces_suspects', '{"severity": "high"}', 0, 10, 40, 30),
+  ('alerte_moyenne', 'Alerte moyenne', 'acces_suspects', '{"severity": "medium"}', 1, 3, 15, 14),
+  ('capture_ecran', 'Capture d''écran', 'screenshot_attempts', '{"detection_type": "screenshot"}', 0, 5, 30, 30),
+  ('impression', 'Impression', 'screenshot_attempts', '{"detection_type": "print"}', 0, 5, 20, 30),
+  ('outils_dev', 'Outils de développement', 'screenshot_attempts', '{"detection_type": "devtools"}', 0, 8, 24, 30),
+  ('appareils_simultanes', 'Lecture fermée par la limite d''appareils', 'device_limit', '{}', 1, 4, 20, 14),
+  ('changements_ip', 'Nouvelles adresses IP', 'ip_changes', '{}', 3, 4, 20, 7),
+  ('changements_reseau', 'Nouveaux réseaux (localisation)', 'geo_changes', '{}', 2, 8, 30, 7),
+  ('lecture_rapide', 'Pages aspirées trop vite', 'reading_speed', '{}', 20, 10, 40, 7)
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================================
+-- TABLE : PALIERS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS risk_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  demi_vie_heures numeric NOT NULL DEFAULT 72 CHECK (demi_vie_heures > 0),
+  seuil_avertissement integer NOT NULL DEFAULT 80,
+  seuil_otp integer NOT NULL DEFAULT 60,
+  seuil_verrouillage integer NOT NULL DEFAULT 40,
+  seuil_revocation integer NOT NULL DEFAULT 20,
+  duree_verrouillage_minutes integer NOT NULL DEFAULT 60 CHECK (duree_verrouillage_minutes > 0),
+  validite_otp_heures integer NOT NULL DEFAULT 24 CHECK (validite_otp_heures > 0),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (
+    seuil_avertissement BETWEEN 0 AND 100
+    AND seuil_avertissement >= seuil_otp
+    AND seuil_otp >= seuil_verrouillage
+    AND seuil_verrouillage >= seuil_revocation
+    AND seuil_revocation >= 0
+  )
+);
+
+INSERT INTO risk_settings DEFAULT VALUES ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================
+-- TABLE : DÉCISIONS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS risk_decisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_id uuid REFERENCES tokens(id) ON DELETE SET NULL,
+  score integer NOT NULL,
+  action text NOT NULL CHECK (action IN ('warn', 'step_up', 'lock', 'revoke')),
+  contributions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_decisions_created_at ON risk_decisions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_risk_decisions_user_id ON risk_decisions(user_id, created_at DESC);
+
+ALTER TABLE risk_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE risk_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE risk_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage risk rules"
+  ON risk_rules FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can manage risk settings"
+  ON risk_settings FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can view risk decisions"
+  ON risk_decisions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- ============================================================
+-- FONCTION : Événements d'une règle
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION risk_rule_events(p_rule risk_rules, p_user_id uuid)
+RETURNS TABLE (occurred_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since timestamptz := now() - make_interval(days => p_rule.fenetre_jours);
+  v_tolerated integer := floor(p_rule.seuil)::integer;
+BEGIN
+  CASE p_rule.signal
+    WHEN 'acces_suspects' THEN
+      RETURN QUERY
+        SELECT a.created_at
+        FROM acces_suspects a
+        WHERE a.user_id = p_user_id
+          AND a.created_at > v_since
+          AND COALESCE(a.resolu, false) = false
+          AND (p_rule.filtre->>'type_alerte' IS NULL OR a.type_alerte = p_rule.filtre->>'type_alerte')
+          AND (p_rule.filtre->>'severity' IS NULL OR a.severity = p_rule.filtre->>'severity')
+        ORDER BY a.created_at
+        OFFSET v_tolerated;
+
+    WHEN 'screenshot_attempts' THEN
+      RETURN QUERY
+        SELECT s.created_at
+        FROM screenshot_attempts s
+        WHERE s.user_id = p_user_id
+          AND s.created_at > v_since
+          AND (p_rule.filtre->>'detection_type' IS NULL OR s.detection_type = p_rule.filtre->>'detection_type')
+        ORDER BY s.created_at
+        OFFSET v_tolerated;
+
+    WHEN 'device_limit' THEN
+      RETURN QUERY
+        SELECT s.ended_at
+        FROM active_sessions s
+        WHERE s.user_id = p_user_id
+          AND s.end_reason = 'device_limit'
+          AND s.ended_at > v_since
+        ORDER BY s.ended_at
+        OFFSET v_tolerated;
+
+    WHEN 'ip_changes', 'geo_changes' THEN
+      -- Première apparition de chaque adresse (ou réseau), au-delà des premières tolérées
+      RETURN QUERY
+        SELECT first_seen
+        FROM (
+          SELECT MIN(l.date_access) AS first_seen
+          FROM logs l
+          CROSS JOIN LATERAL (SELECT trim(l.ip) AS ip) client
+          WHERE l.user_id = p_user_id
+            AND l.source = 'serveur'
+            AND l.date_access > v_since
+            AND client.ip NOT IN ('', 'unknown')
+          GROUP BY CASE
+            WHEN p_rule.signal = 'ip_changes' THEN client.ip
+            WHEN position(':' IN client.ip) > 0 THEN split_part(client.ip, ':', 1) || ':' || split_part(client.ip, ':', 2)
+            ELSE split_part(client.ip, '.', 1) || '.' || split_part(client.ip, '.', 2)
+          END
+        ) seen
+        ORDER BY first_seen
+        OFFSET v_tolerated;
+
+    WHEN 'reading_speed' THEN
+      -- Une minute par document où plus de `seuil` pages distinctes ont été servies
+      RETURN QUERY
+        SELECT minutes.minute
+        FROM (
+          SELECT date_trunc('minute', l.date_access) AS minute,
+                 COUNT(DISTINCT page.value) AS pages
+          FROM logs l
+          CROSS JOIN LATERAL jsonb_array_elements(COALESCE(l.pages_vues, '[]'::jsonb)) AS page(value)
+          WHERE l.user_id = p_user_id
+            AND l.source = 'serveur'
+            AND l.date_access > v_since
+          GROUP BY l.pdf_id, 1
+        ) minutes
+        WHERE minutes.pages > p_rule.seuil;
+  END CASE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION risk_rule_events(risk_rules, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- FONCTION : Calcul du score
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION compute_trust_score(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_half_life numeric;
+  v_rule risk_rules;
+  v_events integer;
+  v_rule_penalty numeric;
+  v_rule_last timestamptz;
+  v_penalty numeric := 0;
+  v_last_event timestamptz;
+  v_contributions jsonb := '[]'::jsonb;
+BEGIN
+  SELECT demi_vie_heures INTO v_half_life FROM risk_settings;
+  v_half_life := COALESCE(v_half_life, 72);
+
+  FOR v_rule IN SELECT * FROM risk_rules WHERE actif ORDER BY code LOOP
+    SELECT COUNT(*),
+           COALESCE(SUM(v_rule.points * power(0.5, EXTRACT(EPOCH FROM now() - e.occurred_at) / 3600 / v_half_life)), 0),
+           MAX(e.occurred_at)
+    INTO v_events, v_rule_penalty, v_rule_last
+    FROM risk_rule_events(v_rule, p_user_id) e;
+
+    IF v_events > 0 THEN
+      v_rule_penalty := LEAST(v_rule_penalty, v_rule.plafond);
+      v_penalty := v_penalty + v_rule_penalty;
+      v_last_event := GREATEST(v_last_event, v_rule_last);
+      v_contributions := v_contributions || jsonb_build_array(jsonb_build_object(
+        'code', v_rule.code,
+        'libelle', v_rule.libelle,
+        'evenements', v_events,
+        'points', round(v_rule_penalty, 1)
+      ));
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'score', GREATEST(0, LEAST(100, round(100 - v_penalty)))::integer,
+    'last_event_at', v_last_event,
+    'contributions', v_contributions
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION compute_trust_score(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- FONCTION : Évaluation à l'ouverture d'un lien
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION evaluate_user_risk(
+  p_user_id uuid,
+  p_token_id uuid DEFAULT NULL,
+  p_device_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings risk_settings;
+  v_locked_until timestamptz;
+  v_result jsonb;
+  v_score integer;
+  v_last_event timestamptz;
+  v_action text;
+BEGIN
+  SELECT * INTO v_settings FROM risk_settings;
+
+  SELECT acces_verrouille_jusqu_a INTO v_locked_until
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Utilisateur introuvable');
+  END IF;
+
+  v_result := compute_trust_score(p_user_id);
+  v_score := (v_result->>'score')::integer;
+  v_last_event := (v_result->>'last_event_at')::timestamptz;
+
+  UPDATE users
+  SET score_confiance = v_score, score_calcule_at = now()
+  WHERE id = p_user_id;
+
+  v_action := CASE
+    WHEN v_score < v_settings.seuil_revocation THEN 'revoke'
+    WHEN v_score < v_settings.seuil_verrouillage THEN 'lock'
+    WHEN v_score < v_settings.seuil_otp THEN 'step_up'
+    WHEN v_score < v_settings.seuil_avertissement THEN 'warn'
+    ELSE 'allow'
+  END;
+
+  IF v_action <> 'revoke' AND v_locked_until > now() THEN
+    v_action := 'lock';
+  ELSIF v_action = 'lock' THEN
+    IF v_locked_until IS NULL OR v_last_event > v_locked_until THEN
+      v_locked_until := now() + make_interval(mins => v_settings.duree_verrouillage_minutes);
+      UPDATE users SET acces_verrouille_jusqu_a = v_locked_until WHERE id = p_user_id;
+    ELSE
+      -- Verrouillage déjà purgé sans nouvel incident : on redemande seulement le code
+      v_action := 'step_up';
+    END IF;
+  END IF;
+
+  IF v_action = 'step_up' THEN
+    IF EXISTS (
+      SELECT 1 FROM devices
+      WHERE id = p_device_id
+        AND user_id = p_user_id
+        AND status = 'trusted'
+        AND otp_verified_at > now() - make_interval(hours => v_settings.validite_otp_heures)
+    ) THEN
+      v_action := 'warn';
+    ELSE
+      -- L'appareil repasse par la confirmation WhatsApp (fonction enroll-device)
+      UPDATE devices
+      SET status = 'pending', enrollment_code_hash = NULL, enrollment_sent_at = NULL
+      WHERE id = p_device_id
+        AND user_id = p_user_id
+        AND status = 'trusted';
+    END IF;
+  END IF;
+
+  IF v_action <> 'allow' THEN
+    INSERT INTO risk_decisions (user_id, token_id, score, action, contributions)
+    VALUES (p_user_id, p_token_id, v_score, v_action, v_result->'contributions');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'score', v_score,
+    'action', v_action,
+    'locked_until', CASE WHEN v_action = 'lock' THEN v_locked_until END,
+    'contributions', v_result->'contributions'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION evaluate_user_risk(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- FONCTION : Recalcul après réglage (admin)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION refresh_trust_scores()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Accès réservé aux administrateurs');
+  END IF;
+
+  UPDATE users
+  SET score_confiance = (compute_trust_score(id)->>'score')::integer,
+      score_calcule_at = now()
+  WHERE role = 'lecteur';
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refresh_trust_scores() TO authenticated;
+
+-- ============================================================
+-- TRIGGER : Protection du score et du verrouillage
+-- ============================================================
+
+-- Sans cela, l'abonné remettrait son score à 100 ou lèverait son verrouillage
+CREATE OR REPLACE FUNCTION protect_users_risk_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.score_confiance := 100;
+    NEW.score_calcule_at := NULL;
+    NEW.acces_verrouille_jusqu_a := NULL;
+  ELSIF NEW.score_confiance IS DISTINCT FROM OLD.score_confiance
+    OR NEW.score_calcule_at IS DISTINCT FROM OLD.score_calcule_at
+    OR NEW.acces_verrouille_jusqu_a IS DISTINCT FROM OLD.acces_verrouille_jusqu_a THEN
+    RAISE EXCEPTION 'Le score de confiance ne peut pas être modifié par l''abonné';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_users_risk_columns_trigger ON users;
+CREATE TRIGGER protect_users_risk_columns_trigger
+  BEFORE INSERT OR UPDATE OF score_confiance, score_calcule_at, acces_verrouille_jusqu_a ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_users_risk_columns();
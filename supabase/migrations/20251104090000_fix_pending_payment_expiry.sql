@@ -0,0 +1,90 @@
+/*
+  # Expiration des paiements en attente : priorité des conditions
+
+  1. Problème
+    - `expire_pending_payments()` filtrait sur
+      `statut = 'en_attente' AND (...) OR (expires_at IS NULL AND ...)` :
+      le `OR` s'appliquait sans le filtre de statut
+    - Tout paiement sans `expires_at` de plus de 30 minutes passait en `echoue`,
+      y compris les paiements confirmés (bloquant ensuite `refund_payment()`)
+      et les liens de renouvellement, refusés ensuite par `confirm_payment_secure()`
+
+  2. Modifications
+    - `expire_pending_payments()` ne touche plus que les paiements `en_attente`
+    - Les paiements passés à tort de `confirme` ou `rembourse` à `echoue`
+      reprennent leur statut d'origine, relevé dans `payment_events`
+
+  3. Important Notes
+    - `generate-payment-link` renseigne désormais `expires_at` (durée de vie du lien)
+*/
+
+CREATE OR REPLACE FUNCTION expire_pending_payments()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expired_count integer := 0;
+  v_payment record;
+BEGIN
+  FOR v_payment IN
+    SELECT id, user_id, statut
+    FROM paiements
+    WHERE statut = 'en_attente'
+    AND (
+      (expires_at IS NOT NULL AND expires_at < now())
+      OR (expires_at IS NULL AND created_at < now() - interval '30 minutes')
+    )
+    FOR UPDATE
+  LOOP
+    UPDATE paiements
+    SET
+      statut = 'echoue',
+      notes = COALESCE(notes || ' | ', '') || 'Expired automatically'
+    WHERE id = v_payment.id;
+
+    INSERT INTO payment_events (
+      payment_id,
+      user_id,
+      event_type,
+      old_status,
+      new_status,
+      notes
+    ) VALUES (
+      v_payment.id,
+      v_payment.user_id,
+      'expired',
+      v_payment.statut,
+      'echoue',
+      'Payment expired'
+    );
+
+    v_expired_count := v_expired_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'expired_count', v_expired_count
+  );
+END;
+$$;
+
+-- ============================================================
+-- RÉPARATION DES PAIEMENTS EXPIRÉS À TORT
+-- ============================================================
+
+-- Dernier événement `expired` d'un paiement qui n'était pas en attente
+WITH wrongly_expired AS (
+  SELECT DISTINCT ON (e.payment_id) e.payment_id, e.old_status
+  FROM payment_events e
+  WHERE e.event_type = 'expired'
+  ORDER BY e.payment_id, e.created_at DESC
+)
+UPDATE paiements p
+SET statut = w.old_status,
+    notes = COALESCE(p.notes || ' | ', '') || 'Statut restauré après expiration erronée'
+FROM wrongly_expired w
+WHERE p.id = w.payment_id
+AND p.statut = 'echoue'
+AND w.old_status IN ('confirme', 'rembourse');